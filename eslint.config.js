@@ -8,7 +8,8 @@ import simpleImportSort from 'eslint-plugin-simple-import-sort'
 
 export default [
   {
-    ignores: ['dist/**/*'],
+    // Edge Functions run on Deno and are checked with their own `deno task`s
+    ignores: ['dist/**/*', 'supabase/functions/**/*'],
   },
   {
     files: ['**/*.{ts,tsx}'],
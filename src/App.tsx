@@ -1,13 +1,31 @@
 import { config } from '@app/config'
-import { type ReactElement } from 'react'
+import { type ReactElement, useEffect } from 'react'
 import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
 
 import { QueryProvider } from '@/app/providers/QueryProvider'
+import { useJobAlertPolling } from '@/jobs/hooks'
+import {
+  ApplicationsPage,
+  CompaniesPage,
+  CompanyPage,
+  JobDetailPage,
+  SavedJobsPage,
+} from '@/jobs/pages'
+import { useTranslation } from '@/services/i18n'
 import { useLogger } from '@/services/logging'
 import JobLayout from '@/shared/components/JobLayout'
 
 function App(): ReactElement {
   const logger = useLogger('App')
+  // Re-render the whole tree when the UI language changes
+  const { locale } = useTranslation()
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  // Check job alerts on every page, not only on the search page
+  useJobAlertPolling()
 
   logger.info('Application started with configuration', {
     environment: config.environment,
@@ -25,6 +43,11 @@ function App(): ReactElement {
         <Routes>
           <Route path='/' element={<Navigate to='/jobs/search' replace />} />
           <Route path='/jobs/search' element={<JobLayout />} />
+          <Route path='/jobs/saved' element={<SavedJobsPage />} />
+          <Route path='/jobs/applications' element={<ApplicationsPage />} />
+          <Route path='/jobs/:jobId' element={<JobDetailPage />} />
+          <Route path='/companies' element={<CompaniesPage />} />
+          <Route path='/companies/:companyId' element={<CompanyPage />} />
         </Routes>
       </BrowserRouter>
     </QueryProvider>
@@ -9,6 +9,7 @@ interface AppConfig {
   logLevel: 'error' | 'warn' | 'info' | 'debug'
   logEndpoint: string
   logApiKey: string
+  usdToCrcRate: number
 }
 
 // Create the config using Zod
@@ -27,6 +28,9 @@ const createConfig = (): AppConfig => {
 
     logEndpoint: z.string().optional().default(''),
     logApiKey: z.string().optional().default(''),
+
+    // Colones per US dollar, used to compare CRC and USD salaries
+    usdToCrcRate: z.coerce.number().positive().catch(510),
   })
 
   try {
@@ -38,6 +42,7 @@ const createConfig = (): AppConfig => {
       logLevel: import.meta.env.VITE_LOG_LEVEL,
       logEndpoint: import.meta.env.VITE_LOG_ENDPOINT,
       logApiKey: import.meta.env.VITE_LOG_API_KEY,
+      usdToCrcRate: import.meta.env.VITE_USD_TO_CRC_RATE,
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -3,6 +3,7 @@ import { Box, Button, Container, Typography } from '@mui/material'
 import { type ErrorInfo, type ReactElement, type ReactNode } from 'react'
 import { ErrorBoundary } from 'react-error-boundary'
 
+import { useTranslation } from '@/services/i18n'
 import { logger } from '@/services/logging'
 
 interface Props {
@@ -28,6 +29,7 @@ function handleError(error: Error, errorInfo: ErrorInfo) {
 }
 
 function GlobalErrorFallback({ error, resetErrorBoundary }: Props) {
+  const { t } = useTranslation()
   const handleRetry = () => {
     // Log retry attempt
     logger.userAction('error-boundary-retry', 'ErrorBoundaryProvider', {
@@ -55,10 +57,10 @@ function GlobalErrorFallback({ error, resetErrorBoundary }: Props) {
         textAlign='center'
       >
         <Typography variant='h4' gutterBottom>
-          Oops! Something went wrong
+          {t('errorBoundary.title')}
         </Typography>
         <Typography variant='body1' color='text.secondary' paragraph>
-          We're sorry for the inconvenience. Please try refreshing the page.
+          {t('errorBoundary.message')}
         </Typography>
 
         {/* Show error details in development */}
@@ -82,10 +84,10 @@ function GlobalErrorFallback({ error, resetErrorBoundary }: Props) {
 
         <Box mt={2}>
           <Button variant='contained' onClick={handleRetry} sx={{ mr: 1 }}>
-            Try Again
+            {t('errorBoundary.tryAgain')}
           </Button>
           <Button variant='outlined' onClick={handleRefresh}>
-            Refresh Page
+            {t('errorBoundary.refresh')}
           </Button>
         </Box>
       </Box>
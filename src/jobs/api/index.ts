@@ -7,46 +7,120 @@
  * - jobService: High-level orchestration (use this in components/hooks)
  * - jobRepository: Low-level Supabase access (use for custom queries)
  * - transformer: Data transformation utilities
+ * - queryParser: Web-search style query syntax ("phrase", -term, OR)
  */
 
 // =============================================================================
 // Service (Primary API)
 // =============================================================================
 
-export type { JobDetailResponse, JobSearchResponse } from './jobService'
-export { jobService, searchJobs } from './jobService'
+export type {
+  CompanyDirectorySearchResponse,
+  CompanyProfileResponse,
+  JobCountResponse,
+  JobDetailResponse,
+  JobSearchResponse,
+  SearchFacetsResponse,
+  SearchSuggestionsResponse,
+  SimilarJobsResponse,
+} from './jobService'
+export {
+  countJobs,
+  countJobsSince,
+  getCompanyJobs,
+  getCompanyProfile,
+  getJob,
+  getSearchFacets,
+  getSearchSuggestions,
+  getSimilarJobs,
+  jobService,
+  searchCompanies,
+  searchJobs,
+  searchJobsSince,
+} from './jobService'
 
 // =============================================================================
 // Repository (Low-level Access)
 // =============================================================================
 
 export type {
+  CompanyDirectoryRepositoryResult,
+  CompanyDirectoryResult,
+  CompanyJobBreakdownResult,
+  CompanyJobsRepositoryResult,
   CompanyRow,
   CompanySearchRepositoryResult,
   CompanySearchResult,
+  JobRow,
   JobSearchRepositoryResult,
   JobSearchResult,
+  JobWithCompanyRow,
+  SearchFacetResult,
+  SearchFacetsRepositoryResult,
+  SearchSuggestionRepositoryResult,
+  SearchSuggestionResult,
+  SimilarJobResult,
+  TechnologyRow,
+  TechnologySearchRepositoryResult,
+  TechnologySearchResult,
+  TechnologyWithAliasesRow,
 } from './jobRepository'
 export {
+  countJobs as countJobsFromDb,
+  getActiveJobIds,
   getCompanies,
   getCompaniesForJobs,
+  getCompanyById,
   getCompanyByName,
+  getCompanyDirectory,
+  getCompanyJobBreakdown,
   getJobById,
+  getJobsByCompany,
   getJobWithCompany,
+  getSearchFacets as getSearchFacetsFromDb,
+  getSimilarJobs as getSimilarJobsFromDb,
+  getTechnologies,
+  getTechnologiesForJobs,
   jobRepository,
   searchJobs as searchJobsFromDb,
+  suggestSearchTerms,
 } from './jobRepository'
 
+// =============================================================================
+// Query Parser
+// =============================================================================
+
+export type { QueryToken, QueryTokenType } from './queryParser'
+export {
+  formatQueryToken,
+  formatSearchQuery,
+  normalizeSearchQuery,
+  parseSearchQuery,
+  removeQueryToken,
+} from './queryParser'
+
 // =============================================================================
 // Transformers
 // =============================================================================
 
 export type { TransformSearchResponseParams } from './transformer'
 export {
+  createEmptySearchFacets,
   createEmptySearchResponse,
   formatAbsoluteDate,
+  formatPostedDate,
   formatRelativeDate,
+  formatSalary,
+  formatSalaryAmount,
+  toMonthlyUsdSalary,
+  transformCompany,
+  transformCompanyDirectoryResponse,
+  transformCompanyJobBreakdown,
+  transformCompanyJobsResponse,
   transformJob,
   transformJobs,
+  transformJobWithCompany,
+  transformSearchFacets,
   transformSearchResponse,
+  transformSearchSuggestions,
 } from './transformer'
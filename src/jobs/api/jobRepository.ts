@@ -13,9 +13,14 @@ import {
 } from '@/services/supabase/errors'
 import type { Database } from '@/services/supabase/types/database'
 
+import type { GetCompanyDirectoryRpcParams } from '../types/companies'
 import type {
+  CountJobsRpcParams,
   GetCompaniesRpcParams,
+  GetSearchFacetsRpcParams,
+  GetTechnologiesRpcParams,
   SearchJobsRpcParams,
+  SuggestSearchTermsRpcParams,
 } from '../types/filters'
 
 // =============================================================================
@@ -28,6 +33,12 @@ import type {
 export type JobSearchResult =
   Database['public']['Functions']['search_jobs']['Returns'][number]
 
+/**
+ * Raw job row from the get_similar_jobs RPC function (same shape as search_jobs)
+ */
+export type SimilarJobResult =
+  Database['public']['Functions']['get_similar_jobs']['Returns'][number]
+
 /**
  * Result of a job search operation
  */
@@ -45,6 +56,37 @@ export interface JobSearchRepositoryResult {
  */
 export type CompanyRow = Database['public']['Tables']['companies']['Row']
 
+/**
+ * Raw job row from the jobs table
+ */
+export type JobRow = Database['public']['Tables']['jobs']['Row']
+
+/**
+ * Job row joined with its company (from getJobWithCompany)
+ */
+export type JobWithCompanyRow = JobRow & {
+  companies: CompanyRow | null
+}
+
+/**
+ * Raw row from the get_company_job_breakdown RPC function (one value of one
+ * classification column)
+ */
+export type CompanyJobBreakdownResult =
+  Database['public']['Functions']['get_company_job_breakdown']['Returns'][number]
+
+/**
+ * Result of a paginated company jobs lookup
+ */
+export interface CompanyJobsRepositoryResult {
+  /** Page of active jobs joined with their company */
+  data: JobWithCompanyRow[]
+  /** Total count of the company's active jobs */
+  totalCount: number
+  /** Error if the operation failed */
+  error: SupabaseAppError | null
+}
+
 /**
  * Result from the get_companies_for_search RPC function
  */
@@ -61,6 +103,84 @@ export interface CompanySearchRepositoryResult {
   error: SupabaseAppError | null
 }
 
+/**
+ * Raw row from the get_company_directory RPC function
+ */
+export type CompanyDirectoryResult =
+  Database['public']['Functions']['get_company_directory']['Returns'][number]
+
+/**
+ * Result of a company directory lookup
+ */
+export interface CompanyDirectoryRepositoryResult {
+  /** Page of companies with job counts */
+  data: CompanyDirectoryResult[]
+  /** Total count of matching companies (from window function) */
+  totalCount: number
+  /** Error if the operation failed */
+  error: SupabaseAppError | null
+}
+
+/**
+ * Raw technology row from the database
+ */
+export type TechnologyRow = Database['public']['Tables']['technologies']['Row']
+
+/**
+ * Technology row with its aliases (from getTechnologies)
+ */
+export type TechnologyWithAliasesRow = TechnologyRow & {
+  technology_aliases: { alias: string }[]
+}
+
+/**
+ * Result from the get_technologies_for_search RPC function
+ */
+export type TechnologySearchResult =
+  Database['public']['Functions']['get_technologies_for_search']['Returns'][number]
+
+/**
+ * Result of a technology search operation
+ */
+export interface TechnologySearchRepositoryResult {
+  /** Array of technologies with aliases and job counts */
+  data: TechnologySearchResult[]
+  /** Error if the operation failed */
+  error: SupabaseAppError | null
+}
+
+/**
+ * Raw row from the get_search_facets RPC function (one value of one facet)
+ */
+export type SearchFacetResult =
+  Database['public']['Functions']['get_search_facets']['Returns'][number]
+
+/**
+ * Result of a search facets lookup
+ */
+export interface SearchFacetsRepositoryResult {
+  /** Job counts per facet value */
+  data: SearchFacetResult[]
+  /** Error if the operation failed */
+  error: SupabaseAppError | null
+}
+
+/**
+ * Raw suggestion row from the suggest_search_terms RPC function
+ */
+export type SearchSuggestionResult =
+  Database['public']['Functions']['suggest_search_terms']['Returns'][number]
+
+/**
+ * Result of a search suggestion lookup
+ */
+export interface SearchSuggestionRepositoryResult {
+  /** Array of suggestions (titles, companies, technologies) */
+  data: SearchSuggestionResult[]
+  /** Error if the operation failed */
+  error: SupabaseAppError | null
+}
+
 // =============================================================================
 // Repository Functions
 // =============================================================================
@@ -71,6 +191,7 @@ export interface CompanySearchRepositoryResult {
  * This function calls the PostgreSQL `search_jobs` function which performs:
  * - Full-text search on the search_vector column
  * - Filtering by experience level, employment type, location, work mode, etc.
+ * - Sorting by relevance (ts_rank_cd), newest or oldest
  * - Pagination with LIMIT and OFFSET
  * - Total count using COUNT(*) OVER() window function
  *
@@ -124,6 +245,21 @@ export async function searchJobs(
     if (params.p_date_from !== undefined)
       rpcParams.p_date_from = params.p_date_from
     if (params.p_date_to !== undefined) rpcParams.p_date_to = params.p_date_to
+    if (params.p_sort !== undefined) rpcParams.p_sort = params.p_sort
+    if (params.p_technology !== undefined)
+      rpcParams.p_technology = params.p_technology
+    if (params.p_technology_required_only !== undefined)
+      rpcParams.p_technology_required_only = params.p_technology_required_only
+    if (params.p_exclude_job_ids !== undefined)
+      rpcParams.p_exclude_job_ids = params.p_exclude_job_ids
+    if (params.p_exclude_company !== undefined)
+      rpcParams.p_exclude_company = params.p_exclude_company
+    if (params.p_salary_min !== undefined)
+      rpcParams.p_salary_min = params.p_salary_min
+    if (params.p_salary_max !== undefined)
+      rpcParams.p_salary_max = params.p_salary_max
+    if (params.p_usd_to_crc_rate !== undefined)
+      rpcParams.p_usd_to_crc_rate = params.p_usd_to_crc_rate
 
     const { data, error } = await supabase.rpc('search_jobs', rpcParams)
 
@@ -154,6 +290,172 @@ export async function searchJobs(
   }
 }
 
+/**
+ * Count jobs using the count_jobs RPC function
+ *
+ * Applies the same search and filters as `search_jobs` but only returns the
+ * number of matches, so it is cheap enough to call while filters are being
+ * edited.
+ *
+ * @param params - Count parameters matching the RPC function signature
+ * @returns Number of matching jobs or error
+ *
+ * @example
+ * ```typescript
+ * const result = await countJobs({
+ *   search_query: 'react developer',
+ *   p_province: ['san-jose', 'heredia'],
+ * })
+ * console.log(`${result.data} jobs`)
+ * ```
+ */
+export async function countJobs(params: CountJobsRpcParams): Promise<{
+  data: number
+  error: SupabaseAppError | null
+}> {
+  try {
+    // Build RPC parameters, only including defined values
+    const rpcParams: Database['public']['Functions']['count_jobs']['Args'] = {
+      search_query: params.search_query,
+    }
+
+    // Only add optional parameters if they are defined
+    if (params.p_experience_level !== undefined)
+      rpcParams.p_experience_level = params.p_experience_level
+    if (params.p_employment_type !== undefined)
+      rpcParams.p_employment_type = params.p_employment_type
+    if (params.p_work_mode !== undefined)
+      rpcParams.p_work_mode = params.p_work_mode
+    if (params.p_province !== undefined)
+      rpcParams.p_province = params.p_province
+    if (params.p_job_function !== undefined)
+      rpcParams.p_job_function = params.p_job_function
+    if (params.p_language !== undefined)
+      rpcParams.p_language = params.p_language
+    if (params.p_company !== undefined) rpcParams.p_company = params.p_company
+    if (params.p_date_from !== undefined)
+      rpcParams.p_date_from = params.p_date_from
+    if (params.p_date_to !== undefined) rpcParams.p_date_to = params.p_date_to
+    if (params.p_technology !== undefined)
+      rpcParams.p_technology = params.p_technology
+    if (params.p_technology_required_only !== undefined)
+      rpcParams.p_technology_required_only = params.p_technology_required_only
+    if (params.p_exclude_job_ids !== undefined)
+      rpcParams.p_exclude_job_ids = params.p_exclude_job_ids
+    if (params.p_exclude_company !== undefined)
+      rpcParams.p_exclude_company = params.p_exclude_company
+    if (params.p_salary_min !== undefined)
+      rpcParams.p_salary_min = params.p_salary_min
+    if (params.p_salary_max !== undefined)
+      rpcParams.p_salary_max = params.p_salary_max
+    if (params.p_usd_to_crc_rate !== undefined)
+      rpcParams.p_usd_to_crc_rate = params.p_usd_to_crc_rate
+
+    const { data, error } = await supabase.rpc('count_jobs', rpcParams)
+
+    if (error) {
+      return {
+        data: 0,
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? 0,
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: 0,
+      error: handleUnknownError(error),
+    }
+  }
+}
+
+/**
+ * Get per-value job counts for the enum filters using the get_search_facets RPC
+ *
+ * This function calls the PostgreSQL `get_search_facets` function which:
+ * - Applies the same search and filters as `search_jobs`
+ * - Counts jobs per experience level, employment type, work mode, province,
+ *   job function and language
+ * - Ignores each facet's own selection when counting that facet
+ *
+ * @param params - Facet parameters matching the RPC function signature
+ * @returns One row per facet value with jobs, or error
+ *
+ * @example
+ * ```typescript
+ * const result = await getSearchFacets({
+ *   search_query: 'react',
+ *   p_work_mode: ['remote'],
+ * })
+ * // [{ facet: 'work_mode', value: 'hybrid', job_count: 12 }, ...]
+ * ```
+ */
+export async function getSearchFacets(
+  params: GetSearchFacetsRpcParams
+): Promise<SearchFacetsRepositoryResult> {
+  try {
+    // Build RPC parameters, only including defined values
+    const rpcParams: Database['public']['Functions']['get_search_facets']['Args'] =
+      {
+        search_query: params.search_query,
+      }
+
+    // Only add optional parameters if they are defined
+    if (params.p_experience_level !== undefined)
+      rpcParams.p_experience_level = params.p_experience_level
+    if (params.p_employment_type !== undefined)
+      rpcParams.p_employment_type = params.p_employment_type
+    if (params.p_work_mode !== undefined)
+      rpcParams.p_work_mode = params.p_work_mode
+    if (params.p_province !== undefined)
+      rpcParams.p_province = params.p_province
+    if (params.p_job_function !== undefined)
+      rpcParams.p_job_function = params.p_job_function
+    if (params.p_language !== undefined)
+      rpcParams.p_language = params.p_language
+    if (params.p_company !== undefined) rpcParams.p_company = params.p_company
+    if (params.p_date_from !== undefined)
+      rpcParams.p_date_from = params.p_date_from
+    if (params.p_date_to !== undefined) rpcParams.p_date_to = params.p_date_to
+    if (params.p_technology !== undefined)
+      rpcParams.p_technology = params.p_technology
+    if (params.p_technology_required_only !== undefined)
+      rpcParams.p_technology_required_only = params.p_technology_required_only
+    if (params.p_exclude_job_ids !== undefined)
+      rpcParams.p_exclude_job_ids = params.p_exclude_job_ids
+    if (params.p_exclude_company !== undefined)
+      rpcParams.p_exclude_company = params.p_exclude_company
+    if (params.p_salary_min !== undefined)
+      rpcParams.p_salary_min = params.p_salary_min
+    if (params.p_salary_max !== undefined)
+      rpcParams.p_salary_max = params.p_salary_max
+    if (params.p_usd_to_crc_rate !== undefined)
+      rpcParams.p_usd_to_crc_rate = params.p_usd_to_crc_rate
+
+    const { data, error } = await supabase.rpc('get_search_facets', rpcParams)
+
+    if (error) {
+      return {
+        data: [],
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? [],
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      error: handleUnknownError(error),
+    }
+  }
+}
+
 /**
  * Get a single job by ID
  *
@@ -171,7 +473,7 @@ export async function searchJobs(
  * ```
  */
 export async function getJobById(jobId: number): Promise<{
-  data: Database['public']['Tables']['jobs']['Row'] | null
+  data: JobRow | null
   error: SupabaseAppError | null
 }> {
   try {
@@ -201,6 +503,56 @@ export async function getJobById(jobId: number): Promise<{
   }
 }
 
+/**
+ * Get which of the given jobs are still active
+ *
+ * One query for any number of jobs (e.g. to flag closed saved jobs).
+ *
+ * @param jobIds - The job IDs to check
+ * @returns IDs of the jobs that exist and are active
+ *
+ * @example
+ * ```typescript
+ * const result = await getActiveJobIds([12, 34, 56])
+ * if (!result.error) {
+ *   const closed = [12, 34, 56].filter(id => !result.data.includes(id))
+ * }
+ * ```
+ */
+export async function getActiveJobIds(jobIds: number[]): Promise<{
+  data: number[]
+  error: SupabaseAppError | null
+}> {
+  if (jobIds.length === 0) {
+    return { data: [], error: null }
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('id')
+      .in('id', jobIds)
+      .eq('is_active', true)
+
+    if (error) {
+      return {
+        data: [],
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: (data ?? []).map(({ id }) => id),
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      error: handleUnknownError(error),
+    }
+  }
+}
+
 /**
  * Get a job with its company information
  *
@@ -208,11 +560,7 @@ export async function getJobById(jobId: number): Promise<{
  * @returns The job with company data or null if not found
  */
 export async function getJobWithCompany(jobId: number): Promise<{
-  data:
-    | (Database['public']['Tables']['jobs']['Row'] & {
-        companies: CompanyRow | null
-      })
-    | null
+  data: JobWithCompanyRow | null
   error: SupabaseAppError | null
 }> {
   try {
@@ -242,6 +590,55 @@ export async function getJobWithCompany(jobId: number): Promise<{
   }
 }
 
+/**
+ * Get active jobs similar to a given job using the get_similar_jobs RPC
+ *
+ * This function calls the PostgreSQL `get_similar_jobs` function which scores
+ * other active jobs by shared technologies, same job function and experience
+ * level, and title similarity. Rows have the same shape as `search_jobs`.
+ *
+ * @param jobId - The job to find similar jobs for
+ * @param limit - Maximum number of jobs to return
+ * @returns Similar job rows, most similar first, or error
+ *
+ * @example
+ * ```typescript
+ * const result = await getSimilarJobs(123, 5)
+ * result.data.forEach(job => console.log(job.title))
+ * ```
+ */
+export async function getSimilarJobs(
+  jobId: number,
+  limit: number = 5
+): Promise<{
+  data: SimilarJobResult[]
+  error: SupabaseAppError | null
+}> {
+  try {
+    const { data, error } = await supabase.rpc('get_similar_jobs', {
+      p_job_id: jobId,
+      p_limit: limit,
+    })
+
+    if (error) {
+      return {
+        data: [],
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? [],
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      error: handleUnknownError(error),
+    }
+  }
+}
+
 /**
  * Get company by name (exact match, case-insensitive)
  *
@@ -279,6 +676,131 @@ export async function getCompanyByName(companyName: string): Promise<{
   }
 }
 
+/**
+ * Get an active company by ID
+ *
+ * @param companyId - The company ID to fetch
+ * @returns The company row or null if not found
+ */
+export async function getCompanyById(companyId: number): Promise<{
+  data: CompanyRow | null
+  error: SupabaseAppError | null
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('*')
+      .eq('id', companyId)
+      .eq('is_active', true)
+      .single()
+
+    if (error) {
+      return {
+        data: null,
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data,
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: null,
+      error: handleUnknownError(error),
+    }
+  }
+}
+
+/**
+ * Get a page of a company's active jobs, newest first
+ *
+ * @param companyId - The company whose jobs to fetch
+ * @param limit - Maximum number of jobs to return
+ * @param offset - Number of jobs to skip
+ * @returns Job rows with their company and the total active job count
+ *
+ * @example
+ * ```typescript
+ * const result = await getJobsByCompany(42, 25, 0)
+ * console.log(`${result.totalCount} open positions`)
+ * ```
+ */
+export async function getJobsByCompany(
+  companyId: number,
+  limit: number = 25,
+  offset: number = 0
+): Promise<CompanyJobsRepositoryResult> {
+  try {
+    const { data, error, count } = await supabase
+      .from('jobs')
+      .select('*, companies(*)', { count: 'exact' })
+      .eq('company_id', companyId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      return {
+        data: [],
+        totalCount: 0,
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? [],
+      totalCount: count ?? 0,
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      totalCount: 0,
+      error: handleUnknownError(error),
+    }
+  }
+}
+
+/**
+ * Get the active job counts of a company per classification value using the
+ * get_company_job_breakdown RPC
+ *
+ * Counting happens in the database, so companies with more jobs than the
+ * API's max rows are still counted in full.
+ *
+ * @param companyId - The company whose jobs to count
+ * @returns One row per value of job function, work mode and experience level
+ */
+export async function getCompanyJobBreakdown(companyId: number): Promise<{
+  data: CompanyJobBreakdownResult[]
+  error: SupabaseAppError | null
+}> {
+  try {
+    const { data, error } = await supabase.rpc('get_company_job_breakdown', {
+      p_company_id: companyId,
+    })
+
+    if (error) {
+      return {
+        data: [],
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? [],
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      error: handleUnknownError(error),
+    }
+  }
+}
+
 /**
  * Get all active companies (for autocomplete/dropdown)
  *
@@ -369,6 +891,20 @@ export async function getCompaniesForJobs(
     if (params.p_date_from !== undefined)
       rpcParams.p_date_from = params.p_date_from
     if (params.p_date_to !== undefined) rpcParams.p_date_to = params.p_date_to
+    if (params.p_technology !== undefined)
+      rpcParams.p_technology = params.p_technology
+    if (params.p_technology_required_only !== undefined)
+      rpcParams.p_technology_required_only = params.p_technology_required_only
+    if (params.p_exclude_job_ids !== undefined)
+      rpcParams.p_exclude_job_ids = params.p_exclude_job_ids
+    if (params.p_exclude_company !== undefined)
+      rpcParams.p_exclude_company = params.p_exclude_company
+    if (params.p_salary_min !== undefined)
+      rpcParams.p_salary_min = params.p_salary_min
+    if (params.p_salary_max !== undefined)
+      rpcParams.p_salary_max = params.p_salary_max
+    if (params.p_usd_to_crc_rate !== undefined)
+      rpcParams.p_usd_to_crc_rate = params.p_usd_to_crc_rate
 
     const { data, error } = await supabase.rpc(
       'get_companies_for_search',
@@ -394,6 +930,251 @@ export async function getCompaniesForJobs(
   }
 }
 
+/**
+ * Get a page of the company directory using the get_company_directory RPC
+ *
+ * This function calls the PostgreSQL `get_company_directory` function which:
+ * - Lists every active company with its active job count
+ * - Matches company names by substring
+ * - Optionally keeps only companies hiring for the given job functions
+ * - Sorts by name or job count, with LIMIT/OFFSET pagination
+ * - Returns the total count using COUNT(*) OVER() window function
+ *
+ * @param params - Directory parameters matching the RPC function signature
+ * @returns Companies with job counts and total count, or error
+ *
+ * @example
+ * ```typescript
+ * const result = await getCompanyDirectory({
+ *   p_search: 'soft',
+ *   p_job_function: ['technology-engineering'],
+ *   p_sort: 'job_count',
+ *   p_limit: 24,
+ * })
+ * ```
+ */
+export async function getCompanyDirectory(
+  params: GetCompanyDirectoryRpcParams
+): Promise<CompanyDirectoryRepositoryResult> {
+  try {
+    const rpcParams: Database['public']['Functions']['get_company_directory']['Args'] =
+      {}
+
+    if (params.p_search !== undefined) rpcParams.p_search = params.p_search
+    if (params.p_job_function !== undefined)
+      rpcParams.p_job_function = params.p_job_function
+    if (params.p_sort !== undefined) rpcParams.p_sort = params.p_sort
+    if (params.p_limit !== undefined) rpcParams.p_limit = params.p_limit
+    if (params.p_offset !== undefined) rpcParams.p_offset = params.p_offset
+
+    const { data, error } = await supabase.rpc(
+      'get_company_directory',
+      rpcParams
+    )
+
+    if (error) {
+      return {
+        data: [],
+        totalCount: 0,
+        error: handleUnknownError(error),
+      }
+    }
+
+    // Window function returns the same total for every row
+    const results = data ?? []
+    const totalCount = results[0]?.total_count ?? 0
+
+    return {
+      data: results,
+      totalCount,
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      totalCount: 0,
+      error: handleUnknownError(error),
+    }
+  }
+}
+
+/**
+ * Get all technologies with their aliases (for the technology filter)
+ *
+ * @param limit - Maximum number of technologies to return
+ * @returns Array of technology rows with aliases
+ */
+export async function getTechnologies(limit: number = 100): Promise<{
+  data: TechnologyWithAliasesRow[]
+  error: SupabaseAppError | null
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('technologies')
+      .select('*, technology_aliases(alias)')
+      .order('name', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      return {
+        data: [],
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? [],
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      error: handleUnknownError(error),
+    }
+  }
+}
+
+/**
+ * Get technologies tagged on jobs matching the current search criteria
+ *
+ * This function calls the PostgreSQL `get_technologies_for_search` function which:
+ * - Filters jobs based on the same search criteria used for jobs
+ * - Returns canonical technology names with their aliases, parent IDs and job counts
+ * - `rollup_job_count` also counts jobs tagged with descendant technologies
+ * - Useful for populating the technology filter dropdown dynamically
+ *
+ * @param params - Search parameters (same as job search, excluding technology filter)
+ * @returns Array of technologies with job counts or error
+ *
+ * @example
+ * ```typescript
+ * const result = await getTechnologiesForJobs({
+ *   search_query: 'frontend',
+ *   p_work_mode: ['remote'],
+ * })
+ *
+ * if (!result.error) {
+ *   result.data.forEach(t => console.log(`${t.technology_name}: ${t.rollup_job_count}`))
+ * }
+ * ```
+ */
+export async function getTechnologiesForJobs(
+  params: GetTechnologiesRpcParams
+): Promise<TechnologySearchRepositoryResult> {
+  try {
+    // Build RPC parameters, only including defined values
+    const rpcParams: Database['public']['Functions']['get_technologies_for_search']['Args'] =
+      {
+        search_query: params.search_query,
+      }
+
+    // Only add optional parameters if they are defined
+    if (params.p_limit !== undefined) rpcParams.p_limit = params.p_limit
+    if (params.p_experience_level !== undefined)
+      rpcParams.p_experience_level = params.p_experience_level
+    if (params.p_employment_type !== undefined)
+      rpcParams.p_employment_type = params.p_employment_type
+    if (params.p_work_mode !== undefined)
+      rpcParams.p_work_mode = params.p_work_mode
+    if (params.p_province !== undefined)
+      rpcParams.p_province = params.p_province
+    if (params.p_job_function !== undefined)
+      rpcParams.p_job_function = params.p_job_function
+    if (params.p_company !== undefined) rpcParams.p_company = params.p_company
+    if (params.p_language !== undefined)
+      rpcParams.p_language = params.p_language
+    if (params.p_date_from !== undefined)
+      rpcParams.p_date_from = params.p_date_from
+    if (params.p_date_to !== undefined) rpcParams.p_date_to = params.p_date_to
+    if (params.p_technology_required_only !== undefined)
+      rpcParams.p_technology_required_only = params.p_technology_required_only
+    if (params.p_exclude_job_ids !== undefined)
+      rpcParams.p_exclude_job_ids = params.p_exclude_job_ids
+    if (params.p_exclude_company !== undefined)
+      rpcParams.p_exclude_company = params.p_exclude_company
+    if (params.p_salary_min !== undefined)
+      rpcParams.p_salary_min = params.p_salary_min
+    if (params.p_salary_max !== undefined)
+      rpcParams.p_salary_max = params.p_salary_max
+    if (params.p_usd_to_crc_rate !== undefined)
+      rpcParams.p_usd_to_crc_rate = params.p_usd_to_crc_rate
+
+    const { data, error } = await supabase.rpc(
+      'get_technologies_for_search',
+      rpcParams
+    )
+
+    if (error) {
+      return {
+        data: [],
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? [],
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      error: handleUnknownError(error),
+    }
+  }
+}
+
+/**
+ * Get search-as-you-type suggestions using the suggest_search_terms RPC
+ *
+ * Matches job titles, company names and technology names/aliases by prefix
+ * or trigram similarity. Queries shorter than two characters return nothing.
+ *
+ * @param params - Partially typed query, per-type limit and language
+ * @returns Suggestion rows or error
+ *
+ * @example
+ * ```typescript
+ * const result = await suggestSearchTerms({ p_query: 'reac', p_limit: 5 })
+ * result.data.forEach(s => console.log(s.suggestion_type, s.label))
+ * ```
+ */
+export async function suggestSearchTerms(
+  params: SuggestSearchTermsRpcParams
+): Promise<SearchSuggestionRepositoryResult> {
+  try {
+    const rpcParams: Database['public']['Functions']['suggest_search_terms']['Args'] =
+      {
+        p_query: params.p_query,
+      }
+
+    if (params.p_limit !== undefined) rpcParams.p_limit = params.p_limit
+    if (params.p_language !== undefined)
+      rpcParams.p_language = params.p_language
+
+    const { data, error } = await supabase.rpc(
+      'suggest_search_terms',
+      rpcParams
+    )
+
+    if (error) {
+      return {
+        data: [],
+        error: handleUnknownError(error),
+      }
+    }
+
+    return {
+      data: data ?? [],
+      error: null,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      error: handleUnknownError(error),
+    }
+  }
+}
+
 // =============================================================================
 // Repository Object (Alternative API)
 // =============================================================================
@@ -406,11 +1187,22 @@ export async function getCompaniesForJobs(
  */
 export const jobRepository = {
   searchJobs,
+  countJobs,
+  getSearchFacets,
   getJobById,
+  getActiveJobIds,
   getJobWithCompany,
+  getSimilarJobs,
   getCompanyByName,
+  getCompanyById,
+  getJobsByCompany,
+  getCompanyJobBreakdown,
   getCompanies,
   getCompaniesForJobs,
+  getCompanyDirectory,
+  getTechnologies,
+  getTechnologiesForJobs,
+  suggestSearchTerms,
 } as const
 
 export default jobRepository
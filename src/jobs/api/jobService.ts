@@ -7,13 +7,48 @@
 
 import type { SupabaseAppError } from '@/services/supabase/errors'
 
-import type { JobSearchFilters, JobSearchPagination } from '../types/filters'
-import { toSearchJobsRpcParams } from '../types/filters'
-import type { Job, SearchResponse } from '../types/models'
-import { searchJobs as searchJobsRepository } from './jobRepository'
+import type { CompanyDirectoryFilters } from '../types/companies'
+import { toCompanyDirectoryRpcParams } from '../types/companies'
+import type { Language } from '../types/enums'
+import type {
+  CountJobsRpcParams,
+  JobSearchFilters,
+  JobSearchPagination,
+} from '../types/filters'
+import { toCountJobsRpcParams, toSearchJobsRpcParams } from '../types/filters'
+import type {
+  CompanyDirectoryResponse,
+  CompanyProfile,
+  Job,
+  SearchFacets,
+  SearchResponse,
+  SearchSuggestion,
+} from '../types/models'
 import {
+  countJobs as countJobsRepository,
+  getCompanyById,
+  getCompanyDirectory,
+  getCompanyJobBreakdown,
+  getJobsByCompany,
+  getJobWithCompany,
+  getSearchFacets as getSearchFacetsRepository,
+  getSimilarJobs as getSimilarJobsRepository,
+  searchJobs as searchJobsRepository,
+  suggestSearchTerms,
+} from './jobRepository'
+import { normalizeSearchQuery } from './queryParser'
+import {
+  createEmptySearchFacets,
   createEmptySearchResponse,
+  transformCompany,
+  transformCompanyDirectoryResponse,
+  transformCompanyJobBreakdown,
+  transformCompanyJobsResponse,
+  transformJobs,
+  transformJobWithCompany,
+  transformSearchFacets,
   transformSearchResponse,
+  transformSearchSuggestions,
 } from './transformer'
 
 // =============================================================================
@@ -28,6 +63,65 @@ export interface JobSearchResponse extends SearchResponse {
   error?: SupabaseAppError
 }
 
+/**
+ * Result of counting jobs matching a search
+ */
+export interface JobCountResponse {
+  /** Number of matching jobs (0 on error) */
+  count: number
+  /** Error details if the count failed */
+  error?: SupabaseAppError
+}
+
+/**
+ * Result of a search facets lookup
+ */
+export interface SearchFacetsResponse {
+  /** Job counts per value for each faceted filter (empty on error) */
+  facets: SearchFacets
+  /** Error details if the lookup failed */
+  error?: SupabaseAppError
+}
+
+/**
+ * Result of a search suggestion lookup
+ */
+export interface SearchSuggestionsResponse {
+  /** Suggestions grouped by type (empty on error) */
+  suggestions: SearchSuggestion[]
+  /** Error details if the lookup failed */
+  error?: SupabaseAppError
+}
+
+/**
+ * Result of fetching similar jobs
+ */
+export interface SimilarJobsResponse {
+  /** Similar jobs, most similar first (empty on error) */
+  jobs: Job[]
+  /** Error details if the lookup failed */
+  error?: SupabaseAppError
+}
+
+/**
+ * Result of fetching a company profile
+ */
+export interface CompanyProfileResponse {
+  /** The company with its job summary if found */
+  profile: CompanyProfile | null
+  /** Error details if the fetch failed */
+  error?: SupabaseAppError
+}
+
+/**
+ * Company directory page with optional error information
+ */
+export interface CompanyDirectorySearchResponse
+  extends CompanyDirectoryResponse {
+  /** Error details if the lookup failed */
+  error?: SupabaseAppError
+}
+
 /**
  * Result of fetching a single job
  */
@@ -38,6 +132,31 @@ export interface JobDetailResponse {
   error?: SupabaseAppError
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Date range for jobs posted at or after a cutoff
+ *
+ * The cutoff becomes `p_date_from` unless the filters' own date preset is
+ * narrower (the later bound wins). The end of a custom date range is kept.
+ */
+function toPostedSinceRange(
+  filters: JobSearchFilters,
+  rpcParams: Pick<CountJobsRpcParams, 'p_date_from' | 'p_date_to'>,
+  since: string
+): Pick<CountJobsRpcParams, 'p_date_from' | 'p_date_to'> {
+  const presetFrom = rpcParams.p_date_from
+
+  return {
+    p_date_from:
+      presetFrom && new Date(presetFrom) > new Date(since) ? presetFrom : since,
+    p_date_to:
+      filters.datePreset === 'custom' ? rpcParams.p_date_to : undefined,
+  }
+}
+
 // =============================================================================
 // Search Operations
 // =============================================================================
@@ -46,7 +165,7 @@ export interface JobDetailResponse {
  * Search for jobs with filters and pagination
  *
  * This is the main entry point for job searches. It:
- * 1. Converts frontend filters to RPC parameters
+ * 1. Converts frontend filters to RPC parameters (normalizing the query syntax)
  * 2. Calls the repository to execute the search
  * 3. Transforms the results to frontend format
  * 4. Handles errors gracefully
@@ -81,8 +200,12 @@ export async function searchJobs(
   const page = pagination.page ?? 1
   const pageSize = pagination.pageSize ?? 20
 
-  // Convert frontend filters to RPC parameters
-  const rpcParams = toSearchJobsRpcParams(filters, { page, pageSize })
+  // Convert frontend filters to RPC parameters (query in canonical
+  // web-search syntax, parsed server-side by websearch_to_tsquery)
+  const rpcParams = toSearchJobsRpcParams(
+    { ...filters, query: normalizeSearchQuery(filters.query) },
+    { page, pageSize }
+  )
 
   // Execute the search via repository
   const result = await searchJobsRepository(rpcParams)
@@ -104,6 +227,406 @@ export async function searchJobs(
   })
 }
 
+/**
+ * Count jobs matching filters without fetching them
+ *
+ * Used to preview the result count of staged filters (e.g. "Show 42
+ * results" in the all filters drawer) via the count-only `count_jobs` RPC.
+ *
+ * @param filters - Search filters including the query string
+ * @returns Number of matching jobs or an error
+ *
+ * @example
+ * ```typescript
+ * const { count } = await countJobs({
+ *   query: 'react',
+ *   province: ['san-jose', 'heredia'],
+ * })
+ * ```
+ */
+export async function countJobs(
+  filters: JobSearchFilters
+): Promise<JobCountResponse> {
+  const result = await countJobsRepository(
+    toCountJobsRpcParams({
+      ...filters,
+      query: normalizeSearchQuery(filters.query),
+    })
+  )
+
+  if (result.error) {
+    return { count: 0, error: result.error }
+  }
+
+  return { count: result.data }
+}
+
+/**
+ * Count jobs matching filters that were posted at or after a given time
+ *
+ * Used for "new since last opened" badges on saved searches. The cutoff is
+ * passed to `count_jobs` as `p_date_from`; if the filters' own date preset
+ * is narrower, the later of the two bounds wins. The end of a custom date
+ * range is kept.
+ *
+ * @param filters - Search filters including the query string
+ * @param since - ISO timestamp; only jobs created at or after it are counted
+ * @returns Number of matching jobs or an error
+ *
+ * @example
+ * ```typescript
+ * const { count } = await countJobsSince(
+ *   { query: 'react', workMode: ['remote'] },
+ *   savedSearch.lastOpenedAt
+ * )
+ * ```
+ */
+export async function countJobsSince(
+  filters: JobSearchFilters,
+  since: string
+): Promise<JobCountResponse> {
+  const rpcParams = toCountJobsRpcParams({
+    ...filters,
+    query: normalizeSearchQuery(filters.query),
+  })
+
+  const result = await countJobsRepository({
+    ...rpcParams,
+    ...toPostedSinceRange(filters, rpcParams, since),
+  })
+
+  if (result.error) {
+    return { count: 0, error: result.error }
+  }
+
+  return { count: result.data }
+}
+
+/**
+ * Search for jobs matching filters that were posted at or after a given time
+ *
+ * Used by job alerts to find postings added since the last check. Results
+ * are sorted newest first; the cutoff is applied like in `countJobsSince`.
+ *
+ * @param filters - Search filters including the query string
+ * @param since - ISO timestamp; only jobs created at or after it are returned
+ * @param pagination - Pagination options (defaults to the first 20 jobs)
+ * @returns Search response with new jobs and pagination, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await searchJobsSince(
+ *   { query: 'react', workMode: ['remote'] },
+ *   alert.lastCheckedAt
+ * )
+ * console.log(`${result.pagination?.total ?? 0} new jobs`)
+ * ```
+ */
+export async function searchJobsSince(
+  filters: JobSearchFilters,
+  since: string,
+  pagination: JobSearchPagination = {}
+): Promise<JobSearchResponse> {
+  const page = pagination.page ?? 1
+  const pageSize = pagination.pageSize ?? 20
+
+  const rpcParams = toSearchJobsRpcParams(
+    {
+      ...filters,
+      query: normalizeSearchQuery(filters.query),
+      sort: 'newest',
+    },
+    { page, pageSize }
+  )
+
+  const result = await searchJobsRepository({
+    ...rpcParams,
+    ...toPostedSinceRange(filters, rpcParams, since),
+  })
+
+  if (result.error) {
+    return {
+      ...createEmptySearchResponse(page, pageSize),
+      error: result.error,
+    }
+  }
+
+  return transformSearchResponse({
+    jobs: result.data,
+    totalCount: result.totalCount,
+    page,
+    pageSize,
+  })
+}
+
+/**
+ * Get per-value job counts for the faceted filters
+ *
+ * Each facet is counted under the query and all other filters but not its
+ * own selection, so every option shows how many jobs selecting it would
+ * add (or leave, for single selections).
+ *
+ * @param filters - Search filters including the query string
+ * @returns Job counts per value for each faceted filter or an error
+ *
+ * @example
+ * ```typescript
+ * const { facets } = await getSearchFacets({ query: 'react' })
+ * console.log(facets.workMode.remote ?? 0)
+ * ```
+ */
+export async function getSearchFacets(
+  filters: JobSearchFilters
+): Promise<SearchFacetsResponse> {
+  // Facets take the same parameters as count_jobs
+  const result = await getSearchFacetsRepository(
+    toCountJobsRpcParams({
+      ...filters,
+      query: normalizeSearchQuery(filters.query),
+    })
+  )
+
+  if (result.error) {
+    return { facets: createEmptySearchFacets(), error: result.error }
+  }
+
+  return { facets: transformSearchFacets(result.data) }
+}
+
+/**
+ * Get search-as-you-type suggestions for a partially typed query
+ *
+ * @param query - Text typed so far
+ * @param languages - Posting languages to match (all languages when empty)
+ * @param limit - Maximum suggestions per type
+ * @returns Title, company and technology suggestions or an error
+ *
+ * @example
+ * ```typescript
+ * const { suggestions } = await getSearchSuggestions('reac')
+ * // [{ type: 'technology', label: 'React', matchedAlias: null, jobCount: 42 }, ...]
+ * ```
+ */
+export async function getSearchSuggestions(
+  query: string,
+  languages?: Language[],
+  limit: number = 5
+): Promise<SearchSuggestionsResponse> {
+  const result = await suggestSearchTerms({
+    p_query: query,
+    p_limit: limit,
+    p_language: languages?.length ? languages : undefined,
+  })
+
+  if (result.error) {
+    return { suggestions: [], error: result.error }
+  }
+
+  return { suggestions: transformSearchSuggestions(result.data) }
+}
+
+// =============================================================================
+// Single Job Operations
+// =============================================================================
+
+/**
+ * Fetch a single active job with its company
+ *
+ * Inactive or deleted postings come back with a `NOT_FOUND` error so the
+ * caller can tell "posting removed" apart from a failed request.
+ *
+ * @param jobId - The job ID to fetch
+ * @returns The transformed job or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await getJob(123)
+ *
+ * if (result.error?.type === 'NOT_FOUND') {
+ *   console.log('Posting closed or removed')
+ * } else if (result.job) {
+ *   console.log(result.job.title)
+ * }
+ * ```
+ */
+export async function getJob(jobId: number): Promise<JobDetailResponse> {
+  const result = await getJobWithCompany(jobId)
+
+  if (result.error) {
+    return { job: null, error: result.error }
+  }
+
+  return {
+    job: result.data ? transformJobWithCompany(result.data) : null,
+  }
+}
+
+/**
+ * Fetch active jobs similar to a given job
+ *
+ * @param jobId - The job to find similar jobs for
+ * @param limit - Maximum number of jobs to return
+ * @returns Similar jobs, most similar first, or an error
+ *
+ * @example
+ * ```typescript
+ * const { jobs } = await getSimilarJobs(123)
+ * jobs.forEach(job => console.log(job.title))
+ * ```
+ */
+export async function getSimilarJobs(
+  jobId: number,
+  limit: number = 5
+): Promise<SimilarJobsResponse> {
+  const result = await getSimilarJobsRepository(jobId, limit)
+
+  if (result.error) {
+    return { jobs: [], error: result.error }
+  }
+
+  return { jobs: transformJobs(result.data) }
+}
+
+// =============================================================================
+// Company Operations
+// =============================================================================
+
+/**
+ * Search the company directory
+ *
+ * @param filters - Name search, job function filter and sort order
+ * @param pagination - Pagination options (page, pageSize)
+ * @returns Companies with job counts and pagination, and optional error
+ *
+ * @example
+ * ```typescript
+ * const result = await searchCompanies(
+ *   { search: 'bank', sort: 'job_count' },
+ *   { page: 1, pageSize: 24 }
+ * )
+ * result.companies.forEach(c => console.log(`${c.name}: ${c.jobCount}`))
+ * ```
+ */
+export async function searchCompanies(
+  filters: CompanyDirectoryFilters,
+  pagination: JobSearchPagination = {}
+): Promise<CompanyDirectorySearchResponse> {
+  const page = pagination.page ?? 1
+  const pageSize = pagination.pageSize ?? 24
+
+  const result = await getCompanyDirectory(
+    toCompanyDirectoryRpcParams(filters, { page, pageSize })
+  )
+
+  if (result.error) {
+    return {
+      companies: [],
+      pagination: {
+        total: 0,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+        hasMore: false,
+      },
+      error: result.error,
+    }
+  }
+
+  return transformCompanyDirectoryResponse({
+    companies: result.data,
+    totalCount: result.totalCount,
+    page,
+    pageSize,
+  })
+}
+
+/**
+ * Fetch an active company with a summary of its open positions
+ *
+ * Inactive or unknown companies come back with a `NOT_FOUND` error.
+ *
+ * @param companyId - The company ID to fetch
+ * @returns The company, its active job count and breakdown, or an error
+ *
+ * @example
+ * ```typescript
+ * const { profile } = await getCompanyProfile(42)
+ * profile?.breakdown.workMode // [{ value: 'remote', count: 5 }, ...]
+ * ```
+ */
+export async function getCompanyProfile(
+  companyId: number
+): Promise<CompanyProfileResponse> {
+  const [companyResult, breakdownResult] = await Promise.all([
+    getCompanyById(companyId),
+    getCompanyJobBreakdown(companyId),
+  ])
+
+  const error = companyResult.error ?? breakdownResult.error
+  if (error) {
+    return { profile: null, error }
+  }
+
+  if (!companyResult.data) {
+    return { profile: null }
+  }
+
+  // Every active job has a job function, so its counts add up to the total
+  const breakdown = transformCompanyJobBreakdown(breakdownResult.data)
+  const activeJobCount = breakdown.jobFunction.reduce(
+    (total, { count }) => total + count,
+    0
+  )
+
+  return {
+    profile: {
+      company: transformCompany(companyResult.data),
+      activeJobCount,
+      breakdown,
+    },
+  }
+}
+
+/**
+ * Fetch a page of a company's active jobs, newest first
+ *
+ * @param companyId - The company whose jobs to fetch
+ * @param pagination - Pagination options (page, pageSize)
+ * @returns The company's jobs with pagination, and optional error
+ *
+ * @example
+ * ```typescript
+ * const result = await getCompanyJobs(42, { page: 2, pageSize: 25 })
+ * result.jobs.forEach(job => console.log(job.title))
+ * ```
+ */
+export async function getCompanyJobs(
+  companyId: number,
+  pagination: JobSearchPagination = {}
+): Promise<JobSearchResponse> {
+  const page = pagination.page ?? 1
+  const pageSize = pagination.pageSize ?? 20
+
+  const result = await getJobsByCompany(
+    companyId,
+    pageSize,
+    (page - 1) * pageSize
+  )
+
+  if (result.error) {
+    return {
+      ...createEmptySearchResponse(page, pageSize),
+      error: result.error,
+    }
+  }
+
+  return transformCompanyJobsResponse({
+    jobs: result.data,
+    totalCount: result.totalCount,
+    page,
+    pageSize,
+  })
+}
+
 // =============================================================================
 // Service Object (Alternative API)
 // =============================================================================
@@ -130,6 +653,66 @@ export const jobService = {
    * @see searchJobs
    */
   search: searchJobs,
+
+  /**
+   * Count jobs matching filters
+   * @see countJobs
+   */
+  count: countJobs,
+
+  /**
+   * Count jobs posted since a given time
+   * @see countJobsSince
+   */
+  countSince: countJobsSince,
+
+  /**
+   * Search for jobs posted since a given time
+   * @see searchJobsSince
+   */
+  searchSince: searchJobsSince,
+
+  /**
+   * Get per-value job counts for the faceted filters
+   * @see getSearchFacets
+   */
+  getFacets: getSearchFacets,
+
+  /**
+   * Get search-as-you-type suggestions
+   * @see getSearchSuggestions
+   */
+  suggest: getSearchSuggestions,
+
+  /**
+   * Fetch a single job by ID
+   * @see getJob
+   */
+  getById: getJob,
+
+  /**
+   * Fetch jobs similar to a job
+   * @see getSimilarJobs
+   */
+  getSimilar: getSimilarJobs,
+
+  /**
+   * Search the company directory
+   * @see searchCompanies
+   */
+  searchCompanies,
+
+  /**
+   * Fetch a company with its job summary
+   * @see getCompanyProfile
+   */
+  getCompanyProfile,
+
+  /**
+   * Fetch a page of a company's jobs
+   * @see getCompanyJobs
+   */
+  getCompanyJobs,
 } as const
 
 export default jobService
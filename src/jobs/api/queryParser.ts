@@ -0,0 +1,188 @@
+/**
+ * Search Query Parser
+ *
+ * Parses the web-search style syntax accepted by the search box:
+ * - `react developer`: all terms must match
+ * - `"exact phrase"`: words must appear next to each other
+ * - `-java`, `-"legacy code"`: exclude a term or phrase
+ * - `react OR vue`: either side may match
+ *
+ * The rules mirror Postgres `websearch_to_tsquery`, which the search
+ * functions use, so the tokens shown in the UI match what is searched.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Kind of token in a parsed query
+ */
+export type QueryTokenType = 'term' | 'phrase' | 'or'
+
+/**
+ * A single token of a parsed search query
+ */
+export interface QueryToken {
+  /** Token kind */
+  type: QueryTokenType
+  /** Term or phrase text (without quotes or `-`); `OR` for operators */
+  value: string
+  /** Whether the term or phrase is excluded (`-term`) */
+  excluded: boolean
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Matches an optionally negated quoted phrase (closing quote optional)
+ * or a bare word
+ */
+const TOKEN_PATTERN = /(-?)"([^"]*)"?|(\S+)/g
+
+/**
+ * Drop OR operators that have no term on one side
+ * (leading, trailing or repeated), like websearch_to_tsquery does
+ */
+function removeDanglingOperators(tokens: QueryToken[]): QueryToken[] {
+  const result: QueryToken[] = []
+
+  for (const token of tokens) {
+    const previous = result[result.length - 1]
+    if (token.type === 'or' && (!previous || previous.type === 'or')) {
+      continue
+    }
+    result.push(token)
+  }
+
+  if (result[result.length - 1]?.type === 'or') {
+    result.pop()
+  }
+
+  return result
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Parse a search query into tokens
+ *
+ * @param query - Raw query typed into the search box
+ * @returns Tokens in query order (empty for a blank query)
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('"data engineer" -java react OR vue')
+ * // [
+ * //   { type: 'phrase', value: 'data engineer', excluded: false },
+ * //   { type: 'term', value: 'java', excluded: true },
+ * //   { type: 'term', value: 'react', excluded: false },
+ * //   { type: 'or', value: 'OR', excluded: false },
+ * //   { type: 'term', value: 'vue', excluded: false },
+ * // ]
+ * ```
+ */
+export function parseSearchQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = []
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [, negation, phrase, word] = match
+
+    if (phrase !== undefined) {
+      const value = phrase.trim().replace(/\s+/g, ' ')
+      if (value) {
+        tokens.push({ type: 'phrase', value, excluded: negation === '-' })
+      }
+      continue
+    }
+
+    if (word === undefined) continue
+
+    if (word.toLowerCase() === 'or') {
+      tokens.push({ type: 'or', value: 'OR', excluded: false })
+      continue
+    }
+
+    const excluded = word.startsWith('-')
+    const value = excluded ? word.slice(1) : word
+    if (value) {
+      tokens.push({ type: 'term', value, excluded })
+    }
+  }
+
+  return removeDanglingOperators(tokens)
+}
+
+/**
+ * Format a single token as it would be typed
+ *
+ * @example
+ * ```typescript
+ * formatQueryToken({ type: 'phrase', value: 'data engineer', excluded: true })
+ * // '-"data engineer"'
+ * ```
+ */
+export function formatQueryToken(token: QueryToken): string {
+  if (token.type === 'or') return 'OR'
+
+  const text = token.type === 'phrase' ? `"${token.value}"` : token.value
+  return token.excluded ? `-${text}` : text
+}
+
+/**
+ * Format tokens back into a query string
+ *
+ * @param tokens - Tokens to format
+ * @returns Canonical query string
+ */
+export function formatSearchQuery(tokens: QueryToken[]): string {
+  return removeDanglingOperators(tokens).map(formatQueryToken).join(' ')
+}
+
+/**
+ * Normalize a query to its canonical form (balanced quotes,
+ * collapsed whitespace, no dangling OR)
+ *
+ * @example
+ * ```typescript
+ * normalizeSearchQuery('  react   OR  "next js')
+ * // 'react OR "next js"'
+ * ```
+ */
+export function normalizeSearchQuery(query: string): string {
+  return formatSearchQuery(parseSearchQuery(query))
+}
+
+/**
+ * Remove a token from a query
+ *
+ * An `OR` next to the removed term is dropped with it.
+ *
+ * @param query - Raw query
+ * @param index - Index of the token in `parseSearchQuery(query)`
+ * @returns Canonical query without the token
+ *
+ * @example
+ * ```typescript
+ * removeQueryToken('react OR vue -java', 2) // 'react -java'
+ * ```
+ */
+export function removeQueryToken(query: string, index: number): string {
+  const tokens = parseSearchQuery(query)
+
+  // Removing one side of `a OR b` removes the operator with it
+  const removed = new Set([index])
+  if (tokens[index - 1]?.type === 'or') {
+    removed.add(index - 1)
+  } else if (tokens[index + 1]?.type === 'or') {
+    removed.add(index + 1)
+  }
+
+  return formatSearchQuery(
+    tokens.filter((_, tokenIndex) => !removed.has(tokenIndex))
+  )
+}
@@ -6,10 +6,32 @@
  * camelCase frontend fields.
  */
 
+import { getIntlLocale, translate } from '@/services/i18n'
 import { logger } from '@/services/logging'
 
-import type { Job, SearchResponse } from '../types/models'
-import type { JobSearchResult } from './jobRepository'
+import type { SalaryCurrency, SalaryPeriod } from '../types/enums'
+import type { FacetFilterKey } from '../types/filters'
+import type {
+  CompanyDetails,
+  CompanyDirectoryResponse,
+  CompanyJobBreakdown,
+  Job,
+  JobSalary,
+  SearchFacets,
+  SearchResponse,
+  SearchSuggestion,
+  SearchSuggestionType,
+  ValueCount,
+} from '../types/models'
+import type {
+  CompanyDirectoryResult,
+  CompanyJobBreakdownResult,
+  CompanyRow,
+  JobSearchResult,
+  JobWithCompanyRow,
+  SearchFacetResult,
+  SearchSuggestionResult,
+} from './jobRepository'
 
 // =============================================================================
 // Single Job Transformation
@@ -28,7 +50,7 @@ export function transformJob(dbJob: JobSearchResult): Job {
     title: dbJob.title,
     company: dbJob.company_name,
     companyId: dbJob.company_id.toString(),
-    // Note: companyLogoUrl is omitted as it's not available in current schema
+    companyLogoUrl: dbJob.company_logo_url ?? undefined,
 
     // Job details
     description: dbJob.description,
@@ -55,8 +77,89 @@ export function transformJob(dbJob: JobSearchResult): Job {
     // Technologies
     technologies: dbJob.main_technologies ?? [],
 
+    // Compensation
+    salary: toJobSalary(dbJob),
+
     // Date information
-    postedDate: formatRelativeDate(dbJob.created_at),
+    postedAt: dbJob.created_at,
+  }
+}
+
+/**
+ * Transform a job row joined with its company to frontend Job format
+ *
+ * Used for single-job lookups (e.g. the shareable job detail route), where
+ * the row comes from the jobs table rather than the search_jobs RPC.
+ *
+ * @param dbJob - Job row with nested company from getJobWithCompany
+ * @returns Transformed Job object for frontend use
+ */
+export function transformJobWithCompany(dbJob: JobWithCompanyRow): Job {
+  return {
+    // Basic job information
+    id: dbJob.id.toString(),
+    title: dbJob.title,
+    company: dbJob.companies?.name ?? '',
+    companyId: dbJob.company_id?.toString() ?? '',
+    companyLogoUrl: dbJob.companies?.logo_url ?? undefined,
+
+    // Job details
+    description: dbJob.description,
+    responsibilities: dbJob.responsibilities ?? [],
+    benefits: dbJob.benefits ?? [],
+    applicationUrl: dbJob.application_url,
+
+    // Job classification
+    experience: dbJob.experience_level,
+    jobType: dbJob.employment_type,
+    location: dbJob.location,
+    workMode: dbJob.work_mode,
+    province: dbJob.province,
+    jobFunction: dbJob.job_function,
+    language: dbJob.language,
+    city: dbJob.city,
+
+    // Requirements
+    requirements: {
+      mustHave: dbJob.skill_must_have ?? [],
+      niceToHave: dbJob.skill_nice_have ?? [],
+    },
+
+    // Technologies
+    technologies: dbJob.main_technologies ?? [],
+
+    // Compensation
+    salary: toJobSalary(dbJob),
+
+    // Date information
+    postedAt: dbJob.created_at,
+  }
+}
+
+/**
+ * Build the salary from the salary columns of a job row
+ *
+ * @returns The salary, or null when no amount (or unit) is set
+ */
+function toJobSalary(dbJob: {
+  salary_min: number | null
+  salary_max: number | null
+  salary_currency: SalaryCurrency | null
+  salary_period: SalaryPeriod | null
+}): JobSalary | null {
+  if (
+    (dbJob.salary_min === null && dbJob.salary_max === null) ||
+    !dbJob.salary_currency ||
+    !dbJob.salary_period
+  ) {
+    return null
+  }
+
+  return {
+    min: dbJob.salary_min,
+    max: dbJob.salary_max,
+    currency: dbJob.salary_currency,
+    period: dbJob.salary_period,
   }
 }
 
@@ -138,12 +241,230 @@ export function createEmptySearchResponse(
   }
 }
 
+// =============================================================================
+// Search Suggestions
+// =============================================================================
+
+const SUGGESTION_TYPES: readonly SearchSuggestionType[] = [
+  'title',
+  'company',
+  'technology',
+]
+
+/**
+ * Transform suggestion rows to frontend format
+ *
+ * Rows with an unknown suggestion type are dropped.
+ *
+ * @param rows - Rows from the suggest_search_terms RPC function
+ * @returns Suggestions in database order (grouped by type)
+ */
+export function transformSearchSuggestions(
+  rows: SearchSuggestionResult[]
+): SearchSuggestion[] {
+  return rows.flatMap(row => {
+    const type = SUGGESTION_TYPES.find(value => value === row.suggestion_type)
+    if (!type) {
+      logger.warn('Unknown search suggestion type', {
+        type: row.suggestion_type,
+      })
+      return []
+    }
+
+    return [
+      {
+        type,
+        label: row.label,
+        matchedAlias: row.matched_alias,
+        jobCount: row.job_count,
+      },
+    ]
+  })
+}
+
+// =============================================================================
+// Search Facets
+// =============================================================================
+
+/**
+ * Filter key for each facet column returned by get_search_facets
+ */
+const FACET_COLUMNS: Record<string, FacetFilterKey> = {
+  experience_level: 'experienceLevel',
+  employment_type: 'employmentType',
+  work_mode: 'workMode',
+  province: 'province',
+  job_function: 'jobFunction',
+  language: 'language',
+}
+
+/**
+ * Create facets without any counts
+ */
+export function createEmptySearchFacets(): SearchFacets {
+  return {
+    experienceLevel: {},
+    employmentType: {},
+    workMode: {},
+    province: {},
+    jobFunction: {},
+    language: {},
+  }
+}
+
+/**
+ * Transform facet rows to per-filter value counts
+ *
+ * Rows with an unknown facet column are dropped.
+ *
+ * @param rows - Rows from the get_search_facets RPC function
+ * @returns Job counts per value for each faceted filter
+ */
+export function transformSearchFacets(rows: SearchFacetResult[]): SearchFacets {
+  const facets = createEmptySearchFacets()
+
+  for (const row of rows) {
+    const key = FACET_COLUMNS[row.facet]
+    if (!key) {
+      logger.warn('Unknown search facet', { facet: row.facet })
+      continue
+    }
+
+    facets[key][row.value] = row.job_count
+  }
+
+  return facets
+}
+
+// =============================================================================
+// Company Transformation
+// =============================================================================
+
+/**
+ * Transform a database company row to frontend CompanyDetails format
+ *
+ * @param dbCompany - Row from the companies table
+ * @returns Transformed company with profile details for frontend use
+ */
+export function transformCompany(dbCompany: CompanyRow): CompanyDetails {
+  return {
+    id: dbCompany.id.toString(),
+    name: dbCompany.name,
+    logoUrl: dbCompany.logo_url,
+    website: dbCompany.website,
+    description: dbCompany.description,
+  }
+}
+
+/**
+ * Transform a company directory page to frontend format
+ *
+ * @param params - Directory rows and pagination info
+ * @returns CompanyDirectoryResponse for frontend use
+ */
+export function transformCompanyDirectoryResponse(params: {
+  companies: CompanyDirectoryResult[]
+  totalCount: number
+  page: number
+  pageSize: number
+}): CompanyDirectoryResponse {
+  const { companies, totalCount, page, pageSize } = params
+  const offset = (page - 1) * pageSize
+
+  return {
+    companies: companies.map(row => ({
+      id: row.company_id.toString(),
+      name: row.company_name,
+      logoUrl: row.company_logo_url,
+      jobCount: row.job_count,
+    })),
+    pagination: {
+      total: totalCount,
+      limit: pageSize,
+      offset,
+      hasMore: offset + companies.length < totalCount,
+    },
+  }
+}
+
+/**
+ * Breakdown key for each classification column returned by
+ * get_company_job_breakdown
+ */
+const BREAKDOWN_COLUMNS: Record<string, keyof CompanyJobBreakdown> = {
+  job_function: 'jobFunction',
+  work_mode: 'workMode',
+  experience_level: 'experienceLevel',
+}
+
+/**
+ * Group a company's job counts by function, work mode and experience level
+ *
+ * Rows with an unknown classification column are dropped.
+ *
+ * @param rows - Rows from the get_company_job_breakdown RPC function
+ * @returns Counts per value, most common first
+ */
+export function transformCompanyJobBreakdown(
+  rows: CompanyJobBreakdownResult[]
+): CompanyJobBreakdown {
+  const breakdown: Record<keyof CompanyJobBreakdown, ValueCount<string>[]> = {
+    jobFunction: [],
+    workMode: [],
+    experienceLevel: [],
+  }
+
+  for (const row of rows) {
+    const key = BREAKDOWN_COLUMNS[row.facet]
+    if (!key) {
+      logger.warn('Unknown company breakdown column', { facet: row.facet })
+      continue
+    }
+
+    breakdown[key].push({ value: row.value, count: row.job_count })
+  }
+
+  Object.values(breakdown).forEach(counts =>
+    counts.sort((a, b) => b.count - a.count)
+  )
+
+  // Values come straight from the enum columns
+  return breakdown as CompanyJobBreakdown
+}
+
+/**
+ * Transform a page of a company's jobs to frontend SearchResponse format
+ *
+ * @param params - Job rows with their company and pagination info
+ * @returns SearchResponse for the company's open positions
+ */
+export function transformCompanyJobsResponse(params: {
+  jobs: JobWithCompanyRow[]
+  totalCount: number
+  page: number
+  pageSize: number
+}): SearchResponse {
+  const { jobs, totalCount, page, pageSize } = params
+  const offset = (page - 1) * pageSize
+
+  return {
+    jobs: jobs.map(transformJobWithCompany),
+    pagination: {
+      total: totalCount,
+      limit: pageSize,
+      offset,
+      hasMore: offset + jobs.length < totalCount,
+    },
+  }
+}
+
 // =============================================================================
 // Date Formatting
 // =============================================================================
 
 /**
- * Format a date string as a relative time (e.g., "2 days ago")
+ * Format a date string as a relative time in the active locale
+ * (e.g., "2 days ago", "hace 2 días")
  *
  * @param dateString - ISO date string from the database
  * @returns Human-readable relative date string
@@ -156,32 +477,31 @@ export function formatRelativeDate(dateString: string): string {
 
     // Handle negative differences (future dates)
     if (diffInMs < 0) {
-      return 'just now'
+      return translate('dates.justNow')
     }
 
     const diffInMinutes = Math.floor(diffInMs / (1000 * 60))
     const diffInHours = Math.floor(diffInMs / (1000 * 60 * 60))
     const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24))
 
+    const format = new Intl.RelativeTimeFormat(getIntlLocale(), {
+      numeric: 'always',
+    })
+
     // Same day - show hours/minutes
     if (diffInDays === 0) {
-      if (diffInMinutes <= 1) return '1 minute ago'
-      if (diffInMinutes < 60) return `${diffInMinutes} minutes ago`
-      if (diffInHours === 1) return '1 hour ago'
-      return `${diffInHours} hours ago`
+      if (diffInMinutes < 60) {
+        return format.format(-Math.max(diffInMinutes, 1), 'minute')
+      }
+      return format.format(-diffInHours, 'hour')
     }
 
-    // Days
-    if (diffInDays === 1) return '1 day ago'
-    if (diffInDays < 7) return `${diffInDays} days ago`
-
-    // Weeks
-    if (diffInDays < 14) return '1 week ago'
-    if (diffInDays < 30) return `${Math.floor(diffInDays / 7)} weeks ago`
-
-    // Months
-    if (diffInDays < 60) return '1 month ago'
-    return `${Math.floor(diffInDays / 30)} months ago`
+    // Days, then weeks, then months
+    if (diffInDays < 7) return format.format(-diffInDays, 'day')
+    if (diffInDays < 30) {
+      return format.format(-Math.floor(diffInDays / 7), 'week')
+    }
+    return format.format(-Math.floor(diffInDays / 30), 'month')
   } catch (error) {
     logger.warn('Error parsing date', {
       component: 'transformer',
@@ -189,12 +509,13 @@ export function formatRelativeDate(dateString: string): string {
       dateString,
       error: error instanceof Error ? error.message : 'unknown',
     })
-    return 'unknown'
+    return translate('dates.unknown')
   }
 }
 
 /**
- * Format a date string as an absolute date (e.g., "Jan 15, 2024")
+ * Format a date string as an absolute date in the active locale
+ * (e.g., "Jan 15, 2024", "15 ene 2024")
  *
  * @param dateString - ISO date string from the database
  * @returns Formatted absolute date string
@@ -202,7 +523,7 @@ export function formatRelativeDate(dateString: string): string {
 export function formatAbsoluteDate(dateString: string): string {
   try {
     const date = new Date(dateString)
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(getIntlLocale(), {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -214,6 +535,134 @@ export function formatAbsoluteDate(dateString: string): string {
       dateString,
       error: error instanceof Error ? error.message : 'unknown',
     })
-    return 'unknown'
+    return translate('dates.unknown')
+  }
+}
+
+/**
+ * Format when a job was posted, relative to now
+ *
+ * Formatting happens at render time so the text follows the active locale
+ * (cached jobs only hold the raw timestamp). Saved job snapshots from before
+ * `postedAt` existed have no date and come back empty.
+ *
+ * @param job - Job to format
+ * @returns Relative posted date in the active locale, or an empty string
+ */
+export function formatPostedDate(job: Job): string {
+  return job.postedAt ? formatRelativeDate(job.postedAt) : ''
+}
+
+// =============================================================================
+// Salary Formatting
+// =============================================================================
+
+/**
+ * Average hours worked per month (40 hours/week), matching the
+ * salary_to_monthly_usd database function
+ */
+const HOURS_PER_MONTH = 173.33
+
+/**
+ * Format a salary amount with its currency symbol, without decimals,
+ * using the active locale's number format
+ *
+ * @example
+ * ```typescript
+ * formatSalaryAmount(850000, 'crc') // '₡850,000'
+ * formatSalaryAmount(3000, 'usd') // '$3,000'
+ * ```
+ */
+export function formatSalaryAmount(
+  amount: number,
+  currency: SalaryCurrency
+): string {
+  return new Intl.NumberFormat(getIntlLocale(), {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    currencyDisplay: 'narrowSymbol',
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+/**
+ * Format a salary range for display in the active locale
+ *
+ * @param salary - Salary to format
+ * @returns Display string, e.g. "$3,000 – $4,500 / month"
+ *
+ * @example
+ * ```typescript
+ * formatSalary({ min: 3000, max: 4500, currency: 'usd', period: 'monthly' })
+ * // '$3,000 – $4,500 / month'
+ * formatSalary({ min: 800000, max: null, currency: 'crc', period: 'monthly' })
+ * // 'From ₡800,000 / month'
+ * ```
+ */
+export function formatSalary(salary: JobSalary): string {
+  const { min, max, currency, period } = salary
+  const suffix = translate(`salary.periods.${period}`)
+
+  if (min !== null && max !== null && min !== max) {
+    return translate('salary.range', {
+      min: formatSalaryAmount(min, currency),
+      max: formatSalaryAmount(max, currency),
+      period: suffix,
+    })
+  }
+  if (min !== null && max === null) {
+    return translate('salary.from', {
+      min: formatSalaryAmount(min, currency),
+      period: suffix,
+    })
+  }
+  if (min === null && max !== null) {
+    return translate('salary.upTo', {
+      max: formatSalaryAmount(max, currency),
+      period: suffix,
+    })
+  }
+
+  return translate('salary.exact', {
+    amount: formatSalaryAmount(min ?? max ?? 0, currency),
+    period: suffix,
+  })
+}
+
+/**
+ * Convert a salary to monthly USD (the unit used by the salary filter)
+ *
+ * @param salary - Salary in any currency and period
+ * @param usdToCrcRate - Colones per US dollar
+ * @returns Equivalent salary in USD per month
+ *
+ * @example
+ * ```typescript
+ * toMonthlyUsdSalary(
+ *   { min: 1020000, max: null, currency: 'crc', period: 'monthly' },
+ *   510
+ * )
+ * // { min: 2000, max: null, currency: 'usd', period: 'monthly' }
+ * ```
+ */
+export function toMonthlyUsdSalary(
+  salary: JobSalary,
+  usdToCrcRate: number
+): JobSalary {
+  const periodFactor =
+    salary.period === 'hourly'
+      ? HOURS_PER_MONTH
+      : salary.period === 'yearly'
+        ? 1 / 12
+        : 1
+  const currencyFactor = salary.currency === 'crc' ? 1 / usdToCrcRate : 1
+  const convert = (amount: number | null): number | null =>
+    amount === null ? null : amount * periodFactor * currencyFactor
+
+  return {
+    min: convert(salary.min),
+    max: convert(salary.max),
+    currency: 'usd',
+    period: 'monthly',
   }
 }
@@ -0,0 +1,464 @@
+/**
+ * JobAlertsMenu Component
+ *
+ * Header bell button with the job alerts notifications inbox. The popover
+ * lists new jobs found by alerts, the alerts themselves, a "create alert for
+ * current search" dialog and the alert settings (check interval and browser
+ * notifications).
+ */
+
+import {
+  AddAlertOutlined,
+  Close as CloseIcon,
+  DeleteOutline,
+  NotificationsNone,
+} from '@mui/icons-material'
+import type { SelectChangeEvent } from '@mui/material'
+import {
+  Badge,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Popover,
+  Select,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { useState } from 'react'
+import { Link as RouterLink } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+
+import { formatRelativeDate } from '../../../api/transformer'
+import type {
+  BrowserNotificationStatus,
+  JobAlert,
+  JobAlertCheckInterval,
+  JobAlertNotification,
+} from '../../../hooks/useJobAlerts'
+import {
+  getJobAlertNotificationUrl,
+  JOB_ALERT_CHECK_INTERVALS,
+} from '../../../hooks/useJobAlerts'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JobAlertsMenuProps {
+  /** Notifications, most recent first */
+  notifications: JobAlertNotification[]
+  /** Number of unread notifications (shown on the bell) */
+  unreadCount: number
+  /** Alerts to list */
+  alerts: JobAlert[]
+  /** Whether there is a current search an alert can be created for */
+  canCreate: boolean
+  /** Suggested name for a new alert */
+  defaultName?: string
+  /** Create an alert for the current search */
+  onCreate: (name: string) => void
+  /** Delete an alert */
+  onDelete: (id: string) => void
+  /** Mark a notification as read (called when it is opened) */
+  onOpenNotification: (id: string) => void
+  /** Mark every notification as read */
+  onMarkAllRead: () => void
+  /** Remove every notification */
+  onClearNotifications: () => void
+  /** How often alerts are checked, in minutes */
+  checkIntervalMinutes: JobAlertCheckInterval
+  /** Change how often alerts are checked */
+  onChangeCheckInterval: (minutes: JobAlertCheckInterval) => void
+  /** State of browser notifications */
+  browserNotifications: BrowserNotificationStatus
+  /** Turn browser notifications on or off */
+  onToggleBrowserNotifications: (enabled: boolean) => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Notifications inbox and job alert management
+ *
+ * @example
+ * ```tsx
+ * <JobAlertsMenu
+ *   notifications={jobAlerts.notifications}
+ *   unreadCount={jobAlerts.unreadCount}
+ *   alerts={jobAlerts.alerts}
+ *   canCreate={!!appliedQuery}
+ *   onCreate={name => jobAlerts.createAlert(name, filters)}
+ *   onDelete={jobAlerts.deleteAlert}
+ *   onOpenNotification={jobAlerts.markRead}
+ *   onMarkAllRead={jobAlerts.markAllRead}
+ *   onClearNotifications={jobAlerts.clearNotifications}
+ *   checkIntervalMinutes={jobAlerts.checkIntervalMinutes}
+ *   onChangeCheckInterval={jobAlerts.setCheckInterval}
+ *   browserNotifications={jobAlerts.browserNotifications}
+ *   onToggleBrowserNotifications={jobAlerts.setBrowserNotifications}
+ * />
+ * ```
+ */
+export default function JobAlertsMenu({
+  notifications,
+  unreadCount,
+  alerts,
+  canCreate,
+  defaultName = '',
+  onCreate,
+  onDelete,
+  onOpenNotification,
+  onMarkAllRead,
+  onClearNotifications,
+  checkIntervalMinutes,
+  onChangeCheckInterval,
+  browserNotifications,
+  onToggleBrowserNotifications,
+}: JobAlertsMenuProps) {
+  const { t } = useTranslation()
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [name, setName] = useState('')
+
+  const closePopover = () => setAnchorEl(null)
+
+  const openCreateDialog = () => {
+    closePopover()
+    setName(defaultName)
+    setIsDialogOpen(true)
+  }
+
+  const handleCreate = () => {
+    onCreate(name)
+    setIsDialogOpen(false)
+  }
+
+  const handleOpenNotification = (id: string) => {
+    closePopover()
+    onOpenNotification(id)
+  }
+
+  const handleIntervalChange = (
+    event: SelectChangeEvent<JobAlertCheckInterval>
+  ) => {
+    onChangeCheckInterval(event.target.value as JobAlertCheckInterval)
+  }
+
+  let browserNotificationsNote: string | null = null
+  if (browserNotifications === 'blocked') {
+    browserNotificationsNote = t('jobAlerts.browserNotificationsBlocked')
+  } else if (browserNotifications === 'unsupported') {
+    browserNotificationsNote = t('jobAlerts.browserNotificationsUnsupported')
+  }
+
+  return (
+    <>
+      <Tooltip title={t('jobAlerts.button')}>
+        <IconButton
+          onClick={event => setAnchorEl(event.currentTarget)}
+          aria-label={t('jobAlerts.button')}
+          sx={{ color: '#0a66c2', alignSelf: 'center' }}
+        >
+          <Badge
+            badgeContent={unreadCount}
+            max={99}
+            sx={{
+              '& .MuiBadge-badge': { bgcolor: '#0a66c2', color: 'white' },
+            }}
+          >
+            <NotificationsNone />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Popover
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={closePopover}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{
+          paper: {
+            sx: {
+              width: 360,
+              maxWidth: 'calc(100vw - 32px)',
+              maxHeight: '70vh',
+              borderRadius: 3,
+              boxShadow: '0 10px 40px rgba(0, 0, 0, 0.15)',
+              border: '1px solid #e0e0e0',
+            },
+          },
+        }}
+      >
+        {/* Notifications */}
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            px: 2,
+            pt: 1.5,
+            pb: 1,
+          }}
+        >
+          <Typography variant='subtitle1' sx={{ fontWeight: 600 }}>
+            {t('jobAlerts.title')}
+          </Typography>
+          <Box>
+            <Button
+              size='small'
+              onClick={onMarkAllRead}
+              disabled={unreadCount === 0}
+              sx={{ color: '#0a66c2', textTransform: 'none' }}
+            >
+              {t('jobAlerts.markAllRead')}
+            </Button>
+            <Button
+              size='small'
+              onClick={onClearNotifications}
+              disabled={notifications.length === 0}
+              sx={{ color: '#666', textTransform: 'none' }}
+            >
+              {t('jobAlerts.clear')}
+            </Button>
+          </Box>
+        </Box>
+
+        {notifications.length === 0 ? (
+          <Typography
+            variant='body2'
+            color='text.secondary'
+            sx={{ px: 2, pb: 1.5 }}
+          >
+            {t('jobAlerts.empty')}
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {notifications.map(notification => (
+              <ListItemButton
+                key={notification.id}
+                component={RouterLink}
+                to={getJobAlertNotificationUrl(notification)}
+                onClick={() => handleOpenNotification(notification.id)}
+                sx={{
+                  px: 2,
+                  bgcolor: notification.read ? 'transparent' : '#f5f5f5',
+                  borderLeft: '3px solid',
+                  borderLeftColor: notification.read
+                    ? 'transparent'
+                    : '#0a66c2',
+                }}
+              >
+                <ListItemText
+                  primary={
+                    notification.moreCount === undefined
+                      ? t('jobAlerts.notificationBody', {
+                          title: notification.title,
+                          company: notification.company,
+                        })
+                      : t('jobAlerts.moreJobs', {
+                          count: notification.moreCount,
+                        })
+                  }
+                  secondary={t('jobAlerts.received', {
+                    alert: notification.alertName,
+                    date: formatRelativeDate(notification.receivedAt),
+                  })}
+                  slotProps={{
+                    primary: {
+                      sx: {
+                        fontWeight: notification.read ? 400 : 600,
+                        color: '#333',
+                      },
+                    },
+                  }}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+
+        <Divider />
+
+        {/* Alerts */}
+        <Box sx={{ px: 2, pt: 1.5, pb: 2 }}>
+          <Typography variant='subtitle1' sx={{ fontWeight: 600, mb: 1 }}>
+            {t('jobAlerts.alertsTitle')}
+          </Typography>
+
+          <Button
+            size='small'
+            startIcon={<AddAlertOutlined />}
+            onClick={openCreateDialog}
+            disabled={!canCreate}
+            sx={{
+              color: '#0a66c2',
+              textTransform: 'none',
+              fontWeight: 'bold',
+              mb: 1,
+            }}
+          >
+            {t('jobAlerts.createForSearch')}
+          </Button>
+
+          {alerts.length === 0 && (
+            <Typography variant='body2' color='text.secondary' sx={{ mb: 1 }}>
+              {t('jobAlerts.alertsEmpty')}
+            </Typography>
+          )}
+
+          {alerts.map(alert => (
+            <Box
+              key={alert.id}
+              sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+            >
+              <Typography
+                variant='body2'
+                sx={{
+                  flex: 1,
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {alert.name}
+              </Typography>
+              <IconButton
+                size='small'
+                onClick={() => onDelete(alert.id)}
+                aria-label={t('jobAlerts.delete', { name: alert.name })}
+                sx={{ color: '#666' }}
+              >
+                <DeleteOutline fontSize='small' />
+              </IconButton>
+            </Box>
+          ))}
+
+          {/* Settings */}
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              mt: 1.5,
+            }}
+          >
+            <Typography variant='body2' color='text.secondary'>
+              {t('jobAlerts.checkEvery')}
+            </Typography>
+            <Select<JobAlertCheckInterval>
+              size='small'
+              value={checkIntervalMinutes}
+              onChange={handleIntervalChange}
+              inputProps={{ 'aria-label': t('jobAlerts.checkEvery') }}
+              sx={{ fontSize: 'body2.fontSize', minWidth: 130 }}
+            >
+              {JOB_ALERT_CHECK_INTERVALS.map(minutes => (
+                <MenuItem key={minutes} value={minutes}>
+                  {t(`jobAlerts.intervals.${minutes}`)}
+                </MenuItem>
+              ))}
+            </Select>
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                size='small'
+                checked={browserNotifications === 'on'}
+                disabled={
+                  browserNotifications === 'blocked' ||
+                  browserNotifications === 'unsupported'
+                }
+                onChange={event =>
+                  onToggleBrowserNotifications(event.target.checked)
+                }
+              />
+            }
+            label={
+              <Typography variant='body2'>
+                {t('jobAlerts.browserNotifications')}
+              </Typography>
+            }
+            sx={{ display: 'flex', mt: 1, mx: 0, gap: 1 }}
+          />
+          {browserNotificationsNote && (
+            <Typography variant='caption' color='text.secondary'>
+              {browserNotificationsNote}
+            </Typography>
+          )}
+        </Box>
+      </Popover>
+
+      {/* Create Dialog */}
+      <Dialog
+        open={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        fullWidth
+        maxWidth='xs'
+      >
+        <DialogTitle
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          {t('jobAlerts.dialogTitle')}
+          <IconButton
+            onClick={() => setIsDialogOpen(false)}
+            sx={{ color: '#666' }}
+          >
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 1 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              size='small'
+              label={t('jobAlerts.nameLabel')}
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            />
+            <Typography variant='body2' color='text.secondary' sx={{ mt: 1.5 }}>
+              {t('jobAlerts.dialogHint')}
+            </Typography>
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            variant='contained'
+            onClick={handleCreate}
+            sx={{
+              bgcolor: '#0a66c2',
+              borderRadius: '20px',
+              px: 3,
+              textTransform: 'none',
+              fontWeight: 'bold',
+              '&:hover': { bgcolor: '#004182' },
+            }}
+          >
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
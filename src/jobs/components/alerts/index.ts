@@ -0,0 +1,8 @@
+/**
+ * Job Alerts Components Module
+ *
+ * Components for job alerts and their notifications inbox.
+ */
+
+export { default as JobAlertsMenu } from './JobAlertsMenu'
+export type { JobAlertsMenuProps } from './JobAlertsMenu/JobAlertsMenu'
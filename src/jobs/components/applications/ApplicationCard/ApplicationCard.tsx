@@ -0,0 +1,118 @@
+/**
+ * ApplicationCard Component
+ *
+ * Card for a tracked application on the applications board.
+ * Shows the job, when it was applied to, and a status/notes editor.
+ */
+
+import { DeleteOutline } from '@mui/icons-material'
+import {
+  Box,
+  IconButton,
+  Link,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import CompanyAvatar from '@shared/components/CompanyAvatar'
+import { Link as RouterLink } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+
+import { formatRelativeDate } from '../../../api/transformer'
+import type { ApplicationChanges } from '../../../hooks/useApplications'
+import type { JobApplication } from '../../../types/applications'
+import ApplicationTracker from '../ApplicationTracker'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ApplicationCardProps {
+  /** Application to display */
+  application: JobApplication
+  /** Change handler for status and notes */
+  onChange: (changes: ApplicationChanges) => void
+  /** Stop tracking the application */
+  onRemove: () => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Application board card
+ *
+ * @example
+ * ```tsx
+ * <ApplicationCard
+ *   application={application}
+ *   onChange={changes => updateApplication(application.job.id, changes)}
+ *   onRemove={() => removeApplication(application.job.id)}
+ * />
+ * ```
+ */
+export default function ApplicationCard({
+  application,
+  onChange,
+  onRemove,
+}: ApplicationCardProps) {
+  const { t } = useTranslation()
+  const { job } = application
+
+  return (
+    <Paper
+      variant='outlined'
+      sx={{ p: 2, borderRadius: 2, borderColor: '#e0e0e0' }}
+    >
+      {/* Job Header */}
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1.5, mb: 2 }}>
+        <CompanyAvatar
+          company={job.company}
+          logoUrl={job.companyLogoUrl}
+          size={40}
+        />
+
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Link
+            component={RouterLink}
+            to={`/jobs/${job.id}`}
+            underline='hover'
+            sx={{
+              display: 'block',
+              fontWeight: 600,
+              color: '#0a66c2',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {job.title}
+          </Link>
+          <Typography variant='body2' sx={{ color: '#333', fontWeight: 500 }}>
+            {job.company}
+          </Typography>
+          <Typography variant='caption' color='text.secondary'>
+            {t('applications.applied', {
+              date: formatRelativeDate(application.appliedAt),
+            })}
+          </Typography>
+        </Box>
+
+        <Tooltip title={t('applications.stopTracking')}>
+          <IconButton
+            size='small'
+            onClick={onRemove}
+            aria-label={t('applications.stopTrackingJob', { title: job.title })}
+            sx={{ color: '#666' }}
+          >
+            <DeleteOutline fontSize='small' />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <ApplicationTracker application={application} onChange={onChange} />
+    </Paper>
+  )
+}
@@ -0,0 +1,55 @@
+/**
+ * ApplicationStatusChip Component
+ *
+ * Small colored chip showing the stage of a tracked application.
+ */
+
+import { Chip } from '@mui/material'
+
+import type { ApplicationStatus } from '../../../types/applications'
+import {
+  APPLICATION_STATUS_COLORS,
+  getApplicationStatusLabel,
+} from '../../../types/applications'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ApplicationStatusChipProps {
+  /** Application status to display */
+  status: ApplicationStatus
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Application status chip
+ *
+ * @example
+ * ```tsx
+ * <ApplicationStatusChip status='interviewing' />
+ * ```
+ */
+export default function ApplicationStatusChip({
+  status,
+}: ApplicationStatusChipProps) {
+  const color = APPLICATION_STATUS_COLORS[status]
+
+  return (
+    <Chip
+      label={getApplicationStatusLabel(status)}
+      size='small'
+      variant='outlined'
+      sx={{
+        height: 20,
+        fontSize: '0.7rem',
+        fontWeight: 600,
+        color,
+        borderColor: color,
+      }}
+    />
+  )
+}
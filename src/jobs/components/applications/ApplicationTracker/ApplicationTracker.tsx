@@ -0,0 +1,108 @@
+/**
+ * ApplicationTracker Component
+ *
+ * Status selector and notes field for a tracked application.
+ * Notes are committed when the field loses focus.
+ */
+
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material'
+import { useEffect, useState } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { ApplicationChanges } from '../../../hooks/useApplications'
+import type {
+  ApplicationStatus,
+  JobApplication,
+} from '../../../types/applications'
+import {
+  APPLICATION_STATUSES,
+  getApplicationStatusLabel,
+} from '../../../types/applications'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ApplicationTrackerProps {
+  /** Application being edited */
+  application: JobApplication
+  /** Change handler for status and notes */
+  onChange: (changes: ApplicationChanges) => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Application status and notes editor
+ *
+ * @example
+ * ```tsx
+ * <ApplicationTracker
+ *   application={application}
+ *   onChange={changes => updateApplication(application.job.id, changes)}
+ * />
+ * ```
+ */
+export default function ApplicationTracker({
+  application,
+  onChange,
+}: ApplicationTrackerProps) {
+  const { t } = useTranslation()
+  const [notes, setNotes] = useState(application.notes)
+
+  // Reset local notes when switching jobs or when notes change elsewhere
+  useEffect(() => {
+    setNotes(application.notes)
+  }, [application.job.id, application.notes])
+
+  const handleNotesBlur = () => {
+    if (notes !== application.notes) {
+      onChange({ notes })
+    }
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <FormControl size='small' sx={{ maxWidth: 220 }}>
+        <InputLabel id={`application-status-${application.job.id}`}>
+          {t('applications.status')}
+        </InputLabel>
+        <Select
+          labelId={`application-status-${application.job.id}`}
+          label={t('applications.status')}
+          value={application.status}
+          onChange={event =>
+            onChange({ status: event.target.value as ApplicationStatus })
+          }
+        >
+          {APPLICATION_STATUSES.map(status => (
+            <MenuItem key={status} value={status}>
+              {getApplicationStatusLabel(status)}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <TextField
+        label={t('applications.notes')}
+        placeholder={t('applications.notesPlaceholder')}
+        multiline
+        minRows={2}
+        size='small'
+        value={notes}
+        onChange={event => setNotes(event.target.value)}
+        onBlur={handleNotesBlur}
+      />
+    </Box>
+  )
+}
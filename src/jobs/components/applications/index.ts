@@ -0,0 +1,9 @@
+/**
+ * Applications Components Module
+ *
+ * Components for the local application tracker.
+ */
+
+export { default as ApplicationCard } from './ApplicationCard'
+export { default as ApplicationStatusChip } from './ApplicationStatusChip'
+export { default as ApplicationTracker } from './ApplicationTracker'
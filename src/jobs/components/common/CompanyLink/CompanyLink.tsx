@@ -0,0 +1,53 @@
+/**
+ * CompanyLink Component
+ *
+ * Links a company name to its profile page, shown on list items and in
+ * the details header.
+ */
+
+import { Link } from '@mui/material'
+import type { MouseEvent, ReactNode } from 'react'
+import { Link as RouterLink } from 'react-router-dom'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CompanyLinkProps {
+  /** Company identifier (renders plain text when empty) */
+  companyId: string
+  /** Link content, usually the company name */
+  children: ReactNode
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Link to a company profile
+ *
+ * Inherits the surrounding text style. Clicks do not propagate, so the link
+ * can sit inside clickable rows. Jobs saved before company IDs were stored
+ * have no ID and render the name as plain text.
+ *
+ * @example
+ * ```tsx
+ * <CompanyLink companyId={job.companyId}>{job.company}</CompanyLink>
+ * ```
+ */
+export default function CompanyLink({ companyId, children }: CompanyLinkProps) {
+  if (!companyId) return <>{children}</>
+
+  return (
+    <Link
+      component={RouterLink}
+      to={`/companies/${companyId}`}
+      color='inherit'
+      underline='hover'
+      onClick={(event: MouseEvent<HTMLElement>) => event.stopPropagation()}
+    >
+      {children}
+    </Link>
+  )
+}
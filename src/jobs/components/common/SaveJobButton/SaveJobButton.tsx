@@ -0,0 +1,90 @@
+/**
+ * SaveJobButton Component
+ *
+ * Bookmark toggle for a job, shown on list items and in the details header.
+ */
+
+import { Bookmark, BookmarkBorder } from '@mui/icons-material'
+import { Button, IconButton, Tooltip } from '@mui/material'
+import type { MouseEvent } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SaveJobButtonProps {
+  /** Whether the job is currently saved */
+  isSaved: boolean
+  /** Toggle handler */
+  onToggle: () => void
+  /** Compact icon button or labelled pill button (default: 'icon') */
+  variant?: 'icon' | 'button'
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Save / unsave toggle for a job
+ *
+ * Clicks do not propagate, so the button can sit inside clickable rows.
+ *
+ * @example
+ * ```tsx
+ * <SaveJobButton isSaved={isSaved(job.id)} onToggle={() => toggleSaved(job)} />
+ * ```
+ */
+export default function SaveJobButton({
+  isSaved,
+  onToggle,
+  variant = 'icon',
+}: SaveJobButtonProps) {
+  const { t } = useTranslation()
+  const label = isSaved ? t('savedJobs.remove') : t('savedJobs.save')
+
+  const handleClick = (event: MouseEvent<HTMLElement>) => {
+    event.stopPropagation()
+    onToggle()
+  }
+
+  if (variant === 'button') {
+    return (
+      <Button
+        variant='outlined'
+        onClick={handleClick}
+        size='large'
+        aria-pressed={isSaved}
+        startIcon={isSaved ? <Bookmark /> : <BookmarkBorder />}
+        sx={{
+          color: '#0a66c2',
+          borderColor: '#0a66c2',
+          borderRadius: '25px',
+          px: 3,
+          py: 1.5,
+          textTransform: 'none',
+          fontWeight: 'bold',
+          fontSize: '1rem',
+          '&:hover': { borderColor: '#004182', bgcolor: '#f0f7ff' },
+        }}
+      >
+        {isSaved ? t('savedJobs.saved') : t('savedJobs.saveShort')}
+      </Button>
+    )
+  }
+
+  return (
+    <Tooltip title={label}>
+      <IconButton
+        onClick={handleClick}
+        aria-label={label}
+        aria-pressed={isSaved}
+        sx={{ color: isSaved ? '#0a66c2' : '#666' }}
+      >
+        {isSaved ? <Bookmark /> : <BookmarkBorder />}
+      </IconButton>
+    </Tooltip>
+  )
+}
@@ -0,0 +1,81 @@
+/**
+ * CompanyCard Component
+ *
+ * Directory tile for a company: logo, name and open position count,
+ * linking to the company profile.
+ */
+
+import { Box, Card, CardActionArea, Typography } from '@mui/material'
+import CompanyAvatar from '@shared/components/CompanyAvatar'
+import { Link as RouterLink } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { CompanySummary } from '../../../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CompanyCardProps {
+  /** Company with its active job count */
+  company: CompanySummary
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Company directory tile
+ *
+ * @example
+ * ```tsx
+ * <CompanyCard company={company} />
+ * ```
+ */
+export default function CompanyCard({ company }: CompanyCardProps) {
+  const { t } = useTranslation()
+
+  return (
+    <Card
+      variant='outlined'
+      sx={{
+        borderColor: '#e0e0e0',
+        borderRadius: 2,
+        '&:hover': { borderColor: '#0a66c2' },
+      }}
+    >
+      <CardActionArea
+        component={RouterLink}
+        to={`/companies/${company.id}`}
+        sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 2 }}
+      >
+        <CompanyAvatar
+          company={company.name}
+          logoUrl={company.logoUrl}
+          size={48}
+        />
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography
+            variant='body1'
+            sx={{
+              fontWeight: 600,
+              color: '#0a66c2',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {company.name}
+          </Typography>
+          <Typography variant='body2' sx={{ color: '#666' }}>
+            {company.jobCount === 1
+              ? t('companyProfile.activeJobsOne')
+              : t('companyProfile.activeJobs', { count: company.jobCount })}
+          </Typography>
+        </Box>
+      </CardActionArea>
+    </Card>
+  )
+}
@@ -0,0 +1,155 @@
+/**
+ * CompanyDirectoryToolbar Component
+ *
+ * Name search, job function filter and sort order for the company
+ * directory.
+ */
+
+import { Search } from '@mui/icons-material'
+import {
+  Box,
+  Checkbox,
+  InputAdornment,
+  ListItemText,
+  MenuItem,
+  Select,
+  type SelectChangeEvent,
+  TextField,
+} from '@mui/material'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { CompanyDirectorySort } from '../../../types/companies'
+import { COMPANY_SORT_OPTIONS } from '../../../types/companies'
+import type { JobFunction } from '../../../types/enums'
+import { getJobFunctionLabel, JOB_FUNCTIONS } from '../../../types/enums'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CompanyDirectoryToolbarProps {
+  /** Name search input value */
+  search: string
+  /** Name search change handler */
+  onSearchChange: (search: string) => void
+  /** Selected job functions */
+  jobFunction: JobFunction[]
+  /** Job function selection change handler */
+  onJobFunctionChange: (jobFunction: JobFunction[]) => void
+  /** Selected sort order */
+  sort: CompanyDirectorySort
+  /** Sort order change handler */
+  onSortChange: (sort: CompanyDirectorySort) => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Company directory search, filter and sort controls
+ *
+ * @example
+ * ```tsx
+ * <CompanyDirectoryToolbar
+ *   search={search}
+ *   onSearchChange={setSearch}
+ *   jobFunction={filters.jobFunction ?? []}
+ *   onJobFunctionChange={setJobFunction}
+ *   sort={filters.sort ?? DEFAULT_COMPANY_SORT}
+ *   onSortChange={setSort}
+ * />
+ * ```
+ */
+export default function CompanyDirectoryToolbar({
+  search,
+  onSearchChange,
+  jobFunction,
+  onJobFunctionChange,
+  sort,
+  onSortChange,
+}: CompanyDirectoryToolbarProps) {
+  const { t } = useTranslation()
+
+  const handleJobFunctionChange = (event: SelectChangeEvent<JobFunction[]>) => {
+    const { value } = event.target
+    // Autofill can produce a comma-separated string
+    onJobFunctionChange(
+      typeof value === 'string' ? (value.split(',') as JobFunction[]) : value
+    )
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 2,
+      }}
+    >
+      <TextField
+        value={search}
+        onChange={event => onSearchChange(event.target.value)}
+        placeholder={t('companies.searchPlaceholder')}
+        size='small'
+        sx={{ flex: 1, minWidth: 220, bgcolor: 'white' }}
+        slotProps={{
+          htmlInput: { 'aria-label': t('companies.searchPlaceholder') },
+          input: {
+            startAdornment: (
+              <InputAdornment position='start'>
+                <Search sx={{ color: '#666' }} />
+              </InputAdornment>
+            ),
+          },
+        }}
+      />
+
+      <Select<JobFunction[]>
+        multiple
+        displayEmpty
+        value={jobFunction}
+        onChange={handleJobFunctionChange}
+        size='small'
+        inputProps={{ 'aria-label': t('companies.hiringFor') }}
+        renderValue={selected =>
+          selected.length === 0
+            ? t('companies.allFunctions')
+            : `${t('companies.hiringFor')}: ${selected
+                .map(getJobFunctionLabel)
+                .join(', ')}`
+        }
+        sx={{ width: 280, bgcolor: 'white' }}
+      >
+        {JOB_FUNCTIONS.map(value => (
+          <MenuItem key={value} value={value} dense>
+            <Checkbox
+              checked={jobFunction.includes(value)}
+              size='small'
+              sx={{ p: 0.5, mr: 1 }}
+            />
+            <ListItemText primary={getJobFunctionLabel(value)} />
+          </MenuItem>
+        ))}
+      </Select>
+
+      <Select<CompanyDirectorySort>
+        value={sort}
+        onChange={event =>
+          onSortChange(event.target.value as CompanyDirectorySort)
+        }
+        size='small'
+        inputProps={{ 'aria-label': t('companies.sortLabel') }}
+        sx={{ minWidth: 200, bgcolor: 'white' }}
+      >
+        {COMPANY_SORT_OPTIONS.map(option => (
+          <MenuItem key={option.value} value={option.value}>
+            {t(option.labelKey)}
+          </MenuItem>
+        ))}
+      </Select>
+    </Box>
+  )
+}
@@ -0,0 +1,200 @@
+/**
+ * CompanyProfileHeader Component
+ *
+ * Top card of a company profile: logo, name, website, description, number
+ * of open positions and how those positions break down by job function,
+ * work mode and experience level.
+ */
+
+import { Language as LanguageIcon } from '@mui/icons-material'
+import { Box, Chip, Link, Typography } from '@mui/material'
+import CompanyAvatar from '@shared/components/CompanyAvatar'
+
+import { useTranslation } from '@/services/i18n'
+
+import {
+  getExperienceLevelLabel,
+  getJobFunctionLabel,
+  getWorkModeLabel,
+} from '../../../types/enums'
+import type { CompanyProfile, ValueCount } from '../../../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CompanyProfileHeaderProps {
+  /** Company with its job summary */
+  profile: CompanyProfile
+}
+
+interface BreakdownGroupProps<T extends string> {
+  /** Group heading */
+  title: string
+  /** Counts per value, most common first */
+  counts: ValueCount<T>[]
+  /** Display label for a value */
+  getLabel: (value: T) => string
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Host name to display for a website URL
+ *
+ * @returns The host without `www.`, or null for invalid or non-http(s) URLs
+ */
+function getWebsiteHost(website: string): string | null {
+  try {
+    const url = new URL(website)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    return url.hostname.replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+/**
+ * One row of breakdown chips (e.g. "Remote · 5")
+ */
+function BreakdownGroup<T extends string>({
+  title,
+  counts,
+  getLabel,
+}: BreakdownGroupProps<T>) {
+  if (counts.length === 0) return null
+
+  return (
+    <Box>
+      <Typography
+        variant='subtitle2'
+        sx={{ color: '#666', fontWeight: 600, mb: 0.75 }}
+      >
+        {title}
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        {counts.map(({ value, count }) => (
+          <Chip
+            key={value}
+            label={`${getLabel(value)} · ${count}`}
+            size='small'
+            variant='outlined'
+            sx={{ borderColor: '#e0e0e0', color: '#333' }}
+          />
+        ))}
+      </Box>
+    </Box>
+  )
+}
+
+/**
+ * Company profile summary card
+ *
+ * @example
+ * ```tsx
+ * {profile && <CompanyProfileHeader profile={profile} />}
+ * ```
+ */
+export default function CompanyProfileHeader({
+  profile,
+}: CompanyProfileHeaderProps) {
+  const { t } = useTranslation()
+  const { company, activeJobCount, breakdown } = profile
+  const websiteHost = company.website ? getWebsiteHost(company.website) : null
+
+  return (
+    <Box
+      sx={{
+        bgcolor: 'white',
+        border: '1px solid #e0e0e0',
+        borderRadius: 2,
+        p: 3,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+      }}
+    >
+      {/* Logo, Name and Job Count */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <CompanyAvatar
+          company={company.name}
+          logoUrl={company.logoUrl}
+          size={72}
+        />
+        <Box>
+          <Typography variant='h4' sx={{ fontWeight: 700, color: '#333' }}>
+            {company.name}
+          </Typography>
+          <Typography variant='body1' sx={{ color: '#666' }}>
+            {activeJobCount === 1
+              ? t('companyProfile.activeJobsOne')
+              : t('companyProfile.activeJobs', { count: activeJobCount })}
+          </Typography>
+          {websiteHost && (
+            <Link
+              href={company.website ?? undefined}
+              target='_blank'
+              rel='noopener noreferrer'
+              underline='hover'
+              title={t('companyProfile.website')}
+              sx={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: 0.5,
+                color: '#0a66c2',
+                fontWeight: 500,
+              }}
+            >
+              <LanguageIcon sx={{ fontSize: 18 }} />
+              {websiteHost}
+            </Link>
+          )}
+        </Box>
+      </Box>
+
+      {/* Description */}
+      {company.description && (
+        <Typography
+          variant='body1'
+          sx={{ color: '#333', lineHeight: 1.6, whiteSpace: 'pre-line' }}
+        >
+          {company.description}
+        </Typography>
+      )}
+
+      {/* Breakdown */}
+      {activeJobCount > 0 && (
+        <Box
+          sx={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            columnGap: 4,
+            rowGap: 2,
+          }}
+        >
+          <BreakdownGroup
+            title={t('companyProfile.byJobFunction')}
+            counts={breakdown.jobFunction}
+            getLabel={getJobFunctionLabel}
+          />
+          <BreakdownGroup
+            title={t('companyProfile.byWorkMode')}
+            counts={breakdown.workMode}
+            getLabel={getWorkModeLabel}
+          />
+          <BreakdownGroup
+            title={t('companyProfile.byExperienceLevel')}
+            counts={breakdown.experienceLevel}
+            getLabel={getExperienceLevelLabel}
+          />
+        </Box>
+      )}
+    </Box>
+  )
+}
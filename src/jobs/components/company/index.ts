@@ -0,0 +1,12 @@
+/**
+ * Company Components Module
+ *
+ * Components for the company directory and company profile pages.
+ */
+
+export { default as CompanyCard } from './CompanyCard'
+export type { CompanyCardProps } from './CompanyCard/CompanyCard'
+export { default as CompanyDirectoryToolbar } from './CompanyDirectoryToolbar'
+export type { CompanyDirectoryToolbarProps } from './CompanyDirectoryToolbar/CompanyDirectoryToolbar'
+export { default as CompanyProfileHeader } from './CompanyProfileHeader'
+export type { CompanyProfileHeaderProps } from './CompanyProfileHeader/CompanyProfileHeader'
@@ -1,25 +1,75 @@
+import { config } from '@app/config'
 import {
+  Link as LinkIcon,
   LocationOn,
+  Payments,
   Schedule,
   TrendingUp,
   WorkOutline,
 } from '@mui/icons-material'
-import { Box, Button, Stack, Typography } from '@mui/material'
+import { Alert, Box, Button, Stack, Typography } from '@mui/material'
 import CompanyAvatar from '@shared/components/CompanyAvatar'
 import { useEffect, useRef, useState } from 'react'
 
+import { useTranslation } from '@/services/i18n'
+import { useLogger } from '@/services/logging'
+
+import {
+  formatPostedDate,
+  formatSalary,
+  toMonthlyUsdSalary,
+} from '../../api/transformer'
+import type { ApplicationChanges } from '../../hooks/useApplications'
+import type { JobApplication } from '../../types/applications'
+import {
+  getEmploymentTypeLabel,
+  getExperienceLevelLabel,
+  getLocationLabel,
+  getWorkModeLabel,
+} from '../../types/enums'
 import type { Job } from '../../types/models'
+import ApplicationStatusChip from '../applications/ApplicationStatusChip'
+import ApplicationTracker from '../applications/ApplicationTracker'
+import CompanyLink from '../common/CompanyLink'
+import SaveJobButton from '../common/SaveJobButton'
+import SimilarJobs from './SimilarJobs'
 
 interface JobDetailsProps {
   job?: Job | null
   isFetching?: boolean
+  // Bookmark props
+  isSaved?: boolean
+  onToggleSave?: (() => void) | undefined
+  /** Show a notice that the posting is closed or removed */
+  isUnavailable?: boolean
+  // Application tracking props
+  application?: JobApplication | null
+  /** Called when the user clicks "Apply Now" */
+  onApply?: (() => void) | undefined
+  onApplicationChange?: ((changes: ApplicationChanges) => void) | undefined
+  // Similar jobs props
+  similarJobs?: Job[]
+  isLoadingSimilarJobs?: boolean
 }
 
 export default function JobDetails({
   job,
   isFetching = false,
+  isSaved = false,
+  onToggleSave,
+  isUnavailable = false,
+  application = null,
+  onApply,
+  onApplicationChange,
+  similarJobs = [],
+  isLoadingSimilarJobs = false,
 }: JobDetailsProps) {
+  const { t } = useTranslation()
   const [showStickyHeader, setShowStickyHeader] = useState(false)
+  const logger = useLogger('JobDetails')
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>(
+    'idle'
+  )
   const headerRef = useRef<HTMLDivElement>(null)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
@@ -40,6 +90,50 @@ export default function JobDetails({
     return () => scrollContainer.removeEventListener('scroll', handleScroll)
   }, [job])
 
+  // Start each posting from the top (e.g. after opening a similar job)
+  useEffect(() => {
+    scrollContainerRef.current?.scrollTo({ top: 0 })
+  }, [job?.id])
+
+  // Reset the copy confirmation (or failure) after a short delay
+  useEffect(() => {
+    if (copyStatus === 'idle') return
+
+    const timeout = setTimeout(() => setCopyStatus('idle'), 2000)
+    return () => clearTimeout(timeout)
+  }, [copyStatus])
+
+  /**
+   * Record the application and open the company's application page
+   */
+  const handleApply = () => {
+    if (!job?.applicationUrl) return
+
+    onApply?.()
+    window.open(job.applicationUrl, '_blank')
+  }
+
+  /**
+   * Copy the shareable /jobs/:jobId link to the clipboard
+   */
+  const handleCopyLink = async () => {
+    if (!job) return
+
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/jobs/${job.id}`
+      )
+      setCopyStatus('copied')
+    } catch (error) {
+      // Clipboard access can be denied (permissions, insecure context)
+      logger.error('Failed to copy job link', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'unknown',
+      })
+      setCopyStatus('failed')
+    }
+  }
+
   return (
     <Box
       sx={{
@@ -109,25 +203,28 @@ export default function JobDetails({
               {job.company}
             </Typography>
           </Box>
-          <Button
-            variant='contained'
-            onClick={() =>
-              job.applicationUrl && window.open(job.applicationUrl, '_blank')
-            }
-            disabled={!job.applicationUrl}
-            sx={{
-              bgcolor: '#0a66c2',
-              borderRadius: '20px',
-              px: 3,
-              py: 1,
-              textTransform: 'none',
-              fontWeight: 'bold',
-              fontSize: '0.875rem',
-              '&:hover': { bgcolor: '#004182' },
-            }}
-          >
-            Apply Now
-          </Button>
+          <Stack direction='row' spacing={1} alignItems='center'>
+            {onToggleSave && (
+              <SaveJobButton isSaved={isSaved} onToggle={onToggleSave} />
+            )}
+            <Button
+              variant='contained'
+              onClick={handleApply}
+              disabled={!job.applicationUrl}
+              sx={{
+                bgcolor: '#0a66c2',
+                borderRadius: '20px',
+                px: 3,
+                py: 1,
+                textTransform: 'none',
+                fontWeight: 'bold',
+                fontSize: '0.875rem',
+                '&:hover': { bgcolor: '#004182' },
+              }}
+            >
+              {t('jobDetails.applyNow')}
+            </Button>
+          </Stack>
         </Box>
       )}
 
@@ -144,16 +241,29 @@ export default function JobDetails({
           <Box>
             {/* Header Layout */}
             <Box ref={headerRef} sx={{ mb: 4 }}>
+              {/* Unavailable Notice */}
+              {isUnavailable && (
+                <Alert severity='warning' sx={{ mb: 2 }}>
+                  {t('jobDetails.unavailableNotice')}
+                </Alert>
+              )}
+
               {/* Company Logo and Name */}
               <Box
                 sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}
               >
-                <CompanyAvatar company={job.company} size={56} />
+                <CompanyAvatar
+                  company={job.company}
+                  logoUrl={job.companyLogoUrl}
+                  size={56}
+                />
                 <Typography
                   variant='h5'
                   sx={{ fontWeight: 600, color: '#333' }}
                 >
-                  {job.company}
+                  <CompanyLink companyId={job.companyId}>
+                    {job.company}
+                  </CompanyLink>
                 </Typography>
               </Box>
 
@@ -179,9 +289,40 @@ export default function JobDetails({
                   fontSize: '0.875rem',
                 }}
               >
-                Posted {job.postedDate}
+                {t('jobDetails.posted', { date: formatPostedDate(job) })}
               </Typography>
 
+              {/* Salary */}
+              {job.salary && (
+                <Box
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    flexWrap: 'wrap',
+                    gap: 0.5,
+                    mb: 2,
+                  }}
+                >
+                  <Payments sx={{ fontSize: 18, color: '#057642' }} />
+                  <Typography
+                    variant='body1'
+                    sx={{ color: '#057642', fontSize: '1rem', fontWeight: 600 }}
+                  >
+                    {formatSalary(job.salary)}
+                  </Typography>
+                  {(job.salary.currency !== 'usd' ||
+                    job.salary.period !== 'monthly') && (
+                    <Typography variant='body2' sx={{ color: '#666' }}>
+                      (≈{' '}
+                      {formatSalary(
+                        toMonthlyUsdSalary(job.salary, config.usdToCrcRate)
+                      )}
+                      )
+                    </Typography>
+                  )}
+                </Box>
+              )}
+
               {/* Job Meta Info with Icons */}
               <Stack direction='row' spacing={2} flexWrap='wrap' sx={{ mb: 3 }}>
                 {job.location && (
@@ -191,7 +332,7 @@ export default function JobDetails({
                       variant='body1'
                       sx={{ color: '#666', fontSize: '1rem', fontWeight: 500 }}
                     >
-                      {job.location}
+                      {getLocationLabel(job.location)}
                     </Typography>
                   </Box>
                 )}
@@ -203,7 +344,7 @@ export default function JobDetails({
                       variant='body1'
                       sx={{ color: '#666', fontSize: '1rem', fontWeight: 500 }}
                     >
-                      {job.workMode}
+                      {getWorkModeLabel(job.workMode)}
                     </Typography>
                   </Box>
                 )}
@@ -215,7 +356,7 @@ export default function JobDetails({
                       variant='body1'
                       sx={{ color: '#666', fontSize: '1rem', fontWeight: 500 }}
                     >
-                      {job.jobType}
+                      {getEmploymentTypeLabel(job.jobType)}
                     </Typography>
                   </Box>
                 )}
@@ -227,40 +368,99 @@ export default function JobDetails({
                       variant='body1'
                       sx={{ color: '#666', fontSize: '1rem', fontWeight: 500 }}
                     >
-                      {job.experience}
+                      {getExperienceLevelLabel(job.experience)}
                     </Typography>
                   </Box>
                 )}
               </Stack>
 
-              {/* Apply Button */}
-              <Button
-                variant='contained'
-                onClick={() =>
-                  job.applicationUrl &&
-                  window.open(job.applicationUrl, '_blank')
-                }
-                size='large'
-                disabled={!job.applicationUrl}
+              {/* Actions */}
+              <Stack direction='row' spacing={1.5} alignItems='center'>
+                {/* Apply Button */}
+                <Button
+                  variant='contained'
+                  onClick={handleApply}
+                  size='large'
+                  disabled={!job.applicationUrl}
+                  sx={{
+                    bgcolor: '#0a66c2',
+                    borderRadius: '25px',
+                    px: 4,
+                    py: 1.5,
+                    textTransform: 'none',
+                    fontWeight: 'bold',
+                    fontSize: '1rem',
+                    '&:hover': { bgcolor: '#004182' },
+                  }}
+                >
+                  {t('jobDetails.applyNow')}
+                </Button>
+
+                {/* Copy Link Button */}
+                <Button
+                  variant='outlined'
+                  onClick={handleCopyLink}
+                  size='large'
+                  startIcon={<LinkIcon />}
+                  sx={{
+                    color: '#0a66c2',
+                    borderColor: '#0a66c2',
+                    borderRadius: '25px',
+                    px: 3,
+                    py: 1.5,
+                    textTransform: 'none',
+                    fontWeight: 'bold',
+                    fontSize: '1rem',
+                    '&:hover': { borderColor: '#004182', bgcolor: '#f0f7ff' },
+                  }}
+                >
+                  {copyStatus === 'copied'
+                    ? t('jobDetails.linkCopied')
+                    : copyStatus === 'failed'
+                      ? t('jobDetails.copyLinkFailed')
+                      : t('jobDetails.copyLink')}
+                </Button>
+
+                {/* Save Button */}
+                {onToggleSave && (
+                  <SaveJobButton
+                    isSaved={isSaved}
+                    onToggle={onToggleSave}
+                    variant='button'
+                  />
+                )}
+              </Stack>
+            </Box>
+
+            {/* Application Tracking */}
+            {application && onApplicationChange && (
+              <Box
                 sx={{
-                  bgcolor: '#0a66c2',
-                  borderRadius: '25px',
-                  px: 4,
-                  py: 1.5,
-                  textTransform: 'none',
-                  fontWeight: 'bold',
-                  fontSize: '1rem',
-                  '&:hover': { bgcolor: '#004182' },
+                  mb: 3,
+                  p: 2,
+                  border: '1px solid #e0e0e0',
+                  borderRadius: 2,
                 }}
               >
-                Apply Now
-              </Button>
-            </Box>
+                <Box
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}
+                >
+                  <Typography variant='h6' sx={{ fontWeight: 600 }}>
+                    {t('jobDetails.yourApplication')}
+                  </Typography>
+                  <ApplicationStatusChip status={application.status} />
+                </Box>
+                <ApplicationTracker
+                  application={application}
+                  onChange={onApplicationChange}
+                />
+              </Box>
+            )}
 
             {/* Description */}
             <Box sx={{ mb: 3 }}>
               <Typography variant='h6' sx={{ fontWeight: 600, mb: 2 }}>
-                Description
+                {t('jobDetails.description')}
               </Typography>
               <Typography
                 variant='body1'
@@ -274,7 +474,7 @@ export default function JobDetails({
             {job.responsibilities && job.responsibilities.length > 0 && (
               <Box sx={{ mb: 3 }}>
                 <Typography variant='h6' sx={{ fontWeight: 600, mb: 2 }}>
-                  Responsibilities
+                  {t('jobDetails.responsibilities')}
                 </Typography>
                 <ul
                   style={{
@@ -294,7 +494,7 @@ export default function JobDetails({
             {job.requirements && (
               <Box sx={{ mb: 3 }}>
                 <Typography variant='h6' sx={{ fontWeight: 600, mb: 2 }}>
-                  Requirements
+                  {t('jobDetails.requirements')}
                 </Typography>
 
                 {/* Must Have */}
@@ -305,7 +505,7 @@ export default function JobDetails({
                         variant='subtitle1'
                         sx={{ fontWeight: 600, mb: 1.5, color: '#333' }}
                       >
-                        Must Have
+                        {t('jobDetails.mustHave')}
                       </Typography>
                       <ul
                         style={{
@@ -329,7 +529,7 @@ export default function JobDetails({
                         variant='subtitle1'
                         sx={{ fontWeight: 600, mb: 1.5, color: '#333' }}
                       >
-                        Nice To Have
+                        {t('jobDetails.niceToHave')}
                       </Typography>
                       <ul
                         style={{
@@ -354,7 +554,7 @@ export default function JobDetails({
                       variant='subtitle1'
                       sx={{ fontWeight: 600, mb: 1.5, color: '#333' }}
                     >
-                      Technologies
+                      {t('jobDetails.technologies')}
                     </Typography>
                     <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
                       {job.technologies.map((tech, index) => (
@@ -382,7 +582,7 @@ export default function JobDetails({
             {job.benefits && job.benefits.length > 0 && (
               <Box sx={{ mb: 3 }}>
                 <Typography variant='h6' sx={{ fontWeight: 600, mb: 2 }}>
-                  Benefits
+                  {t('jobDetails.benefits')}
                 </Typography>
                 <ul
                   style={{
@@ -397,6 +597,9 @@ export default function JobDetails({
                 </ul>
               </Box>
             )}
+
+            {/* Similar Jobs */}
+            <SimilarJobs jobs={similarJobs} isLoading={isLoadingSimilarJobs} />
           </Box>
         ) : (
           <Box
@@ -410,10 +613,10 @@ export default function JobDetails({
           >
             <Box>
               <Typography variant='h5' sx={{ color: '#666', mb: 1 }}>
-                Select a Job
+                {t('jobDetails.selectJob')}
               </Typography>
               <Typography variant='body1' sx={{ color: '#999' }}>
-                Choose a job from the list to view details
+                {t('jobDetails.selectJobMessage')}
               </Typography>
             </Box>
           </Box>
@@ -0,0 +1,84 @@
+/**
+ * JobUnavailable Component
+ *
+ * Shown in place of JobDetails when a posting can no longer be loaded,
+ * e.g. a shared link to a job that has been closed or removed.
+ */
+
+import { WorkOff } from '@mui/icons-material'
+import { Box, Button, Typography } from '@mui/material'
+
+import { useTranslation } from '@/services/i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface JobUnavailableProps {
+  /** Heading text */
+  title?: string
+  /** Supporting message below the heading */
+  message?: string
+  /** Label for the action button */
+  actionLabel?: string
+  /** Action button handler (button is hidden when omitted) */
+  onAction?: () => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Empty state for closed, removed or otherwise unavailable postings
+ *
+ * @example
+ * ```tsx
+ * <JobUnavailable onAction={() => navigate('/jobs/search')} />
+ * ```
+ */
+export default function JobUnavailable({
+  title,
+  message,
+  actionLabel,
+  onAction,
+}: JobUnavailableProps) {
+  const { t } = useTranslation()
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        textAlign: 'center',
+        height: '100%',
+        p: 4,
+      }}
+    >
+      <WorkOff sx={{ fontSize: 56, color: '#999', mb: 2 }} />
+      <Typography variant='h5' sx={{ color: '#666', mb: 1 }}>
+        {title ?? t('jobDetails.unavailableTitle')}
+      </Typography>
+      <Typography variant='body1' sx={{ color: '#999', mb: 3 }}>
+        {message ?? t('jobDetails.unavailableMessage')}
+      </Typography>
+      {onAction && (
+        <Button
+          variant='contained'
+          onClick={onAction}
+          sx={{
+            bgcolor: '#0a66c2',
+            borderRadius: '20px',
+            px: 3,
+            textTransform: 'none',
+            fontWeight: 'bold',
+            '&:hover': { bgcolor: '#004182' },
+          }}
+        >
+          {actionLabel ?? t('common.browseJobs')}
+        </Button>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,124 @@
+/**
+ * SimilarJobs Component
+ *
+ * "Similar jobs" section at the bottom of JobDetails. Each row links to
+ * the posting's `/jobs/:jobId` page.
+ */
+
+import { Box, CircularProgress, Link, Typography } from '@mui/material'
+import CompanyAvatar from '@shared/components/CompanyAvatar'
+import { Link as RouterLink } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+
+import { formatPostedDate, formatSalary } from '../../../api/transformer'
+import type { Job } from '../../../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SimilarJobsProps {
+  /** Related postings, most similar first */
+  jobs: Job[]
+  /** Show a spinner while the list loads */
+  isLoading?: boolean
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * List of postings related to the one being viewed
+ *
+ * Renders nothing once loaded if there are no similar jobs.
+ *
+ * @example
+ * ```tsx
+ * <SimilarJobs jobs={similarJobs} isLoading={isLoadingSimilarJobs} />
+ * ```
+ */
+export default function SimilarJobs({
+  jobs,
+  isLoading = false,
+}: SimilarJobsProps) {
+  const { t } = useTranslation()
+
+  if (!isLoading && jobs.length === 0) return null
+
+  return (
+    <Box sx={{ mb: 3, pt: 3, borderTop: '1px solid #e0e0e0' }}>
+      <Typography variant='h6' sx={{ fontWeight: 600, mb: 2 }}>
+        {t('jobDetails.similarJobs')}
+      </Typography>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {jobs.map(job => {
+            const postedDate = formatPostedDate(job)
+
+            return (
+              <Link
+                key={job.id}
+                component={RouterLink}
+                to={`/jobs/${job.id}`}
+                underline='none'
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1.5,
+                  p: 1.5,
+                  border: '1px solid #e0e0e0',
+                  borderRadius: 2,
+                  transition: 'background-color 0.2s ease',
+                  '&:hover': { bgcolor: '#fafafa' },
+                }}
+              >
+                <CompanyAvatar
+                  company={job.company}
+                  logoUrl={job.companyLogoUrl}
+                  size={44}
+                />
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography
+                    variant='subtitle1'
+                    sx={{
+                      fontWeight: 600,
+                      color: '#0a66c2',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {job.title}
+                  </Typography>
+                  <Typography variant='body2' sx={{ color: '#333' }}>
+                    {job.company}
+                  </Typography>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                    {job.salary && (
+                      <Typography
+                        variant='caption'
+                        sx={{ color: '#057642', fontWeight: 500 }}
+                      >
+                        {formatSalary(job.salary)}
+                      </Typography>
+                    )}
+                    <Typography variant='caption' color='text.secondary'>
+                      {postedDate || t('jobList.recentlyPosted')}
+                    </Typography>
+                  </Box>
+                </Box>
+              </Link>
+            )
+          })}
+        </Box>
+      )}
+    </Box>
+  )
+}
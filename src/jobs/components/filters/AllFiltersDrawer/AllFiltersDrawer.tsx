@@ -0,0 +1,270 @@
+/**
+ * AllFiltersDrawer Component
+ *
+ * Side panel showing every filter at once. Changes are made to a staged
+ * (draft) selection owned by the parent; nothing is searched until the
+ * "Show N results" button applies the whole selection in one go.
+ */
+
+import CloseIcon from '@mui/icons-material/Close'
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  Drawer,
+  IconButton,
+  Typography,
+} from '@mui/material'
+import { Fragment } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { CompanyOption } from '../../../hooks/useCompanyOptions'
+import type { TechnologyTreeNode } from '../../../hooks/useTechnologyOptions'
+import type {
+  DatePreset,
+  JobSearchFilters,
+  MultiSelectFilterKey,
+} from '../../../types/filters'
+import { countFilterSelections } from '../../../types/filters'
+import type { SearchFacets } from '../../../types/models'
+import { FILTER_CONFIG, getFilterLabel, isDynamicFilter } from '../filterConfig'
+import FilterPanel from '../FilterMenuContainer/FilterPanel'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AllFiltersDrawerProps {
+  /** Whether the drawer is open */
+  open: boolean
+  /** Close without applying the staged filters */
+  onClose: () => void
+  /** Staged filter values */
+  filters: Partial<JobSearchFilters>
+  /** Toggle handler for multi-select filters */
+  onToggleFilter: (key: MultiSelectFilterKey, value: string) => void
+  /** Set handler for date preset filter */
+  onSetDatePreset: (key: 'datePreset', value: DatePreset) => void
+  /** Set handler for a custom date range */
+  onSetDateRange: (
+    dateFrom: string | undefined,
+    dateTo: string | undefined
+  ) => void
+  /** Set handler for the technology "required only" toggle */
+  onSetTechnologyRequiredOnly: (value: boolean) => void
+  /** Set handler for the salary range (USD per month) */
+  onSetSalaryRange: (min: number | undefined, max: number | undefined) => void
+  /** Clear every staged filter */
+  onClearAll: () => void
+  /** Apply the staged filters and run the search */
+  onApply: () => void
+  /** Number of jobs the staged filters match (null while unknown) */
+  resultCount: number | null
+  /** Whether the result count is being updated */
+  isCountLoading?: boolean | undefined
+  /** Company options for the company filter */
+  companyOptions?: CompanyOption[] | undefined
+  /** Whether company options are loading */
+  isLoadingCompanies?: boolean | undefined
+  /** Technology options for the technology filter, arranged by parent */
+  technologyOptions?: TechnologyTreeNode[] | undefined
+  /** Whether technology options are loading */
+  isLoadingTechnologies?: boolean | undefined
+  /** Job counts per option of the faceted filters, for the staged filters */
+  facets?: SearchFacets | null | undefined
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Drawer with all filter sections and an apply button
+ *
+ * @example
+ * ```tsx
+ * <AllFiltersDrawer
+ *   open={isAllFiltersOpen}
+ *   onClose={() => setIsAllFiltersOpen(false)}
+ *   filters={draft.filters}
+ *   onToggleFilter={draft.toggleFilter}
+ *   onSetDatePreset={draft.setFilter}
+ *   onSetDateRange={draft.setDateRange}
+ *   onSetTechnologyRequiredOnly={draft.setTechnologyRequiredOnly}
+ *   onSetSalaryRange={draft.setSalaryRange}
+ *   onClearAll={draft.clearAllFilters}
+ *   onApply={() => replaceFilters(draft.filters)}
+ *   resultCount={count}
+ * />
+ * ```
+ */
+export default function AllFiltersDrawer({
+  open,
+  onClose,
+  filters,
+  onToggleFilter,
+  onSetDatePreset,
+  onSetDateRange,
+  onSetTechnologyRequiredOnly,
+  onSetSalaryRange,
+  onClearAll,
+  onApply,
+  resultCount,
+  isCountLoading = false,
+  companyOptions = [],
+  isLoadingCompanies = false,
+  technologyOptions = [],
+  isLoadingTechnologies = false,
+  facets,
+}: AllFiltersDrawerProps) {
+  const { t } = useTranslation()
+
+  const hasSelections = FILTER_CONFIG.some(
+    config => countFilterSelections(filters, config.key) > 0
+  )
+
+  let applyLabel = t('filters.allFilters.showResultsUnknown')
+  if (resultCount === 1) {
+    applyLabel = t('filters.allFilters.showResultsOne')
+  } else if (resultCount !== null) {
+    applyLabel = t('filters.allFilters.showResults', { count: resultCount })
+  }
+
+  return (
+    <Drawer
+      anchor='right'
+      open={open}
+      onClose={onClose}
+      slotProps={{
+        paper: {
+          sx: {
+            width: { xs: '100%', sm: 420 },
+            display: 'flex',
+            flexDirection: 'column',
+          },
+        },
+      }}
+    >
+      {/* Header */}
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          px: 3,
+          py: 2,
+          borderBottom: '1px solid #e0e0e0',
+        }}
+      >
+        <Typography variant='h6' sx={{ fontWeight: 600, color: '#333' }}>
+          {t('filters.allFilters.title')}
+        </Typography>
+        <IconButton
+          onClick={onClose}
+          aria-label={t('filters.allFilters.close')}
+          sx={{ color: '#666' }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </Box>
+
+      {/* Filter Sections */}
+      <Box sx={{ flex: 1, overflow: 'auto', px: 2, py: 2 }}>
+        {FILTER_CONFIG.map((config, index) => {
+          const activeCount = countFilterSelections(filters, config.key)
+
+          return (
+            <Fragment key={config.key}>
+              {index > 0 && <Divider sx={{ my: 2 }} />}
+              <Box
+                component='section'
+                aria-labelledby={`all-filters-${config.key}`}
+              >
+                <Typography
+                  id={`all-filters-${config.key}`}
+                  variant='subtitle1'
+                  sx={{ fontWeight: 600, color: '#333', px: 1.5, mb: 1 }}
+                >
+                  {getFilterLabel(config.key)}
+                  {activeCount > 0 && (
+                    <Box
+                      component='span'
+                      sx={{ color: '#0a66c2', ml: 1, fontWeight: 500 }}
+                    >
+                      ({activeCount})
+                    </Box>
+                  )}
+                </Typography>
+                {/* Company and technology lists can be long */}
+                <Box
+                  sx={
+                    isDynamicFilter(config.key)
+                      ? { maxHeight: 300, overflow: 'auto' }
+                      : {}
+                  }
+                >
+                  <FilterPanel
+                    filterKey={config.key}
+                    filterValues={filters}
+                    onToggleFilter={onToggleFilter}
+                    onSetFilter={onSetDatePreset}
+                    onSetDateRange={onSetDateRange}
+                    onSetTechnologyRequiredOnly={onSetTechnologyRequiredOnly}
+                    onSetSalaryRange={onSetSalaryRange}
+                    companyOptions={companyOptions}
+                    isLoadingCompanies={isLoadingCompanies}
+                    technologyOptions={technologyOptions}
+                    isLoadingTechnologies={isLoadingTechnologies}
+                    facets={facets}
+                  />
+                </Box>
+              </Box>
+            </Fragment>
+          )
+        })}
+      </Box>
+
+      {/* Footer */}
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 2,
+          px: 3,
+          py: 2,
+          borderTop: '1px solid #e0e0e0',
+        }}
+      >
+        <Button
+          onClick={onClearAll}
+          disabled={!hasSelections}
+          sx={{ color: '#0a66c2', textTransform: 'none', fontWeight: 'bold' }}
+        >
+          {t('filters.allFilters.clearAll')}
+        </Button>
+        <Button
+          variant='contained'
+          onClick={onApply}
+          startIcon={
+            isCountLoading ? (
+              <CircularProgress size={16} sx={{ color: 'inherit' }} />
+            ) : undefined
+          }
+          sx={{
+            bgcolor: '#0a66c2',
+            borderRadius: '20px',
+            px: 3,
+            textTransform: 'none',
+            fontWeight: 'bold',
+            '&:hover': { bgcolor: '#004182' },
+          }}
+        >
+          {applyLabel}
+        </Button>
+      </Box>
+    </Drawer>
+  )
+}
@@ -1,11 +1,14 @@
 /**
  * CheckboxFilterContent Component
  *
- * Checkbox list for multi-select filters.
+ * Checkbox list for multi-select filters. When job counts are given, each
+ * option shows its count and options without jobs are disabled (unless
+ * selected, so they can still be cleared).
  */
 
 import { Checkbox, FormControlLabel } from '@mui/material'
 
+import type { FacetCounts } from '../../../../types/models'
 import type { FilterOption } from '../../filterConfig'
 
 // =============================================================================
@@ -19,6 +22,8 @@ interface CheckboxFilterContentProps {
   selectedValues: string[]
   /** Toggle handler - called with the value to toggle */
   onChange: (value: string) => void
+  /** Number of matching jobs per option value (counts hidden when omitted) */
+  counts?: FacetCounts | undefined
 }
 
 // =============================================================================
@@ -31,9 +36,10 @@ interface CheckboxFilterContentProps {
  * @example
  * ```tsx
  * <CheckboxFilterContent
- *   options={EXPERIENCE_LEVEL_OPTIONS}
+ *   options={getExperienceLevelOptions()}
  *   selectedValues={filters.experienceLevel ?? []}
  *   onChange={(value) => toggleFilter('experienceLevel', value)}
+ *   counts={facets?.experienceLevel}
  * />
  * ```
  */
@@ -41,31 +47,40 @@ export default function CheckboxFilterContent({
   options,
   selectedValues,
   onChange,
+  counts,
 }: CheckboxFilterContentProps) {
   return (
     <>
-      {options.map(option => (
-        <FormControlLabel
-          key={option.value}
-          control={
-            <Checkbox
-              checked={selectedValues.includes(option.value)}
-              onChange={() => onChange(option.value)}
-              sx={{
-                color: '#0a66c2',
-                '&.Mui-checked': {
+      {options.map(option => {
+        const isSelected = selectedValues.includes(option.value)
+        const count = counts ? (counts[option.value] ?? 0) : undefined
+
+        return (
+          <FormControlLabel
+            key={option.value}
+            disabled={count === 0 && !isSelected}
+            control={
+              <Checkbox
+                checked={isSelected}
+                onChange={() => onChange(option.value)}
+                sx={{
                   color: '#0a66c2',
-                },
-              }}
-            />
-          }
-          label={option.label}
-          sx={{
-            display: 'flex',
-            px: 1.5,
-          }}
-        />
-      ))}
+                  '&.Mui-checked': {
+                    color: '#0a66c2',
+                  },
+                }}
+              />
+            }
+            label={
+              count !== undefined ? `${option.label} (${count})` : option.label
+            }
+            sx={{
+              display: 'flex',
+              px: 1.5,
+            }}
+          />
+        )
+      })}
     </>
   )
 }
@@ -1,13 +1,28 @@
 /**
  * DateFilterContent Component
  *
- * Radio button list for selecting date presets.
+ * Radio button list for selecting date presets, with a "Custom range"
+ * option that reveals start/end date inputs.
  */
 
-import { FormControlLabel, Radio, RadioGroup } from '@mui/material'
+import {
+  Box,
+  Button,
+  FormControlLabel,
+  FormHelperText,
+  Radio,
+  RadioGroup,
+  Stack,
+  TextField,
+} from '@mui/material'
+import { format } from 'date-fns'
 import type { ChangeEvent } from 'react'
+import { useState } from 'react'
+
+import { useTranslation } from '@/services/i18n'
 
 import type { DatePreset } from '../../../../types/filters'
+import { validateDateRange } from '../../../../types/filters'
 import type { FilterOption } from '../../filterConfig'
 
 // =============================================================================
@@ -19,8 +34,17 @@ interface DateFilterContentProps {
   options: FilterOption[]
   /** Currently selected value */
   value: DatePreset
+  /** Start of the applied custom range (`YYYY-MM-DD`) */
+  dateFrom?: string | undefined
+  /** End of the applied custom range (`YYYY-MM-DD`) */
+  dateTo?: string | undefined
   /** Change handler */
   onChange: (value: DatePreset) => void
+  /** Apply handler for a validated custom range */
+  onApplyRange: (
+    dateFrom: string | undefined,
+    dateTo: string | undefined
+  ) => void
 }
 
 // =============================================================================
@@ -28,48 +52,142 @@ interface DateFilterContentProps {
 // =============================================================================
 
 /**
- * Date filter content with radio buttons
+ * Date filter content with radio buttons and a custom range
  *
  * @example
  * ```tsx
  * <DateFilterContent
- *   options={DATE_PRESET_OPTIONS}
+ *   options={getDatePresetOptions()}
  *   value={filters.datePreset ?? 'any'}
+ *   dateFrom={filters.dateFrom}
+ *   dateTo={filters.dateTo}
  *   onChange={(value) => setFilter('datePreset', value)}
+ *   onApplyRange={setDateRange}
  * />
  * ```
  */
 export default function DateFilterContent({
   options,
   value,
+  dateFrom,
+  dateTo,
   onChange,
+  onApplyRange,
 }: DateFilterContentProps) {
+  const { t } = useTranslation()
+  // "Custom range" is only applied once valid dates are entered
+  const [isCustomSelected, setIsCustomSelected] = useState(value === 'custom')
+  const [draftFrom, setDraftFrom] = useState(dateFrom ?? '')
+  const [draftTo, setDraftTo] = useState(dateTo ?? '')
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const hasDraft = Boolean(draftFrom || draftTo)
+  const error = hasDraft
+    ? validateDateRange(draftFrom || undefined, draftTo || undefined)
+    : null
+  const isApplied =
+    value === 'custom' &&
+    draftFrom === (dateFrom ?? '') &&
+    draftTo === (dateTo ?? '')
+
   const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
-    onChange(event.target.value as DatePreset)
+    const preset = event.target.value as DatePreset
+
+    if (preset === 'custom') {
+      setIsCustomSelected(true)
+      return
+    }
+
+    setIsCustomSelected(false)
+    onChange(preset)
+  }
+
+  const handleApply = () => {
+    if (!hasDraft || error) return
+    onApplyRange(draftFrom || undefined, draftTo || undefined)
   }
 
   return (
-    <RadioGroup value={value} onChange={handleChange}>
-      {options.map(option => (
-        <FormControlLabel
-          key={option.value}
-          value={option.value}
-          control={
-            <Radio
-              sx={{
-                color: '#057642',
-                '&.Mui-checked': {
+    <>
+      <RadioGroup
+        value={isCustomSelected ? 'custom' : value}
+        onChange={handleChange}
+      >
+        {options.map(option => (
+          <FormControlLabel
+            key={option.value}
+            value={option.value}
+            control={
+              <Radio
+                sx={{
                   color: '#057642',
-                },
+                  '&.Mui-checked': {
+                    color: '#057642',
+                  },
+                }}
+              />
+            }
+            label={option.label}
+            sx={{
+              px: 1.5,
+            }}
+          />
+        ))}
+      </RadioGroup>
+
+      {isCustomSelected && (
+        // Keep typing in the date inputs from triggering menu navigation
+        <Box
+          sx={{ px: 1.5, pt: 1, pb: 0.5 }}
+          onKeyDown={event => event.stopPropagation()}
+        >
+          <Stack direction='row' spacing={1}>
+            <TextField
+              type='date'
+              size='small'
+              label={t('filters.dateRange.from')}
+              value={draftFrom}
+              onChange={event => setDraftFrom(event.target.value)}
+              error={Boolean(error)}
+              slotProps={{
+                inputLabel: { shrink: true },
+                htmlInput: { max: draftTo || today },
+              }}
+            />
+            <TextField
+              type='date'
+              size='small'
+              label={t('filters.dateRange.to')}
+              value={draftTo}
+              onChange={event => setDraftTo(event.target.value)}
+              error={Boolean(error)}
+              slotProps={{
+                inputLabel: { shrink: true },
+                htmlInput: { min: draftFrom || undefined, max: today },
               }}
             />
-          }
-          label={option.label}
-          sx={{
-            px: 1.5,
-          }}
-        />
-      ))}
-    </RadioGroup>
+          </Stack>
+
+          {error && <FormHelperText error>{error}</FormHelperText>}
+
+          <Button
+            variant='contained'
+            size='small'
+            onClick={handleApply}
+            disabled={!hasDraft || Boolean(error) || isApplied}
+            sx={{
+              mt: 1.5,
+              borderRadius: '20px',
+              textTransform: 'none',
+              fontWeight: 'bold',
+              bgcolor: '#0a66c2',
+              '&:hover': { bgcolor: '#004182' },
+            }}
+          >
+            {t('filters.dateRange.apply')}
+          </Button>
+        </Box>
+      )}
+    </>
   )
 }
@@ -0,0 +1,130 @@
+/**
+ * RangeFilterContent Component
+ *
+ * Two-thumb slider for selecting a numeric range (e.g. salary).
+ * Thumbs at the ends of the slider leave that side of the range open.
+ */
+
+import { Box, Slider, Typography } from '@mui/material'
+import { useState } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { FilterRangeConfig } from '../../filterConfig'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RangeFilterContentProps {
+  /** Slider bounds, step and unit */
+  range: FilterRangeConfig
+  /** Selected minimum (undefined for no minimum) */
+  min: number | undefined
+  /** Selected maximum (undefined for no maximum) */
+  max: number | undefined
+  /** Change handler, called when a thumb is released */
+  onChange: (min: number | undefined, max: number | undefined) => void
+  /** Format a value for display */
+  formatValue: (value: number) => string
+  /** Optional secondary line for the selected range (e.g. a converted amount) */
+  formatHint?: ((min: number, max: number) => string) | undefined
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Range filter content with a two-thumb slider
+ *
+ * @example
+ * ```tsx
+ * <RangeFilterContent
+ *   range={config.range}
+ *   min={filters.salaryMin}
+ *   max={filters.salaryMax}
+ *   onChange={setSalaryRange}
+ *   formatValue={value => formatSalaryAmount(value, 'usd')}
+ * />
+ * ```
+ */
+export default function RangeFilterContent({
+  range,
+  min,
+  max,
+  onChange,
+  formatValue,
+  formatHint,
+}: RangeFilterContentProps) {
+  const { t } = useTranslation()
+  // Thumb positions while dragging (committed on release)
+  const [draft, setDraft] = useState<[number, number] | null>(null)
+
+  const [from, to] = draft ?? [min ?? range.min, max ?? range.max]
+  const isOpenMin = from <= range.min
+  const isOpenMax = to >= range.max
+
+  const handleChange = (_event: Event, value: number | number[]) => {
+    if (Array.isArray(value) && value.length === 2) {
+      setDraft([value[0] ?? range.min, value[1] ?? range.max])
+    }
+  }
+
+  const handleChangeCommitted = () => {
+    if (!draft) return
+
+    const [newFrom, newTo] = draft
+    setDraft(null)
+    onChange(
+      newFrom <= range.min ? undefined : newFrom,
+      newTo >= range.max ? undefined : newTo
+    )
+  }
+
+  const label =
+    isOpenMin && isOpenMax
+      ? t('filters.range.any')
+      : isOpenMax
+        ? t('filters.range.atLeast', { value: formatValue(from) })
+        : isOpenMin
+          ? t('filters.range.upTo', { value: formatValue(to) })
+          : t('filters.range.between', {
+              min: formatValue(from),
+              max: formatValue(to),
+            })
+
+  return (
+    // Keep arrow keys on the slider instead of the surrounding menu
+    <Box sx={{ px: 1.5, pb: 1 }} onKeyDown={event => event.stopPropagation()}>
+      <Typography variant='body1' sx={{ fontWeight: 600 }}>
+        {label}
+      </Typography>
+      <Typography variant='caption' color='text.secondary'>
+        {t(range.unitLabelKey)}
+        {formatHint && !(isOpenMin && isOpenMax)
+          ? ` · ${formatHint(from, to)}`
+          : ''}
+      </Typography>
+
+      <Slider
+        value={[from, to]}
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        onChange={handleChange}
+        onChangeCommitted={handleChangeCommitted}
+        valueLabelDisplay='auto'
+        valueLabelFormat={formatValue}
+        disableSwap
+        getAriaLabel={index =>
+          t(index === 0 ? 'filters.range.minimum' : 'filters.range.maximum')
+        }
+        sx={{
+          mt: 1,
+          color: '#057642',
+        }}
+      />
+    </Box>
+  )
+}
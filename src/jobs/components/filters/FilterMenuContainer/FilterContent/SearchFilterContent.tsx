@@ -1,7 +1,8 @@
 /**
  * SearchFilterContent Component
  *
- * Searchable checkbox list for filters with many options (e.g., companies).
+ * Searchable checkbox list for filters with many options (e.g., companies,
+ * technologies). Options may carry aliases that also match the search input.
  */
 
 import {
@@ -13,15 +14,17 @@ import {
 } from '@mui/material'
 import { useMemo, useState } from 'react'
 
-import type { CompanyOption } from '../../../../hooks/useCompanyOptions'
+import { useTranslation } from '@/services/i18n'
+
+import type { SearchFilterOption } from '../../filterConfig'
 
 // =============================================================================
 // Types
 // =============================================================================
 
 interface SearchFilterContentProps {
-  /** Available options (with optional job counts) */
-  options: CompanyOption[]
+  /** Available options (with optional job counts and aliases) */
+  options: SearchFilterOption[]
   /** Currently selected values */
   selectedValues: string[]
   /** Toggle handler - called with the value to toggle */
@@ -30,6 +33,10 @@ interface SearchFilterContentProps {
   searchPlaceholder?: string | undefined
   /** Whether options are currently loading */
   isLoading?: boolean | undefined
+  /** Empty-state message when there are no options */
+  noOptionsText: string
+  /** Empty-state message when the search input matches nothing */
+  noMatchesText: string
 }
 
 // =============================================================================
@@ -45,7 +52,9 @@ interface SearchFilterContentProps {
  *   options={companies}
  *   selectedValues={filters.company ?? []}
  *   onChange={(value) => toggleFilter('company', value)}
- *   searchPlaceholder="Search companies..."
+ *   searchPlaceholder={t('filters.search.companies')}
+ *   noOptionsText={t('filters.search.noCompanies')}
+ *   noMatchesText={t('filters.search.noMatchingCompanies')}
  *   isLoading={isLoadingCompanies}
  * />
  * ```
@@ -54,9 +63,12 @@ export default function SearchFilterContent({
   options,
   selectedValues,
   onChange,
-  searchPlaceholder = 'Search...',
+  searchPlaceholder,
   isLoading = false,
+  noOptionsText,
+  noMatchesText,
 }: SearchFilterContentProps) {
+  const { t } = useTranslation()
   const [searchValue, setSearchValue] = useState('')
 
   // Filter options based on search input
@@ -66,8 +78,10 @@ export default function SearchFilterContent({
     }
 
     const searchLower = searchValue.toLowerCase()
-    return options.filter(option =>
-      option.name.toLowerCase().includes(searchLower)
+    return options.filter(
+      option =>
+        option.name.toLowerCase().includes(searchLower) ||
+        option.aliases?.some(alias => alias.toLowerCase().includes(searchLower))
     )
   }, [options, searchValue])
 
@@ -78,7 +92,7 @@ export default function SearchFilterContent({
         <TextField
           fullWidth
           size='small'
-          placeholder={searchPlaceholder}
+          placeholder={searchPlaceholder ?? t('common.searchPlaceholder')}
           value={searchValue}
           onChange={e => setSearchValue(e.target.value)}
           sx={{
@@ -101,7 +115,7 @@ export default function SearchFilterContent({
           color='text.secondary'
           sx={{ px: 2, py: 1 }}
         >
-          Loading...
+          {t('common.loading')}
         </Typography>
       )}
 
@@ -112,7 +126,7 @@ export default function SearchFilterContent({
           color='text.secondary'
           sx={{ px: 2, py: 1 }}
         >
-          {searchValue ? 'No matching companies' : 'No companies available'}
+          {searchValue ? noMatchesText : noOptionsText}
         </Typography>
       )}
 
@@ -121,6 +135,10 @@ export default function SearchFilterContent({
         filteredOptions.map(option => (
           <FormControlLabel
             key={option.name}
+            // Options without jobs can only be cleared
+            disabled={
+              option.jobCount === 0 && !selectedValues.includes(option.name)
+            }
             control={
               <Checkbox
                 checked={selectedValues.includes(option.name)}
@@ -0,0 +1,278 @@
+/**
+ * TreeCheckboxFilterContent Component
+ *
+ * Searchable, hierarchical checkbox list for filters whose options have
+ * parent/child relationships (e.g., technologies). Selecting a parent also
+ * covers its descendants, so their checkboxes are shown checked and disabled.
+ */
+
+import { ChevronRight, ExpandMore } from '@mui/icons-material'
+import {
+  Box,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { useMemo, useState } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { TreeFilterOption } from '../../filterConfig'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface TreeCheckboxFilterContentProps {
+  /** Top-level options (with optional job counts, aliases and children) */
+  options: TreeFilterOption[]
+  /** Currently selected values */
+  selectedValues: string[]
+  /** Toggle handler - called with the value to toggle */
+  onChange: (value: string) => void
+  /** Placeholder text for search input */
+  searchPlaceholder?: string | undefined
+  /** Whether options are currently loading */
+  isLoading?: boolean | undefined
+  /** Empty-state message when there are no options */
+  noOptionsText: string
+  /** Empty-state message when the search input matches nothing */
+  noMatchesText: string
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Check whether an option matches the search input by name or alias
+ */
+function matchesSearch(option: TreeFilterOption, searchLower: string): boolean {
+  return (
+    option.name.toLowerCase().includes(searchLower) ||
+    (option.aliases?.some(alias => alias.toLowerCase().includes(searchLower)) ??
+      false)
+  )
+}
+
+/**
+ * Keep options that match the search or have a matching descendant.
+ * A matching option keeps all of its children.
+ */
+function filterTree(
+  options: TreeFilterOption[],
+  searchLower: string
+): TreeFilterOption[] {
+  return options.flatMap(option => {
+    if (matchesSearch(option, searchLower)) {
+      return [option]
+    }
+
+    const children = filterTree(option.children, searchLower)
+    return children.length > 0 ? [{ ...option, children }] : []
+  })
+}
+
+/**
+ * Check whether any descendant of an option is selected
+ */
+function hasSelectedDescendant(
+  option: TreeFilterOption,
+  selectedValues: string[]
+): boolean {
+  return option.children.some(
+    child =>
+      selectedValues.includes(child.name) ||
+      hasSelectedDescendant(child, selectedValues)
+  )
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Tree checkbox filter content
+ *
+ * @example
+ * ```tsx
+ * <TreeCheckboxFilterContent
+ *   options={technologyTree}
+ *   selectedValues={filters.technology ?? []}
+ *   onChange={(value) => toggleFilter('technology', value)}
+ *   searchPlaceholder={t('filters.search.technologies')}
+ *   noOptionsText={t('filters.search.noTechnologies')}
+ *   noMatchesText={t('filters.search.noMatchingTechnologies')}
+ *   isLoading={isLoadingTechnologies}
+ * />
+ * ```
+ */
+export default function TreeCheckboxFilterContent({
+  options,
+  selectedValues,
+  onChange,
+  searchPlaceholder,
+  isLoading = false,
+  noOptionsText,
+  noMatchesText,
+}: TreeCheckboxFilterContentProps) {
+  const { t } = useTranslation()
+  const [searchValue, setSearchValue] = useState('')
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set())
+
+  const isSearching = searchValue.trim() !== ''
+
+  // Filter options based on search input
+  const filteredOptions = useMemo(() => {
+    if (!isSearching) {
+      return options
+    }
+
+    return filterTree(options, searchValue.trim().toLowerCase())
+  }, [options, searchValue, isSearching])
+
+  /**
+   * Expand or collapse an option's children
+   */
+  const toggleExpanded = (value: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(value)) {
+        next.delete(value)
+      } else {
+        next.add(value)
+      }
+      return next
+    })
+  }
+
+  /**
+   * Render an option row and, when expanded, its children
+   */
+  const renderOption = (
+    option: TreeFilterOption,
+    depth: number,
+    ancestorSelected: boolean
+  ) => {
+    const hasChildren = option.children.length > 0
+    // Matches are always shown in context while searching
+    const isExpanded = hasChildren && (isSearching || expanded.has(option.name))
+    const isSelected = selectedValues.includes(option.name)
+
+    return (
+      <Box key={option.name}>
+        <Box sx={{ display: 'flex', alignItems: 'center', pl: depth * 2.5 }}>
+          {hasChildren ? (
+            <IconButton
+              size='small'
+              onClick={() => toggleExpanded(option.name)}
+              disabled={isSearching}
+              aria-label={t(
+                isExpanded
+                  ? 'filters.search.collapse'
+                  : 'filters.search.expand',
+                { name: option.name }
+              )}
+              sx={{ ml: 0.5, color: '#666' }}
+            >
+              {isExpanded ? (
+                <ExpandMore fontSize='small' />
+              ) : (
+                <ChevronRight fontSize='small' />
+              )}
+            </IconButton>
+          ) : (
+            <Box sx={{ width: 34, flexShrink: 0 }} />
+          )}
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={isSelected || ancestorSelected}
+                indeterminate={
+                  !isSelected &&
+                  !ancestorSelected &&
+                  hasSelectedDescendant(option, selectedValues)
+                }
+                // Options without jobs can only be cleared
+                disabled={
+                  ancestorSelected || (option.jobCount === 0 && !isSelected)
+                }
+                onChange={() => onChange(option.name)}
+                sx={{
+                  color: '#0a66c2',
+                  '&.Mui-checked, &.MuiCheckbox-indeterminate': {
+                    color: '#0a66c2',
+                  },
+                }}
+              />
+            }
+            label={
+              option.jobCount !== undefined
+                ? `${option.name} (${option.jobCount})`
+                : option.name
+            }
+            sx={{ display: 'flex', flex: 1, mr: 1.5 }}
+          />
+        </Box>
+
+        {isExpanded &&
+          option.children.map(child =>
+            renderOption(child, depth + 1, ancestorSelected || isSelected)
+          )}
+      </Box>
+    )
+  }
+
+  return (
+    <Box>
+      {/* Search Input */}
+      <Box sx={{ pr: 4 }}>
+        <TextField
+          fullWidth
+          size='small'
+          placeholder={searchPlaceholder ?? t('common.searchPlaceholder')}
+          value={searchValue}
+          onChange={e => setSearchValue(e.target.value)}
+          sx={{
+            mb: 1,
+            px: 1.5,
+            '& .MuiOutlinedInput-root': {
+              borderRadius: '20px',
+              bgcolor: '#ffffff',
+              '&:hover fieldset': { borderColor: '#0a66c2' },
+              '&.Mui-focused fieldset': { borderColor: '#0a66c2' },
+            },
+          }}
+        />
+      </Box>
+
+      {/* Loading State */}
+      {isLoading && (
+        <Typography
+          variant='body2'
+          color='text.secondary'
+          sx={{ px: 2, py: 1 }}
+        >
+          {t('common.loading')}
+        </Typography>
+      )}
+
+      {/* No Results */}
+      {!isLoading && filteredOptions.length === 0 && (
+        <Typography
+          variant='body2'
+          color='text.secondary'
+          sx={{ px: 2, py: 1 }}
+        >
+          {searchValue ? noMatchesText : noOptionsText}
+        </Typography>
+      )}
+
+      {/* Options Tree */}
+      {!isLoading &&
+        filteredOptions.map(option => renderOption(option, 0, false))}
+    </Box>
+  )
+}
@@ -1,4 +1,5 @@
 export { default as CheckboxFilterContent } from './CheckboxFilterContent'
 export { default as DateFilterContent } from './DateFilterContent'
-export { default as LanguageFilterContent } from './LanguageFilterContent'
+export { default as RangeFilterContent } from './RangeFilterContent'
 export { default as SearchFilterContent } from './SearchFilterContent'
+export { default as TreeCheckboxFilterContent } from './TreeCheckboxFilterContent'
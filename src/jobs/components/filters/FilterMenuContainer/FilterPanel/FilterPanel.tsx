@@ -0,0 +1,265 @@
+/**
+ * FilterPanel Component
+ *
+ * Controls of a single filter (checkboxes, searchable list, date presets or
+ * range slider) without any surrounding chrome. Rendered inside a dropdown
+ * menu by FilterMenuContainer and as a section of the all filters drawer.
+ */
+
+import { config as appConfig } from '@app/config'
+import { FormControlLabel, Switch } from '@mui/material'
+
+import { useTranslation } from '@/services/i18n'
+
+import { formatSalaryAmount } from '../../../../api/transformer'
+import type { CompanyOption } from '../../../../hooks/useCompanyOptions'
+import type { TechnologyTreeNode } from '../../../../hooks/useTechnologyOptions'
+import type {
+  DatePreset,
+  FilterKey,
+  MultiSelectFilterKey,
+} from '../../../../types/filters'
+import type { SearchFacets } from '../../../../types/models'
+import { getFilterConfig, getFilterOptions } from '../../filterConfig'
+import {
+  CheckboxFilterContent,
+  DateFilterContent,
+  RangeFilterContent,
+  SearchFilterContent,
+  TreeCheckboxFilterContent,
+} from '../FilterContent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Filter values the panel reads its selection from
+ */
+export interface FilterPanelValues {
+  datePreset?: DatePreset | undefined
+  dateFrom?: string | undefined
+  dateTo?: string | undefined
+  experienceLevel?: string[] | undefined
+  employmentType?: string[] | undefined
+  workMode?: string[] | undefined
+  province?: string[] | undefined
+  jobFunction?: string[] | undefined
+  company?: string[] | undefined
+  technology?: string[] | undefined
+  technologyRequiredOnly?: boolean | undefined
+  language?: string[] | undefined
+  salaryMin?: number | undefined
+  salaryMax?: number | undefined
+}
+
+export interface FilterPanelProps {
+  /** Filter key to render */
+  filterKey: FilterKey
+  /** Current filter values (for getting selected values) */
+  filterValues: FilterPanelValues
+  /** Toggle handler for multi-select filters */
+  onToggleFilter: (key: MultiSelectFilterKey, value: string) => void
+  /** Set handler for single-select filters */
+  onSetFilter: (key: 'datePreset', value: DatePreset) => void
+  /** Set handler for a custom date range */
+  onSetDateRange: (
+    dateFrom: string | undefined,
+    dateTo: string | undefined
+  ) => void
+  /** Set handler for the technology "required only" toggle */
+  onSetTechnologyRequiredOnly: (value: boolean) => void
+  /** Set handler for the salary range (USD per month) */
+  onSetSalaryRange: (min: number | undefined, max: number | undefined) => void
+  /** Company options (for dynamic company filter) */
+  companyOptions?: CompanyOption[] | undefined
+  /** Whether company options are loading */
+  isLoadingCompanies?: boolean | undefined
+  /** Technology options arranged by parent (for dynamic technology filter) */
+  technologyOptions?: TechnologyTreeNode[] | undefined
+  /** Whether technology options are loading */
+  isLoadingTechnologies?: boolean | undefined
+  /** Job counts per option of the faceted filters (counts hidden when null) */
+  facets?: SearchFacets | null | undefined
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Filter controls for one filter, chosen by filter key and type
+ *
+ * @example
+ * ```tsx
+ * <FilterPanel
+ *   filterKey='province'
+ *   filterValues={filters}
+ *   onToggleFilter={toggleFilter}
+ *   onSetFilter={setFilter}
+ *   onSetDateRange={setDateRange}
+ *   onSetTechnologyRequiredOnly={setTechnologyRequiredOnly}
+ *   onSetSalaryRange={setSalaryRange}
+ * />
+ * ```
+ */
+export default function FilterPanel({
+  filterKey,
+  filterValues,
+  onToggleFilter,
+  onSetFilter,
+  onSetDateRange,
+  onSetTechnologyRequiredOnly,
+  onSetSalaryRange,
+  companyOptions = [],
+  isLoadingCompanies = false,
+  technologyOptions = [],
+  isLoadingTechnologies = false,
+  facets,
+}: FilterPanelProps) {
+  const { t } = useTranslation()
+  const config = getFilterConfig(filterKey)
+
+  if (!config) {
+    return null
+  }
+
+  const options = getFilterOptions(filterKey)
+  const searchPlaceholder =
+    config.searchPlaceholderKey && t(config.searchPlaceholderKey)
+
+  switch (filterKey) {
+    case 'datePreset':
+      return (
+        <DateFilterContent
+          options={options}
+          value={filterValues.datePreset ?? 'any'}
+          dateFrom={filterValues.dateFrom}
+          dateTo={filterValues.dateTo}
+          onChange={value => onSetFilter('datePreset', value)}
+          onApplyRange={onSetDateRange}
+        />
+      )
+
+    case 'language':
+      return (
+        <CheckboxFilterContent
+          options={options}
+          selectedValues={filterValues.language ?? []}
+          onChange={value => onToggleFilter('language', value)}
+          counts={facets?.language}
+        />
+      )
+
+    case 'company':
+      return (
+        <SearchFilterContent
+          options={companyOptions}
+          selectedValues={filterValues.company ?? []}
+          onChange={value => onToggleFilter('company', value)}
+          searchPlaceholder={searchPlaceholder}
+          isLoading={isLoadingCompanies}
+          noOptionsText={t('filters.search.noCompanies')}
+          noMatchesText={t('filters.search.noMatchingCompanies')}
+        />
+      )
+
+    case 'technology':
+      return (
+        <>
+          <FormControlLabel
+            control={
+              <Switch
+                size='small'
+                checked={filterValues.technologyRequiredOnly ?? false}
+                onChange={event =>
+                  onSetTechnologyRequiredOnly(event.target.checked)
+                }
+              />
+            }
+            label={t('filters.requiredSkillsOnly')}
+            sx={{ display: 'flex', px: 1.5, mb: 1 }}
+          />
+          <TreeCheckboxFilterContent
+            options={technologyOptions}
+            selectedValues={filterValues.technology ?? []}
+            onChange={value => onToggleFilter('technology', value)}
+            searchPlaceholder={searchPlaceholder}
+            isLoading={isLoadingTechnologies}
+            noOptionsText={t('filters.search.noTechnologies')}
+            noMatchesText={t('filters.search.noMatchingTechnologies')}
+          />
+        </>
+      )
+
+    case 'salary':
+      return config.range ? (
+        <RangeFilterContent
+          range={config.range}
+          min={filterValues.salaryMin}
+          max={filterValues.salaryMax}
+          onChange={onSetSalaryRange}
+          formatValue={value => formatSalaryAmount(value, 'usd')}
+          formatHint={(min, max) =>
+            t('filters.range.approximately', {
+              min: formatSalaryAmount(min * appConfig.usdToCrcRate, 'crc'),
+              max: formatSalaryAmount(max * appConfig.usdToCrcRate, 'crc'),
+            })
+          }
+        />
+      ) : null
+
+    case 'experienceLevel':
+      return (
+        <CheckboxFilterContent
+          options={options}
+          selectedValues={filterValues.experienceLevel ?? []}
+          onChange={value => onToggleFilter('experienceLevel', value)}
+          counts={facets?.experienceLevel}
+        />
+      )
+
+    case 'workMode':
+      return (
+        <CheckboxFilterContent
+          options={options}
+          selectedValues={filterValues.workMode ?? []}
+          onChange={value => onToggleFilter('workMode', value)}
+          counts={facets?.workMode}
+        />
+      )
+
+    case 'employmentType':
+      return (
+        <CheckboxFilterContent
+          options={options}
+          selectedValues={filterValues.employmentType ?? []}
+          onChange={value => onToggleFilter('employmentType', value)}
+          counts={facets?.employmentType}
+        />
+      )
+
+    case 'province':
+      return (
+        <CheckboxFilterContent
+          options={options}
+          selectedValues={filterValues.province ?? []}
+          onChange={value => onToggleFilter('province', value)}
+          counts={facets?.province}
+        />
+      )
+
+    case 'jobFunction':
+      return (
+        <CheckboxFilterContent
+          options={options}
+          selectedValues={filterValues.jobFunction ?? []}
+          onChange={value => onToggleFilter('jobFunction', value)}
+          counts={facets?.jobFunction}
+        />
+      )
+
+    default:
+      return null
+  }
+}
@@ -7,13 +7,14 @@
  */
 
 import type { CompanyOption } from '../../hooks/useCompanyOptions'
-import type { Language } from '../../types/enums'
+import type { TechnologyTreeNode } from '../../hooks/useTechnologyOptions'
 import type {
   DatePreset,
   FilterKey,
   JobSearchFilters,
   MultiSelectFilterKey,
 } from '../../types/filters'
+import type { SearchFacets } from '../../types/models'
 import { FILTER_CONFIG } from './filterConfig'
 import FilterMenuContainer from './FilterMenuContainer'
 
@@ -32,12 +33,25 @@ interface JobFiltersProps {
   onToggleFilter: (key: MultiSelectFilterKey, value: string) => void
   /** Set handler for date preset filter */
   onSetDatePreset: (key: 'datePreset', value: DatePreset) => void
-  /** Set handler for language filter */
-  onSetLanguage: (value: Language) => void
+  /** Set handler for a custom date range */
+  onSetDateRange: (
+    dateFrom: string | undefined,
+    dateTo: string | undefined
+  ) => void
+  /** Set handler for the technology "required only" toggle */
+  onSetTechnologyRequiredOnly: (value: boolean) => void
+  /** Set handler for the salary range (USD per month) */
+  onSetSalaryRange: (min: number | undefined, max: number | undefined) => void
   /** Company options for the company filter */
   companyOptions?: CompanyOption[] | undefined
   /** Whether company options are loading */
   isLoadingCompanies?: boolean | undefined
+  /** Technology options for the technology filter, arranged by parent */
+  technologyOptions?: TechnologyTreeNode[] | undefined
+  /** Whether technology options are loading */
+  isLoadingTechnologies?: boolean | undefined
+  /** Job counts per option of the faceted filters */
+  facets?: SearchFacets | null | undefined
 }
 
 // =============================================================================
@@ -55,9 +69,14 @@ interface JobFiltersProps {
  *   onCloseDropdown={closeDropdown}
  *   onToggleFilter={toggleFilter}
  *   onSetDatePreset={(value) => setFilter('datePreset', value)}
- *   onSetLanguage={(value) => setFilter('language', value)}
+ *   onSetDateRange={setDateRange}
+ *   onSetTechnologyRequiredOnly={setTechnologyRequiredOnly}
+ *   onSetSalaryRange={setSalaryRange}
  *   companyOptions={companies}
  *   isLoadingCompanies={isLoadingCompanies}
+ *   technologyOptions={technologyTree}
+ *   isLoadingTechnologies={isLoadingTechnologies}
+ *   facets={facets}
  * />
  * ```
  */
@@ -67,9 +86,14 @@ export default function JobFilters({
   onCloseDropdown,
   onToggleFilter,
   onSetDatePreset,
-  onSetLanguage,
+  onSetDateRange,
+  onSetTechnologyRequiredOnly,
+  onSetSalaryRange,
   companyOptions = [],
   isLoadingCompanies = false,
+  technologyOptions = [],
+  isLoadingTechnologies = false,
+  facets,
 }: JobFiltersProps) {
   return (
     <>
@@ -82,19 +106,30 @@ export default function JobFilters({
           onClose={() => onCloseDropdown(config.key)}
           filterValues={{
             datePreset: filters.datePreset,
+            dateFrom: filters.dateFrom,
+            dateTo: filters.dateTo,
             experienceLevel: filters.experienceLevel,
             employmentType: filters.employmentType,
             workMode: filters.workMode,
             province: filters.province,
             jobFunction: filters.jobFunction,
             company: filters.company,
+            technology: filters.technology,
+            technologyRequiredOnly: filters.technologyRequiredOnly,
             language: filters.language,
+            salaryMin: filters.salaryMin,
+            salaryMax: filters.salaryMax,
           }}
           onToggleFilter={onToggleFilter}
           onSetFilter={onSetDatePreset}
-          onSetLanguage={onSetLanguage}
+          onSetDateRange={onSetDateRange}
+          onSetTechnologyRequiredOnly={onSetTechnologyRequiredOnly}
+          onSetSalaryRange={onSetSalaryRange}
           companyOptions={companyOptions}
           isLoadingCompanies={isLoadingCompanies}
+          technologyOptions={technologyOptions}
+          isLoadingTechnologies={isLoadingTechnologies}
+          facets={facets}
         />
       ))}
     </>
@@ -3,20 +3,25 @@
  *
  * Centralized configuration for all job search filters.
  * Defines filter metadata, types, and options in one place.
+ * Labels are stored as message keys and options are built on demand, so
+ * everything shown follows the active locale.
  */
 
+import type { MessageKey } from '@/services/i18n'
+import { translate } from '@/services/i18n'
+
 import {
-  EMPLOYMENT_TYPE_LABELS,
   EMPLOYMENT_TYPES,
-  EXPERIENCE_LEVEL_LABELS,
   EXPERIENCE_LEVELS,
-  JOB_FUNCTION_LABELS,
+  getEmploymentTypeLabel,
+  getExperienceLevelLabel,
+  getJobFunctionLabel,
+  getLanguageLabel,
+  getProvinceLabel,
+  getWorkModeLabel,
   JOB_FUNCTIONS,
-  LANGUAGE_LABELS,
   LANGUAGES,
-  PROVINCE_LABELS,
   PROVINCES,
-  WORK_MODE_LABELS,
   WORK_MODES,
 } from '../../types/enums'
 import type { DatePreset, FilterKey } from '../../types/filters'
@@ -29,7 +34,12 @@ import { DATE_PRESETS } from '../../types/filters'
 /**
  * Filter input types
  */
-export type FilterInputType = 'checkbox' | 'checkbox-search' | 'radio'
+export type FilterInputType =
+  | 'checkbox'
+  | 'checkbox-search'
+  | 'checkbox-tree'
+  | 'radio'
+  | 'range'
 
 /**
  * Option with value and label
@@ -39,22 +49,58 @@ export interface FilterOption {
   label: string
 }
 
+/**
+ * Option for searchable checkbox filters (companies, technologies)
+ */
+export interface SearchFilterOption {
+  /** Option value and display name */
+  name: string
+  /** Number of matching jobs (optional, only when filtered) */
+  jobCount?: number | undefined
+  /** Alternative names that also match the search input */
+  aliases?: string[] | undefined
+}
+
+/**
+ * Option for hierarchical checkbox filters (technologies)
+ */
+export interface TreeFilterOption extends SearchFilterOption {
+  /** Child options, shown when the parent is expanded */
+  children: TreeFilterOption[]
+}
+
+/**
+ * Bounds and step for range filters
+ */
+export interface FilterRangeConfig {
+  /** Lowest selectable value (selecting it means "no minimum") */
+  min: number
+  /** Highest selectable value (selecting it means "no maximum") */
+  max: number
+  /** Slider step */
+  step: number
+  /** Message key for the unit shown next to values (e.g. "USD / month") */
+  unitLabelKey: MessageKey
+}
+
 /**
  * Filter configuration item
  */
 export interface FilterConfigItem {
   /** Unique filter key */
   key: FilterKey
-  /** Display label for the filter chip */
-  label: string
+  /** Message key for the filter chip label */
+  labelKey: MessageKey
   /** Type of input control */
   type: FilterInputType
-  /** Static options (for non-dynamic filters) */
-  options?: FilterOption[]
+  /** Build the static options (for non-dynamic filters) */
+  getOptions?: () => FilterOption[]
   /** Whether options are loaded dynamically */
   dynamic?: boolean
-  /** Placeholder text for search input */
-  searchPlaceholder?: string
+  /** Message key for the search input placeholder */
+  searchPlaceholderKey?: MessageKey
+  /** Bounds and step (for range filters) */
+  range?: FilterRangeConfig
 }
 
 // =============================================================================
@@ -64,62 +110,72 @@ export interface FilterConfigItem {
 /**
  * Date preset options for radio buttons
  */
-export const DATE_PRESET_OPTIONS: FilterOption[] = DATE_PRESETS.map(preset => ({
-  value: preset.value,
-  label: preset.label,
-}))
+export function getDatePresetOptions(): FilterOption[] {
+  return DATE_PRESETS.map(preset => ({
+    value: preset.value,
+    label: translate(preset.labelKey),
+  }))
+}
 
 /**
  * Experience level options
  */
-export const EXPERIENCE_LEVEL_OPTIONS: FilterOption[] = EXPERIENCE_LEVELS.map(
-  level => ({
+export function getExperienceLevelOptions(): FilterOption[] {
+  return EXPERIENCE_LEVELS.map(level => ({
     value: level,
-    label: EXPERIENCE_LEVEL_LABELS[level],
-  })
-)
+    label: getExperienceLevelLabel(level),
+  }))
+}
 
 /**
  * Work mode options
  */
-export const WORK_MODE_OPTIONS: FilterOption[] = WORK_MODES.map(mode => ({
-  value: mode,
-  label: WORK_MODE_LABELS[mode],
-}))
+export function getWorkModeOptions(): FilterOption[] {
+  return WORK_MODES.map(mode => ({
+    value: mode,
+    label: getWorkModeLabel(mode),
+  }))
+}
 
 /**
  * Employment type options
  */
-export const EMPLOYMENT_TYPE_OPTIONS: FilterOption[] = EMPLOYMENT_TYPES.map(
-  type => ({
+export function getEmploymentTypeOptions(): FilterOption[] {
+  return EMPLOYMENT_TYPES.map(type => ({
     value: type,
-    label: EMPLOYMENT_TYPE_LABELS[type],
-  })
-)
+    label: getEmploymentTypeLabel(type),
+  }))
+}
 
 /**
  * Province options
  */
-export const PROVINCE_OPTIONS: FilterOption[] = PROVINCES.map(province => ({
-  value: province,
-  label: PROVINCE_LABELS[province],
-}))
+export function getProvinceOptions(): FilterOption[] {
+  return PROVINCES.map(province => ({
+    value: province,
+    label: getProvinceLabel(province),
+  }))
+}
 
 /**
  * Job function options
  */
-export const JOB_FUNCTION_OPTIONS: FilterOption[] = JOB_FUNCTIONS.map(func => ({
-  value: func,
-  label: JOB_FUNCTION_LABELS[func],
-}))
+export function getJobFunctionOptions(): FilterOption[] {
+  return JOB_FUNCTIONS.map(func => ({
+    value: func,
+    label: getJobFunctionLabel(func),
+  }))
+}
 
 /**
  * Language options
  */
-export const LANGUAGE_OPTIONS: FilterOption[] = LANGUAGES.map(lang => ({
-  value: lang,
-  label: LANGUAGE_LABELS[lang],
-}))
+export function getLanguageOptions(): FilterOption[] {
+  return LANGUAGES.map(lang => ({
+    value: lang,
+    label: getLanguageLabel(lang),
+  }))
+}
 
 // =============================================================================
 // Filter Configuration
@@ -133,52 +189,70 @@ export const LANGUAGE_OPTIONS: FilterOption[] = LANGUAGES.map(lang => ({
 export const FILTER_CONFIG: FilterConfigItem[] = [
   {
     key: 'datePreset',
-    label: 'Date',
+    labelKey: 'filters.labels.datePreset',
     type: 'radio',
-    options: DATE_PRESET_OPTIONS,
+    getOptions: getDatePresetOptions,
   },
   {
     key: 'company',
-    label: 'Company',
+    labelKey: 'filters.labels.company',
     type: 'checkbox-search',
     dynamic: true,
-    searchPlaceholder: 'Search companies...',
+    searchPlaceholderKey: 'filters.search.companies',
+  },
+  {
+    key: 'technology',
+    labelKey: 'filters.labels.technology',
+    type: 'checkbox-tree',
+    dynamic: true,
+    searchPlaceholderKey: 'filters.search.technologies',
+  },
+  {
+    key: 'salary',
+    labelKey: 'filters.labels.salary',
+    type: 'range',
+    range: {
+      min: 0,
+      max: 10000,
+      step: 250,
+      unitLabelKey: 'filters.range.salaryUnit',
+    },
   },
   {
     key: 'experienceLevel',
-    label: 'Experience',
+    labelKey: 'filters.labels.experienceLevel',
     type: 'checkbox',
-    options: EXPERIENCE_LEVEL_OPTIONS,
+    getOptions: getExperienceLevelOptions,
   },
   {
     key: 'workMode',
-    label: 'Mode',
+    labelKey: 'filters.labels.workMode',
     type: 'checkbox',
-    options: WORK_MODE_OPTIONS,
+    getOptions: getWorkModeOptions,
   },
   {
     key: 'employmentType',
-    label: 'Type',
+    labelKey: 'filters.labels.employmentType',
     type: 'checkbox',
-    options: EMPLOYMENT_TYPE_OPTIONS,
+    getOptions: getEmploymentTypeOptions,
   },
   {
     key: 'province',
-    label: 'Province',
+    labelKey: 'filters.labels.province',
     type: 'checkbox',
-    options: PROVINCE_OPTIONS,
+    getOptions: getProvinceOptions,
   },
   {
     key: 'jobFunction',
-    label: 'Function',
+    labelKey: 'filters.labels.jobFunction',
     type: 'checkbox',
-    options: JOB_FUNCTION_OPTIONS,
+    getOptions: getJobFunctionOptions,
   },
   {
     key: 'language',
-    label: 'Language',
-    type: 'radio',
-    options: LANGUAGE_OPTIONS,
+    labelKey: 'filters.labels.language',
+    type: 'checkbox',
+    getOptions: getLanguageOptions,
   },
 ]
 
@@ -194,19 +268,19 @@ export function getFilterConfig(key: FilterKey): FilterConfigItem | undefined {
 }
 
 /**
- * Get filter label by key
+ * Get filter label by key (in the active locale)
  */
 export function getFilterLabel(key: FilterKey): string {
   const config = getFilterConfig(key)
-  return config?.label ?? key
+  return config ? translate(config.labelKey) : key
 }
 
 /**
- * Get filter options by key
+ * Get filter options by key (labels in the active locale)
  */
 export function getFilterOptions(key: FilterKey): FilterOption[] {
   const config = getFilterConfig(key)
-  return config?.options ?? []
+  return config?.getOptions?.() ?? []
 }
 
 /**
@@ -214,7 +288,11 @@ export function getFilterOptions(key: FilterKey): FilterOption[] {
  */
 export function isMultiSelectFilter(key: FilterKey): boolean {
   const config = getFilterConfig(key)
-  return config?.type === 'checkbox' || config?.type === 'checkbox-search'
+  return (
+    config?.type === 'checkbox' ||
+    config?.type === 'checkbox-search' ||
+    config?.type === 'checkbox-tree'
+  )
 }
 
 /**
@@ -229,10 +307,7 @@ export function isDynamicFilter(key: FilterKey): boolean {
  * Get label for a filter value
  */
 export function getValueLabel(key: FilterKey, value: string): string {
-  const config = getFilterConfig(key)
-  if (!config?.options) return value
-
-  const option = config.options.find(opt => opt.value === value)
+  const option = getFilterOptions(key).find(opt => opt.value === value)
   return option?.label ?? value
 }
 
@@ -240,6 +315,6 @@ export function getValueLabel(key: FilterKey, value: string): string {
  * Convert DatePreset to display label
  */
 export function getDatePresetLabel(preset: DatePreset): string {
-  const option = DATE_PRESET_OPTIONS.find(opt => opt.value === preset)
-  return option?.label ?? preset
+  const option = DATE_PRESETS.find(opt => opt.value === preset)
+  return option ? translate(option.labelKey) : preset
 }
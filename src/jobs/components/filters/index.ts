@@ -8,6 +8,10 @@
 export { default as JobFilters } from './JobFilters'
 export { default } from './JobFilters'
 
+// All filters drawer (staged changes, applied at once)
+export type { AllFiltersDrawerProps } from './AllFiltersDrawer/AllFiltersDrawer'
+export { default as AllFiltersDrawer } from './AllFiltersDrawer/AllFiltersDrawer'
+
 // Filter chip component
 export { default as FilterChip } from './FilterChip/FilterChip'
 
@@ -16,21 +20,24 @@ export type {
   FilterConfigItem,
   FilterInputType,
   FilterOption,
+  FilterRangeConfig,
+  SearchFilterOption,
+  TreeFilterOption,
 } from './filterConfig'
 export {
-  DATE_PRESET_OPTIONS,
-  EMPLOYMENT_TYPE_OPTIONS,
-  EXPERIENCE_LEVEL_OPTIONS,
   FILTER_CONFIG,
   getDatePresetLabel,
+  getDatePresetOptions,
+  getEmploymentTypeOptions,
+  getExperienceLevelOptions,
   getFilterConfig,
   getFilterLabel,
   getFilterOptions,
+  getJobFunctionOptions,
+  getLanguageOptions,
+  getProvinceOptions,
   getValueLabel,
+  getWorkModeOptions,
   isDynamicFilter,
   isMultiSelectFilter,
-  JOB_FUNCTION_OPTIONS,
-  LANGUAGE_OPTIONS,
-  PROVINCE_OPTIONS,
-  WORK_MODE_OPTIONS,
 } from './filterConfig'
@@ -0,0 +1,211 @@
+/**
+ * HiddenItemsDialog Component
+ *
+ * Settings panel listing hidden jobs and companies, with an undo action
+ * for each and a "Show all" action to clear everything.
+ */
+
+import { Close as CloseIcon } from '@mui/icons-material'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material'
+
+import { useTranslation } from '@/services/i18n'
+
+import { formatRelativeDate } from '../../../api/transformer'
+import type { HiddenCompany, HiddenJob } from '../../../hooks/useHiddenItems'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface HiddenItemsDialogProps {
+  /** Whether the dialog is open */
+  open: boolean
+  /** Close handler */
+  onClose: () => void
+  /** Hidden jobs to list */
+  hiddenJobs: HiddenJob[]
+  /** Hidden companies to list */
+  hiddenCompanies: HiddenCompany[]
+  /** Show a hidden job again */
+  onUnhideJob: (jobId: string) => void
+  /** Show a hidden company again */
+  onUnhideCompany: (name: string) => void
+  /** Show all hidden items again */
+  onClearAll: () => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const undoButtonSx = {
+  color: '#0a66c2',
+  borderRadius: '20px',
+  textTransform: 'none',
+  fontWeight: 'bold',
+} as const
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Dialog for reviewing and undoing hidden jobs and companies
+ *
+ * @example
+ * ```tsx
+ * <HiddenItemsDialog
+ *   open={isOpen}
+ *   onClose={() => setIsOpen(false)}
+ *   hiddenJobs={hiddenJobs}
+ *   hiddenCompanies={hiddenCompanies}
+ *   onUnhideJob={unhideJob}
+ *   onUnhideCompany={unhideCompany}
+ *   onClearAll={clearHidden}
+ * />
+ * ```
+ */
+export default function HiddenItemsDialog({
+  open,
+  onClose,
+  hiddenJobs,
+  hiddenCompanies,
+  onUnhideJob,
+  onUnhideCompany,
+  onClearAll,
+}: HiddenItemsDialogProps) {
+  const { t } = useTranslation()
+  const isEmpty = hiddenJobs.length === 0 && hiddenCompanies.length === 0
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth='sm'>
+      <DialogTitle
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}
+      >
+        {t('hiddenItems.title')}
+        <IconButton onClick={onClose} sx={{ color: '#666' }}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {isEmpty ? (
+          <Typography
+            variant='body2'
+            color='text.secondary'
+            sx={{ textAlign: 'center', py: 3 }}
+          >
+            {t('hiddenItems.empty')}
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {/* Hidden Companies */}
+            {hiddenCompanies.length > 0 && (
+              <Box>
+                <Typography variant='subtitle2' sx={{ fontWeight: 'bold' }}>
+                  {t('hiddenItems.companies', {
+                    count: hiddenCompanies.length,
+                  })}
+                </Typography>
+                <List dense disablePadding>
+                  {hiddenCompanies.map(company => (
+                    <ListItem
+                      key={company.name}
+                      disableGutters
+                      secondaryAction={
+                        <Button
+                          size='small'
+                          onClick={() => onUnhideCompany(company.name)}
+                          sx={undoButtonSx}
+                        >
+                          {t('common.undo')}
+                        </Button>
+                      }
+                    >
+                      <ListItemText
+                        primary={company.name}
+                        secondary={t('hiddenItems.hidden', {
+                          date: formatRelativeDate(company.hiddenAt),
+                        })}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Box>
+            )}
+
+            {hiddenCompanies.length > 0 && hiddenJobs.length > 0 && <Divider />}
+
+            {/* Hidden Jobs */}
+            {hiddenJobs.length > 0 && (
+              <Box>
+                <Typography variant='subtitle2' sx={{ fontWeight: 'bold' }}>
+                  {t('hiddenItems.jobs', { count: hiddenJobs.length })}
+                </Typography>
+                <List dense disablePadding>
+                  {hiddenJobs.map(job => (
+                    <ListItem
+                      key={job.id}
+                      disableGutters
+                      secondaryAction={
+                        <Button
+                          size='small'
+                          onClick={() => onUnhideJob(job.id)}
+                          sx={undoButtonSx}
+                        >
+                          {t('common.undo')}
+                        </Button>
+                      }
+                    >
+                      <ListItemText
+                        primary={job.title}
+                        secondary={`${job.company} · ${t('hiddenItems.hidden', {
+                          date: formatRelativeDate(job.hiddenAt),
+                        })}`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button
+          variant='outlined'
+          onClick={onClearAll}
+          disabled={isEmpty}
+          sx={{
+            color: '#0a66c2',
+            borderColor: '#0a66c2',
+            borderRadius: '20px',
+            px: 3,
+            textTransform: 'none',
+            fontWeight: 'bold',
+          }}
+        >
+          {t('hiddenItems.showAll')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
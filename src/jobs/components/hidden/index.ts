@@ -0,0 +1,8 @@
+/**
+ * Hidden Items Components Module
+ *
+ * Components for reviewing jobs and companies hidden from search results.
+ */
+
+export { default as HiddenItemsDialog } from './HiddenItemsDialog'
+export type { HiddenItemsDialogProps } from './HiddenItemsDialog/HiddenItemsDialog'
@@ -1,3 +1,13 @@
+export { JobAlertsMenu } from './alerts'
+export { ApplicationCard } from './applications'
+export {
+  CompanyCard,
+  CompanyDirectoryToolbar,
+  CompanyProfileHeader,
+} from './company'
 export { default as JobDetails } from './details'
-export { default as JobFilters } from './filters'
+export { default as JobUnavailable } from './details/JobUnavailable'
+export { AllFiltersDrawer, default as JobFilters } from './filters'
+export { HiddenItemsDialog } from './hidden'
 export { default as JobList } from './list'
+export { SavedSearchesMenu } from './search'
@@ -1,9 +1,16 @@
-import { Box, CircularProgress, Typography } from '@mui/material'
+import { Box, Button, CircularProgress, Typography } from '@mui/material'
+import { useEffect, useLayoutEffect, useRef } from 'react'
 
+import { useTranslation } from '@/services/i18n'
 import Pagination from '@/shared/components/Pagination'
 
+import type { JobListMode } from '../../hooks/useListMode'
+import type { ApplicationStatus } from '../../types/applications'
+import type { JobSortOption } from '../../types/filters'
 import type { Job } from '../../types/models'
 import JobListItem from './JobListItem'
+import ListModeToggle from './ListModeToggle'
+import SortSelect from './SortSelect'
 
 interface JobListProps {
   jobs?: Job[]
@@ -13,10 +20,59 @@ interface JobListProps {
   isFetching?: boolean
   resultsCount?: number
   searchQuery?: string
+  /** Header title (defaults to the search query) */
+  title?: string
+  // Empty state props
+  emptyTitle?: string
+  emptyMessage?: string
+  // Bookmark props
+  isJobSaved?: (jobId: string) => boolean
+  onToggleSave?: (job: Job) => void
+  /** IDs of jobs to flag as closed or removed */
+  unavailableJobIds?: Set<string>
+  // Application tracking props
+  getApplicationStatus?: (jobId: string) => ApplicationStatus | undefined
+  // Hide props
+  onHideJob?: (job: Job) => void
+  onHideCompany?: (company: string) => void
+  // Sort props
+  sort?: JobSortOption
+  onSortChange?: (sort: JobSortOption) => void
   // Pagination props
   currentPage?: number
   totalPages?: number
   onPageChange: (page: number) => void
+  // List mode props (toggle is hidden when onListModeChange is omitted)
+  listMode?: JobListMode
+  onListModeChange?: (mode: JobListMode) => void
+  // Infinite scroll props (used when listMode is 'infinite')
+  hasMore?: boolean
+  onLoadMore?: () => void
+  isLoadingMore?: boolean
+  hasPrevious?: boolean
+  onLoadPrevious?: () => void
+  isLoadingPrevious?: boolean
+  /** Show an error with a retry button in place of the next page */
+  loadMoreFailed?: boolean
+  /** Called with the index of the topmost visible job while scrolling */
+  onFirstVisibleIndexChange?: (index: number) => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Index of the first job at least partly visible in the container
+ */
+function getFirstVisibleIndex(container: HTMLElement): number {
+  const containerTop = container.getBoundingClientRect().top
+  const items = Array.from(container.querySelectorAll('[data-job-id]'))
+  const index = items.findIndex(
+    item => item.getBoundingClientRect().bottom > containerTop
+  )
+
+  return index === -1 ? Math.max(0, items.length - 1) : index
 }
 
 export default function JobList({
@@ -27,11 +83,117 @@ export default function JobList({
   isFetching = false,
   resultsCount = 0,
   searchQuery = '',
+  title,
+  // Empty state props
+  emptyTitle,
+  emptyMessage,
+  // Bookmark props
+  isJobSaved,
+  onToggleSave,
+  unavailableJobIds,
+  // Application tracking props
+  getApplicationStatus,
+  // Hide props
+  onHideJob,
+  onHideCompany,
+  // Sort props
+  sort = 'relevance',
+  onSortChange,
   // Pagination props
   currentPage = 1,
   totalPages = 1,
   onPageChange,
+  // List mode props
+  listMode = 'pages',
+  onListModeChange,
+  // Infinite scroll props
+  hasMore = false,
+  onLoadMore,
+  isLoadingMore = false,
+  hasPrevious = false,
+  onLoadPrevious,
+  isLoadingPrevious = false,
+  loadMoreFailed = false,
+  onFirstVisibleIndexChange,
 }: JobListProps) {
+  const { t } = useTranslation()
+  const isInfinite = listMode === 'infinite'
+
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const firstVisibleIndexRef = useRef(0)
+
+  // Scroll anchor: the first job and list height as of the last render
+  const anchorRef = useRef<{
+    firstJobId: string | undefined
+    scrollHeight: number
+  }>({ firstJobId: undefined, scrollHeight: 0 })
+
+  // Append the next page when the bottom of the list comes into view
+  useEffect(() => {
+    const container = scrollContainerRef.current
+    const sentinel = sentinelRef.current
+    if (!isInfinite || !container || !sentinel || !onLoadMore) return
+    if (!hasMore || isLoadingMore || loadMoreFailed) return
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore()
+      },
+      // Start loading a little before the bottom is actually reached
+      { root: container, rootMargin: '0px 0px 400px 0px' }
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [isInfinite, hasMore, isLoadingMore, loadMoreFailed, onLoadMore, jobs])
+
+  // Keep the jobs in view in place when an earlier page is prepended
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current
+    if (!container) return
+
+    const { firstJobId, scrollHeight } = anchorRef.current
+    const firstJob = jobs[0]
+    const wasPrepended =
+      isInfinite &&
+      firstJobId !== undefined &&
+      firstJob?.id !== firstJobId &&
+      jobs.some(job => job.id === firstJobId)
+
+    if (wasPrepended) {
+      container.scrollTop += container.scrollHeight - scrollHeight
+    }
+
+    anchorRef.current = {
+      firstJobId: firstJob?.id,
+      scrollHeight: container.scrollHeight,
+    }
+  }, [jobs, isInfinite])
+
+  // Bring the selected job into view
+  useEffect(() => {
+    if (!selectedJobId) return
+    listRef.current
+      ?.querySelector(`[data-job-id="${CSS.escape(selectedJobId)}"]`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [selectedJobId])
+
+  /**
+   * Report the topmost visible job as the list scrolls
+   */
+  const handleScroll = () => {
+    const container = scrollContainerRef.current
+    if (!container || !onFirstVisibleIndexChange) return
+
+    const index = getFirstVisibleIndex(container)
+    if (index !== firstVisibleIndexRef.current) {
+      firstVisibleIndexRef.current = index
+      onFirstVisibleIndexChange(index)
+    }
+  }
+
   return (
     <Box
       sx={{
@@ -70,15 +232,25 @@ export default function JobList({
           variant='body1'
           sx={{ fontWeight: 'bold', fontSize: 'body1.fontSize' }}
         >
-          {searchQuery || 'All Jobs'}
-        </Typography>
-        <Typography variant='body1' sx={{ fontSize: 'body1.fontSize' }}>
-          {resultsCount} results
+          {title ?? (searchQuery || t('jobList.allJobs'))}
         </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          {onListModeChange && (
+            <ListModeToggle value={listMode} onChange={onListModeChange} />
+          )}
+          {onSortChange && <SortSelect value={sort} onChange={onSortChange} />}
+          <Typography variant='body1' sx={{ fontSize: 'body1.fontSize' }}>
+            {resultsCount === 1
+              ? t('jobList.resultsOne')
+              : t('jobList.results', { count: resultsCount })}
+          </Typography>
+        </Box>
       </Box>
 
       {/* Scrollable Job List Content */}
       <Box
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
         sx={{
           flex: 1,
           overflow: isFetching ? 'hidden' : 'auto', // Disable scrolling during API calls
@@ -113,27 +285,98 @@ export default function JobList({
               }}
             >
               <Typography variant='h6' color='text.secondary' sx={{ mb: 1 }}>
-                No jobs found
+                {emptyTitle ?? t('jobList.emptyTitle')}
               </Typography>
               <Typography variant='body2' color='text.secondary'>
-                Try adjusting your search criteria or filters
+                {emptyMessage ?? t('jobList.emptyMessage')}
               </Typography>
             </Box>
           ) : (
-            jobs.map((job, index) => (
-              <JobListItem
-                key={job.id || index}
-                job={job}
-                isSelected={selectedJobId === job.id}
-                onClick={() => onJobSelect(job)}
-                isLast={index === jobs.length - 1}
-              />
-            ))
+            <>
+              {/* Earlier pages (infinite list restored mid-way) */}
+              {isInfinite && hasPrevious && (
+                <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+                  {isLoadingPrevious ? (
+                    <CircularProgress size={24} />
+                  ) : (
+                    <Button
+                      onClick={onLoadPrevious}
+                      sx={{ color: '#0a66c2', textTransform: 'none' }}
+                    >
+                      {t('jobList.loadPrevious')}
+                    </Button>
+                  )}
+                </Box>
+              )}
+
+              <Box ref={listRef}>
+                {jobs.map((job, index) => (
+                  <JobListItem
+                    key={job.id || index}
+                    job={job}
+                    isSelected={selectedJobId === job.id}
+                    onClick={() => onJobSelect(job)}
+                    isLast={index === jobs.length - 1}
+                    isSaved={isJobSaved?.(job.id) ?? false}
+                    onToggleSave={onToggleSave && (() => onToggleSave(job))}
+                    isUnavailable={unavailableJobIds?.has(job.id) ?? false}
+                    applicationStatus={getApplicationStatus?.(job.id)}
+                    onHideJob={onHideJob && (() => onHideJob(job))}
+                    onHideCompany={
+                      onHideCompany && (() => onHideCompany(job.company))
+                    }
+                  />
+                ))}
+              </Box>
+            </>
           )}
         </Box>
 
+        {/* Infinite Scroll Footer */}
+        {isInfinite && !isLoading && jobs.length > 0 && (
+          <Box
+            ref={sentinelRef}
+            role='status'
+            sx={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: 1,
+              py: 3,
+              borderTop: '1px solid #e0e0e0',
+            }}
+          >
+            {isLoadingMore ? (
+              <>
+                <CircularProgress size={24} />
+                <Typography variant='caption' color='text.secondary'>
+                  {t('jobList.loadingMore')}
+                </Typography>
+              </>
+            ) : loadMoreFailed ? (
+              <>
+                <Typography variant='body2' color='text.secondary'>
+                  {t('jobList.loadMoreError')}
+                </Typography>
+                <Button
+                  onClick={onLoadMore}
+                  sx={{ color: '#0a66c2', textTransform: 'none' }}
+                >
+                  {t('common.tryAgain')}
+                </Button>
+              </>
+            ) : (
+              !hasMore && (
+                <Typography variant='caption' color='text.secondary'>
+                  {t('jobList.endOfResults')}
+                </Typography>
+              )
+            )}
+          </Box>
+        )}
+
         {/* Pagination - Only show when there are jobs and not loading */}
-        {!isLoading && jobs.length > 0 && (
+        {!isInfinite && !isLoading && jobs.length > 0 && (
           <Pagination
             currentPage={currentPage}
             totalPages={totalPages}
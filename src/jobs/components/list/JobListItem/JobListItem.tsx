@@ -1,13 +1,42 @@
-import { Box, Divider, Typography } from '@mui/material'
+import { MoreHoriz, VisibilityOff } from '@mui/icons-material'
+import {
+  Box,
+  Chip,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  Menu,
+  MenuItem,
+  Typography,
+} from '@mui/material'
 import CompanyAvatar from '@shared/components/CompanyAvatar'
+import type { MouseEvent } from 'react'
+import { useState } from 'react'
 
+import { useTranslation } from '@/services/i18n'
+
+import { formatPostedDate, formatSalary } from '../../../api/transformer'
+import type { ApplicationStatus } from '../../../types/applications'
 import type { Job } from '../../../types/models'
+import ApplicationStatusChip from '../../applications/ApplicationStatusChip'
+import CompanyLink from '../../common/CompanyLink'
+import SaveJobButton from '../../common/SaveJobButton'
 
 interface JobListItemProps {
   job: Job
   isSelected: boolean
   onClick: () => void
   isLast?: boolean
+  // Bookmark props
+  isSaved?: boolean
+  onToggleSave?: (() => void) | undefined
+  /** Flag the job as closed or removed */
+  isUnavailable?: boolean
+  /** Status of the user's application to this job, if tracked */
+  applicationStatus?: ApplicationStatus | undefined
+  // Hide props
+  onHideJob?: (() => void) | undefined
+  onHideCompany?: (() => void) | undefined
 }
 
 export default function JobListItem({
@@ -15,12 +44,34 @@ export default function JobListItem({
   isSelected,
   onClick,
   isLast = false,
+  isSaved = false,
+  onToggleSave,
+  isUnavailable = false,
+  applicationStatus,
+  onHideJob,
+  onHideCompany,
 }: JobListItemProps) {
-  const { title, company, postedDate } = job
+  const { t } = useTranslation()
+  const { title, company, salary } = job
+  const postedDate = formatPostedDate(job)
+  const [menuAnchorEl, setMenuAnchorEl] = useState<HTMLElement | null>(null)
+
+  const openMenu = (event: MouseEvent<HTMLElement>) => {
+    // Don't select the job when opening the menu
+    event.stopPropagation()
+    setMenuAnchorEl(event.currentTarget)
+  }
+
+  const handleMenuAction = (action: () => void) => {
+    setMenuAnchorEl(null)
+    action()
+  }
 
   return (
     <>
       <Box
+        // Lets the list find jobs (scroll position, selection)
+        data-job-id={job.id}
         onClick={onClick}
         sx={{
           px: 2.5,
@@ -44,7 +95,11 @@ export default function JobListItem({
             gap: 2,
           }}
         >
-          <CompanyAvatar company={company} size={60} />
+          <CompanyAvatar
+            company={company}
+            logoUrl={job.companyLogoUrl}
+            size={60}
+          />
 
           <Box sx={{ flex: 1, minWidth: 0 }}>
             <Typography
@@ -68,22 +123,81 @@ export default function JobListItem({
                 color: '#333',
               }}
             >
-              {company}
+              <CompanyLink companyId={job.companyId}>{company}</CompanyLink>
             </Typography>
 
+            {salary && (
+              <Typography
+                variant='body2'
+                sx={{ color: '#057642', fontWeight: 500 }}
+              >
+                {formatSalary(salary)}
+              </Typography>
+            )}
+
             {/* Footer Info */}
             <Box
               sx={{
                 display: 'flex',
                 justifyContent: 'flex-start',
                 alignItems: 'center',
+                gap: 1,
               }}
             >
               <Typography variant='caption' color='text.secondary'>
-                {postedDate || 'Recently posted'}
+                {postedDate || t('jobList.recentlyPosted')}
               </Typography>
+              {applicationStatus && (
+                <ApplicationStatusChip status={applicationStatus} />
+              )}
+              {isUnavailable && (
+                <Chip
+                  label={t('jobList.noLongerActive')}
+                  size='small'
+                  sx={{ height: 20, fontSize: '0.7rem', color: '#666' }}
+                />
+              )}
             </Box>
           </Box>
+
+          {onToggleSave && (
+            <SaveJobButton isSaved={isSaved} onToggle={onToggleSave} />
+          )}
+
+          {(onHideJob ?? onHideCompany) && (
+            <>
+              <IconButton
+                onClick={openMenu}
+                aria-label={t('jobList.moreActions', { title })}
+                sx={{ color: '#666' }}
+              >
+                <MoreHoriz />
+              </IconButton>
+              <Menu
+                anchorEl={menuAnchorEl}
+                open={Boolean(menuAnchorEl)}
+                onClose={() => setMenuAnchorEl(null)}
+                onClick={event => event.stopPropagation()}
+              >
+                {onHideJob && (
+                  <MenuItem onClick={() => handleMenuAction(onHideJob)}>
+                    <ListItemIcon>
+                      <VisibilityOff fontSize='small' />
+                    </ListItemIcon>
+                    {t('jobList.hideJob')}
+                  </MenuItem>
+                )}
+                {onHideCompany && (
+                  <MenuItem onClick={() => handleMenuAction(onHideCompany)}>
+                    <ListItemIcon>
+                      <VisibilityOff fontSize='small' />
+                    </ListItemIcon>
+                    {t('jobList.hideCompany', { company })}
+                  </MenuItem>
+                )}
+              </Menu>
+            </>
+          )}
         </Box>
       </Box>
 
@@ -0,0 +1,87 @@
+/**
+ * ListModeToggle Component
+ *
+ * Compact switch between numbered pages and infinite scroll, rendered in
+ * the JobList header.
+ */
+
+import { FormatListNumbered, ViewStream } from '@mui/icons-material'
+import { ToggleButton, ToggleButtonGroup, Tooltip } from '@mui/material'
+import type { MouseEvent } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { JobListMode } from '../../../hooks/useListMode'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ListModeToggleProps {
+  /** Current list mode */
+  value: JobListMode
+  /** Change handler */
+  onChange: (value: JobListMode) => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Pages / infinite scroll switch for search results
+ *
+ * @example
+ * ```tsx
+ * <ListModeToggle value={listMode} onChange={setListMode} />
+ * ```
+ */
+export default function ListModeToggle({
+  value,
+  onChange,
+}: ListModeToggleProps) {
+  const { t } = useTranslation()
+
+  const handleChange = (
+    _event: MouseEvent<HTMLElement>,
+    mode: JobListMode | null
+  ) => {
+    // Clicking the active button deselects it - keep the current mode
+    if (mode) onChange(mode)
+  }
+
+  return (
+    <ToggleButtonGroup
+      value={value}
+      exclusive
+      onChange={handleChange}
+      size='small'
+      aria-label={t('jobList.listMode')}
+      sx={{
+        '& .MuiToggleButton-root': {
+          color: 'rgba(255, 255, 255, 0.7)',
+          borderColor: 'rgba(255, 255, 255, 0.5)',
+          p: 0.5,
+        },
+        '& .MuiToggleButton-root.Mui-selected': {
+          color: 'white',
+          bgcolor: 'rgba(255, 255, 255, 0.2)',
+        },
+      }}
+    >
+      <Tooltip title={t('jobList.listModePages')}>
+        <ToggleButton value='pages' aria-label={t('jobList.listModePages')}>
+          <FormatListNumbered fontSize='small' />
+        </ToggleButton>
+      </Tooltip>
+      <Tooltip title={t('jobList.listModeInfinite')}>
+        <ToggleButton
+          value='infinite'
+          aria-label={t('jobList.listModeInfinite')}
+        >
+          <ViewStream fontSize='small' />
+        </ToggleButton>
+      </Tooltip>
+    </ToggleButtonGroup>
+  )
+}
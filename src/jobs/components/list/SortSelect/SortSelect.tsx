@@ -0,0 +1,64 @@
+/**
+ * SortSelect Component
+ *
+ * Compact sort order selector rendered in the JobList header.
+ */
+
+import { MenuItem, Select, type SelectChangeEvent } from '@mui/material'
+
+import { useTranslation } from '@/services/i18n'
+
+import type { JobSortOption } from '../../../types/filters'
+import { SORT_OPTIONS } from '../../../types/filters'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SortSelectProps {
+  /** Currently selected sort option */
+  value: JobSortOption
+  /** Change handler */
+  onChange: (value: JobSortOption) => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Sort selector for search results
+ *
+ * @example
+ * ```tsx
+ * <SortSelect value={filters.sort ?? DEFAULT_SORT} onChange={setSort} />
+ * ```
+ */
+export default function SortSelect({ value, onChange }: SortSelectProps) {
+  const { t } = useTranslation()
+  const handleChange = (event: SelectChangeEvent<JobSortOption>) => {
+    onChange(event.target.value as JobSortOption)
+  }
+
+  return (
+    <Select
+      value={value}
+      onChange={handleChange}
+      variant='standard'
+      disableUnderline
+      inputProps={{ 'aria-label': t('jobList.sortResults') }}
+      sx={{
+        color: 'white',
+        fontSize: 'body2.fontSize',
+        fontWeight: 500,
+        '& .MuiSelect-icon': { color: 'white' },
+      }}
+    >
+      {SORT_OPTIONS.map(option => (
+        <MenuItem key={option.value} value={option.value}>
+          {t(option.labelKey)}
+        </MenuItem>
+      ))}
+    </Select>
+  )
+}
@@ -0,0 +1,91 @@
+/**
+ * QueryTokens Component
+ *
+ * Shows the parsed search query as removable tokens under the search bar,
+ * so phrases, exclusions and OR groups are visible at a glance.
+ */
+
+import { Chip, Stack, Typography } from '@mui/material'
+import { useMemo } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+import { formatQueryToken, parseSearchQuery } from '../../../api/queryParser'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface QueryTokensProps {
+  /** Query to display as tokens */
+  query: string
+  /** Remove the token at an index of `parseSearchQuery(query)` */
+  onRemoveToken: (index: number) => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Removable tokens for a parsed search query
+ *
+ * Renders nothing for queries with a single plain term.
+ *
+ * @example
+ * ```tsx
+ * <QueryTokens
+ *   query={searchQuery}
+ *   onRemoveToken={index => setQuery(removeQueryToken(searchQuery, index))}
+ * />
+ * ```
+ */
+export default function QueryTokens({
+  query,
+  onRemoveToken,
+}: QueryTokensProps) {
+  const { t } = useTranslation()
+  const tokens = useMemo(() => parseSearchQuery(query), [query])
+
+  const [firstToken] = tokens
+  const isPlainTerm =
+    tokens.length === 1 && firstToken?.type === 'term' && !firstToken.excluded
+  if (tokens.length === 0 || isPlainTerm) {
+    return null
+  }
+
+  return (
+    <Stack
+      direction='row'
+      flexWrap='wrap'
+      alignItems='center'
+      sx={{ gap: 0.75 }}
+      aria-label={t('header.searchTerms')}
+    >
+      {tokens.map((token, index) =>
+        token.type === 'or' ? (
+          <Typography
+            key={index}
+            variant='caption'
+            sx={{ color: '#666', fontWeight: 'bold' }}
+          >
+            {t('common.or')}
+          </Typography>
+        ) : (
+          <Chip
+            key={index}
+            label={formatQueryToken(token)}
+            size='small'
+            onDelete={() => onRemoveToken(index)}
+            variant='outlined'
+            sx={
+              token.excluded
+                ? { color: '#b24020', borderColor: '#b24020' }
+                : { color: '#0a66c2', borderColor: '#0a66c2' }
+            }
+          />
+        )
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,281 @@
+/**
+ * SavedSearchesMenu Component
+ *
+ * Header button that lists saved searches with their new-job badges,
+ * re-runs a search on click, and saves the current search under a name.
+ */
+
+import {
+  Close as CloseIcon,
+  DeleteOutline,
+  ManageSearch,
+  SaveAlt,
+} from '@mui/icons-material'
+import {
+  Badge,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  Menu,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material'
+import type { MouseEvent } from 'react'
+import { useState } from 'react'
+
+import { useTranslation } from '@/services/i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Saved search entry shown in the menu
+ */
+export interface SavedSearchMenuItem {
+  /** Saved search ID */
+  id: string
+  /** Display name */
+  name: string
+  /** Jobs posted since the search was last opened (optional while loading) */
+  newJobCount?: number | undefined
+}
+
+export interface SavedSearchesMenuProps {
+  /** Saved searches to list */
+  savedSearches: SavedSearchMenuItem[]
+  /** Whether there is a current search that can be saved */
+  canSave: boolean
+  /** Suggested name for the current search */
+  defaultName?: string
+  /** Save the current search under a name */
+  onSave: (name: string) => void
+  /** Open (re-run) a saved search */
+  onRun: (id: string) => void
+  /** Delete a saved search */
+  onDelete: (id: string) => void
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Saved searches dropdown with a "save current search" dialog
+ *
+ * @example
+ * ```tsx
+ * <SavedSearchesMenu
+ *   savedSearches={items}
+ *   canSave={!!appliedQuery}
+ *   defaultName={appliedQuery}
+ *   onSave={name => saveSearch(name, filters)}
+ *   onRun={runSavedSearch}
+ *   onDelete={deleteSearch}
+ * />
+ * ```
+ */
+export default function SavedSearchesMenu({
+  savedSearches,
+  canSave,
+  defaultName = '',
+  onSave,
+  onRun,
+  onDelete,
+}: SavedSearchesMenuProps) {
+  const { t } = useTranslation()
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [name, setName] = useState('')
+
+  const totalNewJobs = savedSearches.reduce(
+    (total, savedSearch) => total + (savedSearch.newJobCount ?? 0),
+    0
+  )
+
+  const closeMenu = () => setAnchorEl(null)
+
+  const openSaveDialog = () => {
+    closeMenu()
+    setName(defaultName)
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = () => {
+    onSave(name)
+    setIsDialogOpen(false)
+  }
+
+  const handleRun = (id: string) => {
+    closeMenu()
+    onRun(id)
+  }
+
+  const handleDelete = (event: MouseEvent<HTMLElement>, id: string) => {
+    event.stopPropagation()
+    onDelete(id)
+  }
+
+  return (
+    <>
+      <Button
+        onClick={event => setAnchorEl(event.currentTarget)}
+        startIcon={
+          <Badge
+            badgeContent={totalNewJobs}
+            max={99}
+            sx={{
+              '& .MuiBadge-badge': { bgcolor: '#0a66c2', color: 'white' },
+            }}
+          >
+            <ManageSearch />
+          </Badge>
+        }
+        sx={{
+          color: '#0a66c2',
+          borderRadius: '20px',
+          px: 2,
+          textTransform: 'none',
+          fontWeight: 'bold',
+          fontSize: 'body1.fontSize',
+        }}
+      >
+        {t('savedSearches.button')}
+      </Button>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={closeMenu}
+        slotProps={{
+          paper: {
+            sx: {
+              minWidth: 280,
+              maxWidth: 380,
+              borderRadius: 3,
+              boxShadow: '0 10px 40px rgba(0, 0, 0, 0.15)',
+              border: '1px solid #e0e0e0',
+            },
+          },
+        }}
+      >
+        <MenuItem onClick={openSaveDialog} disabled={!canSave}>
+          <ListItemIcon>
+            <SaveAlt fontSize='small' sx={{ color: '#0a66c2' }} />
+          </ListItemIcon>
+          {t('savedSearches.saveCurrent')}
+        </MenuItem>
+
+        <Divider />
+
+        {savedSearches.length === 0 && (
+          <Typography
+            variant='body2'
+            color='text.secondary'
+            sx={{ px: 2, py: 1 }}
+          >
+            {t('savedSearches.empty')}
+          </Typography>
+        )}
+
+        {savedSearches.map(savedSearch => (
+          <MenuItem
+            key={savedSearch.id}
+            onClick={() => handleRun(savedSearch.id)}
+            sx={{ gap: 1 }}
+          >
+            <Typography
+              variant='body2'
+              sx={{
+                flex: 1,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {savedSearch.name}
+            </Typography>
+            {!!savedSearch.newJobCount && (
+              <Chip
+                label={t('savedSearches.newJobs', {
+                  count: savedSearch.newJobCount,
+                })}
+                size='small'
+                sx={{ bgcolor: '#0a66c2', color: 'white', height: 20 }}
+              />
+            )}
+            <IconButton
+              size='small'
+              onClick={event => handleDelete(event, savedSearch.id)}
+              aria-label={t('savedSearches.delete', { name: savedSearch.name })}
+              sx={{ color: '#666' }}
+            >
+              <DeleteOutline fontSize='small' />
+            </IconButton>
+          </MenuItem>
+        ))}
+      </Menu>
+
+      {/* Save Dialog */}
+      <Dialog
+        open={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        fullWidth
+        maxWidth='xs'
+      >
+        <DialogTitle
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          {t('savedSearches.dialogTitle')}
+          <IconButton
+            onClick={() => setIsDialogOpen(false)}
+            sx={{ color: '#666' }}
+          >
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 1 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              size='small'
+              label={t('savedSearches.nameLabel')}
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleSave()}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            variant='contained'
+            onClick={handleSave}
+            sx={{
+              bgcolor: '#0a66c2',
+              borderRadius: '20px',
+              px: 3,
+              textTransform: 'none',
+              fontWeight: 'bold',
+              '&:hover': { bgcolor: '#004182' },
+            }}
+          >
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,185 @@
+/**
+ * SearchAutocomplete Component
+ *
+ * Search box with a search-as-you-type dropdown of job titles, companies
+ * and technologies. Arrow keys move through suggestions, Enter picks the
+ * highlighted one (or runs the typed search) and Escape closes the list.
+ */
+
+import {
+  BusinessOutlined,
+  Code as CodeIcon,
+  Search as SearchIcon,
+  WorkOutline,
+} from '@mui/icons-material'
+import {
+  Autocomplete,
+  Box,
+  CircularProgress,
+  InputAdornment,
+  TextField,
+  Typography,
+} from '@mui/material'
+import type { ReactElement } from 'react'
+
+import type { MessageKey } from '@/services/i18n'
+import { useTranslation } from '@/services/i18n'
+
+import type {
+  SearchSuggestion,
+  SearchSuggestionType,
+} from '../../../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SearchAutocompleteProps {
+  /** Text in the search box */
+  value: string
+  /** Handler for typed text changes */
+  onChange: (value: string) => void
+  /** Run a search with the typed text (Enter without a highlighted suggestion) */
+  onSubmit: () => void
+  /** Suggestions for the typed text */
+  suggestions: SearchSuggestion[]
+  /** Whether suggestions are loading */
+  isLoading?: boolean
+  /** Handler for picking a suggestion */
+  onSelectSuggestion: (suggestion: SearchSuggestion) => void
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SUGGESTION_GROUP_LABEL_KEYS: Record<SearchSuggestionType, MessageKey> = {
+  title: 'suggestions.title',
+  company: 'suggestions.company',
+  technology: 'suggestions.technology',
+}
+
+const SUGGESTION_ICONS: Record<SearchSuggestionType, ReactElement> = {
+  title: <WorkOutline fontSize='small' sx={{ color: '#666' }} />,
+  company: <BusinessOutlined fontSize='small' sx={{ color: '#666' }} />,
+  technology: <CodeIcon fontSize='small' sx={{ color: '#666' }} />,
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Search input with grouped suggestions
+ *
+ * @example
+ * ```tsx
+ * <SearchAutocomplete
+ *   value={searchQuery}
+ *   onChange={setSearchQuery}
+ *   onSubmit={handleSearch}
+ *   suggestions={suggestions}
+ *   onSelectSuggestion={handleSelectSuggestion}
+ * />
+ * ```
+ */
+export default function SearchAutocomplete({
+  value,
+  onChange,
+  onSubmit,
+  suggestions,
+  isLoading = false,
+  onSelectSuggestion,
+}: SearchAutocompleteProps) {
+  const { t } = useTranslation()
+  return (
+    <Autocomplete<SearchSuggestion, false, false, true>
+      freeSolo
+      // Selection never becomes the input value; the parent decides
+      value={null}
+      inputValue={value}
+      onInputChange={(_, newValue, reason) => {
+        if (reason === 'input' || reason === 'clear') {
+          onChange(newValue)
+        }
+      }}
+      onChange={(_, selected) => {
+        if (typeof selected === 'string') {
+          onSubmit()
+        } else if (selected) {
+          onSelectSuggestion(selected)
+        }
+      }}
+      options={suggestions}
+      // Suggestions are already filtered and ranked by the database
+      filterOptions={options => options}
+      groupBy={option => t(SUGGESTION_GROUP_LABEL_KEYS[option.type])}
+      getOptionLabel={option =>
+        typeof option === 'string' ? option : option.label
+      }
+      loading={isLoading}
+      size='small'
+      sx={{ width: { xs: '100%', sm: 280 } }}
+      renderOption={({ key, ...props }, option) => (
+        <Box
+          component='li'
+          key={`${key}-${option.type}`}
+          {...props}
+          sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}
+        >
+          {SUGGESTION_ICONS[option.type]}
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Typography variant='body2' noWrap>
+              {option.label}
+            </Typography>
+            {option.matchedAlias && (
+              <Typography variant='caption' color='text.secondary'>
+                {t('suggestions.matchesAlias', { alias: option.matchedAlias })}
+              </Typography>
+            )}
+          </Box>
+          <Typography variant='caption' color='text.secondary'>
+            {option.jobCount === 1
+              ? t('suggestions.jobCountOne')
+              : t('suggestions.jobCount', { count: option.jobCount })}
+          </Typography>
+        </Box>
+      )}
+      // No label, so InputLabelProps are not forwarded
+      renderInput={({ id, disabled, fullWidth, InputProps, inputProps }) => (
+        <TextField
+          id={id}
+          disabled={disabled}
+          fullWidth={fullWidth}
+          size='small'
+          placeholder={t('header.searchPlaceholder')}
+          sx={{
+            '& .MuiOutlinedInput-root': {
+              borderRadius: '20px',
+              bgcolor: '#ffffff',
+              '&:hover fieldset': { borderColor: '#0a66c2' },
+              '&.Mui-focused fieldset': { borderColor: '#0a66c2' },
+            },
+          }}
+          slotProps={{
+            input: {
+              ...InputProps,
+              startAdornment: (
+                <InputAdornment position='start'>
+                  <SearchIcon sx={{ color: '#666' }} />
+                </InputAdornment>
+              ),
+              endAdornment: (
+                <>
+                  {isLoading && <CircularProgress color='inherit' size={16} />}
+                  {InputProps.endAdornment}
+                </>
+              ),
+            },
+            htmlInput: inputProps,
+          }}
+        />
+      )}
+    />
+  )
+}
@@ -0,0 +1,20 @@
+/**
+ * Search Components Module
+ *
+ * Components around the search bar (autocomplete, saved searches, query tokens).
+ */
+
+// Saved searches menu
+export { default as SavedSearchesMenu } from './SavedSearchesMenu'
+export type {
+  SavedSearchesMenuProps,
+  SavedSearchMenuItem,
+} from './SavedSearchesMenu/SavedSearchesMenu'
+
+// Parsed query tokens
+export { default as QueryTokens } from './QueryTokens'
+export type { QueryTokensProps } from './QueryTokens/QueryTokens'
+
+// Search box with suggestions
+export { default as SearchAutocomplete } from './SearchAutocomplete'
+export type { SearchAutocompleteProps } from './SearchAutocomplete/SearchAutocomplete'
@@ -6,3 +6,4 @@
  */
 
 export * from './pagination'
+export * from './storage'
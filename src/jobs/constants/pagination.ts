@@ -1,9 +1,11 @@
 /**
  * Pagination Constants
  *
- * Default pagination settings for job search results.
+ * Default pagination settings for job search results and the company
+ * directory.
  */
 export const PAGINATION = {
   PAGE_SIZE: 25,
   DEFAULT_PAGE: 1,
+  COMPANY_PAGE_SIZE: 24,
 } as const
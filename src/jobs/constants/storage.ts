@@ -0,0 +1,13 @@
+/**
+ * Storage Constants
+ *
+ * localStorage keys used by the jobs feature.
+ */
+export const STORAGE_KEYS = {
+  SAVED_JOBS: 'jobhub:saved-jobs',
+  SAVED_SEARCHES: 'jobhub:saved-searches',
+  APPLICATIONS: 'jobhub:applications',
+  HIDDEN_ITEMS: 'jobhub:hidden-items',
+  LIST_MODE: 'jobhub:list-mode',
+  JOB_ALERTS: 'jobhub:job-alerts',
+} as const
@@ -5,7 +5,26 @@
  * - useJobSearch: Search for jobs with React Query
  * - useJobFilters: Manage filter state with URL sync
  * - useJobPagination: Handle pagination state
+ * - useInfiniteJobSearch: Load search results as one growing list
+ * - useListMode: Persisted choice between numbered pages and infinite scroll
  * - useCompanyOptions: Manage company filter options
+ * - useTechnologyOptions: Manage technology filter options
+ * - useJobDetail: Load a single job for the shareable detail route
+ * - useSavedJobs: Manage bookmarked jobs persisted in localStorage
+ * - useJobAvailability: Flag jobs that are no longer active
+ * - useSavedSearches: Manage named searches and their new-job counts
+ * - useApplications: Track applications (status and notes) per job
+ * - useHiddenItems: Manage jobs and companies hidden from search results
+ * - useSearchSuggestions: Debounced search-as-you-type suggestions
+ * - useCompanyProfile: Load a company profile and its open positions
+ * - useCompanyDirectory: Load a page of the company directory
+ * - useSimilarJobs: Load jobs similar to the displayed job
+ * - useMobileJobView: URL-backed list/detail drill-down on narrow screens
+ * - useDebouncedSearchQuery: Debounced search summary query (counts, facets)
+ * - useJobCount: Debounced result count preview for staged filters
+ * - useSearchFacets: Per-value job counts for the filter options
+ * - useJobAlerts: Manage job alerts and their notifications inbox
+ * - useJobAlertPolling: Check job alerts for new jobs while the app is open
  */
 
 // =============================================================================
@@ -41,6 +60,23 @@ export {
   useJobPagination,
 } from './useJobPagination'
 
+// =============================================================================
+// Infinite Job Search Hook
+// =============================================================================
+
+export type {
+  InfiniteJobItem,
+  UseInfiniteJobSearchReturn,
+} from './useInfiniteJobSearch'
+export { useInfiniteJobSearch } from './useInfiniteJobSearch'
+
+// =============================================================================
+// List Mode Hook
+// =============================================================================
+
+export type { JobListMode, UseListModeReturn } from './useListMode'
+export { useListMode } from './useListMode'
+
 // =============================================================================
 // Company Options Hook
 // =============================================================================
@@ -50,3 +86,141 @@ export type {
   UseCompanyOptionsReturn,
 } from './useCompanyOptions'
 export { useCompanyOptions } from './useCompanyOptions'
+
+// =============================================================================
+// Technology Options Hook
+// =============================================================================
+
+export type {
+  TechnologyOption,
+  TechnologyTreeNode,
+  UseTechnologyOptionsReturn,
+} from './useTechnologyOptions'
+export {
+  buildTechnologyTree,
+  useTechnologyOptions,
+} from './useTechnologyOptions'
+
+// =============================================================================
+// Job Detail Hook
+// =============================================================================
+
+export type { UseJobDetailReturn } from './useJobDetail'
+export { parseJobId, useJobDetail } from './useJobDetail'
+
+// =============================================================================
+// Saved Jobs Hook
+// =============================================================================
+
+export type { SavedJob, UseSavedJobsReturn } from './useSavedJobs'
+export { useSavedJobs } from './useSavedJobs'
+
+// =============================================================================
+// Job Availability Hook
+// =============================================================================
+
+export type { UseJobAvailabilityReturn } from './useJobAvailability'
+export { useJobAvailability } from './useJobAvailability'
+
+// =============================================================================
+// Saved Searches Hook
+// =============================================================================
+
+export type { SavedSearch, UseSavedSearchesReturn } from './useSavedSearches'
+export { savedSearchToFilters, useSavedSearches } from './useSavedSearches'
+
+// =============================================================================
+// Applications Hook
+// =============================================================================
+
+export type {
+  ApplicationChanges,
+  UseApplicationsReturn,
+} from './useApplications'
+export { useApplications } from './useApplications'
+
+// =============================================================================
+// Hidden Items Hook
+// =============================================================================
+
+export type {
+  HiddenCompany,
+  HiddenJob,
+  UseHiddenItemsReturn,
+} from './useHiddenItems'
+export { useHiddenItems } from './useHiddenItems'
+
+// =============================================================================
+// Search Suggestions Hook
+// =============================================================================
+
+export type { UseSearchSuggestionsReturn } from './useSearchSuggestions'
+export { useSearchSuggestions } from './useSearchSuggestions'
+
+// =============================================================================
+// Company Profile Hook
+// =============================================================================
+
+export type { UseCompanyProfileReturn } from './useCompanyProfile'
+export { parseCompanyId, useCompanyProfile } from './useCompanyProfile'
+
+// =============================================================================
+// Company Directory Hook
+// =============================================================================
+
+export type { UseCompanyDirectoryReturn } from './useCompanyDirectory'
+export { useCompanyDirectory } from './useCompanyDirectory'
+
+// =============================================================================
+// Similar Jobs Hook
+// =============================================================================
+
+export type { UseSimilarJobsReturn } from './useSimilarJobs'
+export { useSimilarJobs } from './useSimilarJobs'
+
+// =============================================================================
+// Mobile Job View Hook
+// =============================================================================
+
+export type { UseMobileJobViewReturn } from './useMobileJobView'
+export { useMobileJobView } from './useMobileJobView'
+
+// =============================================================================
+// Debounced Search Query Hook
+// =============================================================================
+
+export type { UseDebouncedSearchQueryReturn } from './useDebouncedSearchQuery'
+export { useDebouncedSearchQuery } from './useDebouncedSearchQuery'
+
+// =============================================================================
+// Job Count Hook
+// =============================================================================
+
+export type { UseJobCountReturn } from './useJobCount'
+export { useJobCount } from './useJobCount'
+
+// =============================================================================
+// Search Facets Hook
+// =============================================================================
+
+export type { UseSearchFacetsReturn } from './useSearchFacets'
+export { useSearchFacets } from './useSearchFacets'
+
+// =============================================================================
+// Job Alerts Hooks
+// =============================================================================
+
+export type {
+  BrowserNotificationStatus,
+  JobAlert,
+  JobAlertCheckInterval,
+  JobAlertNotification,
+  UseJobAlertsReturn,
+} from './useJobAlerts'
+export {
+  getJobAlertNotificationUrl,
+  JOB_ALERT_CHECK_INTERVALS,
+  jobAlertToFilters,
+  useJobAlertPolling,
+  useJobAlerts,
+} from './useJobAlerts'
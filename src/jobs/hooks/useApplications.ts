@@ -0,0 +1,174 @@
+/**
+ * useApplications Hook
+ *
+ * Local application tracker persisted in localStorage.
+ * An application is recorded when the user clicks "Apply Now"; afterwards
+ * its status (applied, interviewing, offer, rejected) and notes can be
+ * updated from the job details panel or the applications board.
+ */
+
+import { useCallback, useMemo } from 'react'
+import { z } from 'zod'
+
+import { useLogger } from '@/services/logging'
+import { createLocalStore, useLocalStore } from '@/services/storage'
+
+import { STORAGE_KEYS } from '../constants'
+import type { ApplicationStatus, JobApplication } from '../types/applications'
+import { APPLICATION_STATUSES } from '../types/applications'
+import type { Job } from '../types/models'
+import { jobSnapshotSchema } from './useSavedJobs'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Editable fields of an application
+ */
+export type ApplicationChanges = Partial<
+  Pick<JobApplication, 'status' | 'notes'>
+>
+
+/**
+ * Return type for the useApplications hook
+ */
+export interface UseApplicationsReturn {
+  /** Tracked applications, most recently updated first */
+  applications: JobApplication[]
+  /** Get the application for a job, if any */
+  getApplication: (jobId: string) => JobApplication | null
+  /** Record that the user applied to a job (no-op if already tracked) */
+  recordApplied: (job: Job) => void
+  /** Update the status and/or notes of an application */
+  updateApplication: (jobId: string, changes: ApplicationChanges) => void
+  /** Stop tracking an application */
+  removeApplication: (jobId: string) => void
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const applicationSchema = z.object({
+  job: jobSnapshotSchema,
+  status: z.custom<ApplicationStatus>(value =>
+    APPLICATION_STATUSES.includes(value as ApplicationStatus)
+  ),
+  notes: z.string(),
+  appliedAt: z.string(),
+  updatedAt: z.string(),
+})
+
+const applicationsStore = createLocalStore<JobApplication[]>({
+  key: STORAGE_KEYS.APPLICATIONS,
+  schema: z.array(applicationSchema),
+  defaultValue: [],
+})
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for tracking job applications
+ *
+ * @example
+ * ```typescript
+ * const { getApplication, recordApplied, updateApplication } =
+ *   useApplications()
+ *
+ * // On "Apply Now"
+ * recordApplied(job)
+ *
+ * // Later
+ * updateApplication(job.id, { status: 'interviewing', notes: 'Call on Mon' })
+ * ```
+ */
+export function useApplications(): UseApplicationsReturn {
+  const logger = useLogger('useApplications')
+  const applications = useLocalStore(applicationsStore)
+
+  const applicationsById = useMemo(
+    () =>
+      new Map(
+        applications.map(application => [application.job.id, application])
+      ),
+    [applications]
+  )
+
+  const getApplication = useCallback(
+    (jobId: string): JobApplication | null =>
+      applicationsById.get(jobId) ?? null,
+    [applicationsById]
+  )
+
+  const recordApplied = useCallback(
+    (job: Job): void => {
+      applicationsStore.update(prev => {
+        // Keep the existing status/notes if the user applies again
+        if (prev.some(application => application.job.id === job.id)) {
+          return prev
+        }
+
+        logger.userAction('record_application', { jobId: job.id })
+
+        const now = new Date().toISOString()
+        return [
+          { job, status: 'applied', notes: '', appliedAt: now, updatedAt: now },
+          ...prev,
+        ]
+      })
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const updateApplication = useCallback(
+    (jobId: string, changes: ApplicationChanges): void => {
+      if (changes.status) {
+        logger.userAction('update_application_status', {
+          jobId,
+          status: changes.status,
+        })
+      }
+
+      applicationsStore.update(prev => {
+        const current = prev.find(application => application.job.id === jobId)
+        if (!current) return prev
+
+        // Move the updated application to the front
+        const updated: JobApplication = {
+          ...current,
+          ...changes,
+          updatedAt: new Date().toISOString(),
+        }
+        return [
+          updated,
+          ...prev.filter(application => application.job.id !== jobId),
+        ]
+      })
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const removeApplication = useCallback(
+    (jobId: string): void => {
+      logger.userAction('remove_application', { jobId })
+      applicationsStore.update(prev =>
+        prev.filter(application => application.job.id !== jobId)
+      )
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  return {
+    applications,
+    getApplication,
+    recordApplied,
+    updateApplication,
+    removeApplication,
+  }
+}
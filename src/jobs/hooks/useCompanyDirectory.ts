@@ -0,0 +1,115 @@
+/**
+ * useCompanyDirectory Hook
+ *
+ * React Query-based hook for a page of the company directory.
+ * Backs the `/companies` route.
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+
+import { useLogger } from '@/services/logging'
+import type { SupabaseAppError } from '@/services/supabase/errors'
+
+import {
+  type CompanyDirectorySearchResponse,
+  searchCompanies,
+} from '../api/jobService'
+import { PAGINATION } from '../constants'
+import type { CompanyDirectoryFilters } from '../types/companies'
+import type { CompanySummary } from '../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useCompanyDirectory hook
+ */
+export interface UseCompanyDirectoryReturn {
+  /** Companies on the requested page */
+  companies: CompanySummary[]
+  /** Total number of matching companies */
+  totalCompanies: number
+  /** Total number of pages */
+  totalPages: number
+  /** True during initial load (no data yet) */
+  isLoading: boolean
+  /** True while a new page or filter change is being fetched */
+  isFetching: boolean
+  /** Error details if the lookup failed */
+  error: SupabaseAppError | null
+  /** Retry the lookup */
+  refetch: () => void
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for loading a page of the company directory
+ *
+ * @param filters - Name search, job function filter and sort order
+ * @param page - Page to load (1-indexed)
+ *
+ * @example
+ * ```typescript
+ * const { companies, totalPages } = useCompanyDirectory(
+ *   { search: 'bank', sort: 'job_count' },
+ *   2
+ * )
+ * ```
+ */
+export function useCompanyDirectory(
+  filters: CompanyDirectoryFilters,
+  page: number = PAGINATION.DEFAULT_PAGE
+): UseCompanyDirectoryReturn {
+  const logger = useLogger('useCompanyDirectory')
+
+  const { data, isLoading, isFetching, isPlaceholderData, refetch } = useQuery({
+    queryKey: [
+      'companies',
+      'directory',
+      filters.search?.trim() ?? '',
+      filters.jobFunction ?? [],
+      filters.sort ?? null,
+      page,
+    ] as const,
+    queryFn: async (): Promise<CompanyDirectorySearchResponse> => {
+      const result = await searchCompanies(filters, {
+        page,
+        pageSize: PAGINATION.COMPANY_PAGE_SIZE,
+      })
+
+      if (result.error) {
+        logger.error('Company directory lookup failed', {
+          page,
+          error: result.error.message,
+        })
+      }
+
+      return result
+    },
+    // Keep the current page visible while the next one loads
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  const totalCompanies = data?.pagination?.total ?? 0
+
+  return {
+    companies: data?.companies ?? [],
+    totalCompanies,
+    totalPages: Math.max(
+      1,
+      Math.ceil(totalCompanies / PAGINATION.COMPANY_PAGE_SIZE)
+    ),
+    isLoading,
+    isFetching: isFetching && isPlaceholderData,
+    error: data?.error ?? null,
+    refetch: () => {
+      void refetch()
+    },
+  }
+}
@@ -5,7 +5,7 @@
  * Loads companies dynamically based on current search criteria.
  */
 
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 
 import { useLogger } from '@/services/logging'
 import type { SupabaseAppError } from '@/services/supabase/errors'
@@ -13,6 +13,7 @@ import type { SupabaseAppError } from '@/services/supabase/errors'
 import { getCompanies, getCompaniesForJobs } from '../api/jobRepository'
 import type { JobSearchFilters } from '../types/filters'
 import { toGetCompaniesRpcParams } from '../types/filters'
+import { useHiddenItems } from './useHiddenItems'
 
 // =============================================================================
 // Types
@@ -79,6 +80,11 @@ export function useCompanyOptions(
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [error, setError] = useState<SupabaseAppError | null>(null)
 
+  // Hidden jobs/companies are left out of the options, as in the results
+  const { hiddenJobIds, hiddenCompanyNames } = useHiddenItems()
+  const exclusionsRef = useRef({ hiddenJobIds, hiddenCompanyNames })
+  const lastSearchFiltersRef = useRef<JobSearchFilters | null>(null)
+
   /**
    * Load all active companies (for initial dropdown population)
    */
@@ -118,15 +124,10 @@ export function useCompanyOptions(
   /**
    * Refresh companies based on current search filters
    * This shows only companies that have jobs matching the filters
+   * (an empty query matches all jobs, as in browse mode)
    */
   const refreshForSearch = useCallback(
     async (filters: JobSearchFilters): Promise<void> => {
-      // If no query, fall back to all companies
-      if (!filters.query?.trim()) {
-        await loadAllCompanies()
-        return
-      }
-
       setIsLoading(true)
       setError(null)
 
@@ -134,9 +135,15 @@ export function useCompanyOptions(
         query: filters.query,
       })
 
+      lastSearchFiltersRef.current = filters
+
       try {
         // Convert filters to RPC params (excluding company filter)
-        const rpcParams = toGetCompaniesRpcParams(filters)
+        const rpcParams = toGetCompaniesRpcParams({
+          ...filters,
+          excludeJobIds: exclusionsRef.current.hiddenJobIds,
+          excludeCompanies: exclusionsRef.current.hiddenCompanyNames,
+        })
 
         const result = await getCompaniesForJobs(rpcParams)
 
@@ -166,9 +173,17 @@ export function useCompanyOptions(
       }
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [loadAllCompanies] // logger is stable
+    [] // logger is stable, no need to include
   )
 
+  // Refresh the last search's companies when items are hidden or restored
+  useEffect(() => {
+    exclusionsRef.current = { hiddenJobIds, hiddenCompanyNames }
+    if (lastSearchFiltersRef.current) {
+      void refreshForSearch(lastSearchFiltersRef.current)
+    }
+  }, [hiddenJobIds, hiddenCompanyNames, refreshForSearch])
+
   // Auto-load companies on mount if enabled
   useEffect(() => {
     if (autoLoad) {
@@ -0,0 +1,162 @@
+/**
+ * useCompanyProfile Hook
+ *
+ * React Query-based hook for a company profile and a page of its open
+ * positions. Backs the `/companies/:companyId` route.
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+
+import { useLogger } from '@/services/logging'
+import type { SupabaseAppError } from '@/services/supabase/errors'
+
+import {
+  type CompanyProfileResponse,
+  getCompanyJobs,
+  getCompanyProfile,
+  type JobSearchResponse,
+} from '../api/jobService'
+import { PAGINATION } from '../constants'
+import type { CompanyProfile, Job } from '../types/models'
+import { parseJobId } from './useJobDetail'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useCompanyProfile hook
+ */
+export interface UseCompanyProfileReturn {
+  /** The company with its job summary, or null while loading / when unavailable */
+  profile: CompanyProfile | null
+  /** Open positions on the requested page */
+  jobs: Job[]
+  /** Total number of pages of open positions */
+  totalPages: number
+  /** True during initial load of the profile (no data yet) */
+  isLoading: boolean
+  /** True during initial load of the jobs page */
+  isLoadingJobs: boolean
+  /** True while another jobs page is being fetched */
+  isFetchingJobs: boolean
+  /** True when the company is inactive, unknown or the ID is invalid */
+  isNotFound: boolean
+  /** Error details for failures other than NOT_FOUND */
+  error: SupabaseAppError | null
+  /** Retry loading the profile and jobs */
+  refetch: () => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse a route parameter into a numeric company ID
+ *
+ * @param companyId - Raw `:companyId` route parameter
+ * @returns Positive integer ID, or null if the parameter is invalid
+ */
+export function parseCompanyId(companyId: string | undefined): number | null {
+  // Company and job IDs share the same numeric format
+  return parseJobId(companyId)
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for loading a company profile and its open positions
+ *
+ * @param companyId - Raw company ID (usually the `:companyId` route parameter)
+ * @param page - Page of open positions to load (1-indexed)
+ *
+ * @example
+ * ```typescript
+ * const { companyId } = useParams()
+ * const { profile, jobs, totalPages } = useCompanyProfile(companyId, page)
+ * ```
+ */
+export function useCompanyProfile(
+  companyId: string | undefined,
+  page: number = PAGINATION.DEFAULT_PAGE
+): UseCompanyProfileReturn {
+  const logger = useLogger('useCompanyProfile')
+  const id = parseCompanyId(companyId)
+
+  const profileQuery = useQuery({
+    queryKey: ['companies', 'profile', id] as const,
+    queryFn: async (): Promise<CompanyProfileResponse> => {
+      logger.info('Loading company profile', { companyId: id })
+
+      const result = await getCompanyProfile(id as number)
+
+      if (result.error) {
+        logger.warn('Company profile unavailable', {
+          companyId: id,
+          type: result.error.type,
+          error: result.error.message,
+        })
+      }
+
+      return result
+    },
+    // Only run for a valid numeric ID
+    enabled: id !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  const jobsQuery = useQuery({
+    queryKey: ['companies', 'jobs', id, page] as const,
+    queryFn: async (): Promise<JobSearchResponse> => {
+      const result = await getCompanyJobs(id as number, {
+        page,
+        pageSize: PAGINATION.PAGE_SIZE,
+      })
+
+      if (result.error) {
+        logger.error('Failed to load company jobs', {
+          companyId: id,
+          page,
+          error: result.error.message,
+        })
+      }
+
+      return result
+    },
+    enabled: id !== null,
+    // Keep the current page visible while the next one loads
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  const profileError = profileQuery.data?.error ?? null
+  const isNotFound =
+    id === null ||
+    profileError?.type === 'NOT_FOUND' ||
+    (!!profileQuery.data && !profileError && !profileQuery.data.profile)
+
+  const total = jobsQuery.data?.pagination?.total ?? 0
+
+  return {
+    profile: profileQuery.data?.profile ?? null,
+    jobs: jobsQuery.data?.jobs ?? [],
+    totalPages: Math.max(1, Math.ceil(total / PAGINATION.PAGE_SIZE)),
+    isLoading: id !== null && profileQuery.isLoading,
+    isLoadingJobs: id !== null && jobsQuery.isLoading,
+    isFetchingJobs: jobsQuery.isFetching && jobsQuery.isPlaceholderData,
+    isNotFound,
+    error:
+      (profileError?.type === 'NOT_FOUND' ? null : profileError) ??
+      jobsQuery.data?.error ??
+      null,
+    refetch: () => {
+      void profileQuery.refetch()
+      void jobsQuery.refetch()
+    },
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * useDebouncedSearchQuery Hook
+ *
+ * Shared query for summaries of a search that follow the filters as they
+ * change (result count previews, facet counts). Requests are debounced,
+ * hidden jobs and companies are excluded so the summary matches the search
+ * results, and the previous data stays visible while the next loads.
+ */
+
+import { useDebounce } from '@shared/hooks'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+
+import type { JobSearchFilters } from '../types/filters'
+import { useHiddenItems } from './useHiddenItems'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useDebouncedSearchQuery hook
+ */
+export interface UseDebouncedSearchQueryReturn<T> {
+  /** Fetched data (null until loaded, when loading failed or without filters) */
+  data: T | null
+  /** True while the data is out of date or being fetched */
+  isLoading: boolean
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Delay before fetching after the filters change (ms) */
+const SEARCH_QUERY_DEBOUNCE_MS = 300
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for fetching a summary of the jobs matching filters
+ *
+ * @param kind - Query key segment naming the summary (e.g. 'count')
+ * @param filters - Filters to fetch for (nothing is fetched when null); pass a
+ *   memoized object, a new object restarts the debounce
+ * @param fetcher - Loads the summary for filters that already exclude hidden
+ *   items; returns null when loading failed
+ *
+ * @example
+ * ```typescript
+ * const { data: count } = useDebouncedSearchQuery(
+ *   'count',
+ *   filters,
+ *   async searchFilters => (await countJobs(searchFilters)).count
+ * )
+ * ```
+ */
+export function useDebouncedSearchQuery<T>(
+  kind: string,
+  filters: JobSearchFilters | null,
+  fetcher: (filters: JobSearchFilters) => Promise<T | null>
+): UseDebouncedSearchQueryReturn<T> {
+  const debouncedFilters = useDebounce(filters, SEARCH_QUERY_DEBOUNCE_MS)
+  const { hiddenJobIds, hiddenCompanyNames } = useHiddenItems()
+
+  const { data, isFetching } = useQuery({
+    queryKey: [
+      'jobs',
+      kind,
+      debouncedFilters,
+      hiddenJobIds,
+      hiddenCompanyNames,
+    ] as const,
+    queryFn: (): Promise<T | null> =>
+      fetcher({
+        ...(debouncedFilters as JobSearchFilters),
+        excludeJobIds: hiddenJobIds,
+        excludeCompanies: hiddenCompanyNames,
+      }),
+    enabled: debouncedFilters !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    // Keep showing the previous data while the next loads
+    placeholderData: keepPreviousData,
+  })
+
+  return {
+    data: filters !== null ? (data ?? null) : null,
+    isLoading: filters !== null && (isFetching || filters !== debouncedFilters),
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * useHiddenItems Hook
+ *
+ * Manages jobs and companies the user has hidden from search results.
+ * Hidden items are persisted in localStorage and excluded server-side
+ * (see `excludeJobIds` / `excludeCompanies` on JobSearchFilters) so result
+ * counts and pagination stay correct.
+ */
+
+import { useCallback, useMemo } from 'react'
+import { z } from 'zod'
+
+import { useLogger } from '@/services/logging'
+import { createLocalStore, useLocalStore } from '@/services/storage'
+
+import { STORAGE_KEYS } from '../constants'
+import type { Job } from '../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A hidden job (enough to show it in the hidden items list)
+ */
+export interface HiddenJob {
+  /** Job ID */
+  id: string
+  /** Job title at the time it was hidden */
+  title: string
+  /** Company name */
+  company: string
+  /** ISO timestamp of when the job was hidden */
+  hiddenAt: string
+}
+
+/**
+ * A hidden company
+ */
+export interface HiddenCompany {
+  /** Company name */
+  name: string
+  /** ISO timestamp of when the company was hidden */
+  hiddenAt: string
+}
+
+/**
+ * Persisted hidden items
+ */
+interface HiddenItems {
+  jobs: HiddenJob[]
+  companies: HiddenCompany[]
+}
+
+/**
+ * Return type for the useHiddenItems hook
+ */
+export interface UseHiddenItemsReturn {
+  /** Hidden jobs, most recently hidden first */
+  hiddenJobs: HiddenJob[]
+  /** Hidden companies, most recently hidden first */
+  hiddenCompanies: HiddenCompany[]
+  /** IDs of hidden jobs (stable while unchanged) */
+  hiddenJobIds: string[]
+  /** Names of hidden companies (stable while unchanged) */
+  hiddenCompanyNames: string[]
+  /** Total number of hidden jobs and companies */
+  hiddenCount: number
+  /** Hide a single job */
+  hideJob: (job: Job) => void
+  /** Show a hidden job again */
+  unhideJob: (jobId: string) => void
+  /** Hide every job from a company */
+  hideCompany: (name: string) => void
+  /** Show a hidden company again */
+  unhideCompany: (name: string) => void
+  /** Show all hidden jobs and companies again */
+  clearHidden: () => void
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const hiddenItemsSchema = z.object({
+  jobs: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      company: z.string(),
+      hiddenAt: z.string(),
+    })
+  ),
+  companies: z.array(
+    z.object({
+      name: z.string(),
+      hiddenAt: z.string(),
+    })
+  ),
+})
+
+const hiddenItemsStore = createLocalStore<HiddenItems>({
+  key: STORAGE_KEYS.HIDDEN_ITEMS,
+  schema: hiddenItemsSchema,
+  defaultValue: { jobs: [], companies: [] },
+})
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for hiding jobs and companies from search results
+ *
+ * @example
+ * ```typescript
+ * const { hiddenJobIds, hiddenCompanyNames, hideJob } = useHiddenItems()
+ *
+ * search({ ...filters, excludeJobIds: hiddenJobIds })
+ * hideJob(job)
+ * ```
+ */
+export function useHiddenItems(): UseHiddenItemsReturn {
+  const logger = useLogger('useHiddenItems')
+  const { jobs, companies } = useLocalStore(hiddenItemsStore)
+
+  const hiddenJobIds = useMemo(() => jobs.map(job => job.id), [jobs])
+  const hiddenCompanyNames = useMemo(
+    () => companies.map(company => company.name),
+    [companies]
+  )
+
+  const hideJob = useCallback(
+    (job: Job): void => {
+      logger.userAction('hide_job', { jobId: job.id })
+      hiddenItemsStore.update(prev => ({
+        ...prev,
+        jobs: [
+          {
+            id: job.id,
+            title: job.title,
+            company: job.company,
+            hiddenAt: new Date().toISOString(),
+          },
+          ...prev.jobs.filter(hidden => hidden.id !== job.id),
+        ],
+      }))
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const unhideJob = useCallback((jobId: string): void => {
+    hiddenItemsStore.update(prev => ({
+      ...prev,
+      jobs: prev.jobs.filter(hidden => hidden.id !== jobId),
+    }))
+  }, [])
+
+  const hideCompany = useCallback(
+    (name: string): void => {
+      logger.userAction('hide_company', { company: name })
+      hiddenItemsStore.update(prev => ({
+        ...prev,
+        companies: [
+          { name, hiddenAt: new Date().toISOString() },
+          ...prev.companies.filter(hidden => hidden.name !== name),
+        ],
+      }))
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const unhideCompany = useCallback((name: string): void => {
+    hiddenItemsStore.update(prev => ({
+      ...prev,
+      companies: prev.companies.filter(hidden => hidden.name !== name),
+    }))
+  }, [])
+
+  const clearHidden = useCallback((): void => {
+    hiddenItemsStore.set({ jobs: [], companies: [] })
+  }, [])
+
+  return {
+    hiddenJobs: jobs,
+    hiddenCompanies: companies,
+    hiddenJobIds,
+    hiddenCompanyNames,
+    hiddenCount: jobs.length + companies.length,
+    hideJob,
+    unhideJob,
+    hideCompany,
+    unhideCompany,
+    clearHidden,
+  }
+}
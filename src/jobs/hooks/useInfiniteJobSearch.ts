@@ -0,0 +1,193 @@
+/**
+ * useInfiniteJobSearch Hook
+ *
+ * React Query-based hook for the infinite-scroll list mode. Loads search
+ * results page by page, appending the next page (or prepending the
+ * previous one when the list was restored mid-way). Pages are read through
+ * the same cache entries as useJobSearch, so switching list modes or
+ * running the same search again does not refetch them.
+ */
+
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useMemo } from 'react'
+
+import { useLogger } from '@/services/logging'
+import type { SupabaseAppError } from '@/services/supabase/errors'
+
+import { searchJobs as searchJobsApi } from '../api/jobService'
+import { PAGINATION } from '../constants'
+import type { JobSearchFilters } from '../types/filters'
+import type { Job } from '../types/models'
+import { jobSearchQueryKey, type SearchState } from './useJobSearch'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A job of the infinite list and the page it was loaded from
+ */
+export interface InfiniteJobItem {
+  job: Job
+  /** Page number (1-indexed) */
+  page: number
+}
+
+/**
+ * Return type for the useInfiniteJobSearch hook
+ */
+export interface UseInfiniteJobSearchReturn {
+  /** Jobs of every loaded page, in result order */
+  jobs: Job[]
+  /** Same as jobs, each with its page (pages may have duplicates skipped) */
+  items: InfiniteJobItem[]
+  /** Page number of the first loaded page (1-indexed) */
+  firstPage: number
+  /** Total number of jobs matching the search */
+  total: number
+  /** True if there are pages after the last loaded one */
+  hasNextPage: boolean
+  /** True if there are pages before the first loaded one */
+  hasPreviousPage: boolean
+  /** Append the next page */
+  fetchNextPage: () => void
+  /** Prepend the previous page */
+  fetchPreviousPage: () => void
+  /** True during initial load (no data yet) */
+  isLoading: boolean
+  /** True while the search itself is (re)fetched, not counting appends */
+  isFetching: boolean
+  /** True while the next page is loading */
+  isFetchingNextPage: boolean
+  /** True while the previous page is loading */
+  isFetchingPreviousPage: boolean
+  /** Error details if a page failed to load */
+  error: SupabaseAppError | null
+  /** Retry the failed page */
+  retry: () => void
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for loading search results as one growing list
+ *
+ * @param filters - Filters of the current search (nothing is loaded when null)
+ * @param startPage - Page the list starts at, e.g. the page restored from the URL
+ *
+ * @example
+ * ```typescript
+ * const { activeFilters } = useJobSearch()
+ * const { jobs, hasNextPage, fetchNextPage } = useInfiniteJobSearch(
+ *   activeFilters,
+ *   3
+ * )
+ * ```
+ */
+export function useInfiniteJobSearch(
+  filters: JobSearchFilters | null,
+  startPage: number = PAGINATION.DEFAULT_PAGE
+): UseInfiniteJobSearchReturn {
+  const logger = useLogger('useInfiniteJobSearch')
+  const queryClient = useQueryClient()
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    isFetchingNextPage,
+    isFetchingPreviousPage,
+    hasNextPage,
+    hasPreviousPage,
+    fetchNextPage,
+    fetchPreviousPage,
+    error,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ['jobs', 'search', 'infinite', filters, startPage] as const,
+    queryFn: async ({ pageParam }): Promise<SearchState> => {
+      const pagination = { page: pageParam, pageSize: PAGINATION.PAGE_SIZE }
+
+      return queryClient.fetchQuery({
+        queryKey: jobSearchQueryKey(filters as JobSearchFilters, pagination),
+        queryFn: async (): Promise<SearchState> => {
+          const result = await searchJobsApi(
+            filters as JobSearchFilters,
+            pagination
+          )
+
+          if (result.error) {
+            logger.error('Loading search results page failed', {
+              page: pageParam,
+              error: result.error.message,
+            })
+            // Don't cache the failed page - let React Query report it
+            throw result.error
+          }
+
+          return { jobs: result.jobs, pagination: result.pagination }
+        },
+        staleTime: 5 * 60 * 1000, // 5 minutes
+      })
+    },
+    initialPageParam: startPage,
+    getNextPageParam: (lastPage, _pages, lastPageParam) =>
+      lastPage.pagination?.hasMore ? lastPageParam + 1 : undefined,
+    getPreviousPageParam: (_firstPage, _pages, firstPageParam) =>
+      firstPageParam > PAGINATION.DEFAULT_PAGE ? firstPageParam - 1 : undefined,
+    // Only run once a search (or browse) has been requested
+    enabled: filters !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  // Flatten pages, skipping jobs that moved between pages since loading.
+  // Each job keeps its page, since skipped jobs shift the positions.
+  const items = useMemo((): InfiniteJobItem[] => {
+    const seen = new Set<string>()
+    return (data?.pages ?? [])
+      .flatMap((page, index) =>
+        page.jobs.map(job => ({
+          job,
+          page: data?.pageParams[index] as number,
+        }))
+      )
+      .filter(({ job }) => {
+        if (seen.has(job.id)) return false
+        seen.add(job.id)
+        return true
+      })
+  }, [data])
+
+  const jobs = useMemo(() => items.map(({ job }) => job), [items])
+
+  // Stable handlers; repeated calls while a page loads are ignored
+  const loadNextPage = useCallback((): void => {
+    void fetchNextPage({ cancelRefetch: false })
+  }, [fetchNextPage])
+
+  const loadPreviousPage = useCallback((): void => {
+    void fetchPreviousPage({ cancelRefetch: false })
+  }, [fetchPreviousPage])
+
+  return {
+    jobs,
+    items,
+    firstPage: (data?.pageParams[0] as number | undefined) ?? startPage,
+    total: data?.pages[0]?.pagination?.total ?? 0,
+    hasNextPage,
+    hasPreviousPage,
+    fetchNextPage: loadNextPage,
+    fetchPreviousPage: loadPreviousPage,
+    isLoading: filters !== null && isLoading,
+    isFetching: isFetching && !isFetchingNextPage && !isFetchingPreviousPage,
+    isFetchingNextPage,
+    isFetchingPreviousPage,
+    error: error as SupabaseAppError | null,
+    retry: () => {
+      void refetch()
+    },
+  }
+}
@@ -0,0 +1,611 @@
+/**
+ * useJobAlerts Hook
+ *
+ * Job alerts attach a notification to a set of search filters. While the app
+ * is open, `useJobAlertPolling` periodically searches for jobs posted since
+ * each alert was last checked; new matches land in an in-app notifications
+ * inbox and, when enabled, as browser notifications. Alerts, notifications
+ * and settings are persisted in localStorage; filters are stored in their
+ * URL form like saved searches.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { z } from 'zod'
+
+import { translate } from '@/services/i18n'
+import { useLogger } from '@/services/logging'
+import { createLocalStore, useLocalStore } from '@/services/storage'
+
+import { searchJobsSince } from '../api/jobService'
+import { STORAGE_KEYS } from '../constants'
+import type { JobSearchFilters } from '../types/filters'
+import { filtersToURLParams, urlParamsToFilters } from '../types/filters'
+import { useHiddenItems } from './useHiddenItems'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A persisted alert for a search
+ */
+export interface JobAlert {
+  /** Unique identifier */
+  id: string
+  /** Display name */
+  name: string
+  /** Serialized filters (URL query string, including the search query) */
+  params: string
+  /** ISO timestamp of when the alert was created */
+  createdAt: string
+  /** ISO timestamp of the last successful check for new jobs */
+  lastCheckedAt: string
+}
+
+/**
+ * A new job found for an alert, shown in the notifications inbox
+ *
+ * When a check finds more jobs than it records one by one, the rest are
+ * summed up in a single notification with `moreCount` set (and empty job
+ * fields) that links to the alert's search.
+ */
+export interface JobAlertNotification {
+  /** Unique identifier (alert ID and job ID, or "more" and check time) */
+  id: string
+  /** Alert that found the job */
+  alertId: string
+  /** Alert name at the time the job was found */
+  alertName: string
+  /** Job ID */
+  jobId: string
+  /** Job title */
+  title: string
+  /** Company name */
+  company: string
+  /** Number of further new jobs, for a summary notification */
+  moreCount?: number | undefined
+  /** URL search params of the alert, for a summary notification */
+  params?: string | undefined
+  /** ISO timestamp of when the job was found */
+  receivedAt: string
+  /** Whether the notification has been read */
+  read: boolean
+}
+
+/**
+ * How often alerts are checked, in minutes
+ */
+export type JobAlertCheckInterval = 15 | 30 | 60 | 240
+
+/**
+ * State of browser notifications for job alerts
+ * - on: Enabled and permitted
+ * - off: Disabled by the user (or permission not asked yet)
+ * - blocked: Permission denied in the browser settings
+ * - unsupported: The browser has no Notification API
+ */
+export type BrowserNotificationStatus = 'on' | 'off' | 'blocked' | 'unsupported'
+
+/**
+ * Persisted alerts state
+ */
+interface JobAlertsState {
+  alerts: JobAlert[]
+  notifications: JobAlertNotification[]
+  settings: {
+    checkIntervalMinutes: JobAlertCheckInterval
+    browserNotifications: boolean
+  }
+}
+
+/**
+ * Return type for the useJobAlerts hook
+ */
+export interface UseJobAlertsReturn {
+  /** Alerts, most recently created first */
+  alerts: JobAlert[]
+  /** Notifications, most recent first */
+  notifications: JobAlertNotification[]
+  /** Number of unread notifications */
+  unreadCount: number
+  /** How often alerts are checked, in minutes */
+  checkIntervalMinutes: JobAlertCheckInterval
+  /** State of browser notifications */
+  browserNotifications: BrowserNotificationStatus
+  /** Create an alert for the given filters */
+  createAlert: (name: string, filters: Partial<JobSearchFilters>) => JobAlert
+  /** Delete an alert (its notifications are kept) */
+  deleteAlert: (id: string) => void
+  /** Mark a notification as read */
+  markRead: (id: string) => void
+  /** Mark every notification as read */
+  markAllRead: () => void
+  /** Remove every notification */
+  clearNotifications: () => void
+  /** Change how often alerts are checked */
+  setCheckInterval: (minutes: JobAlertCheckInterval) => void
+  /** Turn browser notifications on (asking for permission) or off */
+  setBrowserNotifications: (enabled: boolean) => Promise<void>
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Selectable check intervals, in minutes */
+export const JOB_ALERT_CHECK_INTERVALS: JobAlertCheckInterval[] = [
+  15, 30, 60, 240,
+]
+
+/** How often due alerts are looked for while the app is open (ms) */
+const POLL_TICK_MS = 60 * 1000
+
+/** Most new jobs recorded one by one per alert check (the rest are summed up) */
+const MAX_JOBS_PER_CHECK = 20
+
+/**
+ * Web Lock held while checking, so only one open tab checks at a time and
+ * the others find the alerts already up to date
+ */
+const CHECK_LOCK_NAME = 'jobhub:job-alerts-check'
+
+/** Most notifications kept in the inbox */
+const MAX_NOTIFICATIONS = 50
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const jobAlertsSchema = z.object({
+  alerts: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      params: z.string(),
+      createdAt: z.string(),
+      lastCheckedAt: z.string(),
+    })
+  ),
+  notifications: z.array(
+    z.object({
+      id: z.string(),
+      alertId: z.string(),
+      alertName: z.string(),
+      jobId: z.string(),
+      title: z.string(),
+      company: z.string(),
+      moreCount: z.number().optional(),
+      params: z.string().optional(),
+      receivedAt: z.string(),
+      read: z.boolean(),
+    })
+  ),
+  settings: z.object({
+    checkIntervalMinutes: z.union([
+      z.literal(15),
+      z.literal(30),
+      z.literal(60),
+      z.literal(240),
+    ]),
+    browserNotifications: z.boolean(),
+  }),
+})
+
+const jobAlertsStore = createLocalStore<JobAlertsState>({
+  key: STORAGE_KEYS.JOB_ALERTS,
+  schema: jobAlertsSchema,
+  defaultValue: {
+    alerts: [],
+    notifications: [],
+    settings: { checkIntervalMinutes: 30, browserNotifications: false },
+  },
+})
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Restore the filters an alert watches
+ *
+ * @param alert - The job alert
+ * @returns Filter state, including the search query
+ */
+export function jobAlertToFilters(alert: JobAlert): Partial<JobSearchFilters> {
+  return urlParamsToFilters(new URLSearchParams(alert.params))
+}
+
+/**
+ * Current Notification API permission, or 'unsupported' without the API
+ */
+function getNotificationPermission(): NotificationPermission | 'unsupported' {
+  return typeof Notification === 'undefined'
+    ? 'unsupported'
+    : Notification.permission
+}
+
+/**
+ * Where a notification leads: its job, or the alert's search for a summary
+ */
+export function getJobAlertNotificationUrl(
+  notification: JobAlertNotification
+): string {
+  return notification.moreCount === undefined
+    ? `/jobs/${notification.jobId}`
+    : `/jobs/search?${notification.params ?? ''}`
+}
+
+/**
+ * Show a browser notification for the new jobs of an alert
+ *
+ * Clicking it opens the job (or the alert's search when there are several).
+ * Notifications are tagged per alert, so a newer one replaces an unread one.
+ *
+ * @param alert - The job alert
+ * @param notifications - Notifications for the jobs recorded one by one
+ * @param count - Number of new jobs, including the summed-up ones
+ */
+function showBrowserNotification(
+  alert: JobAlert,
+  notifications: JobAlertNotification[],
+  count: number
+): void {
+  const [first] = notifications
+  if (!first || getNotificationPermission() !== 'granted') return
+
+  const title =
+    count === 1
+      ? translate('jobAlerts.notificationTitle', { alert: alert.name })
+      : translate('jobAlerts.notificationTitleMany', {
+          alert: alert.name,
+          count,
+        })
+  const url =
+    count === 1 ? `/jobs/${first.jobId}` : `/jobs/search?${alert.params}`
+
+  const notification = new Notification(title, {
+    body: translate('jobAlerts.notificationBody', {
+      title: first.title,
+      company: first.company,
+    }),
+    tag: `jobhub-alert-${alert.id}`,
+  })
+  notification.onclick = () => {
+    window.focus()
+    window.location.assign(url)
+  }
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for managing job alerts and their notifications inbox
+ *
+ * @example
+ * ```typescript
+ * const { notifications, unreadCount, createAlert, markRead } = useJobAlerts()
+ *
+ * createAlert('React remote', { query: 'react', workMode: ['remote'] })
+ * console.log(`${unreadCount} unread of ${notifications.length}`)
+ * ```
+ */
+export function useJobAlerts(): UseJobAlertsReturn {
+  const logger = useLogger('useJobAlerts')
+  const { alerts, notifications, settings } = useLocalStore(jobAlertsStore)
+  const [permission, setPermission] = useState(getNotificationPermission)
+
+  let browserNotifications: BrowserNotificationStatus = 'off'
+  if (permission === 'unsupported') {
+    browserNotifications = 'unsupported'
+  } else if (permission === 'denied') {
+    browserNotifications = 'blocked'
+  } else if (settings.browserNotifications && permission === 'granted') {
+    browserNotifications = 'on'
+  }
+
+  const createAlert = useCallback(
+    (name: string, filters: Partial<JobSearchFilters>): JobAlert => {
+      const now = new Date().toISOString()
+      const alert: JobAlert = {
+        id: crypto.randomUUID(),
+        name:
+          name.trim() ||
+          (filters.query ?? '').trim() ||
+          translate('jobAlerts.untitled'),
+        params: filtersToURLParams(filters).toString(),
+        createdAt: now,
+        // Only jobs posted from now on are new for this alert
+        lastCheckedAt: now,
+      }
+
+      logger.userAction('create_job_alert', { name: alert.name })
+      jobAlertsStore.update(prev => ({
+        ...prev,
+        alerts: [alert, ...prev.alerts],
+      }))
+
+      return alert
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const deleteAlert = useCallback(
+    (id: string): void => {
+      logger.userAction('delete_job_alert', { alertId: id })
+      jobAlertsStore.update(prev => ({
+        ...prev,
+        alerts: prev.alerts.filter(alert => alert.id !== id),
+      }))
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const markRead = useCallback((id: string): void => {
+    jobAlertsStore.update(prev => ({
+      ...prev,
+      notifications: prev.notifications.map(notification =>
+        notification.id === id ? { ...notification, read: true } : notification
+      ),
+    }))
+  }, [])
+
+  const markAllRead = useCallback((): void => {
+    jobAlertsStore.update(prev => ({
+      ...prev,
+      notifications: prev.notifications.map(notification => ({
+        ...notification,
+        read: true,
+      })),
+    }))
+  }, [])
+
+  const clearNotifications = useCallback((): void => {
+    jobAlertsStore.update(prev => ({ ...prev, notifications: [] }))
+  }, [])
+
+  const setCheckInterval = useCallback(
+    (minutes: JobAlertCheckInterval): void => {
+      logger.userAction('set_job_alert_interval', { minutes })
+      jobAlertsStore.update(prev => ({
+        ...prev,
+        settings: { ...prev.settings, checkIntervalMinutes: minutes },
+      }))
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const setBrowserNotifications = useCallback(
+    async (enabled: boolean): Promise<void> => {
+      let nextPermission = getNotificationPermission()
+      if (enabled && nextPermission === 'default') {
+        nextPermission = await Notification.requestPermission()
+        setPermission(nextPermission)
+      }
+
+      logger.userAction('set_job_alert_browser_notifications', {
+        enabled,
+        permission: nextPermission,
+      })
+      jobAlertsStore.update(prev => ({
+        ...prev,
+        settings: {
+          ...prev.settings,
+          browserNotifications: enabled && nextPermission === 'granted',
+        },
+      }))
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  return {
+    alerts,
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.read)
+      .length,
+    checkIntervalMinutes: settings.checkIntervalMinutes,
+    browserNotifications,
+    createAlert,
+    deleteAlert,
+    markRead,
+    markAllRead,
+    clearNotifications,
+    setCheckInterval,
+    setBrowserNotifications,
+  }
+}
+
+/**
+ * Hook that checks job alerts for new jobs while the app is open
+ *
+ * Mount it once, near the app root. Every minute it checks the alerts whose
+ * interval has passed since their last check; hidden jobs and companies are
+ * excluded. A failed check keeps the alert's last check time, so the jobs
+ * are picked up by the next one. Jobs beyond the per-check limit are summed
+ * up in a "+N more" notification. With several tabs open, a Web Lock lets
+ * one tab check at a time, so each job is notified once.
+ *
+ * @example
+ * ```typescript
+ * function App() {
+ *   useJobAlertPolling()
+ *   return <Routes>...</Routes>
+ * }
+ * ```
+ */
+export function useJobAlertPolling(): void {
+  const logger = useLogger('useJobAlertPolling')
+  const { hiddenJobIds, hiddenCompanyNames } = useHiddenItems()
+  const exclusionsRef = useRef({ hiddenJobIds, hiddenCompanyNames })
+  const isCheckingRef = useRef(false)
+
+  useEffect(() => {
+    exclusionsRef.current = { hiddenJobIds, hiddenCompanyNames }
+  }, [hiddenJobIds, hiddenCompanyNames])
+
+  useEffect(() => {
+    const checkAlert = async (alert: JobAlert): Promise<void> => {
+      const checkedAt = new Date().toISOString()
+      const filters = jobAlertToFilters(alert)
+      // The cutoff is inclusive, so jobs from the previous check can match
+      // again; leave them out so they are not counted as new
+      const notifiedJobIds = jobAlertsStore
+        .get()
+        .notifications.filter(
+          notification =>
+            notification.alertId === alert.id && notification.jobId
+        )
+        .map(notification => notification.jobId)
+      const result = await searchJobsSince(
+        {
+          ...filters,
+          query: filters.query ?? '',
+          excludeJobIds: [
+            ...exclusionsRef.current.hiddenJobIds,
+            ...notifiedJobIds,
+          ],
+          excludeCompanies: exclusionsRef.current.hiddenCompanyNames,
+        },
+        alert.lastCheckedAt,
+        { pageSize: MAX_JOBS_PER_CHECK }
+      )
+
+      if (result.error) {
+        logger.warn('Failed to check job alert', {
+          alertId: alert.id,
+          error: result.error.message,
+        })
+        return
+      }
+
+      const { alerts, notifications } = jobAlertsStore.get()
+      // The alert may have been deleted while the search was running
+      if (!alerts.some(current => current.id === alert.id)) return
+
+      // Another tab may have notified some of them while the search ran
+      const knownIds = new Set(notifications.map(({ id }) => id))
+      const jobNotifications = result.jobs
+        .map(
+          (job): JobAlertNotification => ({
+            id: `${alert.id}:${job.id}`,
+            alertId: alert.id,
+            alertName: alert.name,
+            jobId: job.id,
+            title: job.title,
+            company: job.company,
+            receivedAt: checkedAt,
+            read: false,
+          })
+        )
+        .filter(notification => !knownIds.has(notification.id))
+
+      // Only the newest jobs are fetched; the rest are counted, not dropped
+      const alreadyNotifiedCount = result.jobs.length - jobNotifications.length
+      const moreCount = Math.max(
+        (result.pagination?.total ?? 0) -
+          jobNotifications.length -
+          alreadyNotifiedCount,
+        0
+      )
+      // The summary opens the alert's search with the newest jobs first
+      const moreParams = new URLSearchParams(alert.params)
+      moreParams.set('sort', 'newest')
+      const newNotifications =
+        moreCount > 0
+          ? [
+              ...jobNotifications,
+              {
+                id: `${alert.id}:more:${checkedAt}`,
+                alertId: alert.id,
+                alertName: alert.name,
+                jobId: '',
+                title: '',
+                company: '',
+                moreCount,
+                params: moreParams.toString(),
+                receivedAt: checkedAt,
+                read: false,
+              },
+            ]
+          : jobNotifications
+
+      jobAlertsStore.update(prev => ({
+        ...prev,
+        alerts: prev.alerts.map(current =>
+          current.id === alert.id
+            ? { ...current, lastCheckedAt: checkedAt }
+            : current
+        ),
+        notifications: [...newNotifications, ...prev.notifications].slice(
+          0,
+          MAX_NOTIFICATIONS
+        ),
+      }))
+
+      if (jobNotifications.length > 0 || moreCount > 0) {
+        logger.info('Job alert found new jobs', {
+          alertId: alert.id,
+          count: jobNotifications.length + moreCount,
+        })
+        if (jobAlertsStore.get().settings.browserNotifications) {
+          showBrowserNotification(
+            alert,
+            jobNotifications,
+            jobNotifications.length + moreCount
+          )
+        }
+      }
+    }
+
+    const checkDueAlerts = async (): Promise<void> => {
+      // Read inside the lock, so check times written by another tab count
+      const { alerts, settings } = jobAlertsStore.get()
+      const intervalMs = settings.checkIntervalMinutes * 60 * 1000
+      const now = Date.now()
+      const dueAlerts = alerts.filter(
+        alert => now - new Date(alert.lastCheckedAt).getTime() >= intervalMs
+      )
+
+      // One at a time to keep the load on the search RPC low
+      for (const alert of dueAlerts) {
+        await checkAlert(alert)
+      }
+    }
+
+    const runCheck = async (): Promise<void> => {
+      if (isCheckingRef.current) return
+      isCheckingRef.current = true
+
+      try {
+        // Without Web Locks every tab checks on its own
+        if (typeof navigator.locks === 'undefined') {
+          await checkDueAlerts()
+        } else {
+          await navigator.locks.request(
+            CHECK_LOCK_NAME,
+            { ifAvailable: true },
+            async lock => {
+              // Another tab is checking; it updates the shared store
+              if (lock) await checkDueAlerts()
+            }
+          )
+        }
+      } finally {
+        isCheckingRef.current = false
+      }
+    }
+
+    void runCheck()
+    const intervalId = window.setInterval(() => {
+      void runCheck()
+    }, POLL_TICK_MS)
+
+    return () => window.clearInterval(intervalId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []) // logger is stable, no need to include
+}
@@ -0,0 +1,77 @@
+/**
+ * useJobAvailability Hook
+ *
+ * Checks whether previously seen jobs (e.g. saved jobs) are still active.
+ * All jobs are checked with one query; a job is flagged as unavailable when
+ * it is missing from the active jobs it returns. A failed check leaves
+ * every status unknown rather than flagging jobs.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+
+import { getActiveJobIds } from '../api/jobRepository'
+import { parseJobId } from './useJobDetail'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useJobAvailability hook
+ */
+export interface UseJobAvailabilityReturn {
+  /** IDs of jobs that are closed or removed */
+  unavailableJobIds: Set<string>
+  /** True while the availability check is in flight */
+  isChecking: boolean
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for checking which jobs are no longer active
+ *
+ * @param jobIds - Job IDs to check
+ *
+ * @example
+ * ```typescript
+ * const { savedJobs } = useSavedJobs()
+ * const { unavailableJobIds } = useJobAvailability(
+ *   savedJobs.map(({ job }) => job.id)
+ * )
+ * ```
+ */
+export function useJobAvailability(jobIds: string[]): UseJobAvailabilityReturn {
+  // Sorted, so the same jobs in another order share the cache entry
+  const sortedJobIds = [...jobIds].sort()
+
+  const { data: activeJobIds, isFetching } = useQuery({
+    queryKey: ['jobs', 'availability', sortedJobIds] as const,
+    queryFn: async (): Promise<Set<string>> => {
+      const ids = sortedJobIds
+        .map(parseJobId)
+        .filter((id): id is number => id !== null)
+
+      const result = await getActiveJobIds(ids)
+
+      if (result.error) {
+        // Unknown status - let React Query retry / report the error
+        throw result.error
+      }
+
+      return new Set(result.data.map(String))
+    },
+    enabled: sortedJobIds.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  return {
+    unavailableJobIds: new Set(
+      activeJobIds ? jobIds.filter(jobId => !activeJobIds.has(jobId)) : []
+    ),
+    isChecking: isFetching,
+  }
+}
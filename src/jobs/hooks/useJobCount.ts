@@ -0,0 +1,73 @@
+/**
+ * useJobCount Hook
+ *
+ * Debounced result count preview for filters that have not been applied
+ * yet (e.g. the staged selection in the all filters drawer), backed by the
+ * count-only count_jobs RPC. Hidden jobs and companies are excluded, so the
+ * count matches what the search will show.
+ */
+
+import { useLogger } from '@/services/logging'
+
+import { countJobs } from '../api/jobService'
+import type { JobSearchFilters } from '../types/filters'
+import { useDebouncedSearchQuery } from './useDebouncedSearchQuery'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useJobCount hook
+ */
+export interface UseJobCountReturn {
+  /** Number of matching jobs (null until known or when counting failed) */
+  count: number | null
+  /** True while the count is out of date or being fetched */
+  isLoading: boolean
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for previewing the number of jobs matching filters
+ *
+ * @param filters - Filters to count (nothing is counted when null); pass a
+ *   memoized object, a new object restarts the debounce
+ *
+ * @example
+ * ```typescript
+ * const draftFilters = useMemo(
+ *   () => ({ ...draft.filters, query: appliedSearchQuery }),
+ *   [draft.filters, appliedSearchQuery]
+ * )
+ * const { count } = useJobCount(isDrawerOpen ? draftFilters : null)
+ * ```
+ */
+export function useJobCount(
+  filters: JobSearchFilters | null
+): UseJobCountReturn {
+  const logger = useLogger('useJobCount')
+
+  const { data, isLoading } = useDebouncedSearchQuery(
+    'count',
+    filters,
+    async (searchFilters): Promise<number | null> => {
+      const result = await countJobs(searchFilters)
+
+      if (result.error) {
+        // The preview is best-effort; applying the filters still works
+        logger.warn('Failed to count jobs for filters', {
+          error: result.error.message,
+        })
+        return null
+      }
+
+      return result.count
+    }
+  )
+
+  return { count: data, isLoading }
+}
@@ -0,0 +1,112 @@
+/**
+ * useJobDetail Hook
+ *
+ * React Query-based hook for loading a single job posting by ID.
+ * Backs the shareable `/jobs/:jobId` route.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+
+import { useLogger } from '@/services/logging'
+import type { SupabaseAppError } from '@/services/supabase/errors'
+
+import { getJob, type JobDetailResponse } from '../api/jobService'
+import type { Job } from '../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useJobDetail hook
+ */
+export interface UseJobDetailReturn {
+  /** The loaded job, or null while loading / when unavailable */
+  job: Job | null
+  /** True during initial load (no data yet) */
+  isLoading: boolean
+  /** True when the posting is closed, removed or the ID is invalid */
+  isNotFound: boolean
+  /** Error details for failures other than NOT_FOUND */
+  error: SupabaseAppError | null
+  /** Retry loading the job */
+  refetch: () => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse a route parameter into a numeric job ID
+ *
+ * @param jobId - Raw `:jobId` route parameter
+ * @returns Positive integer ID, or null if the parameter is invalid
+ */
+export function parseJobId(jobId: string | undefined): number | null {
+  if (!jobId || !/^\d+$/.test(jobId)) return null
+
+  const id = parseInt(jobId, 10)
+  return id > 0 ? id : null
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for loading a single job posting
+ *
+ * @param jobId - Raw job ID (usually the `:jobId` route parameter)
+ *
+ * @example
+ * ```typescript
+ * const { jobId } = useParams()
+ * const { job, isLoading, isNotFound } = useJobDetail(jobId)
+ *
+ * if (isNotFound) return <JobUnavailable />
+ * ```
+ */
+export function useJobDetail(jobId: string | undefined): UseJobDetailReturn {
+  const logger = useLogger('useJobDetail')
+  const id = parseJobId(jobId)
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['jobs', 'detail', id] as const,
+    queryFn: async (): Promise<JobDetailResponse> => {
+      logger.info('Loading job detail', { jobId: id })
+
+      const result = await getJob(id as number)
+
+      if (result.error) {
+        logger.warn('Job detail unavailable', {
+          jobId: id,
+          type: result.error.type,
+          error: result.error.message,
+        })
+      }
+
+      return result
+    },
+    // Only run for a valid numeric ID
+    enabled: id !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  const error = data?.error ?? null
+  const isNotFound =
+    id === null ||
+    error?.type === 'NOT_FOUND' ||
+    (!!data && !data.error && !data.job)
+
+  return {
+    job: data?.job ?? null,
+    isLoading: id !== null && isLoading,
+    isNotFound,
+    error: error?.type === 'NOT_FOUND' ? null : error,
+    refetch: () => {
+      void refetch()
+    },
+  }
+}
@@ -4,6 +4,8 @@
  * Manages filter state for job search including:
  * - Multi-select filters (arrays)
  * - Single-select filters (radio buttons)
+ * - Range filters (salary)
+ * - Result sort order
  * - Dropdown anchor elements
  * - URL synchronization
  */
@@ -15,13 +17,16 @@ import type {
   DatePreset,
   FilterKey,
   JobSearchFilters,
+  JobSortOption,
   MultiSelectFilterKey,
   SingleSelectFilterKey,
 } from '../types/filters'
 import {
   countFilterSelections,
+  DEFAULT_SORT,
   filtersToURLParams,
   hasActiveFilters,
+  hasSalaryRange,
   MULTI_SELECT_FILTER_KEYS,
   SINGLE_SELECT_FILTER_KEYS,
   toggleFilterValue,
@@ -53,14 +58,24 @@ export interface UseJobFiltersReturn {
   /** Toggle a value in a multi-select filter */
   toggleFilter: (key: MultiSelectFilterKey, value: string) => void
   /** Set a single-select filter value */
-  setFilter: <K extends SingleSelectFilterKey>(
-    key: K,
-    value: K extends 'language' ? string : DatePreset
+  setFilter: (key: SingleSelectFilterKey, value: DatePreset) => void
+  /** Set the result sort order */
+  setSort: (sort: JobSortOption) => void
+  /** Toggle matching only jobs where selected technologies are required */
+  setTechnologyRequiredOnly: (requiredOnly: boolean) => void
+  /** Set a custom date range (`YYYY-MM-DD`, undefined removes a bound) */
+  setDateRange: (
+    dateFrom: string | undefined,
+    dateTo: string | undefined
   ) => void
+  /** Set the salary range in USD per month (undefined removes a bound) */
+  setSalaryRange: (min: number | undefined, max: number | undefined) => void
   /** Clear a specific filter */
   clearFilter: (key: FilterKey) => void
   /** Clear all filters */
   clearAllFilters: () => void
+  /** Replace the whole filter state (e.g. when opening a saved search) */
+  replaceFilters: (filters: Partial<JobSearchFilters>) => void
 
   // Dropdown actions
   /** Open a filter dropdown */
@@ -95,8 +110,10 @@ const INITIAL_ANCHORS: AnchorElements = {
   province: null,
   jobFunction: null,
   company: null,
+  technology: null,
   language: null,
   datePreset: null,
+  salary: null,
 }
 
 // =============================================================================
@@ -203,12 +220,9 @@ export function useJobFilters(
    * Set a single-select filter value
    */
   const setFilter = useCallback(
-    <K extends SingleSelectFilterKey>(
-      key: K,
-      value: K extends 'language' ? string : DatePreset
-    ): void => {
+    (key: SingleSelectFilterKey, value: DatePreset): void => {
       setFilters(prev => {
-        const newFilters = {
+        const newFilters: Partial<JobSearchFilters> = {
           ...prev,
           [key]: value,
         }
@@ -218,6 +232,108 @@ export function useJobFilters(
           delete newFilters.datePreset
         }
 
+        // Custom range bounds only apply to the 'custom' preset
+        if (key === 'datePreset' && value !== 'custom') {
+          delete newFilters.dateFrom
+          delete newFilters.dateTo
+        }
+
+        updateUrl(newFilters)
+        return newFilters
+      })
+    },
+    [updateUrl]
+  )
+
+  /**
+   * Set the result sort order
+   */
+  const setSort = useCallback(
+    (sort: JobSortOption): void => {
+      setFilters(prev => {
+        const newFilters: Partial<JobSearchFilters> = { ...prev, sort }
+
+        // Default sort is implicit
+        if (sort === DEFAULT_SORT) {
+          delete newFilters.sort
+        }
+
+        updateUrl(newFilters)
+        return newFilters
+      })
+    },
+    [updateUrl]
+  )
+
+  /**
+   * Toggle matching only jobs where selected technologies are required
+   */
+  const setTechnologyRequiredOnly = useCallback(
+    (requiredOnly: boolean): void => {
+      setFilters(prev => {
+        const newFilters: Partial<JobSearchFilters> = { ...prev }
+
+        if (requiredOnly) {
+          newFilters.technologyRequiredOnly = true
+        } else {
+          delete newFilters.technologyRequiredOnly
+        }
+
+        updateUrl(newFilters)
+        return newFilters
+      })
+    },
+    [updateUrl]
+  )
+
+  /**
+   * Set a custom date range (selects the 'custom' date preset)
+   */
+  const setDateRange = useCallback(
+    (dateFrom: string | undefined, dateTo: string | undefined): void => {
+      setFilters(prev => {
+        const newFilters: Partial<JobSearchFilters> = {
+          ...prev,
+          datePreset: 'custom',
+        }
+
+        if (dateFrom) {
+          newFilters.dateFrom = dateFrom
+        } else {
+          delete newFilters.dateFrom
+        }
+        if (dateTo) {
+          newFilters.dateTo = dateTo
+        } else {
+          delete newFilters.dateTo
+        }
+
+        updateUrl(newFilters)
+        return newFilters
+      })
+    },
+    [updateUrl]
+  )
+
+  /**
+   * Set the salary range (USD per month)
+   */
+  const setSalaryRange = useCallback(
+    (min: number | undefined, max: number | undefined): void => {
+      setFilters(prev => {
+        const newFilters: Partial<JobSearchFilters> = { ...prev }
+
+        if (min !== undefined) {
+          newFilters.salaryMin = min
+        } else {
+          delete newFilters.salaryMin
+        }
+        if (max !== undefined) {
+          newFilters.salaryMax = max
+        } else {
+          delete newFilters.salaryMax
+        }
+
         updateUrl(newFilters)
         return newFilters
       })
@@ -232,7 +348,26 @@ export function useJobFilters(
     (key: FilterKey): void => {
       setFilters(prev => {
         const newFilters = { ...prev }
-        delete newFilters[key]
+
+        // Range filters are stored as a min/max pair
+        if (key === 'salary') {
+          delete newFilters.salaryMin
+          delete newFilters.salaryMax
+        } else {
+          delete newFilters[key]
+        }
+
+        // The required-only flag has no meaning without technologies
+        if (key === 'technology') {
+          delete newFilters.technologyRequiredOnly
+        }
+
+        // Custom range bounds belong to the date filter
+        if (key === 'datePreset') {
+          delete newFilters.dateFrom
+          delete newFilters.dateTo
+        }
+
         updateUrl(newFilters)
         return newFilters
       })
@@ -246,14 +381,28 @@ export function useJobFilters(
   const clearAllFilters = useCallback((): void => {
     const newFilters: Partial<JobSearchFilters> = {}
 
-    // Preserve query if it exists
+    // Preserve query and sort if they exist
     if (filters.query) {
       newFilters.query = filters.query
     }
+    if (filters.sort) {
+      newFilters.sort = filters.sort
+    }
 
     setFilters(newFilters)
     updateUrl(newFilters)
-  }, [filters.query, updateUrl])
+  }, [filters.query, filters.sort, updateUrl])
+
+  /**
+   * Replace the whole filter state
+   */
+  const replaceFilters = useCallback(
+    (newFilters: Partial<JobSearchFilters>): void => {
+      setFilters(newFilters)
+      updateUrl(newFilters)
+    },
+    [updateUrl]
+  )
 
   // ==========================================================================
   // Dropdown Actions
@@ -321,6 +470,9 @@ export function useJobFilters(
       }
     }
 
+    // Count range filters
+    if (hasSalaryRange(filters)) count += 1
+
     return count
   }, [filters])
 
@@ -329,6 +481,9 @@ export function useJobFilters(
    */
   const isFilterActive = useCallback(
     (key: FilterKey, value: string): boolean => {
+      // Range filters have no discrete values
+      if (key === 'salary') return false
+
       const filterValue = filters[key]
 
       if (Array.isArray(filterValue)) {
@@ -362,8 +517,13 @@ export function useJobFilters(
     // Filter actions
     toggleFilter,
     setFilter,
+    setSort,
+    setTechnologyRequiredOnly,
+    setDateRange,
+    setSalaryRange,
     clearFilter,
     clearAllFilters,
+    replaceFilters,
 
     // Dropdown actions
     openDropdown,
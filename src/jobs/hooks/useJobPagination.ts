@@ -66,7 +66,8 @@ export interface UseJobPaginationReturn {
 /**
  * Hook for managing job search pagination
  *
- * @param apiJobs - Current page of jobs from the API
+ * @param apiJobs - Listed jobs (the current page, or every loaded page in
+ *   infinite scroll mode)
  * @param apiPagination - Pagination metadata from the API
  * @param searchJobs - Function to execute searches
  * @param currentFilters - Current active filters
@@ -134,12 +135,15 @@ export function useJobPagination(
     [searchParams, setSearchParams, searchJobs, currentFilters]
   )
 
-  // Auto-select first job when jobs change and no job is selected
+  // Auto-select the first job when no listed job is selected, so pages
+  // appended in infinite scroll mode keep the current selection
   useEffect(() => {
-    if (apiJobs.length > 0 && apiJobs[0]?.id) {
+    const isSelectionListed = apiJobs.some(job => job.id === selectedJobId)
+
+    if (!isSelectionListed && apiJobs[0]?.id) {
       setSelectedJobId(apiJobs[0].id)
     }
-  }, [apiJobs])
+  }, [apiJobs, selectedJobId])
 
   // Only recalculates when dependencies change
   const selectedJob = useMemo(() => {
@@ -3,10 +3,12 @@
  *
  * React Query-based hook for managing job search operations.
  * Provides search functionality with caching, loading states, and error handling.
+ * Jobs and companies hidden by the user are excluded from every search.
+ * An empty query browses all jobs matching the filters (newest first).
  */
 
 import { useQuery, useQueryClient } from '@tanstack/react-query'
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 
 import { useLogger } from '@/services/logging'
 import type { SupabaseAppError } from '@/services/supabase/errors'
@@ -14,6 +16,7 @@ import type { SupabaseAppError } from '@/services/supabase/errors'
 import { searchJobs as searchJobsApi } from '../api/jobService'
 import type { JobSearchFilters, JobSearchPagination } from '../types/filters'
 import type { Job } from '../types/models'
+import { useHiddenItems } from './useHiddenItems'
 
 // =============================================================================
 // Types
@@ -53,6 +56,8 @@ export interface UseJobSearchReturn {
   jobs: Job[]
   /** Pagination information */
   pagination: PaginationState | null
+  /** Filters of the current search (including hidden item exclusions) */
+  activeFilters: JobSearchFilters | null
   /** True during initial load (no data yet) */
   isLoading: boolean
   /** True when fetching (including background refetch) */
@@ -76,6 +81,42 @@ export interface UseJobSearchReturn {
 // Query Key Factory
 // =============================================================================
 
+/**
+ * Create a stable query key for one page of search results
+ *
+ * Shared with useInfiniteJobSearch so both list modes read the same
+ * cached pages.
+ */
+export function jobSearchQueryKey(
+  filters: JobSearchFilters,
+  pagination: JobSearchPagination
+): readonly ['jobs', 'search', ...unknown[]] {
+  return [
+    'jobs',
+    'search',
+    filters.query,
+    filters.experienceLevel,
+    filters.employmentType,
+    filters.workMode,
+    filters.province,
+    filters.jobFunction,
+    filters.language,
+    filters.company,
+    filters.technology,
+    filters.technologyRequiredOnly,
+    filters.datePreset,
+    filters.dateFrom,
+    filters.dateTo,
+    filters.salaryMin,
+    filters.salaryMax,
+    filters.sort,
+    filters.excludeJobIds,
+    filters.excludeCompanies,
+    pagination.page,
+    pagination.pageSize,
+  ] as const
+}
+
 /**
  * Create a stable query key from search parameters
  */
@@ -86,21 +127,7 @@ function createQueryKey(
     return ['jobs', 'search', 'empty'] as const
   }
 
-  return [
-    'jobs',
-    'search',
-    params.filters.query,
-    params.filters.experienceLevel,
-    params.filters.employmentType,
-    params.filters.workMode,
-    params.filters.province,
-    params.filters.jobFunction,
-    params.filters.language,
-    params.filters.company,
-    params.filters.datePreset,
-    params.pagination.page,
-    params.pagination.pageSize,
-  ] as const
+  return jobSearchQueryKey(params.filters, params.pagination)
 }
 
 // =============================================================================
@@ -137,6 +164,25 @@ export function useJobSearch(): UseJobSearchReturn {
   // Track the last error from the API
   const [apiError, setApiError] = useState<SupabaseAppError | null>(null)
 
+  // Hidden jobs/companies are excluded server-side
+  const { hiddenJobIds, hiddenCompanyNames } = useHiddenItems()
+
+  // Re-run the current search when items are hidden or restored
+  useEffect(() => {
+    setSearchParams(prev =>
+      prev
+        ? {
+            ...prev,
+            filters: {
+              ...prev.filters,
+              excludeJobIds: hiddenJobIds,
+              excludeCompanies: hiddenCompanyNames,
+            },
+          }
+        : prev
+    )
+  }, [hiddenJobIds, hiddenCompanyNames])
+
   // Create query key from search parameters
   const queryKey = createQueryKey(searchParams)
 
@@ -160,8 +206,15 @@ export function useJobSearch(): UseJobSearchReturn {
           jobFunction: filters.jobFunction,
           language: filters.language,
           company: filters.company,
+          technology: filters.technology,
+          technologyRequiredOnly: filters.technologyRequiredOnly,
           datePreset: filters.datePreset,
+          dateFrom: filters.dateFrom,
+          dateTo: filters.dateTo,
+          salaryMin: filters.salaryMin,
+          salaryMax: filters.salaryMax,
         },
+        sort: filters.sort,
         pagination,
       })
 
@@ -195,8 +248,8 @@ export function useJobSearch(): UseJobSearchReturn {
         pagination: result.pagination,
       }
     },
-    // Only run if we have a valid search query
-    enabled: !!searchParams?.filters.query?.trim(),
+    // Only run once a search (or browse) has been requested
+    enabled: searchParams !== null,
     // Cache configuration
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
@@ -214,17 +267,11 @@ export function useJobSearch(): UseJobSearchReturn {
     ): Promise<SearchState> => {
       const emptyState: SearchState = { jobs: [], pagination: null }
 
-      // Validate query
-      if (!filters.query?.trim()) {
-        logger.debug('Skipping search - empty query')
-        setSearchParams(null)
-        setApiError(null)
-        return emptyState
-      }
-
       const normalizedFilters: JobSearchFilters = {
         ...filters,
         query: filters.query.trim(),
+        excludeJobIds: hiddenJobIds,
+        excludeCompanies: hiddenCompanyNames,
       }
 
       const normalizedPagination: JobSearchPagination = {
@@ -284,7 +331,7 @@ export function useJobSearch(): UseJobSearchReturn {
         return emptyState
       }
     },
-    [searchParams, data, queryClient, logger]
+    [searchParams, data, queryClient, logger, hiddenJobIds, hiddenCompanyNames]
   )
 
   /**
@@ -314,6 +361,7 @@ export function useJobSearch(): UseJobSearchReturn {
     // Data
     jobs: data?.jobs ?? [],
     pagination: data?.pagination ?? null,
+    activeFilters: searchParams?.filters ?? null,
 
     // Loading states
     isLoading,
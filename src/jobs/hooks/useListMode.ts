@@ -0,0 +1,75 @@
+/**
+ * useListMode Hook
+ *
+ * The user's preferred way of browsing search results, persisted in
+ * localStorage: numbered pages or one infinitely scrolling list.
+ */
+
+import { useCallback } from 'react'
+import { z } from 'zod'
+
+import { useLogger } from '@/services/logging'
+import { createLocalStore, useLocalStore } from '@/services/storage'
+
+import { STORAGE_KEYS } from '../constants'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Search results list mode
+ * - pages: Numbered pages with the Pagination component
+ * - infinite: Next page appended when the list bottom is reached
+ */
+export type JobListMode = 'pages' | 'infinite'
+
+/**
+ * Return type for the useListMode hook
+ */
+export interface UseListModeReturn {
+  /** Current list mode */
+  listMode: JobListMode
+  /** Change (and persist) the list mode */
+  setListMode: (mode: JobListMode) => void
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const listModeStore = createLocalStore<JobListMode>({
+  key: STORAGE_KEYS.LIST_MODE,
+  schema: z.enum(['pages', 'infinite']),
+  defaultValue: 'pages',
+})
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for reading and updating the search results list mode
+ *
+ * @example
+ * ```typescript
+ * const { listMode, setListMode } = useListMode()
+ *
+ * <ListModeToggle value={listMode} onChange={setListMode} />
+ * ```
+ */
+export function useListMode(): UseListModeReturn {
+  const logger = useLogger('useListMode')
+  const listMode = useLocalStore(listModeStore)
+
+  const setListMode = useCallback(
+    (mode: JobListMode): void => {
+      logger.userAction('change_list_mode', { mode })
+      listModeStore.set(mode)
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  return { listMode, setListMode }
+}
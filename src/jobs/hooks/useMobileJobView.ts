@@ -0,0 +1,96 @@
+/**
+ * useMobileJobView Hook
+ *
+ * List/detail drill-down for narrow screens. The job open in the
+ * full-screen view is kept in the `job` URL param and pushed as its own
+ * history entry, so the browser back button returns to the list.
+ */
+
+import { useCallback } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * History state of an entry pushed by openJob
+ */
+interface MobileJobViewState {
+  fromList?: boolean
+}
+
+/**
+ * Return type for the useMobileJobView hook
+ */
+export interface UseMobileJobViewReturn {
+  /** ID of the job open in the full-screen view (null shows the list) */
+  openJobId: string | null
+  /** Open a job in the full-screen view */
+  openJob: (jobId: string) => void
+  /** Return to the list */
+  closeJob: () => void
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * URL param holding the open job ID
+ */
+const JOB_PARAM = 'job'
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for the mobile list/detail drill-down
+ *
+ * @example
+ * ```typescript
+ * const { openJobId, openJob, closeJob } = useMobileJobView()
+ *
+ * <JobList onJobSelect={job => openJob(job.id)} />
+ * <Dialog fullScreen open={openJobId !== null} onClose={closeJob} />
+ * ```
+ */
+export function useMobileJobView(): UseMobileJobViewReturn {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const location = useLocation()
+  const navigate = useNavigate()
+
+  const openJobId = searchParams.get(JOB_PARAM)
+  const isFromList =
+    (location.state as MobileJobViewState | null)?.fromList === true
+
+  const openJob = useCallback(
+    (jobId: string): void => {
+      // Read the live URL so params written elsewhere this tick are kept
+      const params = new URLSearchParams(window.location.search)
+      params.set(JOB_PARAM, jobId)
+
+      setSearchParams(params, {
+        state: { fromList: true } satisfies MobileJobViewState,
+      })
+    },
+    [setSearchParams]
+  )
+
+  const closeJob = useCallback((): void => {
+    // Opened from the list: go back so the history stays in step with
+    // the browser back button
+    if (isFromList) {
+      navigate(-1)
+      return
+    }
+
+    // Opened from a shared link: there is no list entry to go back to
+    const params = new URLSearchParams(window.location.search)
+    params.delete(JOB_PARAM)
+    setSearchParams(params, { replace: true })
+  }, [isFromList, navigate, setSearchParams])
+
+  return { openJobId, openJob, closeJob }
+}
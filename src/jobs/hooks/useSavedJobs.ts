@@ -0,0 +1,138 @@
+/**
+ * useSavedJobs Hook
+ *
+ * Manages bookmarked jobs persisted in localStorage.
+ * Each entry stores a snapshot of the Job model so saved postings can be
+ * shown even after they are closed or removed.
+ */
+
+import { useCallback, useMemo } from 'react'
+import { z } from 'zod'
+
+import { useLogger } from '@/services/logging'
+import { createLocalStore, useLocalStore } from '@/services/storage'
+
+import { STORAGE_KEYS } from '../constants'
+import type { Job } from '../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A bookmarked job
+ */
+export interface SavedJob {
+  /** Snapshot of the job at the time it was saved */
+  job: Job
+  /** ISO timestamp of when the job was saved */
+  savedAt: string
+}
+
+/**
+ * Return type for the useSavedJobs hook
+ */
+export interface UseSavedJobsReturn {
+  /** Saved jobs, most recently saved first */
+  savedJobs: SavedJob[]
+  /** Number of saved jobs */
+  savedCount: number
+  /** Check if a job is saved */
+  isSaved: (jobId: string) => boolean
+  /** Save a job, or remove it if already saved */
+  toggleSaved: (job: Job) => void
+  /** Remove a saved job */
+  removeSaved: (jobId: string) => void
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+/**
+ * Minimal validation for persisted Job snapshots
+ */
+export const jobSnapshotSchema = z.custom<Job>(
+  value =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { id?: unknown }).id === 'string'
+)
+
+const savedJobSchema = z.object({
+  job: jobSnapshotSchema,
+  savedAt: z.string(),
+})
+
+const savedJobsStore = createLocalStore<SavedJob[]>({
+  key: STORAGE_KEYS.SAVED_JOBS,
+  schema: z.array(savedJobSchema),
+  defaultValue: [],
+})
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for reading and updating saved jobs
+ *
+ * State is shared by every component using the hook and kept in sync
+ * across browser tabs.
+ *
+ * @example
+ * ```typescript
+ * const { isSaved, toggleSaved } = useSavedJobs()
+ *
+ * <SaveJobButton isSaved={isSaved(job.id)} onToggle={() => toggleSaved(job)} />
+ * ```
+ */
+export function useSavedJobs(): UseSavedJobsReturn {
+  const logger = useLogger('useSavedJobs')
+  const savedJobs = useLocalStore(savedJobsStore)
+
+  const savedIds = useMemo(
+    () => new Set(savedJobs.map(({ job }) => job.id)),
+    [savedJobs]
+  )
+
+  const isSaved = useCallback(
+    (jobId: string): boolean => savedIds.has(jobId),
+    [savedIds]
+  )
+
+  const toggleSaved = useCallback(
+    (job: Job): void => {
+      savedJobsStore.update(prev => {
+        if (prev.some(saved => saved.job.id === job.id)) {
+          logger.userAction('unsave_job', { jobId: job.id })
+          return prev.filter(saved => saved.job.id !== job.id)
+        }
+
+        logger.userAction('save_job', { jobId: job.id })
+        return [{ job, savedAt: new Date().toISOString() }, ...prev]
+      })
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const removeSaved = useCallback(
+    (jobId: string): void => {
+      logger.userAction('unsave_job', { jobId })
+      savedJobsStore.update(prev =>
+        prev.filter(saved => saved.job.id !== jobId)
+      )
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  return {
+    savedJobs,
+    savedCount: savedJobs.length,
+    isSaved,
+    toggleSaved,
+    removeSaved,
+  }
+}
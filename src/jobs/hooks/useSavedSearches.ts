@@ -0,0 +1,217 @@
+/**
+ * useSavedSearches Hook
+ *
+ * Manages named searches persisted in localStorage.
+ * Filters are stored in their URL form (see `filtersToURLParams`) so saved
+ * searches stay readable and survive filter model changes the same way
+ * shared links do. For each saved search, the hook also counts jobs posted
+ * since it was last opened.
+ */
+
+import { useQueries } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import { z } from 'zod'
+
+import { translate } from '@/services/i18n'
+import { useLogger } from '@/services/logging'
+import { createLocalStore, useLocalStore } from '@/services/storage'
+
+import { countJobsSince } from '../api/jobService'
+import { STORAGE_KEYS } from '../constants'
+import type { JobSearchFilters } from '../types/filters'
+import { filtersToURLParams, urlParamsToFilters } from '../types/filters'
+import { useHiddenItems } from './useHiddenItems'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A named, persisted search
+ */
+export interface SavedSearch {
+  /** Unique identifier */
+  id: string
+  /** Display name */
+  name: string
+  /** Serialized filters (URL query string, including the search query) */
+  params: string
+  /** ISO timestamp of when the search was saved */
+  createdAt: string
+  /** ISO timestamp of when the search was last opened */
+  lastOpenedAt: string
+}
+
+/**
+ * Return type for the useSavedSearches hook
+ */
+export interface UseSavedSearchesReturn {
+  /** Saved searches, most recently saved first */
+  savedSearches: SavedSearch[]
+  /** Jobs posted since each search was last opened, keyed by search ID */
+  newJobCounts: Record<string, number>
+  /** Save the given filters under a name */
+  saveSearch: (name: string, filters: Partial<JobSearchFilters>) => SavedSearch
+  /** Delete a saved search */
+  deleteSearch: (id: string) => void
+  /** Mark a saved search as opened (resets its new-jobs count) */
+  markOpened: (id: string) => void
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const savedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  params: z.string(),
+  createdAt: z.string(),
+  lastOpenedAt: z.string(),
+})
+
+const savedSearchesStore = createLocalStore<SavedSearch[]>({
+  key: STORAGE_KEYS.SAVED_SEARCHES,
+  schema: z.array(savedSearchSchema),
+  defaultValue: [],
+})
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Restore the filters stored in a saved search
+ *
+ * @param savedSearch - The saved search
+ * @returns Filter state, including the search query
+ */
+export function savedSearchToFilters(
+  savedSearch: SavedSearch
+): Partial<JobSearchFilters> {
+  return urlParamsToFilters(new URLSearchParams(savedSearch.params))
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for managing saved searches
+ *
+ * @example
+ * ```typescript
+ * const { savedSearches, newJobCounts, saveSearch, markOpened } =
+ *   useSavedSearches()
+ *
+ * saveSearch('React remote', { query: 'react', workMode: ['remote'] })
+ *
+ * savedSearches.forEach(search =>
+ *   console.log(`${search.name}: ${newJobCounts[search.id] ?? 0} new`)
+ * )
+ * ```
+ */
+export function useSavedSearches(): UseSavedSearchesReturn {
+  const logger = useLogger('useSavedSearches')
+  const savedSearches = useLocalStore(savedSearchesStore)
+  const { hiddenJobIds, hiddenCompanyNames } = useHiddenItems()
+
+  // Count new jobs for each saved search
+  const countResults = useQueries({
+    queries: savedSearches.map(savedSearch => ({
+      queryKey: [
+        'jobs',
+        'saved-search-count',
+        savedSearch.id,
+        savedSearch.params,
+        savedSearch.lastOpenedAt,
+        hiddenJobIds,
+        hiddenCompanyNames,
+      ] as const,
+      queryFn: async (): Promise<number> => {
+        const filters = savedSearchToFilters(savedSearch)
+        const result = await countJobsSince(
+          {
+            ...filters,
+            query: filters.query ?? '',
+            excludeJobIds: hiddenJobIds,
+            excludeCompanies: hiddenCompanyNames,
+          },
+          savedSearch.lastOpenedAt
+        )
+
+        if (result.error) {
+          logger.warn('Failed to count new jobs for saved search', {
+            searchId: savedSearch.id,
+            error: result.error.message,
+          })
+        }
+
+        return result.count
+      },
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      gcTime: 10 * 60 * 1000, // 10 minutes
+    })),
+  })
+
+  const newJobCounts: Record<string, number> = {}
+  savedSearches.forEach((savedSearch, index) => {
+    const count = countResults[index]?.data
+    if (count !== undefined) {
+      newJobCounts[savedSearch.id] = count
+    }
+  })
+
+  const saveSearch = useCallback(
+    (name: string, filters: Partial<JobSearchFilters>): SavedSearch => {
+      const now = new Date().toISOString()
+      const savedSearch: SavedSearch = {
+        id: crypto.randomUUID(),
+        name:
+          name.trim() ||
+          (filters.query ?? '').trim() ||
+          translate('savedSearches.untitled'),
+        params: filtersToURLParams(filters).toString(),
+        createdAt: now,
+        lastOpenedAt: now,
+      }
+
+      logger.userAction('save_search', { name: savedSearch.name })
+      savedSearchesStore.update(prev => [savedSearch, ...prev])
+
+      return savedSearch
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const deleteSearch = useCallback(
+    (id: string): void => {
+      logger.userAction('delete_saved_search', { searchId: id })
+      savedSearchesStore.update(prev =>
+        prev.filter(savedSearch => savedSearch.id !== id)
+      )
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const markOpened = useCallback((id: string): void => {
+    const now = new Date().toISOString()
+    savedSearchesStore.update(prev =>
+      prev.map(savedSearch =>
+        savedSearch.id === id
+          ? { ...savedSearch, lastOpenedAt: now }
+          : savedSearch
+      )
+    )
+  }, [])
+
+  return {
+    savedSearches,
+    newJobCounts,
+    saveSearch,
+    deleteSearch,
+    markOpened,
+  }
+}
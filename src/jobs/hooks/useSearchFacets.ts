@@ -0,0 +1,75 @@
+/**
+ * useSearchFacets Hook
+ *
+ * Per-value job counts for the faceted filters (experience level,
+ * employment type, work mode, province, job function and language), backed
+ * by the get_search_facets RPC. Hidden jobs and companies are excluded, so
+ * the counts match the search results.
+ */
+
+import { useLogger } from '@/services/logging'
+
+import { getSearchFacets } from '../api/jobService'
+import type { JobSearchFilters } from '../types/filters'
+import type { SearchFacets } from '../types/models'
+import { useDebouncedSearchQuery } from './useDebouncedSearchQuery'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useSearchFacets hook
+ */
+export interface UseSearchFacetsReturn {
+  /** Job counts per filter value (null until loaded or when loading failed) */
+  facets: SearchFacets | null
+  /** True while the facets are out of date or being fetched */
+  isLoading: boolean
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for loading filter facet counts
+ *
+ * @param filters - Filters to count under (nothing is loaded when null);
+ *   pass a memoized object, a new object restarts the debounce
+ *
+ * @example
+ * ```typescript
+ * const searchFilters = useMemo(
+ *   () => ({ ...filters, query: appliedSearchQuery }),
+ *   [filters, appliedSearchQuery]
+ * )
+ * const { facets } = useSearchFacets(searchFilters)
+ * console.log(facets?.workMode.remote ?? 0)
+ * ```
+ */
+export function useSearchFacets(
+  filters: JobSearchFilters | null
+): UseSearchFacetsReturn {
+  const logger = useLogger('useSearchFacets')
+
+  const { data, isLoading } = useDebouncedSearchQuery(
+    'facets',
+    filters,
+    async (searchFilters): Promise<SearchFacets | null> => {
+      const result = await getSearchFacets(searchFilters)
+
+      if (result.error) {
+        // Counts are best-effort; the filter options still work without them
+        logger.warn('Failed to load search facets', {
+          error: result.error.message,
+        })
+        return null
+      }
+
+      return result.facets
+    }
+  )
+
+  return { facets: data, isLoading }
+}
@@ -0,0 +1,86 @@
+/**
+ * useSearchSuggestions Hook
+ *
+ * Debounced search-as-you-type suggestions (job titles, companies and
+ * technologies) for the search box, backed by the suggest_search_terms RPC.
+ */
+
+import { useDebounce } from '@shared/hooks'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+
+import { useLogger } from '@/services/logging'
+
+import { getSearchSuggestions } from '../api/jobService'
+import type { Language } from '../types/enums'
+import type { SearchSuggestion } from '../types/models'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useSearchSuggestions hook
+ */
+export interface UseSearchSuggestionsReturn {
+  /** Suggestions for the debounced query (grouped by type) */
+  suggestions: SearchSuggestion[]
+  /** True while suggestions are being fetched */
+  isLoading: boolean
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Delay before requesting suggestions for typed text (ms) */
+const SUGGESTION_DEBOUNCE_MS = 250
+
+/** Minimum characters before suggestions are requested */
+const MIN_QUERY_LENGTH = 2
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for search-as-you-type suggestions
+ *
+ * @param query - Text currently typed in the search box
+ * @param languages - Posting languages to match (all languages when empty)
+ *
+ * @example
+ * ```typescript
+ * const { suggestions } = useSearchSuggestions(searchQuery, filters.language)
+ * ```
+ */
+export function useSearchSuggestions(
+  query: string,
+  languages?: Language[]
+): UseSearchSuggestionsReturn {
+  const logger = useLogger('useSearchSuggestions')
+  const debouncedQuery = useDebounce(query.trim(), SUGGESTION_DEBOUNCE_MS)
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['jobs', 'suggestions', debouncedQuery, languages] as const,
+    queryFn: async (): Promise<SearchSuggestion[]> => {
+      const result = await getSearchSuggestions(debouncedQuery, languages)
+
+      if (result.error) {
+        // Suggestions are best-effort; don't surface errors in the search box
+        logger.warn('Failed to load search suggestions', {
+          error: result.error.message,
+        })
+      }
+
+      return result.suggestions
+    },
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: keepPreviousData,
+  })
+
+  return {
+    suggestions: query.trim().length >= MIN_QUERY_LENGTH ? (data ?? []) : [],
+    isLoading: isFetching,
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * useSimilarJobs Hook
+ *
+ * React Query-based hook for the "Similar jobs" section of the job
+ * details. Failures are logged and shown as an empty section.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+
+import { useLogger } from '@/services/logging'
+
+import { getSimilarJobs, type SimilarJobsResponse } from '../api/jobService'
+import type { Job } from '../types/models'
+import { parseJobId } from './useJobDetail'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Return type for the useSimilarJobs hook
+ */
+export interface UseSimilarJobsReturn {
+  /** Similar jobs, most similar first */
+  similarJobs: Job[]
+  /** True while the similar jobs are loading */
+  isLoading: boolean
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for loading jobs similar to the displayed job
+ *
+ * @param jobId - ID of the displayed job (nothing is loaded when missing)
+ * @param limit - Maximum number of similar jobs
+ *
+ * @example
+ * ```typescript
+ * const { similarJobs, isLoading } = useSimilarJobs(selectedJob?.id)
+ * ```
+ */
+export function useSimilarJobs(
+  jobId: string | undefined,
+  limit: number = 5
+): UseSimilarJobsReturn {
+  const logger = useLogger('useSimilarJobs')
+  const id = parseJobId(jobId)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['jobs', 'similar', id, limit] as const,
+    queryFn: async (): Promise<SimilarJobsResponse> => {
+      const result = await getSimilarJobs(id as number, limit)
+
+      if (result.error) {
+        logger.warn('Similar jobs unavailable', {
+          jobId: id,
+          error: result.error.message,
+        })
+      }
+
+      return result
+    },
+    // Only run for a valid numeric ID
+    enabled: id !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  return {
+    similarJobs: data?.jobs ?? [],
+    isLoading: id !== null && isLoading,
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * useTechnologyOptions Hook
+ *
+ * Manages technology options for the technology filter dropdown.
+ * Loads technologies (with aliases) dynamically based on current search criteria
+ * and arranges them into a parent/child tree (e.g. React under JavaScript).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import { useLogger } from '@/services/logging'
+import type { SupabaseAppError } from '@/services/supabase/errors'
+
+import { getTechnologies, getTechnologiesForJobs } from '../api/jobRepository'
+import type { JobSearchFilters } from '../types/filters'
+import { toGetTechnologiesRpcParams } from '../types/filters'
+import { useHiddenItems } from './useHiddenItems'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Technology option with aliases and job count
+ */
+export interface TechnologyOption {
+  /** Technology ID */
+  id: number
+  /** Canonical technology name */
+  name: string
+  /** Parent technology ID (null for top-level technologies) */
+  parentId: number | null
+  /** Alternative names (e.g. "JS" for JavaScript), used for matching */
+  aliases: string[]
+  /**
+   * Number of jobs tagged with this technology or any of its descendants
+   * (optional, only when filtered)
+   */
+  jobCount?: number
+}
+
+/**
+ * Technology option with its child technologies
+ */
+export interface TechnologyTreeNode extends TechnologyOption {
+  /** Child technologies, in the same order as the flat option list */
+  children: TechnologyTreeNode[]
+}
+
+/**
+ * Return type for the useTechnologyOptions hook
+ */
+export interface UseTechnologyOptionsReturn {
+  /** List of technology options */
+  technologies: TechnologyOption[]
+  /** Technology options arranged by parent */
+  technologyTree: TechnologyTreeNode[]
+  /** True while loading technologies */
+  isLoading: boolean
+  /** Error if loading failed */
+  error: SupabaseAppError | null
+  /** Refresh technologies based on current search filters */
+  refreshForSearch: (filters: JobSearchFilters) => Promise<void>
+  /** Load all technologies (initial load) */
+  loadAllTechnologies: () => Promise<void>
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Arrange flat technology options into a parent/child tree
+ *
+ * Options whose parent is not in the list (e.g. cut off by the load limit)
+ * are promoted to top-level nodes.
+ *
+ * @param options - Flat technology options
+ * @returns Top-level tree nodes
+ */
+export function buildTechnologyTree(
+  options: TechnologyOption[]
+): TechnologyTreeNode[] {
+  const nodes = new Map<number, TechnologyTreeNode>()
+  for (const option of options) {
+    nodes.set(option.id, { ...option, children: [] })
+  }
+
+  const roots: TechnologyTreeNode[] = []
+  for (const option of options) {
+    const node = nodes.get(option.id)
+    if (!node) continue
+
+    const parent = option.parentId !== null ? nodes.get(option.parentId) : null
+    if (parent && parent !== node) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  return roots
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Hook for managing technology filter options
+ *
+ * This hook provides two modes of operation:
+ * 1. Initial load: Fetches all technologies from the database
+ * 2. Filtered load: Fetches technologies tagged on jobs matching the current search
+ *
+ * @param autoLoad - Whether to automatically load technologies on mount (default: true)
+ *
+ * @example
+ * ```typescript
+ * const { technologyTree, refreshForSearch } = useTechnologyOptions()
+ *
+ * // After a search, refresh technology options
+ * await refreshForSearch({ query: 'frontend', workMode: ['remote'] })
+ * ```
+ */
+export function useTechnologyOptions(
+  autoLoad: boolean = true
+): UseTechnologyOptionsReturn {
+  const logger = useLogger('useTechnologyOptions')
+
+  const [technologies, setTechnologies] = useState<TechnologyOption[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [error, setError] = useState<SupabaseAppError | null>(null)
+
+  // Hidden jobs/companies are left out of the options, as in the results
+  const { hiddenJobIds, hiddenCompanyNames } = useHiddenItems()
+  const exclusionsRef = useRef({ hiddenJobIds, hiddenCompanyNames })
+  const lastSearchFiltersRef = useRef<JobSearchFilters | null>(null)
+
+  /**
+   * Load all technologies (for initial dropdown population)
+   */
+  const loadAllTechnologies = useCallback(async (): Promise<void> => {
+    setIsLoading(true)
+    setError(null)
+
+    logger.debug('Loading all technologies')
+
+    try {
+      const result = await getTechnologies(100)
+
+      if (result.error) {
+        logger.error('Failed to load technologies', {
+          error: result.error.message,
+        })
+        setError(result.error)
+        setTechnologies([])
+        return
+      }
+
+      const technologyOptions: TechnologyOption[] = result.data.map(
+        technology => ({
+          id: technology.id,
+          name: technology.name,
+          parentId: technology.parent_id,
+          aliases: technology.technology_aliases.map(({ alias }) => alias),
+        })
+      )
+
+      logger.debug('Technologies loaded', { count: technologyOptions.length })
+      setTechnologies(technologyOptions)
+    } catch (err) {
+      logger.error('Unexpected error loading technologies', { error: err })
+      setTechnologies([])
+    } finally {
+      setIsLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []) // logger is stable, no need to include
+
+  /**
+   * Refresh technologies based on current search filters
+   * This shows only technologies tagged on jobs matching the filters
+   * (an empty query matches all jobs, as in browse mode)
+   */
+  const refreshForSearch = useCallback(
+    async (filters: JobSearchFilters): Promise<void> => {
+      setIsLoading(true)
+      setError(null)
+
+      logger.debug('Refreshing technologies for search', {
+        query: filters.query,
+      })
+
+      lastSearchFiltersRef.current = filters
+
+      try {
+        // Convert filters to RPC params (excluding technology filter)
+        const rpcParams = toGetTechnologiesRpcParams({
+          ...filters,
+          excludeJobIds: exclusionsRef.current.hiddenJobIds,
+          excludeCompanies: exclusionsRef.current.hiddenCompanyNames,
+        })
+
+        const result = await getTechnologiesForJobs(rpcParams)
+
+        if (result.error) {
+          logger.error('Failed to refresh technologies for search', {
+            error: result.error.message,
+          })
+          setError(result.error)
+          // Keep existing technologies on error
+          return
+        }
+
+        const technologyOptions: TechnologyOption[] = result.data.map(item => ({
+          id: item.technology_id,
+          name: item.technology_name,
+          parentId: item.parent_id,
+          aliases: item.aliases,
+          jobCount: item.rollup_job_count,
+        }))
+
+        logger.debug('Technologies refreshed for search', {
+          count: technologyOptions.length,
+        })
+        setTechnologies(technologyOptions)
+      } catch (err) {
+        logger.error('Unexpected error refreshing technologies', {
+          error: err,
+        })
+        // Keep existing technologies on error
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [] // logger is stable, no need to include
+  )
+
+  const technologyTree = useMemo(
+    () => buildTechnologyTree(technologies),
+    [technologies]
+  )
+
+  // Refresh the last search's technologies when items are hidden or restored
+  useEffect(() => {
+    exclusionsRef.current = { hiddenJobIds, hiddenCompanyNames }
+    if (lastSearchFiltersRef.current) {
+      void refreshForSearch(lastSearchFiltersRef.current)
+    }
+  }, [hiddenJobIds, hiddenCompanyNames, refreshForSearch])
+
+  // Auto-load technologies on mount if enabled
+  useEffect(() => {
+    if (autoLoad) {
+      loadAllTechnologies()
+    }
+  }, [autoLoad, loadAllTechnologies])
+
+  return {
+    technologies,
+    technologyTree,
+    isLoading,
+    error,
+    refreshForSearch,
+    loadAllTechnologies,
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * ApplicationsPage Component
+ *
+ * Page for the `/jobs/applications` route. Shows tracked applications on a
+ * kanban-style board with one column per status.
+ */
+
+import { Box, Typography } from '@mui/material'
+import type { ReactElement } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+import PageHeader from '@/shared/components/PageHeader'
+
+import { ApplicationCard } from '../../components'
+import { useApplications } from '../../hooks'
+import {
+  APPLICATION_STATUS_COLORS,
+  APPLICATION_STATUSES,
+  getApplicationStatusLabel,
+} from '../../types/applications'
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export default function ApplicationsPage(): ReactElement {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+
+  const { applications, updateApplication, removeApplication } =
+    useApplications()
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      {/* Top Bar */}
+      <PageHeader onBack={() => navigate('/jobs/search')} />
+
+      {/* Board */}
+      <Box
+        sx={{
+          flex: 1,
+          display: 'flex',
+          gap: 2,
+          minHeight: 0,
+          overflowX: 'auto',
+          bgcolor: '#f5f5f5',
+          px: { xs: 2, sm: 4, md: 8, lg: 18, xl: 36 },
+          py: 2,
+        }}
+      >
+        {APPLICATION_STATUSES.map(status => {
+          const columnApplications = applications.filter(
+            application => application.status === status
+          )
+
+          return (
+            <Box
+              key={status}
+              sx={{
+                flex: '1 0 260px',
+                display: 'flex',
+                flexDirection: 'column',
+                minHeight: 0,
+                bgcolor: 'white',
+                border: '1px solid #e0e0e0',
+                borderTop: `4px solid ${APPLICATION_STATUS_COLORS[status]}`,
+                borderRadius: 2,
+              }}
+            >
+              {/* Column Header */}
+              <Box
+                sx={{
+                  px: 2,
+                  py: 1.5,
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  borderBottom: '1px solid #e0e0e0',
+                }}
+              >
+                <Typography variant='body1' sx={{ fontWeight: 'bold' }}>
+                  {getApplicationStatusLabel(status)}
+                </Typography>
+                <Typography variant='body2' color='text.secondary'>
+                  {columnApplications.length}
+                </Typography>
+              </Box>
+
+              {/* Column Cards */}
+              <Box
+                sx={{
+                  flex: 1,
+                  overflow: 'auto',
+                  p: 1.5,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: 1.5,
+                }}
+              >
+                {columnApplications.length === 0 ? (
+                  <Typography
+                    variant='body2'
+                    color='text.secondary'
+                    sx={{ textAlign: 'center', py: 3 }}
+                  >
+                    {status === 'applied'
+                      ? t('applications.emptyApplied')
+                      : t('applications.emptyColumn')}
+                  </Typography>
+                ) : (
+                  columnApplications.map(application => (
+                    <ApplicationCard
+                      key={application.job.id}
+                      application={application}
+                      onChange={changes =>
+                        updateApplication(application.job.id, changes)
+                      }
+                      onRemove={() => removeApplication(application.job.id)}
+                    />
+                  ))
+                )}
+              </Box>
+            </Box>
+          )
+        })}
+      </Box>
+    </Box>
+  )
+}
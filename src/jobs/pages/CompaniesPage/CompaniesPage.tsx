@@ -0,0 +1,202 @@
+/**
+ * CompaniesPage Component
+ *
+ * Page for the `/companies` route. A server-side paginated directory of
+ * every active company with its open position count, searchable by name,
+ * filterable by the job functions companies are hiring for and sortable
+ * by name or job count. Filters and page live in the URL so directory
+ * views can be shared.
+ */
+
+import { Box, CircularProgress, Typography } from '@mui/material'
+import { useDebounce } from '@shared/hooks'
+import type { ReactElement } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+import PageHeader from '@/shared/components/PageHeader'
+import Pagination from '@/shared/components/Pagination'
+
+import {
+  CompanyCard,
+  CompanyDirectoryToolbar,
+  JobUnavailable,
+} from '../../components'
+import {
+  paginationToURLParams,
+  urlParamsToPage,
+  useCompanyDirectory,
+} from '../../hooks'
+import type { CompanyDirectoryFilters } from '../../types/companies'
+import {
+  companyFiltersToURLParams,
+  DEFAULT_COMPANY_SORT,
+  urlParamsToCompanyFilters,
+} from '../../types/companies'
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export default function CompaniesPage(): ReactElement {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = useMemo(
+    () => urlParamsToCompanyFilters(searchParams),
+    [searchParams]
+  )
+  const currentPage = urlParamsToPage(searchParams)
+
+  // Name search is typed locally and synced to the URL once it settles
+  const [searchInput, setSearchInput] = useState(filters.search ?? '')
+  const debouncedSearch = useDebounce(searchInput, 300)
+
+  const {
+    companies,
+    totalCompanies,
+    totalPages,
+    isLoading,
+    isFetching,
+    error,
+    refetch,
+  } = useCompanyDirectory(filters, currentPage)
+
+  /**
+   * Apply filter changes, returning to the first page
+   */
+  const updateFilters = (changes: Partial<CompanyDirectoryFilters>) => {
+    setSearchParams(companyFiltersToURLParams({ ...filters, ...changes }), {
+      replace: true,
+    })
+  }
+
+  useEffect(() => {
+    if (debouncedSearch.trim() !== (filters.search ?? '')) {
+      updateFilters({ search: debouncedSearch.trim() })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch]) // only sync when the typed search settles
+
+  const handlePageChange = (page: number) => {
+    setSearchParams(paginationToURLParams(page, searchParams))
+  }
+
+  /**
+   * Render the directory body based on the loading state
+   */
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )
+    }
+
+    if (error) {
+      return (
+        <JobUnavailable
+          title={t('companies.loadErrorTitle')}
+          message={error.message}
+          actionLabel={t('common.tryAgain')}
+          onAction={refetch}
+        />
+      )
+    }
+
+    if (companies.length === 0) {
+      return (
+        <Box sx={{ textAlign: 'center', py: 8 }}>
+          <Typography variant='h6' color='text.secondary' sx={{ mb: 1 }}>
+            {t('companies.emptyTitle')}
+          </Typography>
+          <Typography variant='body2' color='text.secondary'>
+            {t('companies.emptyMessage')}
+          </Typography>
+        </Box>
+      )
+    }
+
+    return (
+      <>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: {
+              xs: '1fr',
+              sm: 'repeat(2, 1fr)',
+              lg: 'repeat(3, 1fr)',
+            },
+            gap: 2,
+            // Fade effect while another page loads
+            opacity: isFetching ? 0.6 : 1,
+            transition: 'opacity 250ms ease-in-out',
+          }}
+        >
+          {companies.map(company => (
+            <CompanyCard key={company.id} company={company} />
+          ))}
+        </Box>
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={handlePageChange}
+        />
+      </>
+    )
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
+      {/* Top Bar */}
+      <PageHeader onBack={() => navigate('/jobs/search')} />
+
+      {/* Main Content Container */}
+      <Box
+        sx={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 2,
+          bgcolor: '#f5f5f5',
+          px: { xs: 2, sm: 4, md: 8, lg: 18, xl: 36 },
+          py: 3,
+        }}
+      >
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'baseline',
+            justifyContent: 'space-between',
+            gap: 2,
+          }}
+        >
+          <Typography variant='h4' sx={{ fontWeight: 700, color: '#333' }}>
+            {t('companies.title')}
+          </Typography>
+          {!isLoading && !error && (
+            <Typography variant='body1' sx={{ color: '#666' }}>
+              {totalCompanies === 1
+                ? t('companies.resultsOne')
+                : t('companies.results', { count: totalCompanies })}
+            </Typography>
+          )}
+        </Box>
+
+        <CompanyDirectoryToolbar
+          search={searchInput}
+          onSearchChange={setSearchInput}
+          jobFunction={filters.jobFunction ?? []}
+          onJobFunctionChange={jobFunction => updateFilters({ jobFunction })}
+          sort={filters.sort ?? DEFAULT_COMPANY_SORT}
+          onSortChange={sort => updateFilters({ sort })}
+        />
+
+        {renderContent()}
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,210 @@
+/**
+ * CompanyPage Component
+ *
+ * Page for the `/companies/:companyId` route. Shows the company profile
+ * (logo, open position count and breakdown) above its open positions,
+ * listed with the same list/details layout as search. The page number is
+ * kept in the URL (`?p=`) so profile links can be shared.
+ */
+
+import { Box, CircularProgress } from '@mui/material'
+import type { ReactElement } from 'react'
+import { useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+import PageHeader from '@/shared/components/PageHeader'
+
+import {
+  CompanyProfileHeader,
+  JobDetails,
+  JobList,
+  JobUnavailable,
+} from '../../components'
+import {
+  paginationToURLParams,
+  urlParamsToPage,
+  useApplications,
+  useCompanyProfile,
+  useSavedJobs,
+  useSimilarJobs,
+} from '../../hooks'
+import type { Job } from '../../types/models'
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export default function CompanyPage(): ReactElement {
+  const { t } = useTranslation()
+  const { companyId } = useParams<{ companyId: string }>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigate = useNavigate()
+
+  const currentPage = urlParamsToPage(searchParams)
+  const {
+    profile,
+    jobs,
+    totalPages,
+    isLoading,
+    isLoadingJobs,
+    isFetchingJobs,
+    isNotFound,
+    error,
+    refetch,
+  } = useCompanyProfile(companyId, currentPage)
+  const { isSaved, toggleSaved } = useSavedJobs()
+  const { getApplication, recordApplied, updateApplication } = useApplications()
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+
+  // Keep showing the selected job, falling back to the first on the page
+  const selectedJob: Job | null =
+    jobs.find(job => job.id === selectedJobId) ?? jobs[0] ?? null
+  const { similarJobs, isLoading: isLoadingSimilarJobs } = useSimilarJobs(
+    selectedJob?.id
+  )
+
+  const goToSearch = () => navigate('/jobs/search')
+
+  const handlePageChange = (newPage: number) => {
+    setSearchParams(paginationToURLParams(newPage, searchParams))
+    setSelectedJobId(null)
+  }
+
+  /**
+   * Render the page body based on the loading state
+   */
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            flex: 1,
+          }}
+        >
+          <CircularProgress />
+        </Box>
+      )
+    }
+
+    if (isNotFound || error || !profile) {
+      return (
+        <Box
+          sx={{
+            flex: 1,
+            bgcolor: 'white',
+            border: '1px solid #e0e0e0',
+            borderRadius: 2,
+          }}
+        >
+          {error ? (
+            <JobUnavailable
+              title={t('companyProfile.loadErrorTitle')}
+              message={error.message}
+              actionLabel={t('common.tryAgain')}
+              onAction={refetch}
+            />
+          ) : (
+            <JobUnavailable
+              title={t('companyProfile.unavailableTitle')}
+              message={t('companyProfile.unavailableMessage')}
+              onAction={goToSearch}
+            />
+          )}
+        </Box>
+      )
+    }
+
+    return (
+      <>
+        <CompanyProfileHeader profile={profile} />
+
+        <Box sx={{ flex: 1, display: 'flex', minHeight: 0 }}>
+          {/* Job List */}
+          <Box
+            sx={{
+              width: '45%',
+              display: 'flex',
+              flexDirection: 'column',
+              minHeight: 0,
+            }}
+          >
+            <JobList
+              jobs={jobs}
+              selectedJobId={selectedJob?.id ?? ''}
+              onJobSelect={job => setSelectedJobId(job.id)}
+              isLoading={isLoadingJobs}
+              isFetching={isFetchingJobs}
+              title={t('companyProfile.openPositions')}
+              resultsCount={profile.activeJobCount}
+              emptyTitle={t('companyProfile.noOpenPositions')}
+              emptyMessage={t('companyProfile.noOpenPositionsMessage')}
+              isJobSaved={isSaved}
+              onToggleSave={toggleSaved}
+              getApplicationStatus={jobId => getApplication(jobId)?.status}
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+            />
+          </Box>
+
+          {/* Job Details */}
+          <Box
+            sx={{
+              width: '55%',
+              display: 'flex',
+              flexDirection: 'column',
+              minHeight: 0,
+            }}
+          >
+            <JobDetails
+              job={selectedJob}
+              isFetching={isFetchingJobs}
+              isSaved={selectedJob ? isSaved(selectedJob.id) : false}
+              onToggleSave={
+                selectedJob ? () => toggleSaved(selectedJob) : undefined
+              }
+              application={selectedJob ? getApplication(selectedJob.id) : null}
+              onApply={
+                selectedJob ? () => recordApplied(selectedJob) : undefined
+              }
+              onApplicationChange={
+                selectedJob
+                  ? changes => updateApplication(selectedJob.id, changes)
+                  : undefined
+              }
+              similarJobs={similarJobs}
+              isLoadingSimilarJobs={isLoadingSimilarJobs}
+            />
+          </Box>
+        </Box>
+      </>
+    )
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      {/* Top Bar */}
+      <PageHeader onBack={goToSearch} />
+
+      {/* Main Content Container */}
+      <Box
+        sx={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 2,
+          minHeight: 0,
+          bgcolor: '#f5f5f5',
+          px: { xs: 2, sm: 4, md: 8, lg: 18, xl: 36 },
+          py: 2,
+        }}
+      >
+        {renderContent()}
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,125 @@
+/**
+ * JobDetailPage Component
+ *
+ * Standalone page for the shareable `/jobs/:jobId` route.
+ * Loads a single posting and renders it with JobDetails, or an
+ * "unavailable" state when the posting was closed or removed.
+ */
+
+import { Box, CircularProgress } from '@mui/material'
+import type { ReactElement } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+import PageHeader from '@/shared/components/PageHeader'
+
+import { JobDetails, JobUnavailable } from '../../components'
+import {
+  useApplications,
+  useJobDetail,
+  useSavedJobs,
+  useSimilarJobs,
+} from '../../hooks'
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export default function JobDetailPage(): ReactElement {
+  const { t } = useTranslation()
+  const { jobId } = useParams<{ jobId: string }>()
+  const navigate = useNavigate()
+
+  const { job, isLoading, isNotFound, error, refetch } = useJobDetail(jobId)
+  const { similarJobs, isLoading: isLoadingSimilarJobs } = useSimilarJobs(
+    job?.id
+  )
+  const { isSaved, toggleSaved } = useSavedJobs()
+  const { getApplication, recordApplied, updateApplication } = useApplications()
+
+  const goToSearch = () => navigate('/jobs/search')
+
+  /**
+   * Render the page body based on the loading state
+   */
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            height: '100%',
+          }}
+        >
+          <CircularProgress />
+        </Box>
+      )
+    }
+
+    if (isNotFound) {
+      return <JobUnavailable onAction={goToSearch} />
+    }
+
+    if (error) {
+      return (
+        <JobUnavailable
+          title={t('jobDetails.loadErrorTitle')}
+          message={error.message}
+          actionLabel={t('common.tryAgain')}
+          onAction={refetch}
+        />
+      )
+    }
+
+    return (
+      <JobDetails
+        job={job}
+        isSaved={job ? isSaved(job.id) : false}
+        onToggleSave={job ? () => toggleSaved(job) : undefined}
+        application={job ? getApplication(job.id) : null}
+        onApply={job ? () => recordApplied(job) : undefined}
+        onApplicationChange={
+          job ? changes => updateApplication(job.id, changes) : undefined
+        }
+        similarJobs={similarJobs}
+        isLoadingSimilarJobs={isLoadingSimilarJobs}
+      />
+    )
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      {/* Top Bar */}
+      <PageHeader onBack={goToSearch} />
+
+      {/* Main Content Container */}
+      <Box
+        sx={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          minHeight: 0,
+          bgcolor: '#f5f5f5',
+          px: { xs: 2, sm: 4, md: 8, lg: 18, xl: 36 },
+          py: 2,
+        }}
+      >
+        <Box
+          sx={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            minHeight: 0,
+            bgcolor: 'white',
+            borderLeft: '1px solid #e0e0e0',
+            borderRadius: 2,
+          }}
+        >
+          {renderContent()}
+        </Box>
+      </Box>
+    </Box>
+  )
+}
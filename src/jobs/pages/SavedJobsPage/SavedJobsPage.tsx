@@ -0,0 +1,144 @@
+/**
+ * SavedJobsPage Component
+ *
+ * Page for the `/jobs/saved` route. Lists bookmarked jobs from local
+ * storage with the same list/details layout as search, flagging postings
+ * that are no longer active instead of dropping them.
+ */
+
+import { Box } from '@mui/material'
+import type { ReactElement } from 'react'
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import { useTranslation } from '@/services/i18n'
+import PageHeader from '@/shared/components/PageHeader'
+
+import { JobDetails, JobList } from '../../components'
+import { PAGINATION } from '../../constants'
+import {
+  useApplications,
+  useJobAvailability,
+  useSavedJobs,
+  useSimilarJobs,
+} from '../../hooks'
+import type { Job } from '../../types/models'
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export default function SavedJobsPage(): ReactElement {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+
+  const { savedJobs, savedCount, isSaved, toggleSaved } = useSavedJobs()
+  const { getApplication, recordApplied, updateApplication } = useApplications()
+  const [currentPage, setCurrentPage] = useState<number>(
+    PAGINATION.DEFAULT_PAGE
+  )
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+
+  const jobs = useMemo(() => savedJobs.map(({ job }) => job), [savedJobs])
+  const { unavailableJobIds } = useJobAvailability(
+    useMemo(() => jobs.map(job => job.id), [jobs])
+  )
+
+  // Client-side pagination (clamped when jobs are removed)
+  const totalPages = Math.max(1, Math.ceil(jobs.length / PAGINATION.PAGE_SIZE))
+  const page = Math.min(currentPage, totalPages)
+  const currentPageJobs = jobs.slice(
+    (page - 1) * PAGINATION.PAGE_SIZE,
+    page * PAGINATION.PAGE_SIZE
+  )
+
+  // Keep showing the selected job, falling back to the first on the page
+  const selectedJob: Job | null =
+    currentPageJobs.find(job => job.id === selectedJobId) ??
+    currentPageJobs[0] ??
+    null
+  const { similarJobs, isLoading: isLoadingSimilarJobs } = useSimilarJobs(
+    selectedJob?.id
+  )
+
+  const handlePageChange = (newPage: number) => {
+    setCurrentPage(newPage)
+    setSelectedJobId(null)
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      {/* Top Bar */}
+      <PageHeader onBack={() => navigate('/jobs/search')} />
+
+      {/* Main Content Container */}
+      <Box
+        sx={{
+          flex: 1,
+          display: 'flex',
+          minHeight: 0,
+          bgcolor: '#f5f5f5',
+          px: { xs: 2, sm: 4, md: 8, lg: 18, xl: 36 },
+          py: 2,
+        }}
+      >
+        {/* Job List */}
+        <Box
+          sx={{
+            width: '45%',
+            display: 'flex',
+            flexDirection: 'column',
+            minHeight: 0,
+          }}
+        >
+          <JobList
+            jobs={currentPageJobs}
+            selectedJobId={selectedJob?.id ?? ''}
+            onJobSelect={job => setSelectedJobId(job.id)}
+            title={t('savedJobs.title')}
+            resultsCount={savedCount}
+            emptyTitle={t('savedJobs.emptyTitle')}
+            emptyMessage={t('savedJobs.emptyMessage')}
+            isJobSaved={isSaved}
+            onToggleSave={toggleSaved}
+            unavailableJobIds={unavailableJobIds}
+            getApplicationStatus={jobId => getApplication(jobId)?.status}
+            currentPage={page}
+            totalPages={totalPages}
+            onPageChange={handlePageChange}
+          />
+        </Box>
+
+        {/* Job Details */}
+        <Box
+          sx={{
+            width: '55%',
+            display: 'flex',
+            flexDirection: 'column',
+            minHeight: 0,
+          }}
+        >
+          <JobDetails
+            job={selectedJob}
+            isSaved={selectedJob ? isSaved(selectedJob.id) : false}
+            onToggleSave={
+              selectedJob ? () => toggleSaved(selectedJob) : undefined
+            }
+            isUnavailable={
+              selectedJob ? unavailableJobIds.has(selectedJob.id) : false
+            }
+            application={selectedJob ? getApplication(selectedJob.id) : null}
+            onApply={selectedJob ? () => recordApplied(selectedJob) : undefined}
+            onApplicationChange={
+              selectedJob
+                ? changes => updateApplication(selectedJob.id, changes)
+                : undefined
+            }
+            similarJobs={similarJobs}
+            isLoadingSimilarJobs={isLoadingSimilarJobs}
+          />
+        </Box>
+      </Box>
+    </Box>
+  )
+}
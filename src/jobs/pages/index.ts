@@ -0,0 +1,11 @@
+/**
+ * Jobs Pages Module
+ *
+ * Route-level components for the jobs feature.
+ */
+
+export { default as ApplicationsPage } from './ApplicationsPage'
+export { default as CompaniesPage } from './CompaniesPage'
+export { default as CompanyPage } from './CompanyPage'
+export { default as JobDetailPage } from './JobDetailPage'
+export { default as SavedJobsPage } from './SavedJobsPage'
@@ -0,0 +1,69 @@
+/**
+ * Application tracking types
+ *
+ * Types for the local application tracker (jobs the user has applied to).
+ */
+
+import { translate } from '@/services/i18n'
+
+import type { Job } from './models'
+
+// =============================================================================
+// Application Status
+// =============================================================================
+
+/**
+ * Stage of a job application
+ */
+export type ApplicationStatus =
+  | 'applied'
+  | 'interviewing'
+  | 'offer'
+  | 'rejected'
+
+/**
+ * All application statuses, in pipeline order
+ */
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'applied',
+  'interviewing',
+  'offer',
+  'rejected',
+]
+
+/**
+ * Chip colors for application statuses
+ */
+export const APPLICATION_STATUS_COLORS: Record<ApplicationStatus, string> = {
+  applied: '#0a66c2',
+  interviewing: '#915907',
+  offer: '#057642',
+  rejected: '#666666',
+}
+
+/**
+ * Get the display label (in the active locale) for an application status
+ */
+export function getApplicationStatusLabel(status: ApplicationStatus): string {
+  return translate(`enums.applicationStatus.${status}`)
+}
+
+// =============================================================================
+// Application Model
+// =============================================================================
+
+/**
+ * A tracked job application
+ */
+export interface JobApplication {
+  /** Snapshot of the job at the time of applying */
+  job: Job
+  /** Current stage */
+  status: ApplicationStatus
+  /** Free-form notes (contacts, interview dates, etc.) */
+  notes: string
+  /** ISO timestamp of when the application was recorded */
+  appliedAt: string
+  /** ISO timestamp of the last status or notes change */
+  updatedAt: string
+}
@@ -0,0 +1,159 @@
+/**
+ * Company directory types
+ *
+ * Filters, sorting and URL serialization for the `/companies` directory.
+ */
+
+import type { MessageKey } from '@/services/i18n'
+
+import type { JobFunction } from './enums'
+import { JOB_FUNCTIONS } from './enums'
+import type { JobSearchPagination } from './filters'
+
+// =============================================================================
+// Sort Options
+// =============================================================================
+
+/**
+ * Sort order for the company directory
+ * - name: Alphabetical
+ * - job_count: Most active jobs first
+ */
+export type CompanyDirectorySort = 'name' | 'job_count'
+
+/**
+ * Sort option configuration with label message keys
+ */
+export const COMPANY_SORT_OPTIONS: Array<{
+  value: CompanyDirectorySort
+  labelKey: MessageKey
+}> = [
+  { value: 'name', labelKey: 'companies.sortName' },
+  { value: 'job_count', labelKey: 'companies.sortJobCount' },
+]
+
+/**
+ * Sort applied when none is selected (omitted from the URL)
+ */
+export const DEFAULT_COMPANY_SORT: CompanyDirectorySort = 'name'
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+/**
+ * Company directory filters
+ */
+export interface CompanyDirectoryFilters {
+  /** Company name substring */
+  search?: string
+  /** Only companies hiring for these job functions (OR logic) */
+  jobFunction?: JobFunction[]
+  /** Sort order (defaults to name) */
+  sort?: CompanyDirectorySort
+}
+
+/**
+ * Parameters for the get_company_directory RPC function
+ */
+export interface GetCompanyDirectoryRpcParams {
+  p_search?: string | undefined
+  p_job_function?: JobFunction[] | undefined
+  p_sort?: CompanyDirectorySort | undefined
+  p_limit?: number | undefined
+  p_offset?: number | undefined
+}
+
+// =============================================================================
+// Conversion Functions
+// =============================================================================
+
+/**
+ * Convert company directory filters to RPC parameters
+ *
+ * @param filters - Directory filters
+ * @param pagination - Pagination options
+ * @returns RPC parameters for get_company_directory
+ */
+export function toCompanyDirectoryRpcParams(
+  filters: CompanyDirectoryFilters,
+  pagination: JobSearchPagination = {}
+): GetCompanyDirectoryRpcParams {
+  const page = pagination.page ?? 1
+  const pageSize = pagination.pageSize ?? 24
+
+  return {
+    // Blank searches are treated as "all companies" by the RPC
+    p_search: filters.search?.trim(),
+    p_job_function: filters.jobFunction?.length
+      ? filters.jobFunction
+      : undefined,
+    p_sort: filters.sort ?? DEFAULT_COMPANY_SORT,
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize,
+  }
+}
+
+/**
+ * Serialize company directory filters to URL search params
+ *
+ * @param filters - Directory filters
+ * @returns URLSearchParams (defaults are omitted)
+ */
+export function companyFiltersToURLParams(
+  filters: CompanyDirectoryFilters
+): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters.search) {
+    params.set('q', filters.search)
+  }
+
+  if (filters.jobFunction?.length) {
+    params.set('func', filters.jobFunction.join(','))
+  }
+
+  if (filters.sort && filters.sort !== DEFAULT_COMPANY_SORT) {
+    params.set('sort', filters.sort)
+  }
+
+  return params
+}
+
+/**
+ * Deserialize URL search params to company directory filters
+ *
+ * Unknown job functions and sort values are ignored.
+ *
+ * @param params - URLSearchParams from the URL
+ * @returns Directory filters
+ */
+export function urlParamsToCompanyFilters(
+  params: URLSearchParams
+): CompanyDirectoryFilters {
+  const filters: CompanyDirectoryFilters = {}
+
+  const search = params.get('q')
+  if (search) {
+    filters.search = search
+  }
+
+  const func = params.get('func')
+  if (func) {
+    const jobFunction = func
+      .split(',')
+      .filter((value): value is JobFunction =>
+        JOB_FUNCTIONS.includes(value as JobFunction)
+      )
+    if (jobFunction.length > 0) {
+      filters.jobFunction = jobFunction
+    }
+  }
+
+  const sort = params.get('sort')
+  if (sort && COMPANY_SORT_OPTIONS.some(option => option.value === sort)) {
+    filters.sort = sort as CompanyDirectorySort
+  }
+
+  return filters
+}
@@ -2,9 +2,12 @@
  * Job-related enum types
  *
  * These types are derived from the auto-generated Supabase database types
- * and provide type-safe values for job filtering and display.
+ * and provide type-safe values for job filtering and display. Display
+ * labels live in the i18n catalogs (`enums.*`) and are read through the
+ * `get*Label` helpers below.
  */
 
+import { translate } from '@/services/i18n'
 import { Database } from '@/services/supabase/types/database'
 
 // =============================================================================
@@ -49,97 +52,22 @@ export type Location = Database['public']['Enums']['location_enum']
 export type Province = Database['public']['Enums']['province_enum']
 
 /**
- * Work mode options for job postings
- * Represents the work arrangement (location-based)
- */
-export type WorkMode = Database['public']['Enums']['work_mode_enum']
-
-// =============================================================================
-// Display Labels for UI
-// =============================================================================
-
-/**
- * Human-readable labels for employment types
+ * Salary currency options for job postings
+ * Represents the currency salary amounts are given in
  */
-export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
-  'full-time': 'Full-time',
-  'part-time': 'Part-time',
-  contractor: 'Contractor',
-  temporary: 'Temporary',
-  internship: 'Internship',
-}
+export type SalaryCurrency = Database['public']['Enums']['salary_currency_enum']
 
 /**
- * Human-readable labels for experience levels
+ * Salary period options for job postings
+ * Represents the pay period salary amounts refer to
  */
-export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
-  'entry-level': 'Entry Level',
-  'mid-level': 'Mid Level',
-  senior: 'Senior',
-  manager: 'Manager',
-  director: 'Director',
-  executive: 'Executive',
-}
-
-/**
- * Human-readable labels for job functions
- */
-export const JOB_FUNCTION_LABELS: Record<JobFunction, string> = {
-  'technology-engineering': 'Technology & Engineering',
-  'sales-business-development': 'Sales & Business Development',
-  'marketing-communications': 'Marketing & Communications',
-  'operations-logistics': 'Operations & Logistics',
-  'finance-accounting': 'Finance & Accounting',
-  'human-resources': 'Human Resources',
-  'customer-success-support': 'Customer Success & Support',
-  'product-management': 'Product Management',
-  'data-analytics': 'Data & Analytics',
-  'healthcare-medical': 'Healthcare & Medical',
-  'legal-compliance': 'Legal & Compliance',
-  'design-creative': 'Design & Creative',
-  'administrative-office': 'Administrative & Office',
-  'consulting-strategy': 'Consulting & Strategy',
-  'general-management': 'General Management',
-  other: 'Other',
-}
-
-/**
- * Human-readable labels for languages
- */
-export const LANGUAGE_LABELS: Record<Language, string> = {
-  english: 'English',
-  spanish: 'Spanish',
-}
-
-/**
- * Human-readable labels for locations
- */
-export const LOCATION_LABELS: Record<Location, string> = {
-  'costa-rica': 'Costa Rica',
-  latam: 'Latin America',
-}
+export type SalaryPeriod = Database['public']['Enums']['salary_period_enum']
 
 /**
- * Human-readable labels for provinces
- */
-export const PROVINCE_LABELS: Record<Province, string> = {
-  'san-jose': 'San José',
-  alajuela: 'Alajuela',
-  heredia: 'Heredia',
-  guanacaste: 'Guanacaste',
-  puntarenas: 'Puntarenas',
-  limon: 'Limón',
-  cartago: 'Cartago',
-}
-
-/**
- * Human-readable labels for work modes
+ * Work mode options for job postings
+ * Represents the work arrangement (location-based)
  */
-export const WORK_MODE_LABELS: Record<WorkMode, string> = {
-  remote: 'Remote',
-  hybrid: 'Hybrid',
-  onsite: 'On-site',
-}
+export type WorkMode = Database['public']['Enums']['work_mode_enum']
 
 // =============================================================================
 // Enum Value Arrays (for dropdowns, validation, etc.)
@@ -213,6 +141,16 @@ export const PROVINCES: Province[] = [
   'cartago',
 ]
 
+/**
+ * All salary currency values
+ */
+export const SALARY_CURRENCIES: SalaryCurrency[] = ['usd', 'crc']
+
+/**
+ * All salary period values
+ */
+export const SALARY_PERIODS: SalaryPeriod[] = ['hourly', 'monthly', 'yearly']
+
 /**
  * All work mode values
  */
@@ -223,50 +161,64 @@ export const WORK_MODES: WorkMode[] = ['remote', 'hybrid', 'onsite']
 // =============================================================================
 
 /**
- * Get display label for an employment type
+ * Get the display label (in the active locale) for an employment type
  */
 export function getEmploymentTypeLabel(value: EmploymentType): string {
-  return EMPLOYMENT_TYPE_LABELS[value]
+  return translate(`enums.employmentType.${value}`)
 }
 
 /**
- * Get display label for an experience level
+ * Get the display label (in the active locale) for an experience level
  */
 export function getExperienceLevelLabel(value: ExperienceLevel): string {
-  return EXPERIENCE_LEVEL_LABELS[value]
+  return translate(`enums.experienceLevel.${value}`)
 }
 
 /**
- * Get display label for a job function
+ * Get the display label (in the active locale) for a job function
  */
 export function getJobFunctionLabel(value: JobFunction): string {
-  return JOB_FUNCTION_LABELS[value]
+  return translate(`enums.jobFunction.${value}`)
 }
 
 /**
- * Get display label for a language
+ * Get the display label (in the active locale) for a language
  */
 export function getLanguageLabel(value: Language): string {
-  return LANGUAGE_LABELS[value]
+  return translate(`enums.language.${value}`)
 }
 
 /**
- * Get display label for a location
+ * Get the display label (in the active locale) for a location
  */
 export function getLocationLabel(value: Location): string {
-  return LOCATION_LABELS[value]
+  return translate(`enums.location.${value}`)
 }
 
 /**
- * Get display label for a province
+ * Get the display label (in the active locale) for a province
  */
 export function getProvinceLabel(value: Province): string {
-  return PROVINCE_LABELS[value]
+  return translate(`enums.province.${value}`)
+}
+
+/**
+ * Get the display label (in the active locale) for a salary currency
+ */
+export function getSalaryCurrencyLabel(value: SalaryCurrency): string {
+  return translate(`enums.salaryCurrency.${value}`)
+}
+
+/**
+ * Get the display label (in the active locale) for a salary period
+ */
+export function getSalaryPeriodLabel(value: SalaryPeriod): string {
+  return translate(`enums.salaryPeriod.${value}`)
 }
 
 /**
- * Get display label for a work mode
+ * Get the display label (in the active locale) for a work mode
  */
 export function getWorkModeLabel(value: WorkMode): string {
-  return WORK_MODE_LABELS[value]
+  return translate(`enums.workMode.${value}`)
 }
@@ -6,7 +6,18 @@
  * and URL persistence.
  */
 
-import { subDays } from 'date-fns'
+import { config } from '@app/config'
+import {
+  endOfDay,
+  isAfter,
+  isValid,
+  parseISO,
+  startOfDay,
+  subDays,
+} from 'date-fns'
+
+import type { MessageKey } from '@/services/i18n'
+import { translate } from '@/services/i18n'
 
 import type {
   EmploymentType,
@@ -23,23 +34,28 @@ import type {
 
 /**
  * Date preset options for the date filter (radio buttons)
+ * 'custom' uses the `dateFrom`/`dateTo` pair on the filters
  */
-export type DatePreset = 'any' | 'month' | 'week' | '24hours'
+export type DatePreset = 'any' | 'month' | 'week' | '24hours' | 'custom'
 
 /**
- * Date preset configuration with labels
+ * Date preset configuration with label message keys
  */
-export const DATE_PRESETS: Array<{ value: DatePreset; label: string }> = [
-  { value: 'any', label: 'Any time' },
-  { value: 'month', label: 'Past month' },
-  { value: 'week', label: 'Past week' },
-  { value: '24hours', label: 'Past 24 hours' },
-]
+export const DATE_PRESETS: Array<{ value: DatePreset; labelKey: MessageKey }> =
+  [
+    { value: 'any', labelKey: 'filters.datePresets.any' },
+    { value: 'month', labelKey: 'filters.datePresets.month' },
+    { value: 'week', labelKey: 'filters.datePresets.week' },
+    { value: '24hours', labelKey: 'filters.datePresets.24hours' },
+    { value: 'custom', labelKey: 'filters.datePresets.custom' },
+  ]
 
 /**
  * Convert a date preset to actual date range
  * @param preset - The date preset selected
  * @returns Object with dateFrom and dateTo ISO strings, or null for 'any'
+ * (no bounds) and 'custom' (bounds come from the filters, see
+ * `filtersToDateRange`)
  */
 export function datePresetToRange(
   preset: DatePreset
@@ -63,16 +79,126 @@ export function datePresetToRange(
         dateFrom: formatDate(subDays(now, 30)),
         dateTo: formatDate(now),
       }
+    case 'custom':
     case 'any':
     default:
-      // 'any' defaults to last 90 days
-      return {
-        dateFrom: formatDate(subDays(now, 90)),
-        dateTo: formatDate(now),
-      }
+      return null
   }
 }
 
+/**
+ * Format of custom range dates (`YYYY-MM-DD`, as used by date inputs)
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parse a custom range date (`YYYY-MM-DD`) as local midnight
+ * @returns The date, or null if the value is not a valid date
+ */
+function parseDateOnly(value: string): Date | null {
+  if (!DATE_ONLY_PATTERN.test(value)) return null
+
+  const date = parseISO(value)
+  return isValid(date) ? date : null
+}
+
+/**
+ * Validate a custom date range
+ *
+ * At least one bound is required; bounds must be valid dates, not in the
+ * future, and `dateFrom` must not be after `dateTo`.
+ *
+ * @param dateFrom - Start date (`YYYY-MM-DD`), empty for no lower bound
+ * @param dateTo - End date (`YYYY-MM-DD`), empty for no upper bound
+ * @returns Error message (in the active locale), or null if the range is valid
+ *
+ * @example
+ * ```typescript
+ * validateDateRange('2025-03-01', '2025-02-01')
+ * // 'Start date must be on or before end date'
+ * ```
+ */
+export function validateDateRange(
+  dateFrom: string | undefined,
+  dateTo: string | undefined
+): string | null {
+  if (!dateFrom && !dateTo) {
+    return translate('filters.dateRange.errorRequired')
+  }
+
+  const from = dateFrom ? parseDateOnly(dateFrom) : null
+  const to = dateTo ? parseDateOnly(dateTo) : null
+  if ((dateFrom && !from) || (dateTo && !to)) {
+    return translate('filters.dateRange.errorInvalid')
+  }
+
+  const today = endOfDay(new Date())
+  if ((from && isAfter(from, today)) || (to && isAfter(to, today))) {
+    return translate('filters.dateRange.errorFuture')
+  }
+
+  if (from && to && isAfter(from, to)) {
+    return translate('filters.dateRange.errorOrder')
+  }
+
+  return null
+}
+
+/**
+ * Resolve the date bounds sent to the RPC functions
+ *
+ * Presets are relative to now; a custom range covers whole days
+ * (from the start of `dateFrom` to the end of `dateTo`).
+ *
+ * @param filters - The search filters from the UI
+ * @returns ISO bounds (either may be undefined), or null for no date filter
+ */
+export function filtersToDateRange(
+  filters: Partial<JobSearchFilters>
+): { dateFrom: string | undefined; dateTo: string | undefined } | null {
+  if (filters.datePreset !== 'custom') {
+    return filters.datePreset ? datePresetToRange(filters.datePreset) : null
+  }
+
+  if (validateDateRange(filters.dateFrom, filters.dateTo)) {
+    return null
+  }
+
+  const from = filters.dateFrom ? parseDateOnly(filters.dateFrom) : null
+  const to = filters.dateTo ? parseDateOnly(filters.dateTo) : null
+
+  return {
+    dateFrom: from ? startOfDay(from).toISOString() : undefined,
+    dateTo: to ? endOfDay(to).toISOString() : undefined,
+  }
+}
+
+// =============================================================================
+// Sort Types
+// =============================================================================
+
+/**
+ * Sort options for search results
+ */
+export type JobSortOption = 'relevance' | 'newest' | 'oldest'
+
+/**
+ * Sort option configuration with label message keys
+ */
+export const SORT_OPTIONS: Array<{
+  value: JobSortOption
+  labelKey: MessageKey
+}> = [
+  { value: 'relevance', labelKey: 'sort.relevance' },
+  { value: 'newest', labelKey: 'sort.newest' },
+  { value: 'oldest', labelKey: 'sort.oldest' },
+]
+
+/**
+ * Sort applied when none is selected (omitted from the URL)
+ */
+export const DEFAULT_SORT: JobSortOption = 'relevance'
+
 // =============================================================================
 // Search Filter Types (Multi-Select)
 // =============================================================================
@@ -81,7 +207,8 @@ export function datePresetToRange(
  * Job search filters interface
  *
  * Multi-select filters use arrays. Single-select filters use single values.
- * All filters are optional except for `query` which is required.
+ * All filters are optional except for `query` which is required
+ * (use an empty string to browse by filters only).
  *
  * @example
  * ```typescript
@@ -95,8 +222,10 @@ export function datePresetToRange(
  */
 export interface JobSearchFilters {
   /**
-   * Full-text search query (required)
-   * Searches across job title, skills, and description
+   * Full-text search query (required, may be empty)
+   * Searches across job title, skills, and description.
+   * Supports web-search syntax: "exact phrase", -exclude, a OR b.
+   * An empty query browses all jobs matching the other filters.
    */
   query: string
 
@@ -131,14 +260,61 @@ export interface JobSearchFilters {
   company?: string[]
 
   /**
-   * Filter by language (single-select, radio button)
+   * Filter by technologies (multi-select, canonical names or aliases)
+   */
+  technology?: string[]
+
+  /**
+   * Only match jobs where the selected technologies are required
    */
-  language?: Language
+  technologyRequiredOnly?: boolean
+
+  /**
+   * Minimum salary in USD per month (range slider)
+   * Salaries in other currencies/periods are normalized server-side.
+   */
+  salaryMin?: number
+
+  /**
+   * Maximum salary in USD per month (range slider)
+   */
+  salaryMax?: number
+
+  /**
+   * Filter by posting languages (multi-select, all languages when empty)
+   */
+  language?: Language[]
 
   /**
    * Date preset selection (radio button)
    */
   datePreset?: DatePreset
+
+  /**
+   * Start of a custom date range (`YYYY-MM-DD`, only with datePreset 'custom')
+   */
+  dateFrom?: string
+
+  /**
+   * End of a custom date range (`YYYY-MM-DD`, only with datePreset 'custom')
+   */
+  dateTo?: string
+
+  /**
+   * Result ordering (not counted as an active filter)
+   * @default 'relevance'
+   */
+  sort?: JobSortOption
+
+  /**
+   * Job IDs hidden by the user (not serialized to the URL)
+   */
+  excludeJobIds?: string[]
+
+  /**
+   * Company names hidden by the user (not serialized to the URL)
+   */
+  excludeCompanies?: string[]
 }
 
 /**
@@ -180,16 +356,36 @@ export type MultiSelectFilterKey =
   | 'province'
   | 'jobFunction'
   | 'company'
+  | 'technology'
+  | 'language'
 
 /**
  * Filter key type for single-select filters
  */
-export type SingleSelectFilterKey = 'language' | 'datePreset'
+export type SingleSelectFilterKey = 'datePreset'
+
+/**
+ * Filter key type for multi-select filters with per-value job counts
+ * (from the get_search_facets RPC; companies and technologies have their own)
+ */
+export type FacetFilterKey = Exclude<
+  MultiSelectFilterKey,
+  'company' | 'technology'
+>
+
+/**
+ * Filter key type for range filters
+ * (backed by a min/max pair of fields, e.g. `salaryMin`/`salaryMax`)
+ */
+export type RangeFilterKey = 'salary'
 
 /**
  * All filter keys (excluding query)
  */
-export type FilterKey = MultiSelectFilterKey | SingleSelectFilterKey
+export type FilterKey =
+  | MultiSelectFilterKey
+  | SingleSelectFilterKey
+  | RangeFilterKey
 
 /**
  * List of all multi-select filter keys
@@ -201,16 +397,27 @@ export const MULTI_SELECT_FILTER_KEYS: MultiSelectFilterKey[] = [
   'province',
   'jobFunction',
   'company',
+  'technology',
+  'language',
 ]
 
 /**
- * List of all single-select filter keys
+ * List of all faceted filter keys
  */
-export const SINGLE_SELECT_FILTER_KEYS: SingleSelectFilterKey[] = [
+export const FACET_FILTER_KEYS: FacetFilterKey[] = [
+  'experienceLevel',
+  'employmentType',
+  'workMode',
+  'province',
+  'jobFunction',
   'language',
-  'datePreset',
 ]
 
+/**
+ * List of all single-select filter keys
+ */
+export const SINGLE_SELECT_FILTER_KEYS: SingleSelectFilterKey[] = ['datePreset']
+
 // =============================================================================
 // Supabase RPC Parameter Types
 // =============================================================================
@@ -229,11 +436,34 @@ export interface SearchJobsRpcParams {
   p_province?: Province[] | undefined
   p_job_function?: JobFunction[] | undefined
   p_company?: string[] | undefined
-  p_language?: Language | undefined
+  p_language?: Language[] | undefined
   p_date_from?: string | undefined
   p_date_to?: string | undefined
+  p_sort?: JobSortOption | undefined
+  p_technology?: string[] | undefined
+  p_technology_required_only?: boolean | undefined
+  p_exclude_job_ids?: number[] | undefined
+  p_exclude_company?: string[] | undefined
+  p_salary_min?: number | undefined
+  p_salary_max?: number | undefined
+  p_usd_to_crc_rate?: number | undefined
 }
 
+/**
+ * Parameters for the count_jobs RPC function
+ * (Same as search params but without pagination and sorting)
+ */
+export type CountJobsRpcParams = Omit<
+  SearchJobsRpcParams,
+  'p_limit' | 'p_offset' | 'p_sort'
+>
+
+/**
+ * Parameters for the get_search_facets RPC function
+ * (Same filters as count_jobs; each facet ignores its own selection)
+ */
+export type GetSearchFacetsRpcParams = CountJobsRpcParams
+
 /**
  * Parameters for the get_companies_for_search RPC function
  */
@@ -245,9 +475,48 @@ export interface GetCompaniesRpcParams {
   p_work_mode?: WorkMode[] | undefined
   p_province?: Province[] | undefined
   p_job_function?: JobFunction[] | undefined
-  p_language?: Language | undefined
+  p_language?: Language[] | undefined
+  p_date_from?: string | undefined
+  p_date_to?: string | undefined
+  p_technology?: string[] | undefined
+  p_technology_required_only?: boolean | undefined
+  p_exclude_job_ids?: number[] | undefined
+  p_exclude_company?: string[] | undefined
+  p_salary_min?: number | undefined
+  p_salary_max?: number | undefined
+  p_usd_to_crc_rate?: number | undefined
+}
+
+/**
+ * Parameters for the get_technologies_for_search RPC function
+ */
+export interface GetTechnologiesRpcParams {
+  search_query: string
+  p_limit?: number | undefined
+  p_experience_level?: ExperienceLevel[] | undefined
+  p_employment_type?: EmploymentType[] | undefined
+  p_work_mode?: WorkMode[] | undefined
+  p_province?: Province[] | undefined
+  p_job_function?: JobFunction[] | undefined
+  p_company?: string[] | undefined
+  p_language?: Language[] | undefined
   p_date_from?: string | undefined
   p_date_to?: string | undefined
+  p_technology_required_only?: boolean | undefined
+  p_exclude_job_ids?: number[] | undefined
+  p_exclude_company?: string[] | undefined
+  p_salary_min?: number | undefined
+  p_salary_max?: number | undefined
+  p_usd_to_crc_rate?: number | undefined
+}
+
+/**
+ * Parameters for the suggest_search_terms RPC function
+ */
+export interface SuggestSearchTermsRpcParams {
+  p_query: string
+  p_limit?: number | undefined
+  p_language?: Language[] | undefined
 }
 
 // =============================================================================
@@ -269,10 +538,8 @@ export function toSearchJobsRpcParams(
   const pageSize = pagination?.pageSize ?? 20
   const offset = (page - 1) * pageSize
 
-  // Convert date preset to actual dates
-  const dateRange = filters.datePreset
-    ? datePresetToRange(filters.datePreset)
-    : null
+  // Convert date preset (or custom range) to actual dates
+  const dateRange = filtersToDateRange(filters)
 
   return {
     search_query: filters.query,
@@ -290,9 +557,47 @@ export function toSearchJobsRpcParams(
       ? filters.jobFunction
       : undefined,
     p_company: filters.company?.length ? filters.company : undefined,
-    p_language: filters.language,
+    p_language: filters.language?.length ? filters.language : undefined,
     p_date_from: dateRange?.dateFrom,
     p_date_to: dateRange?.dateTo,
+    p_sort: filters.sort ?? DEFAULT_SORT,
+    ...toTechnologyRpcParams(filters),
+    ...toExclusionRpcParams(filters),
+    ...toSalaryRpcParams(filters),
+  }
+}
+
+/**
+ * Convert JobSearchFilters to count_jobs RPC parameters
+ *
+ * @param filters - The search filters from the UI
+ * @returns Parameters formatted for the count_jobs RPC function
+ */
+export function toCountJobsRpcParams(
+  filters: JobSearchFilters
+): CountJobsRpcParams {
+  const dateRange = filtersToDateRange(filters)
+
+  return {
+    search_query: filters.query,
+    p_experience_level: filters.experienceLevel?.length
+      ? filters.experienceLevel
+      : undefined,
+    p_employment_type: filters.employmentType?.length
+      ? filters.employmentType
+      : undefined,
+    p_work_mode: filters.workMode?.length ? filters.workMode : undefined,
+    p_province: filters.province?.length ? filters.province : undefined,
+    p_job_function: filters.jobFunction?.length
+      ? filters.jobFunction
+      : undefined,
+    p_company: filters.company?.length ? filters.company : undefined,
+    p_language: filters.language?.length ? filters.language : undefined,
+    p_date_from: dateRange?.dateFrom,
+    p_date_to: dateRange?.dateTo,
+    ...toTechnologyRpcParams(filters),
+    ...toExclusionRpcParams(filters),
+    ...toSalaryRpcParams(filters),
   }
 }
 
@@ -306,9 +611,7 @@ export function toSearchJobsRpcParams(
 export function toGetCompaniesRpcParams(
   filters: JobSearchFilters
 ): GetCompaniesRpcParams {
-  const dateRange = filters.datePreset
-    ? datePresetToRange(filters.datePreset)
-    : null
+  const dateRange = filtersToDateRange(filters)
 
   return {
     search_query: filters.query,
@@ -324,9 +627,111 @@ export function toGetCompaniesRpcParams(
     p_job_function: filters.jobFunction?.length
       ? filters.jobFunction
       : undefined,
-    p_language: filters.language,
+    p_language: filters.language?.length ? filters.language : undefined,
     p_date_from: dateRange?.dateFrom,
     p_date_to: dateRange?.dateTo,
+    ...toTechnologyRpcParams(filters),
+    ...toExclusionRpcParams(filters),
+    ...toSalaryRpcParams(filters),
+  }
+}
+
+/**
+ * Convert JobSearchFilters to get_technologies_for_search RPC parameters
+ * (Same as search params but without technology filter)
+ *
+ * @param filters - The search filters from the UI
+ * @returns Parameters formatted for the get_technologies_for_search RPC function
+ */
+export function toGetTechnologiesRpcParams(
+  filters: JobSearchFilters
+): GetTechnologiesRpcParams {
+  const dateRange = filtersToDateRange(filters)
+
+  return {
+    search_query: filters.query,
+    p_limit: 100,
+    p_experience_level: filters.experienceLevel?.length
+      ? filters.experienceLevel
+      : undefined,
+    p_employment_type: filters.employmentType?.length
+      ? filters.employmentType
+      : undefined,
+    p_work_mode: filters.workMode?.length ? filters.workMode : undefined,
+    p_province: filters.province?.length ? filters.province : undefined,
+    p_job_function: filters.jobFunction?.length
+      ? filters.jobFunction
+      : undefined,
+    p_company: filters.company?.length ? filters.company : undefined,
+    p_language: filters.language?.length ? filters.language : undefined,
+    p_date_from: dateRange?.dateFrom,
+    p_date_to: dateRange?.dateTo,
+    p_technology_required_only: filters.technologyRequiredOnly
+      ? true
+      : undefined,
+    ...toExclusionRpcParams(filters),
+    ...toSalaryRpcParams(filters),
+  }
+}
+
+/**
+ * Build the exclusion RPC parameters (hidden jobs and companies) shared by
+ * search, counts and filter option lookups
+ */
+function toExclusionRpcParams(
+  filters: JobSearchFilters
+): Pick<SearchJobsRpcParams, 'p_exclude_job_ids' | 'p_exclude_company'> {
+  return {
+    p_exclude_job_ids: filters.excludeJobIds?.length
+      ? filters.excludeJobIds.map(Number).filter(Number.isInteger)
+      : undefined,
+    p_exclude_company: filters.excludeCompanies?.length
+      ? filters.excludeCompanies
+      : undefined,
+  }
+}
+
+/**
+ * Build the technology RPC parameters shared by search and company lookups
+ * The "required only" flag is only sent alongside a technology selection
+ */
+function toTechnologyRpcParams(
+  filters: JobSearchFilters
+): Pick<SearchJobsRpcParams, 'p_technology' | 'p_technology_required_only'> {
+  if (!filters.technology?.length) {
+    return { p_technology: undefined, p_technology_required_only: undefined }
+  }
+
+  return {
+    p_technology: filters.technology,
+    p_technology_required_only: filters.technologyRequiredOnly
+      ? true
+      : undefined,
+  }
+}
+
+/**
+ * Build the salary RPC parameters shared by search and option lookups
+ * The USD to CRC rate is only sent alongside a salary bound
+ */
+function toSalaryRpcParams(
+  filters: JobSearchFilters
+): Pick<
+  SearchJobsRpcParams,
+  'p_salary_min' | 'p_salary_max' | 'p_usd_to_crc_rate'
+> {
+  if (filters.salaryMin === undefined && filters.salaryMax === undefined) {
+    return {
+      p_salary_min: undefined,
+      p_salary_max: undefined,
+      p_usd_to_crc_rate: undefined,
+    }
+  }
+
+  return {
+    p_salary_min: filters.salaryMin,
+    p_salary_max: filters.salaryMax,
+    p_usd_to_crc_rate: config.usdToCrcRate,
   }
 }
 
@@ -369,14 +774,37 @@ export function filtersToURLParams(
   if (filters.company?.length) {
     params.set('company', filters.company.join(','))
   }
+  if (filters.technology?.length) {
+    params.set('tech', filters.technology.join(','))
+  }
+  if (filters.technologyRequiredOnly) {
+    params.set('techreq', '1')
+  }
+  if (filters.language?.length) {
+    params.set('lang', filters.language.join(','))
+  }
 
-  // Single-select filters
-  if (filters.language) {
-    params.set('lang', filters.language)
+  // Range filters
+  if (filters.salaryMin !== undefined) {
+    params.set('salmin', String(filters.salaryMin))
+  }
+  if (filters.salaryMax !== undefined) {
+    params.set('salmax', String(filters.salaryMax))
   }
+
+  // Single-select filters
   if (filters.datePreset && filters.datePreset !== 'any') {
     params.set('date', filters.datePreset)
   }
+  if (filters.datePreset === 'custom') {
+    if (filters.dateFrom) params.set('from', filters.dateFrom)
+    if (filters.dateTo) params.set('to', filters.dateTo)
+  }
+
+  // Sort (default is omitted)
+  if (filters.sort && filters.sort !== DEFAULT_SORT) {
+    params.set('sort', filters.sort)
+  }
 
   return params
 }
@@ -428,20 +856,66 @@ export function urlParamsToFilters(
     filters.company = company.split(',')
   }
 
-  // Single-select filters
+  const tech = params.get('tech')
+  if (tech) {
+    filters.technology = tech.split(',')
+  }
+
+  if (params.get('techreq') === '1') {
+    filters.technologyRequiredOnly = true
+  }
+
   const lang = params.get('lang')
   if (lang) {
-    filters.language = lang as Language
+    filters.language = lang.split(',') as Language[]
+  }
+
+  // Range filters (ignore non-numeric values)
+  const salaryMin = parseSalaryParam(params.get('salmin'))
+  if (salaryMin !== undefined) {
+    filters.salaryMin = salaryMin
   }
 
+  const salaryMax = parseSalaryParam(params.get('salmax'))
+  if (salaryMax !== undefined) {
+    filters.salaryMax = salaryMax
+  }
+
+  // Single-select filters
   const date = params.get('date')
-  if (date) {
+  if (date === 'custom') {
+    // Ignore custom ranges that fail validation
+    const dateFrom = params.get('from') ?? undefined
+    const dateTo = params.get('to') ?? undefined
+    if (!validateDateRange(dateFrom, dateTo)) {
+      filters.datePreset = 'custom'
+      if (dateFrom) filters.dateFrom = dateFrom
+      if (dateTo) filters.dateTo = dateTo
+    }
+  } else if (date) {
     filters.datePreset = date as DatePreset
   }
 
+  // Sort (ignore unknown values)
+  const sort = params.get('sort')
+  if (sort && SORT_OPTIONS.some(option => option.value === sort)) {
+    filters.sort = sort as JobSortOption
+  }
+
   return filters
 }
 
+/**
+ * Parse a salary bound from a URL param
+ * @returns The amount, or undefined when missing or not a valid amount
+ */
+function parseSalaryParam(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const amount = Number(value)
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -463,11 +937,15 @@ export function countActiveFilters(filters: Partial<JobSearchFilters>): number {
   count += filters.province?.length ?? 0
   count += filters.jobFunction?.length ?? 0
   count += filters.company?.length ?? 0
+  count += filters.technology?.length ?? 0
+  count += filters.language?.length ?? 0
 
   // Count single-select (1 if set)
-  if (filters.language) count += 1
   if (filters.datePreset && filters.datePreset !== 'any') count += 1
 
+  // Count range filters (1 if either bound is set)
+  if (hasSalaryRange(filters)) count += 1
+
   return count
 }
 
@@ -482,6 +960,10 @@ export function countFilterSelections(
   filters: Partial<JobSearchFilters>,
   key: FilterKey
 ): number {
+  if (key === 'salary') {
+    return hasSalaryRange(filters) ? 1 : 0
+  }
+
   const value = filters[key]
 
   if (Array.isArray(value)) {
@@ -495,6 +977,16 @@ export function countFilterSelections(
   return value ? 1 : 0
 }
 
+/**
+ * Check if a salary bound is set
+ *
+ * @param filters - The current filter state
+ * @returns True if a minimum or maximum salary is set
+ */
+export function hasSalaryRange(filters: Partial<JobSearchFilters>): boolean {
+  return filters.salaryMin !== undefined || filters.salaryMax !== undefined
+}
+
 /**
  * Check if any filters are active (excluding query)
  *
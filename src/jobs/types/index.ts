@@ -2,13 +2,30 @@
  * Jobs Types Module
  *
  * This module exports all types related to jobs, including:
- * - Frontend models (Job, SearchResponse)
+ * - Frontend models (Job, SearchResponse, CompanyProfile)
  * - Enum types (ExperienceLevel, WorkMode, etc.)
  * - Filter types (JobSearchFilters, JobSearchPagination)
+ * - Application tracking types (JobApplication, ApplicationStatus)
+ * - Company directory types (CompanyDirectoryFilters, CompanyDirectorySort)
  */
 
 // Models
-export type { Job, SearchResponse } from './models'
+export type {
+  Company,
+  CompanyDetails,
+  CompanyDirectoryResponse,
+  CompanyJobBreakdown,
+  CompanyProfile,
+  CompanySummary,
+  FacetCounts,
+  Job,
+  JobSalary,
+  SearchFacets,
+  SearchResponse,
+  SearchSuggestion,
+  SearchSuggestionType,
+  ValueCount,
+} from './models'
 
 // Enums and their utilities
 export type {
@@ -18,14 +35,13 @@ export type {
   Language,
   Location,
   Province,
+  SalaryCurrency,
+  SalaryPeriod,
   WorkMode,
 } from './enums'
 export {
-  // Label mappings
-  EMPLOYMENT_TYPE_LABELS,
   // Value arrays
   EMPLOYMENT_TYPES,
-  EXPERIENCE_LEVEL_LABELS,
   EXPERIENCE_LEVELS,
   // Utility functions
   getEmploymentTypeLabel,
@@ -34,16 +50,15 @@ export {
   getLanguageLabel,
   getLocationLabel,
   getProvinceLabel,
+  getSalaryCurrencyLabel,
+  getSalaryPeriodLabel,
   getWorkModeLabel,
-  JOB_FUNCTION_LABELS,
   JOB_FUNCTIONS,
-  LANGUAGE_LABELS,
   LANGUAGES,
-  LOCATION_LABELS,
   LOCATIONS,
-  PROVINCE_LABELS,
   PROVINCES,
-  WORK_MODE_LABELS,
+  SALARY_CURRENCIES,
+  SALARY_PERIODS,
   WORK_MODES,
 } from './enums'
 
@@ -52,15 +67,22 @@ export type { PaginationInfo } from './models'
 
 // Filters and search parameters
 export type {
+  CountJobsRpcParams,
   DatePreset,
+  FacetFilterKey,
   FilterKey,
   GetCompaniesRpcParams,
+  GetSearchFacetsRpcParams,
+  GetTechnologiesRpcParams,
   JobSearchFilters,
   JobSearchPagination,
   JobSearchParams,
+  JobSortOption,
   MultiSelectFilterKey,
+  RangeFilterKey,
   SearchJobsRpcParams,
   SingleSelectFilterKey,
+  SuggestSearchTermsRpcParams,
 } from './filters'
 export {
   // Utility functions
@@ -73,14 +95,44 @@ export {
   DATE_PRESETS,
   // Conversion functions
   datePresetToRange,
+  DEFAULT_SORT,
+  FACET_FILTER_KEYS,
+  filtersToDateRange,
   filtersToURLParams,
   getDefaultPagination,
   hasActiveFilters,
   hasMorePages,
+  hasSalaryRange,
   MULTI_SELECT_FILTER_KEYS,
   SINGLE_SELECT_FILTER_KEYS,
+  SORT_OPTIONS,
+  toCountJobsRpcParams,
   toGetCompaniesRpcParams,
+  toGetTechnologiesRpcParams,
   toggleFilterValue,
   toSearchJobsRpcParams,
   urlParamsToFilters,
+  validateDateRange,
 } from './filters'
+
+// Application tracking
+export type { ApplicationStatus, JobApplication } from './applications'
+export {
+  APPLICATION_STATUS_COLORS,
+  APPLICATION_STATUSES,
+  getApplicationStatusLabel,
+} from './applications'
+
+// Company directory
+export type {
+  CompanyDirectoryFilters,
+  CompanyDirectorySort,
+  GetCompanyDirectoryRpcParams,
+} from './companies'
+export {
+  COMPANY_SORT_OPTIONS,
+  companyFiltersToURLParams,
+  DEFAULT_COMPANY_SORT,
+  toCompanyDirectoryRpcParams,
+  urlParamsToCompanyFilters,
+} from './companies'
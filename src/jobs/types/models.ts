@@ -9,8 +9,11 @@ import type {
   Language,
   Location,
   Province,
+  SalaryCurrency,
+  SalaryPeriod,
   WorkMode,
 } from './enums'
+import type { FacetFilterKey } from './filters'
 
 // =============================================================================
 // Search Response
@@ -42,6 +45,23 @@ export interface SearchResponse {
 // Job Model
 // =============================================================================
 
+/**
+ * Advertised salary range
+ *
+ * At least one of `min`/`max` is set; a missing bound means the range
+ * is open-ended ("From ₡800,000", "Up to $4,000").
+ */
+export interface JobSalary {
+  /** Lower bound, in `currency` per `period` */
+  min: number | null
+  /** Upper bound, in `currency` per `period` */
+  max: number | null
+  /** Currency of the amounts */
+  currency: SalaryCurrency
+  /** Pay period the amounts refer to */
+  period: SalaryPeriod
+}
+
 /**
  * Frontend Job model
  *
@@ -60,8 +80,8 @@ export interface Job {
   title: string
   /** Company name */
   company: string
-  /** URL to company logo (optional) */
-  companyLogoUrl?: string
+  /** URL to company logo (missing when the company has none) */
+  companyLogoUrl?: string | undefined
 
   // Job details
   /** Full job description */
@@ -100,7 +120,122 @@ export interface Job {
   /** Main technologies used */
   technologies: string[]
 
+  // Compensation
+  /** Advertised salary (null when not disclosed) */
+  salary: JobSalary | null
+
   // Metadata
-  /** Human-readable posted date (e.g., "2 days ago") */
-  postedDate: string
+  /** ISO timestamp of when the job was posted (format with formatPostedDate) */
+  postedAt: string
+}
+
+// =============================================================================
+// Search Suggestions
+// =============================================================================
+
+/**
+ * Kind of search-as-you-type suggestion
+ */
+export type SearchSuggestionType = 'title' | 'company' | 'technology'
+
+/**
+ * Search-as-you-type suggestion
+ *
+ * Titles fill the query; companies and technologies apply the matching filter.
+ */
+export interface SearchSuggestion {
+  /** Suggestion kind */
+  type: SearchSuggestionType
+  /** Job title, company name or canonical technology name */
+  label: string
+  /** Technology alias that matched the typed text (technologies only) */
+  matchedAlias: string | null
+  /** Number of active jobs for the suggestion */
+  jobCount: number
+}
+
+// =============================================================================
+// Search Facets
+// =============================================================================
+
+/**
+ * Number of matching jobs per filter value (values without jobs are missing)
+ */
+export type FacetCounts = Partial<Record<string, number>>
+
+/**
+ * Per-value job counts for every faceted filter under the current search
+ */
+export type SearchFacets = Record<FacetFilterKey, FacetCounts>
+
+// =============================================================================
+// Company Profile
+// =============================================================================
+
+/**
+ * Frontend Company model
+ */
+export interface Company {
+  /** Unique company identifier */
+  id: string
+  /** Company name */
+  name: string
+  /** URL to company logo (null shows a monogram) */
+  logoUrl: string | null
+}
+
+/**
+ * Company with the details shown on its profile
+ */
+export interface CompanyDetails extends Company {
+  /** Company website URL */
+  website: string | null
+  /** Short company description */
+  description: string | null
+}
+
+/**
+ * Company listed in the directory with its active job count
+ */
+export interface CompanySummary extends Company {
+  /** Number of active jobs (matching the job function filter, if any) */
+  jobCount: number
+}
+
+/**
+ * Page of the company directory
+ */
+export interface CompanyDirectoryResponse {
+  companies: CompanySummary[]
+  pagination: PaginationInfo | null
+}
+
+/**
+ * Number of jobs sharing a classification value
+ */
+export interface ValueCount<T extends string> {
+  /** Enum value (e.g. 'remote') */
+  value: T
+  /** Number of active jobs with this value */
+  count: number
+}
+
+/**
+ * Active jobs of a company grouped by classification, most common first
+ */
+export interface CompanyJobBreakdown {
+  jobFunction: ValueCount<JobFunction>[]
+  workMode: ValueCount<WorkMode>[]
+  experienceLevel: ValueCount<ExperienceLevel>[]
+}
+
+/**
+ * Company with a summary of its open positions
+ */
+export interface CompanyProfile {
+  company: CompanyDetails
+  /** Number of active jobs */
+  activeJobCount: number
+  /** Active jobs grouped by function, work mode and experience level */
+  breakdown: CompanyJobBreakdown
 }
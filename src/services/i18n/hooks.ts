@@ -0,0 +1,20 @@
+import { useCallback } from 'react'
+
+import { useLocalStore } from '../storage/hooks'
+import { localeStore, setLocale, translate } from './i18n'
+import type { Locale, MessageKey, TranslateParams } from './types'
+
+// Hook for translating UI strings and switching the locale.
+// `t` changes identity with the locale, so it can be used in memo deps.
+export const useTranslation = () => {
+  const locale: Locale = useLocalStore(localeStore)
+
+  const t = useCallback(
+    (key: MessageKey, params?: TranslateParams): string =>
+      translate(key, params),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [locale] // re-create on locale change so memoized values update
+  )
+
+  return { t, locale, setLocale }
+}
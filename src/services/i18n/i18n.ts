@@ -0,0 +1,143 @@
+/**
+ * Internationalization
+ *
+ * Holds the active UI locale (persisted in localStorage) and resolves
+ * messages from the `en` and `es` catalogs. The locale store is shared
+ * module state, so non-React code (formatters, error handlers) can
+ * translate too; components should use `useTranslation` so they re-render
+ * when the locale changes.
+ */
+
+import { z } from 'zod'
+
+import { createLocalStore } from '../storage/localStore'
+import en from './messages/en'
+import es from './messages/es'
+import type { Locale, MessageKey, Messages, TranslateParams } from './types'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * All supported locales, in switcher order
+ */
+export const LOCALES: Locale[] = ['en', 'es']
+
+/**
+ * Native names of the supported locales
+ */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+}
+
+/**
+ * BCP 47 tags used for `Intl` date and number formatting
+ */
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-CR',
+}
+
+const CATALOGS: Record<Locale, Messages> = { en, es }
+
+// =============================================================================
+// Store
+// =============================================================================
+
+/**
+ * Pick the initial locale from the browser languages (Spanish or English)
+ */
+function detectLocale(): Locale {
+  const languages =
+    typeof navigator === 'undefined' ? [] : (navigator.languages ?? [])
+
+  for (const language of languages) {
+    const code = language.slice(0, 2).toLowerCase()
+    if (code === 'es' || code === 'en') return code
+  }
+
+  return 'en'
+}
+
+export const localeStore = createLocalStore<Locale>({
+  key: 'jobhub:locale',
+  schema: z.enum(['en', 'es']),
+  defaultValue: detectLocale(),
+})
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Look up a dot-separated key in a catalog
+ */
+function resolveMessage(messages: Messages, key: MessageKey): string | null {
+  let node: unknown = messages
+
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object' || node === null) return null
+    node = (node as Record<string, unknown>)[part]
+  }
+
+  return typeof node === 'string' ? node : null
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+/**
+ * Get the active locale
+ */
+export function getLocale(): Locale {
+  return localeStore.get()
+}
+
+/**
+ * Change (and persist) the active locale
+ */
+export function setLocale(locale: Locale): void {
+  localeStore.set(locale)
+}
+
+/**
+ * Get the `Intl` locale tag for a locale (defaults to the active one)
+ *
+ * @example
+ * ```typescript
+ * new Intl.NumberFormat(getIntlLocale()).format(1500) // '1,500' / '1500'
+ * ```
+ */
+export function getIntlLocale(locale: Locale = getLocale()): string {
+  return INTL_LOCALES[locale]
+}
+
+/**
+ * Translate a message key in the active locale
+ *
+ * Falls back to English, then to the key itself, so a missing entry
+ * never breaks rendering.
+ *
+ * @param key - Message key, e.g. `'jobList.emptyTitle'`
+ * @param params - Values for `{name}` placeholders
+ *
+ * @example
+ * ```typescript
+ * translate('jobList.results', { count: 42 }) // '42 results'
+ * ```
+ */
+export function translate(key: MessageKey, params?: TranslateParams): string {
+  const message =
+    resolveMessage(CATALOGS[getLocale()], key) ?? resolveMessage(en, key)
+
+  if (message === null) return key
+  if (!params) return message
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name]
+    return value === undefined ? placeholder : String(value)
+  })
+}
@@ -0,0 +1,10 @@
+export { useTranslation } from './hooks'
+export {
+  getIntlLocale,
+  getLocale,
+  LOCALE_LABELS,
+  LOCALES,
+  setLocale,
+  translate,
+} from './i18n'
+export type { Locale, MessageKey, Messages, TranslateParams } from './types'
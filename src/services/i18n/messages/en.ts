@@ -0,0 +1,357 @@
+/**
+ * English Messages
+ *
+ * Source catalog: its shape defines the `Messages` type every other
+ * locale must match. Placeholders use `{name}` syntax.
+ */
+
+const en = {
+  common: {
+    appName: 'JobHub',
+    back: 'Back to search',
+    browseJobs: 'Browse jobs',
+    loading: 'Loading...',
+    save: 'Save',
+    search: 'Search',
+    searchPlaceholder: 'Search...',
+    tryAgain: 'Try again',
+    undo: 'Undo',
+    or: 'OR',
+  },
+  header: {
+    saved: 'Saved',
+    applications: 'Applications',
+    companies: 'Companies',
+    hiddenItems: 'Hidden jobs and companies',
+    language: 'Language',
+    searchPlaceholder: 'Job title or skill, "exact phrase", -exclude',
+    searchTerms: 'Search terms',
+    filters: 'Filters',
+    filtersDone: 'Done',
+  },
+  suggestions: {
+    title: 'Job titles',
+    company: 'Companies',
+    technology: 'Technologies',
+    matchesAlias: 'Matches “{alias}”',
+    jobCount: '{count} jobs',
+    jobCountOne: '1 job',
+  },
+  savedSearches: {
+    button: 'Searches',
+    saveCurrent: 'Save current search',
+    empty: 'No saved searches yet',
+    newJobs: '{count} new',
+    delete: 'Delete saved search {name}',
+    dialogTitle: 'Save search',
+    nameLabel: 'Name',
+    untitled: 'Untitled search',
+  },
+  jobAlerts: {
+    button: 'Notifications',
+    title: 'Notifications',
+    markAllRead: 'Mark all as read',
+    clear: 'Clear',
+    empty: 'New jobs matching your alerts show up here',
+    received: '{alert} · {date}',
+    alertsTitle: 'Job alerts',
+    alertsEmpty: 'No alerts yet',
+    createForSearch: 'Create alert for current search',
+    delete: 'Delete alert {name}',
+    dialogTitle: 'Create job alert',
+    dialogHint:
+      'JobHub checks for new jobs matching this search while it is open in your browser.',
+    nameLabel: 'Name',
+    untitled: 'Untitled alert',
+    checkEvery: 'Check every',
+    intervals: {
+      '15': '15 minutes',
+      '30': '30 minutes',
+      '60': '1 hour',
+      '240': '4 hours',
+    },
+    browserNotifications: 'Browser notifications',
+    browserNotificationsBlocked:
+      'Notifications are blocked in your browser settings',
+    browserNotificationsUnsupported:
+      'Your browser does not support notifications',
+    notificationTitle: 'New job for “{alert}”',
+    notificationTitleMany: '{count} new jobs for “{alert}”',
+    notificationBody: '{title} at {company}',
+    moreJobs: '+{count} more new jobs',
+  },
+  jobList: {
+    allJobs: 'All Jobs',
+    results: '{count} results',
+    resultsOne: '1 result',
+    emptyTitle: 'No jobs found',
+    emptyMessage: 'Try adjusting your search criteria or filters',
+    sortResults: 'Sort results',
+    recentlyPosted: 'Recently posted',
+    noLongerActive: 'No longer active',
+    moreActions: 'More actions for {title}',
+    hideJob: 'Hide job',
+    hideCompany: 'Hide all from {company}',
+    listMode: 'List mode',
+    listModePages: 'Numbered pages',
+    listModeInfinite: 'Infinite scroll',
+    loadPrevious: 'Show earlier jobs',
+    loadingMore: 'Loading more jobs…',
+    loadMoreError: "Couldn't load more jobs",
+    endOfResults: "You've reached the end of the results",
+    backToResults: 'Back to results',
+  },
+  sort: {
+    relevance: 'Most relevant',
+    newest: 'Newest',
+    oldest: 'Oldest',
+  },
+  savedJobs: {
+    title: 'Saved jobs',
+    emptyTitle: 'No saved jobs yet',
+    emptyMessage: 'Use the bookmark icon on a job to keep track of it here',
+    save: 'Save job',
+    remove: 'Remove from saved jobs',
+    saved: 'Saved',
+    saveShort: 'Save',
+  },
+  jobDetails: {
+    posted: 'Posted {date}',
+    applyNow: 'Apply Now',
+    copyLink: 'Copy link',
+    linkCopied: 'Link copied',
+    copyLinkFailed: 'Could not copy link',
+    unavailableNotice:
+      'This posting is no longer active. It may have been closed or removed by the company.',
+    yourApplication: 'Your application',
+    description: 'Description',
+    responsibilities: 'Responsibilities',
+    requirements: 'Requirements',
+    mustHave: 'Must Have',
+    niceToHave: 'Nice To Have',
+    technologies: 'Technologies',
+    benefits: 'Benefits',
+    similarJobs: 'Similar jobs',
+    selectJob: 'Select a Job',
+    selectJobMessage: 'Choose a job from the list to view details',
+    loadErrorTitle: 'Unable to load this posting',
+    unavailableTitle: 'This posting is no longer available',
+    unavailableMessage:
+      'The job may have been closed or removed by the company.',
+  },
+  companies: {
+    title: 'Companies',
+    searchPlaceholder: 'Search companies',
+    hiringFor: 'Hiring for',
+    allFunctions: 'All job functions',
+    sortLabel: 'Sort companies',
+    sortName: 'Name (A–Z)',
+    sortJobCount: 'Most open positions',
+    results: '{count} companies',
+    resultsOne: '1 company',
+    emptyTitle: 'No companies found',
+    emptyMessage: 'Try a different name or job function',
+    loadErrorTitle: "Couldn't load companies",
+  },
+  companyProfile: {
+    openPositions: 'Open positions',
+    website: 'Company website',
+    activeJobs: '{count} open positions',
+    activeJobsOne: '1 open position',
+    byJobFunction: 'By job function',
+    byWorkMode: 'By work mode',
+    byExperienceLevel: 'By experience level',
+    noOpenPositions: 'No open positions',
+    noOpenPositionsMessage: 'This company has no active job postings right now',
+    unavailableTitle: 'Company not found',
+    unavailableMessage: 'This company may no longer be hiring on JobHub.',
+    loadErrorTitle: "Couldn't load this company",
+  },
+  applications: {
+    status: 'Status',
+    notes: 'Notes',
+    notesPlaceholder: 'Contacts, interview dates, follow-ups...',
+    applied: 'Applied {date}',
+    stopTracking: 'Stop tracking',
+    stopTrackingJob: 'Stop tracking {title}',
+    emptyColumn: 'Nothing here yet',
+    emptyApplied: 'Jobs you apply to will show up here',
+  },
+  hiddenItems: {
+    title: 'Hidden jobs and companies',
+    empty: 'Jobs and companies you hide from search results show up here',
+    companies: 'Companies ({count})',
+    jobs: 'Jobs ({count})',
+    hidden: 'Hidden {date}',
+    showAll: 'Show all',
+  },
+
+  filters: {
+    labels: {
+      datePreset: 'Date',
+      company: 'Company',
+      technology: 'Technology',
+      salary: 'Salary',
+      experienceLevel: 'Experience',
+      workMode: 'Mode',
+      employmentType: 'Type',
+      province: 'Province',
+      jobFunction: 'Function',
+      language: 'Language',
+    },
+    datePresets: {
+      any: 'Any time',
+      month: 'Past month',
+      week: 'Past week',
+      '24hours': 'Past 24 hours',
+      custom: 'Custom range',
+    },
+    dateRange: {
+      from: 'From',
+      to: 'To',
+      apply: 'Apply range',
+      errorRequired: 'Choose a start or end date',
+      errorInvalid: 'Enter a valid date',
+      errorFuture: 'Dates cannot be in the future',
+      errorOrder: 'Start date must be on or before end date',
+    },
+    range: {
+      any: 'Any',
+      atLeast: '{value}+',
+      upTo: 'Up to {value}',
+      between: '{min} – {max}',
+      minimum: 'Minimum',
+      maximum: 'Maximum',
+      salaryUnit: 'USD / month',
+      approximately: '≈ {min} – {max}',
+    },
+    search: {
+      companies: 'Search companies...',
+      technologies: 'Search technologies...',
+      noMatchingCompanies: 'No matching companies',
+      noCompanies: 'No companies available',
+      noMatchingTechnologies: 'No matching technologies',
+      noTechnologies: 'No technologies available',
+      expand: 'Expand {name}',
+      collapse: 'Collapse {name}',
+    },
+    requiredSkillsOnly: 'Required skills only',
+    allFilters: {
+      open: 'All filters',
+      title: 'All filters',
+      showResults: 'Show {count} results',
+      showResultsOne: 'Show 1 result',
+      showResultsUnknown: 'Show results',
+      clearAll: 'Clear all',
+      close: 'Close',
+    },
+  },
+  salary: {
+    range: '{min} – {max} {period}',
+    from: 'From {min} {period}',
+    upTo: 'Up to {max} {period}',
+    exact: '{amount} {period}',
+    periods: {
+      hourly: '/ hour',
+      monthly: '/ month',
+      yearly: '/ year',
+    },
+  },
+  enums: {
+    employmentType: {
+      'full-time': 'Full-time',
+      'part-time': 'Part-time',
+      contractor: 'Contractor',
+      temporary: 'Temporary',
+      internship: 'Internship',
+    },
+    experienceLevel: {
+      'entry-level': 'Entry Level',
+      'mid-level': 'Mid Level',
+      senior: 'Senior',
+      manager: 'Manager',
+      director: 'Director',
+      executive: 'Executive',
+    },
+    jobFunction: {
+      'technology-engineering': 'Technology & Engineering',
+      'sales-business-development': 'Sales & Business Development',
+      'marketing-communications': 'Marketing & Communications',
+      'operations-logistics': 'Operations & Logistics',
+      'finance-accounting': 'Finance & Accounting',
+      'human-resources': 'Human Resources',
+      'customer-success-support': 'Customer Success & Support',
+      'product-management': 'Product Management',
+      'data-analytics': 'Data & Analytics',
+      'healthcare-medical': 'Healthcare & Medical',
+      'legal-compliance': 'Legal & Compliance',
+      'design-creative': 'Design & Creative',
+      'administrative-office': 'Administrative & Office',
+      'consulting-strategy': 'Consulting & Strategy',
+      'general-management': 'General Management',
+      other: 'Other',
+    },
+    language: {
+      english: 'English',
+      spanish: 'Spanish',
+    },
+    location: {
+      'costa-rica': 'Costa Rica',
+      latam: 'Latin America',
+    },
+    province: {
+      'san-jose': 'San José',
+      alajuela: 'Alajuela',
+      heredia: 'Heredia',
+      guanacaste: 'Guanacaste',
+      puntarenas: 'Puntarenas',
+      limon: 'Limón',
+      cartago: 'Cartago',
+    },
+    salaryCurrency: {
+      usd: 'US Dollar',
+      crc: 'Costa Rican Colón',
+    },
+    salaryPeriod: {
+      hourly: 'Hourly',
+      monthly: 'Monthly',
+      yearly: 'Yearly',
+    },
+    workMode: {
+      remote: 'Remote',
+      hybrid: 'Hybrid',
+      onsite: 'On-site',
+    },
+    applicationStatus: {
+      applied: 'Applied',
+      interviewing: 'Interviewing',
+      offer: 'Offer',
+      rejected: 'Rejected',
+    },
+  },
+  dates: {
+    justNow: 'just now',
+    unknown: 'unknown',
+  },
+  errors: {
+    QUERY_ERROR: 'An error occurred while fetching data. Please try again.',
+    NOT_FOUND: 'The requested resource was not found.',
+    VALIDATION_ERROR: 'Invalid data provided. Please check your input.',
+    CONSTRAINT_ERROR:
+      'This operation conflicts with existing data. Please try again.',
+    CONNECTION_ERROR:
+      'Unable to connect to the server. Please check your connection.',
+    TIMEOUT_ERROR: 'The request took too long. Please try again.',
+    PERMISSION_ERROR: 'You do not have permission to perform this action.',
+    UNKNOWN_ERROR: 'An unexpected error occurred. Please try again later.',
+  },
+  errorBoundary: {
+    title: 'Oops! Something went wrong',
+    message:
+      "We're sorry for the inconvenience. Please try refreshing the page.",
+    tryAgain: 'Try Again',
+    refresh: 'Refresh Page',
+  },
+}
+
+export default en
@@ -0,0 +1,363 @@
+/**
+ * Spanish Messages
+ *
+ * Must match the shape of the English catalog (see `Messages`).
+ */
+
+import type { Messages } from '../types'
+
+const es: Messages = {
+  common: {
+    appName: 'JobHub',
+    back: 'Volver a la búsqueda',
+    browseJobs: 'Ver empleos',
+    loading: 'Cargando...',
+    save: 'Guardar',
+    search: 'Buscar',
+    searchPlaceholder: 'Buscar...',
+    tryAgain: 'Reintentar',
+    undo: 'Deshacer',
+    or: 'O',
+  },
+  header: {
+    saved: 'Guardados',
+    applications: 'Postulaciones',
+    companies: 'Empresas',
+    hiddenItems: 'Empleos y empresas ocultos',
+    language: 'Idioma',
+    searchPlaceholder: 'Puesto o habilidad, "frase exacta", -excluir',
+    searchTerms: 'Términos de búsqueda',
+    filters: 'Filtros',
+    filtersDone: 'Listo',
+  },
+  suggestions: {
+    title: 'Puestos',
+    company: 'Empresas',
+    technology: 'Tecnologías',
+    matchesAlias: 'Coincide con “{alias}”',
+    jobCount: '{count} empleos',
+    jobCountOne: '1 empleo',
+  },
+  savedSearches: {
+    button: 'Búsquedas',
+    saveCurrent: 'Guardar búsqueda actual',
+    empty: 'Aún no hay búsquedas guardadas',
+    newJobs: '{count} nuevos',
+    delete: 'Eliminar búsqueda guardada {name}',
+    dialogTitle: 'Guardar búsqueda',
+    nameLabel: 'Nombre',
+    untitled: 'Búsqueda sin nombre',
+  },
+  jobAlerts: {
+    button: 'Notificaciones',
+    title: 'Notificaciones',
+    markAllRead: 'Marcar todo como leído',
+    clear: 'Borrar',
+    empty: 'Los empleos nuevos que coincidan con tus alertas aparecerán aquí',
+    received: '{alert} · {date}',
+    alertsTitle: 'Alertas de empleo',
+    alertsEmpty: 'Aún no hay alertas',
+    createForSearch: 'Crear alerta para la búsqueda actual',
+    delete: 'Eliminar alerta {name}',
+    dialogTitle: 'Crear alerta de empleo',
+    dialogHint:
+      'JobHub busca empleos nuevos que coincidan con esta búsqueda mientras lo tengas abierto en tu navegador.',
+    nameLabel: 'Nombre',
+    untitled: 'Alerta sin nombre',
+    checkEvery: 'Revisar cada',
+    intervals: {
+      '15': '15 minutos',
+      '30': '30 minutos',
+      '60': '1 hora',
+      '240': '4 horas',
+    },
+    browserNotifications: 'Notificaciones del navegador',
+    browserNotificationsBlocked:
+      'Las notificaciones están bloqueadas en la configuración de tu navegador',
+    browserNotificationsUnsupported: 'Tu navegador no admite notificaciones',
+    notificationTitle: 'Nuevo empleo para “{alert}”',
+    notificationTitleMany: '{count} empleos nuevos para “{alert}”',
+    notificationBody: '{title} en {company}',
+    moreJobs: '+{count} empleos nuevos más',
+  },
+  jobList: {
+    allJobs: 'Todos los empleos',
+    results: '{count} resultados',
+    resultsOne: '1 resultado',
+    emptyTitle: 'No se encontraron empleos',
+    emptyMessage: 'Intenta ajustar los criterios de búsqueda o los filtros',
+    sortResults: 'Ordenar resultados',
+    recentlyPosted: 'Publicado recientemente',
+    noLongerActive: 'Ya no está activo',
+    moreActions: 'Más acciones para {title}',
+    hideJob: 'Ocultar empleo',
+    hideCompany: 'Ocultar todo de {company}',
+    listMode: 'Modo de lista',
+    listModePages: 'Páginas numeradas',
+    listModeInfinite: 'Desplazamiento infinito',
+    loadPrevious: 'Mostrar empleos anteriores',
+    loadingMore: 'Cargando más empleos…',
+    loadMoreError: 'No se pudieron cargar más empleos',
+    endOfResults: 'Llegaste al final de los resultados',
+    backToResults: 'Volver a los resultados',
+  },
+  sort: {
+    relevance: 'Más relevantes',
+    newest: 'Más recientes',
+    oldest: 'Más antiguos',
+  },
+  savedJobs: {
+    title: 'Empleos guardados',
+    emptyTitle: 'Aún no hay empleos guardados',
+    emptyMessage:
+      'Usa el ícono de marcador en un empleo para darle seguimiento aquí',
+    save: 'Guardar empleo',
+    remove: 'Quitar de empleos guardados',
+    saved: 'Guardado',
+    saveShort: 'Guardar',
+  },
+  jobDetails: {
+    posted: 'Publicado {date}',
+    applyNow: 'Postularme',
+    copyLink: 'Copiar enlace',
+    linkCopied: 'Enlace copiado',
+    copyLinkFailed: 'No se pudo copiar el enlace',
+    unavailableNotice:
+      'Esta oferta ya no está activa. Es posible que la empresa la haya cerrado o eliminado.',
+    yourApplication: 'Tu postulación',
+    description: 'Descripción',
+    responsibilities: 'Responsabilidades',
+    requirements: 'Requisitos',
+    mustHave: 'Indispensables',
+    niceToHave: 'Deseables',
+    technologies: 'Tecnologías',
+    benefits: 'Beneficios',
+    similarJobs: 'Empleos similares',
+    selectJob: 'Selecciona un empleo',
+    selectJobMessage: 'Elige un empleo de la lista para ver los detalles',
+    loadErrorTitle: 'No se pudo cargar esta oferta',
+    unavailableTitle: 'Esta oferta ya no está disponible',
+    unavailableMessage:
+      'Es posible que la empresa haya cerrado o eliminado el empleo.',
+  },
+  companies: {
+    title: 'Empresas',
+    searchPlaceholder: 'Buscar empresas',
+    hiringFor: 'Contratando en',
+    allFunctions: 'Todas las áreas',
+    sortLabel: 'Ordenar empresas',
+    sortName: 'Nombre (A–Z)',
+    sortJobCount: 'Más vacantes',
+    results: '{count} empresas',
+    resultsOne: '1 empresa',
+    emptyTitle: 'No se encontraron empresas',
+    emptyMessage: 'Prueba con otro nombre o área',
+    loadErrorTitle: 'No se pudieron cargar las empresas',
+  },
+  companyProfile: {
+    openPositions: 'Vacantes abiertas',
+    website: 'Sitio web de la empresa',
+    activeJobs: '{count} vacantes abiertas',
+    activeJobsOne: '1 vacante abierta',
+    byJobFunction: 'Por área',
+    byWorkMode: 'Por modalidad',
+    byExperienceLevel: 'Por experiencia',
+    noOpenPositions: 'No hay vacantes abiertas',
+    noOpenPositionsMessage:
+      'Esta empresa no tiene ofertas activas en este momento',
+    unavailableTitle: 'Empresa no encontrada',
+    unavailableMessage: 'Es posible que esta empresa ya no publique en JobHub.',
+    loadErrorTitle: 'No se pudo cargar esta empresa',
+  },
+  applications: {
+    status: 'Estado',
+    notes: 'Notas',
+    notesPlaceholder: 'Contactos, fechas de entrevistas, seguimientos...',
+    applied: 'Postulado {date}',
+    stopTracking: 'Dejar de seguir',
+    stopTrackingJob: 'Dejar de seguir {title}',
+    emptyColumn: 'Nada por aquí todavía',
+    emptyApplied: 'Los empleos a los que te postules aparecerán aquí',
+  },
+  hiddenItems: {
+    title: 'Empleos y empresas ocultos',
+    empty:
+      'Los empleos y empresas que ocultes de los resultados aparecerán aquí',
+    companies: 'Empresas ({count})',
+    jobs: 'Empleos ({count})',
+    hidden: 'Oculto {date}',
+    showAll: 'Mostrar todo',
+  },
+
+  filters: {
+    labels: {
+      datePreset: 'Fecha',
+      company: 'Empresa',
+      technology: 'Tecnología',
+      salary: 'Salario',
+      experienceLevel: 'Experiencia',
+      workMode: 'Modalidad',
+      employmentType: 'Tipo',
+      province: 'Provincia',
+      jobFunction: 'Área',
+      language: 'Idioma',
+    },
+    datePresets: {
+      any: 'Cualquier fecha',
+      month: 'Último mes',
+      week: 'Última semana',
+      '24hours': 'Últimas 24 horas',
+      custom: 'Rango personalizado',
+    },
+    dateRange: {
+      from: 'Desde',
+      to: 'Hasta',
+      apply: 'Aplicar rango',
+      errorRequired: 'Elige una fecha de inicio o de fin',
+      errorInvalid: 'Ingresa una fecha válida',
+      errorFuture: 'Las fechas no pueden estar en el futuro',
+      errorOrder:
+        'La fecha de inicio debe ser igual o anterior a la fecha de fin',
+    },
+    range: {
+      any: 'Cualquiera',
+      atLeast: '{value}+',
+      upTo: 'Hasta {value}',
+      between: '{min} – {max}',
+      minimum: 'Mínimo',
+      maximum: 'Máximo',
+      salaryUnit: 'USD / mes',
+      approximately: '≈ {min} – {max}',
+    },
+    search: {
+      companies: 'Buscar empresas...',
+      technologies: 'Buscar tecnologías...',
+      noMatchingCompanies: 'No hay empresas que coincidan',
+      noCompanies: 'No hay empresas disponibles',
+      noMatchingTechnologies: 'No hay tecnologías que coincidan',
+      noTechnologies: 'No hay tecnologías disponibles',
+      expand: 'Expandir {name}',
+      collapse: 'Contraer {name}',
+    },
+    requiredSkillsOnly: 'Solo habilidades requeridas',
+    allFilters: {
+      open: 'Todos los filtros',
+      title: 'Todos los filtros',
+      showResults: 'Mostrar {count} resultados',
+      showResultsOne: 'Mostrar 1 resultado',
+      showResultsUnknown: 'Mostrar resultados',
+      clearAll: 'Borrar todo',
+      close: 'Cerrar',
+    },
+  },
+  salary: {
+    range: '{min} – {max} {period}',
+    from: 'Desde {min} {period}',
+    upTo: 'Hasta {max} {period}',
+    exact: '{amount} {period}',
+    periods: {
+      hourly: '/ hora',
+      monthly: '/ mes',
+      yearly: '/ año',
+    },
+  },
+  enums: {
+    employmentType: {
+      'full-time': 'Tiempo completo',
+      'part-time': 'Medio tiempo',
+      contractor: 'Contratista',
+      temporary: 'Temporal',
+      internship: 'Pasantía',
+    },
+    experienceLevel: {
+      'entry-level': 'Principiante',
+      'mid-level': 'Intermedio',
+      senior: 'Sénior',
+      manager: 'Gerente',
+      director: 'Director',
+      executive: 'Ejecutivo',
+    },
+    jobFunction: {
+      'technology-engineering': 'Tecnología e Ingeniería',
+      'sales-business-development': 'Ventas y Desarrollo de Negocios',
+      'marketing-communications': 'Mercadeo y Comunicación',
+      'operations-logistics': 'Operaciones y Logística',
+      'finance-accounting': 'Finanzas y Contabilidad',
+      'human-resources': 'Recursos Humanos',
+      'customer-success-support': 'Éxito y Soporte al Cliente',
+      'product-management': 'Gestión de Producto',
+      'data-analytics': 'Datos y Analítica',
+      'healthcare-medical': 'Salud y Medicina',
+      'legal-compliance': 'Legal y Cumplimiento',
+      'design-creative': 'Diseño y Creatividad',
+      'administrative-office': 'Administración y Oficina',
+      'consulting-strategy': 'Consultoría y Estrategia',
+      'general-management': 'Gerencia General',
+      other: 'Otro',
+    },
+    language: {
+      english: 'Inglés',
+      spanish: 'Español',
+    },
+    location: {
+      'costa-rica': 'Costa Rica',
+      latam: 'Latinoamérica',
+    },
+    province: {
+      'san-jose': 'San José',
+      alajuela: 'Alajuela',
+      heredia: 'Heredia',
+      guanacaste: 'Guanacaste',
+      puntarenas: 'Puntarenas',
+      limon: 'Limón',
+      cartago: 'Cartago',
+    },
+    salaryCurrency: {
+      usd: 'Dólar estadounidense',
+      crc: 'Colón costarricense',
+    },
+    salaryPeriod: {
+      hourly: 'Por hora',
+      monthly: 'Mensual',
+      yearly: 'Anual',
+    },
+    workMode: {
+      remote: 'Remoto',
+      hybrid: 'Híbrido',
+      onsite: 'Presencial',
+    },
+    applicationStatus: {
+      applied: 'Postulado',
+      interviewing: 'En entrevistas',
+      offer: 'Oferta',
+      rejected: 'Rechazado',
+    },
+  },
+  dates: {
+    justNow: 'justo ahora',
+    unknown: 'desconocido',
+  },
+  errors: {
+    QUERY_ERROR:
+      'Ocurrió un error al obtener los datos. Por favor, inténtalo de nuevo.',
+    NOT_FOUND: 'No se encontró el recurso solicitado.',
+    VALIDATION_ERROR: 'Los datos no son válidos. Por favor, revísalos.',
+    CONSTRAINT_ERROR:
+      'Esta operación entra en conflicto con datos existentes. Por favor, inténtalo de nuevo.',
+    CONNECTION_ERROR:
+      'No se pudo conectar con el servidor. Por favor, revisa tu conexión.',
+    TIMEOUT_ERROR:
+      'La solicitud tardó demasiado. Por favor, inténtalo de nuevo.',
+    PERMISSION_ERROR: 'No tienes permiso para realizar esta acción.',
+    UNKNOWN_ERROR:
+      'Ocurrió un error inesperado. Por favor, inténtalo más tarde.',
+  },
+  errorBoundary: {
+    title: '¡Ups! Algo salió mal',
+    message: 'Lamentamos las molestias. Por favor, intenta recargar la página.',
+    tryAgain: 'Reintentar',
+    refresh: 'Recargar página',
+  },
+}
+
+export default es
@@ -0,0 +1,30 @@
+import type en from './messages/en'
+
+/**
+ * Supported UI locales
+ */
+export type Locale = 'en' | 'es'
+
+/**
+ * Shape of a message catalog (the English catalog is the source of truth)
+ */
+export type Messages = typeof en
+
+/**
+ * Dot-separated paths to the string leaves of a catalog
+ */
+type MessagePaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : MessagePaths<T[K], `${Prefix}${K}.`>
+}[keyof T & string]
+
+/**
+ * Key of a translatable message, e.g. `'jobList.emptyTitle'`
+ */
+export type MessageKey = MessagePaths<Messages>
+
+/**
+ * Values interpolated into `{name}` placeholders
+ */
+export type TranslateParams = Record<string, string | number>
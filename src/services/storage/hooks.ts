@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react'
+
+import type { LocalStore } from './localStore'
+
+// Hook for reading a local store and re-rendering when it changes
+export const useLocalStore = <T>(store: LocalStore<T>): T => {
+  return useSyncExternalStore(store.subscribe, store.get)
+}
@@ -0,0 +1,3 @@
+export { useLocalStore } from './hooks'
+export type { LocalStore, LocalStoreOptions } from './localStore'
+export { createLocalStore } from './localStore'
@@ -0,0 +1,159 @@
+/**
+ * Local Store
+ *
+ * Small observable wrapper around a single localStorage key.
+ * Values are JSON-serialized and validated with a zod schema on read, so
+ * corrupted or outdated entries fall back to the default value instead of
+ * breaking the app. Changes made in other tabs are picked up via the
+ * `storage` event.
+ */
+
+import type { z } from 'zod'
+
+import logger from '../logging/logger'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for creating a local store
+ */
+export interface LocalStoreOptions<T> {
+  /** localStorage key */
+  key: string
+  /** Schema used to validate persisted values */
+  schema: z.ZodType<T>
+  /** Value used when nothing (valid) is persisted */
+  defaultValue: T
+}
+
+/**
+ * Observable store backed by a localStorage key
+ */
+export interface LocalStore<T> {
+  /** localStorage key backing this store */
+  key: string
+  /** Read the current value (referentially stable while unchanged) */
+  get: () => T
+  /** Replace the current value */
+  set: (value: T) => void
+  /** Derive the next value from the current one */
+  update: (updater: (prev: T) => T) => void
+  /** Subscribe to changes; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Read a raw localStorage value, tolerating unavailable storage
+ */
+function readRaw(key: string): string | null {
+  try {
+    return window.localStorage.getItem(key)
+  } catch {
+    return null
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Create an observable store backed by localStorage
+ *
+ * @example
+ * ```typescript
+ * const recentStore = createLocalStore({
+ *   key: 'jobhub:recent',
+ *   schema: z.array(z.string()),
+ *   defaultValue: [],
+ * })
+ *
+ * recentStore.update(prev => ['react', ...prev])
+ * const recent = useLocalStore(recentStore)
+ * ```
+ */
+export function createLocalStore<T>({
+  key,
+  schema,
+  defaultValue,
+}: LocalStoreOptions<T>): LocalStore<T> {
+  const listeners = new Set<() => void>()
+
+  // Cache the parsed value per raw string so `get` returns a stable reference
+  let cache: { raw: string | null; value: T } | null = null
+
+  const notify = (): void => {
+    listeners.forEach(listener => listener())
+  }
+
+  const get = (): T => {
+    const raw = readRaw(key)
+    if (cache && cache.raw === raw) {
+      return cache.value
+    }
+
+    let value = defaultValue
+    if (raw !== null) {
+      try {
+        const result = schema.safeParse(JSON.parse(raw))
+        if (result.success) {
+          value = result.data
+        } else {
+          logger.warn('Ignoring invalid stored value', { key })
+        }
+      } catch {
+        logger.warn('Ignoring unparseable stored value', { key })
+      }
+    }
+
+    cache = { raw, value }
+    return value
+  }
+
+  const set = (value: T): void => {
+    const raw = JSON.stringify(value)
+
+    try {
+      window.localStorage.setItem(key, raw)
+      cache = { raw, value }
+    } catch (error) {
+      // Quota exceeded or storage disabled - keep the value for this session
+      logger.warn('Failed to persist value', { key, error })
+      cache = { raw: readRaw(key), value }
+    }
+
+    notify()
+  }
+
+  const update = (updater: (prev: T) => T): void => {
+    set(updater(get()))
+  }
+
+  const handleStorage = (event: StorageEvent): void => {
+    if (event.key === key || event.key === null) {
+      notify()
+    }
+  }
+
+  const subscribe = (listener: () => void): (() => void) => {
+    if (listeners.size === 0) {
+      window.addEventListener('storage', handleStorage)
+    }
+    listeners.add(listener)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) {
+        window.removeEventListener('storage', handleStorage)
+      }
+    }
+  }
+
+  return { key, get, set, update, subscribe }
+}
@@ -1,5 +1,7 @@
 import { PostgrestError } from '@supabase/supabase-js'
 
+import { translate } from '../i18n'
+
 /**
  * Application-level error types for Supabase operations
  * These provide user-friendly categorization of database errors
@@ -77,19 +79,10 @@ const POSTGREST_ERROR_CODE_MAP: Record<string, SupabaseErrorType> = {
 }
 
 /**
- * User-friendly error messages for each error type
+ * User-friendly error message for an error type, in the active locale
  */
-const ERROR_MESSAGES: Record<SupabaseErrorType, string> = {
-  QUERY_ERROR: 'An error occurred while fetching data. Please try again.',
-  NOT_FOUND: 'The requested resource was not found.',
-  VALIDATION_ERROR: 'Invalid data provided. Please check your input.',
-  CONSTRAINT_ERROR:
-    'This operation conflicts with existing data. Please try again.',
-  CONNECTION_ERROR:
-    'Unable to connect to the server. Please check your connection.',
-  TIMEOUT_ERROR: 'The request took too long. Please try again.',
-  PERMISSION_ERROR: 'You do not have permission to perform this action.',
-  UNKNOWN_ERROR: 'An unexpected error occurred. Please try again later.',
+function getErrorMessage(errorType: SupabaseErrorType): string {
+  return translate(`errors.${errorType}`)
 }
 
 /**
@@ -115,7 +108,7 @@ export function handleSupabaseError(error: PostgrestError): SupabaseAppError {
   if (code?.startsWith('PGRST')) {
     const errorType = POSTGREST_ERROR_CODE_MAP[code] ?? 'QUERY_ERROR'
     return {
-      message: error.message || ERROR_MESSAGES[errorType],
+      message: error.message || getErrorMessage(errorType),
       type: errorType,
       originalError: error,
     }
@@ -125,7 +118,7 @@ export function handleSupabaseError(error: PostgrestError): SupabaseAppError {
   if (code && code.length === 5) {
     const errorType = PG_ERROR_CODE_MAP[code] ?? 'QUERY_ERROR'
     return {
-      message: ERROR_MESSAGES[errorType],
+      message: getErrorMessage(errorType),
       type: errorType,
       originalError: error,
     }
@@ -133,7 +126,7 @@ export function handleSupabaseError(error: PostgrestError): SupabaseAppError {
 
   // Fallback for unrecognized errors
   return {
-    message: error.message || ERROR_MESSAGES.UNKNOWN_ERROR,
+    message: error.message || getErrorMessage('UNKNOWN_ERROR'),
     type: 'UNKNOWN_ERROR',
     originalError: error,
   }
@@ -167,7 +160,7 @@ export function handleUnknownError(error: unknown): SupabaseAppError {
   // Handle network errors
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return {
-      message: ERROR_MESSAGES.CONNECTION_ERROR,
+      message: getErrorMessage('CONNECTION_ERROR'),
       type: 'CONNECTION_ERROR',
       originalError: error,
     }
@@ -176,7 +169,7 @@ export function handleUnknownError(error: unknown): SupabaseAppError {
   // Handle timeout errors
   if (error instanceof Error && error.name === 'AbortError') {
     return {
-      message: ERROR_MESSAGES.TIMEOUT_ERROR,
+      message: getErrorMessage('TIMEOUT_ERROR'),
       type: 'TIMEOUT_ERROR',
       originalError: error,
     }
@@ -185,7 +178,7 @@ export function handleUnknownError(error: unknown): SupabaseAppError {
   // Handle generic Error objects
   if (error instanceof Error) {
     return {
-      message: error.message || ERROR_MESSAGES.UNKNOWN_ERROR,
+      message: error.message || getErrorMessage('UNKNOWN_ERROR'),
       type: 'UNKNOWN_ERROR',
       originalError: error,
     }
@@ -193,7 +186,7 @@ export function handleUnknownError(error: unknown): SupabaseAppError {
 
   // Fallback for completely unknown errors
   return {
-    message: ERROR_MESSAGES.UNKNOWN_ERROR,
+    message: getErrorMessage('UNKNOWN_ERROR'),
     type: 'UNKNOWN_ERROR',
     originalError: error,
   }
@@ -34,27 +34,75 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_subscriptions: {
+        Row: {
+          created_at: string
+          email: string
+          frequency: Database['public']['Enums']['digest_frequency_enum']
+          id: number
+          is_active: boolean
+          last_digest_at: string | null
+          locale: string
+          name: string
+          search_params: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          frequency?: Database['public']['Enums']['digest_frequency_enum']
+          id?: number
+          is_active?: boolean
+          last_digest_at?: string | null
+          locale?: string
+          name: string
+          search_params?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          frequency?: Database['public']['Enums']['digest_frequency_enum']
+          id?: number
+          is_active?: boolean
+          last_digest_at?: string | null
+          locale?: string
+          name?: string
+          search_params?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       companies: {
         Row: {
           created_at: string
+          description: string | null
           id: number
           is_active: boolean | null
+          logo_url: string | null
           name: string
           updated_at: string
+          website: string | null
         }
         Insert: {
           created_at?: string
+          description?: string | null
           id?: number
           is_active?: boolean | null
+          logo_url?: string | null
           name: string
           updated_at?: string
+          website?: string | null
         }
         Update: {
           created_at?: string
+          description?: string | null
           id?: number
           is_active?: boolean | null
+          logo_url?: string | null
           name?: string
           updated_at?: string
+          website?: string | null
         }
         Relationships: []
       }
@@ -115,6 +163,14 @@ export type Database = {
           main_technologies: string[] | null
           province: Database['public']['Enums']['province_enum']
           responsibilities: string[] | null
+          salary_currency:
+            | Database['public']['Enums']['salary_currency_enum']
+            | null
+          salary_max: number | null
+          salary_min: number | null
+          salary_period:
+            | Database['public']['Enums']['salary_period_enum']
+            | null
           search_vector: unknown
           signature: string | null
           skill_must_have: string[] | null
@@ -140,6 +196,14 @@ export type Database = {
           main_technologies?: string[] | null
           province: Database['public']['Enums']['province_enum']
           responsibilities?: string[] | null
+          salary_currency?:
+            | Database['public']['Enums']['salary_currency_enum']
+            | null
+          salary_max?: number | null
+          salary_min?: number | null
+          salary_period?:
+            | Database['public']['Enums']['salary_period_enum']
+            | null
           search_vector?: unknown
           signature?: string | null
           skill_must_have?: string[] | null
@@ -165,6 +229,14 @@ export type Database = {
           main_technologies?: string[] | null
           province?: Database['public']['Enums']['province_enum']
           responsibilities?: string[] | null
+          salary_currency?:
+            | Database['public']['Enums']['salary_currency_enum']
+            | null
+          salary_max?: number | null
+          salary_min?: number | null
+          salary_period?:
+            | Database['public']['Enums']['salary_period_enum']
+            | null
           search_vector?: unknown
           signature?: string | null
           skill_must_have?: string[] | null
@@ -246,36 +318,209 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      count_jobs: {
+        Args: {
+          p_company?: string[]
+          p_date_from?: string
+          p_date_to?: string
+          p_employment_type?: Database['public']['Enums']['employment_type_enum'][]
+          p_exclude_company?: string[]
+          p_exclude_job_ids?: number[]
+          p_experience_level?: Database['public']['Enums']['experience_level_enum'][]
+          p_job_function?: Database['public']['Enums']['job_function_enum'][]
+          p_language?: Database['public']['Enums']['language_enum'][]
+          p_province?: Database['public']['Enums']['province_enum'][]
+          p_salary_max?: number
+          p_salary_min?: number
+          p_technology?: string[]
+          p_technology_required_only?: boolean
+          p_usd_to_crc_rate?: number
+          p_work_mode?: Database['public']['Enums']['work_mode_enum'][]
+          search_query: string
+        }
+        Returns: number
+      }
       get_companies_for_search: {
         Args: {
           p_date_from?: string
           p_date_to?: string
           p_employment_type?: Database['public']['Enums']['employment_type_enum'][]
+          p_exclude_company?: string[]
+          p_exclude_job_ids?: number[]
           p_experience_level?: Database['public']['Enums']['experience_level_enum'][]
           p_job_function?: Database['public']['Enums']['job_function_enum'][]
-          p_language?: Database['public']['Enums']['language_enum']
+          p_language?: Database['public']['Enums']['language_enum'][]
+          p_limit?: number
+          p_province?: Database['public']['Enums']['province_enum'][]
+          p_salary_max?: number
+          p_salary_min?: number
+          p_technology?: string[]
+          p_technology_required_only?: boolean
+          p_usd_to_crc_rate?: number
+          p_work_mode?: Database['public']['Enums']['work_mode_enum'][]
+          search_query: string
+        }
+        Returns: {
+          company_name: string
+          job_count: number
+        }[]
+      }
+      get_company_directory: {
+        Args: {
+          p_job_function?: Database['public']['Enums']['job_function_enum'][]
           p_limit?: number
+          p_offset?: number
+          p_search?: string
+          p_sort?: string
+        }
+        Returns: {
+          company_id: number
+          company_logo_url: string | null
+          company_name: string
+          job_count: number
+          total_count: number
+        }[]
+      }
+      get_company_job_breakdown: {
+        Args: {
+          p_company_id: number
+        }
+        Returns: {
+          facet: string
+          job_count: number
+          value: string
+        }[]
+      }
+      get_search_facets: {
+        Args: {
+          p_company?: string[]
+          p_date_from?: string
+          p_date_to?: string
+          p_employment_type?: Database['public']['Enums']['employment_type_enum'][]
+          p_exclude_company?: string[]
+          p_exclude_job_ids?: number[]
+          p_experience_level?: Database['public']['Enums']['experience_level_enum'][]
+          p_job_function?: Database['public']['Enums']['job_function_enum'][]
+          p_language?: Database['public']['Enums']['language_enum'][]
           p_province?: Database['public']['Enums']['province_enum'][]
+          p_salary_max?: number
+          p_salary_min?: number
+          p_technology?: string[]
+          p_technology_required_only?: boolean
+          p_usd_to_crc_rate?: number
           p_work_mode?: Database['public']['Enums']['work_mode_enum'][]
           search_query: string
         }
         Returns: {
+          facet: string
+          job_count: number
+          value: string
+        }[]
+      }
+      get_similar_jobs: {
+        Args: {
+          p_job_id: number
+          p_limit?: number
+        }
+        Returns: {
+          application_url: string
+          benefits: string[]
+          city: string
+          company_id: number
+          company_logo_url: string | null
           company_name: string
+          created_at: string
+          description: string
+          employment_type: Database['public']['Enums']['employment_type_enum']
+          experience_level: Database['public']['Enums']['experience_level_enum']
+          id: number
+          is_active: boolean
+          job_function: Database['public']['Enums']['job_function_enum']
+          language: Database['public']['Enums']['language_enum']
+          location: Database['public']['Enums']['location_enum']
+          main_technologies: string[]
+          province: Database['public']['Enums']['province_enum']
+          responsibilities: string[]
+          salary_currency:
+            | Database['public']['Enums']['salary_currency_enum']
+            | null
+          salary_max: number | null
+          salary_min: number | null
+          salary_period:
+            | Database['public']['Enums']['salary_period_enum']
+            | null
+          skill_must_have: string[]
+          skill_nice_have: string[]
+          title: string
+          total_count: number
+          updated_at: string
+          work_mode: Database['public']['Enums']['work_mode_enum']
+        }[]
+      }
+      get_technologies_for_search: {
+        Args: {
+          p_company?: string[]
+          p_date_from?: string
+          p_date_to?: string
+          p_employment_type?: Database['public']['Enums']['employment_type_enum'][]
+          p_exclude_company?: string[]
+          p_exclude_job_ids?: number[]
+          p_experience_level?: Database['public']['Enums']['experience_level_enum'][]
+          p_job_function?: Database['public']['Enums']['job_function_enum'][]
+          p_language?: Database['public']['Enums']['language_enum'][]
+          p_limit?: number
+          p_province?: Database['public']['Enums']['province_enum'][]
+          p_salary_max?: number
+          p_salary_min?: number
+          p_technology_required_only?: boolean
+          p_usd_to_crc_rate?: number
+          p_work_mode?: Database['public']['Enums']['work_mode_enum'][]
+          search_query: string
+        }
+        Returns: {
+          aliases: string[]
           job_count: number
+          parent_id: number | null
+          rollup_job_count: number
+          technology_id: number
+          technology_name: string
         }[]
       }
+      resolve_technology_ids: {
+        Args: {
+          p_technology: string[]
+        }
+        Returns: number[]
+      }
+      salary_to_monthly_usd: {
+        Args: {
+          p_amount: number
+          p_currency: Database['public']['Enums']['salary_currency_enum']
+          p_period: Database['public']['Enums']['salary_period_enum']
+          p_usd_to_crc_rate: number
+        }
+        Returns: number
+      }
       search_jobs: {
         Args: {
           p_company?: string[]
           p_date_from?: string
           p_date_to?: string
           p_employment_type?: Database['public']['Enums']['employment_type_enum'][]
+          p_exclude_company?: string[]
+          p_exclude_job_ids?: number[]
           p_experience_level?: Database['public']['Enums']['experience_level_enum'][]
           p_job_function?: Database['public']['Enums']['job_function_enum'][]
-          p_language?: Database['public']['Enums']['language_enum']
+          p_language?: Database['public']['Enums']['language_enum'][]
           p_limit?: number
           p_offset?: number
           p_province?: Database['public']['Enums']['province_enum'][]
+          p_salary_max?: number
+          p_salary_min?: number
+          p_sort?: string
+          p_technology?: string[]
+          p_technology_required_only?: boolean
+          p_usd_to_crc_rate?: number
           p_work_mode?: Database['public']['Enums']['work_mode_enum'][]
           search_query: string
         }
@@ -284,6 +529,7 @@ export type Database = {
           benefits: string[]
           city: string
           company_id: number
+          company_logo_url: string | null
           company_name: string
           created_at: string
           description: string
@@ -297,6 +543,14 @@ export type Database = {
           main_technologies: string[]
           province: Database['public']['Enums']['province_enum']
           responsibilities: string[]
+          salary_currency:
+            | Database['public']['Enums']['salary_currency_enum']
+            | null
+          salary_max: number | null
+          salary_min: number | null
+          salary_period:
+            | Database['public']['Enums']['salary_period_enum']
+            | null
           skill_must_have: string[]
           skill_nice_have: string[]
           title: string
@@ -305,8 +559,23 @@ export type Database = {
           work_mode: Database['public']['Enums']['work_mode_enum']
         }[]
       }
+      suggest_search_terms: {
+        Args: {
+          p_language?: Database['public']['Enums']['language_enum'][]
+          p_limit?: number
+          p_query: string
+        }
+        Returns: {
+          job_count: number
+          label: string
+          matched_alias: string | null
+          score: number
+          suggestion_type: string
+        }[]
+      }
     }
     Enums: {
+      digest_frequency_enum: 'daily' | 'weekly'
       employment_type_enum:
         | 'full-time'
         | 'part-time'
@@ -347,6 +616,8 @@ export type Database = {
         | 'puntarenas'
         | 'limon'
         | 'cartago'
+      salary_currency_enum: 'usd' | 'crc'
+      salary_period_enum: 'hourly' | 'monthly' | 'yearly'
       work_mode_enum: 'remote' | 'hybrid' | 'onsite'
     }
     CompositeTypes: {
@@ -478,6 +749,7 @@ export const Constants = {
   },
   public: {
     Enums: {
+      digest_frequency_enum: ['daily', 'weekly'],
       employment_type_enum: [
         'full-time',
         'part-time',
@@ -522,6 +794,8 @@ export const Constants = {
         'limon',
         'cartago',
       ],
+      salary_currency_enum: ['usd', 'crc'],
+      salary_period_enum: ['hourly', 'monthly', 'yearly'],
       work_mode_enum: ['remote', 'hybrid', 'onsite'],
     },
   },
@@ -1,33 +1,70 @@
+/**
+ * CompanyAvatar Component
+ *
+ * Company logo with a monogram fallback. Logos are lazy-loaded; URLs that
+ * fail to load are remembered for the session, so every later avatar for
+ * that company shows the monogram straight away instead of retrying.
+ */
+
 import { Avatar } from '@mui/material'
 import { useState } from 'react'
 
+// =============================================================================
+// Types
+// =============================================================================
+
 interface CompanyAvatarProps {
+  /** Company name (used for the monogram and alt text) */
   company: string
+  /** Avatar width and height in pixels */
   size?: number
-  logoUrl?: string
+  /** Logo URL (monogram when missing) */
+  logoUrl?: string | null | undefined
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Logo URLs that failed to load during this session
+ */
+const failedLogoUrls = new Set<string>()
+
+/**
+ * First letter of the company name, uppercased
+ */
+function getMonogram(company: string): string {
+  return company.trim().charAt(0).toUpperCase() || 'C'
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Rounded company logo
+ *
+ * @example
+ * ```tsx
+ * <CompanyAvatar company={job.company} logoUrl={job.companyLogoUrl} size={60} />
+ * ```
+ */
 export default function CompanyAvatar({
   company,
   size = 56,
   logoUrl,
 }: CompanyAvatarProps) {
-  const [imageError, setImageError] = useState(false)
+  // Re-render when this avatar's logo fails (the cache itself is not state)
+  const [, setFailedUrl] = useState<string | null>(null)
+  const showImage = !!logoUrl && !failedLogoUrls.has(logoUrl)
 
-  // Generate logo path from company name
-  const getLogoPath = (companyName: string): string => {
-    const normalizedName = companyName
-      .toLowerCase()
-      .replace(/[^a-z0-9]/g, '_')
-      .replace(/-+/g, '_')
-      .replace(/^-|-$/g, '')
-
-    return `/src/assets/company_logos/${normalizedName}.jpeg`
+  const handleError = () => {
+    if (!logoUrl) return
+    failedLogoUrls.add(logoUrl)
+    setFailedUrl(logoUrl)
   }
 
-  const logoPath = logoUrl ?? getLogoPath(company)
-  const showImage = !imageError
-
   return (
     <Avatar
       variant='rounded'
@@ -42,17 +79,21 @@ export default function CompanyAvatar({
     >
       {showImage ? (
         <img
-          src={logoPath}
+          src={logoUrl}
           alt={`${company} logo`}
+          loading='lazy'
+          decoding='async'
+          width={size}
+          height={size}
           style={{
             width: '100%',
             height: '100%',
             objectFit: 'contain',
           }}
-          onError={() => setImageError(true)}
+          onError={handleError}
         />
       ) : (
-        company?.charAt(0)?.toUpperCase() || 'C'
+        getMonogram(company)
       )}
     </Avatar>
   )
@@ -1,24 +1,47 @@
 /**
  * Header Component
  *
- * Application header with search bar and filter chips.
+ * Application header with search bar, filter chips, notifications and
+ * language switcher.
  */
 
-import SearchIcon from '@mui/icons-material/Search'
+import AssignmentTurnedInOutlinedIcon from '@mui/icons-material/AssignmentTurnedInOutlined'
+import BookmarkBorderIcon from '@mui/icons-material/BookmarkBorder'
+import BusinessOutlinedIcon from '@mui/icons-material/BusinessOutlined'
+import TuneIcon from '@mui/icons-material/Tune'
+import VisibilityOffOutlinedIcon from '@mui/icons-material/VisibilityOffOutlined'
 import {
   AppBar,
+  Badge,
   Box,
   Button,
   Container,
-  InputAdornment,
+  Drawer,
+  IconButton,
   Stack,
-  TextField,
+  Tooltip,
+  Typography,
+  useMediaQuery,
 } from '@mui/material'
+import type { Theme } from '@mui/material/styles'
 import type { MouseEvent } from 'react'
+import { useState } from 'react'
+import { Link as RouterLink } from 'react-router-dom'
 
+import type { JobAlertsMenuProps } from '@/jobs/components/alerts'
+import { JobAlertsMenu } from '@/jobs/components/alerts'
 import { FILTER_CONFIG, FilterChip } from '@/jobs/components/filters'
+import type { SavedSearchesMenuProps } from '@/jobs/components/search'
+import {
+  QueryTokens,
+  SavedSearchesMenu,
+  SearchAutocomplete,
+} from '@/jobs/components/search'
 import type { AnchorElements } from '@/jobs/hooks'
 import type { FilterKey } from '@/jobs/types/filters'
+import type { SearchSuggestion } from '@/jobs/types/models'
+import { useTranslation } from '@/services/i18n'
+import LanguageSwitcher from '@/shared/components/LanguageSwitcher'
 
 // =============================================================================
 // Types
@@ -31,12 +54,32 @@ interface HeaderProps {
   onSearchChange: (query: string) => void
   /** Handler for search button click */
   onSearch: () => void
+  /** Search-as-you-type suggestions for the current query */
+  searchSuggestions?: SearchSuggestion[]
+  /** Whether suggestions are loading */
+  isLoadingSuggestions?: boolean
+  /** Handler for picking a suggestion (defaults to filling the query) */
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void
+  /** Remove a parsed query token (tokens are hidden when omitted) */
+  onRemoveQueryToken?: (index: number) => void
   /** Anchor elements for filter dropdowns */
   anchorEls: AnchorElements
   /** Handler for filter chip click */
   onFilterClick: (filterKey: FilterKey, event: MouseEvent<HTMLElement>) => void
   /** Get the count of active selections for a filter */
   getActiveFilterCount: (filterKey: FilterKey) => number
+  /** Number of saved jobs (shown on the Saved link) */
+  savedJobsCount?: number
+  /** Saved searches menu props (menu is hidden when omitted) */
+  savedSearches?: SavedSearchesMenuProps | undefined
+  /** Job alerts and notifications inbox props (bell is hidden when omitted) */
+  jobAlerts?: JobAlertsMenuProps | undefined
+  /** Number of hidden jobs and companies */
+  hiddenItemsCount?: number
+  /** Open the hidden items panel (button is hidden when omitted) */
+  onOpenHiddenItems?: () => void
+  /** Open the all filters drawer (button is hidden when omitted) */
+  onOpenAllFilters?: () => void
 }
 
 // =============================================================================
@@ -45,15 +88,47 @@ interface HeaderProps {
 
 /**
  * Application header with search and filter chips
+ *
+ * Below the `md` breakpoint the filter chips collapse into a bottom-sheet
+ * drawer opened from a "Filters" button.
  */
 export default function Header({
   searchQuery,
   onSearchChange,
   onSearch,
+  searchSuggestions = [],
+  isLoadingSuggestions = false,
+  onSelectSuggestion,
+  onRemoveQueryToken,
   anchorEls,
   onFilterClick,
   getActiveFilterCount,
+  savedJobsCount = 0,
+  savedSearches,
+  jobAlerts,
+  hiddenItemsCount = 0,
+  onOpenHiddenItems,
+  onOpenAllFilters,
 }: HeaderProps) {
+  const { t } = useTranslation()
+  const isMobile = useMediaQuery((theme: Theme) => theme.breakpoints.down('md'))
+  const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false)
+
+  const activeFilterCount = FILTER_CONFIG.reduce(
+    (total, config) => total + getActiveFilterCount(config.key),
+    0
+  )
+
+  const filterChips = FILTER_CONFIG.map(config => (
+    <FilterChip
+      key={config.key}
+      filterKey={config.key}
+      isOpen={Boolean(anchorEls[config.key])}
+      activeCount={getActiveFilterCount(config.key)}
+      onClick={onFilterClick}
+    />
+  ))
+
   return (
     <AppBar
       position='sticky'
@@ -96,35 +171,20 @@ export default function Header({
                 },
               }}
             >
-              JobHub
+              {t('common.appName')}
             </Button>
 
-            {/* Search Input */}
-            <TextField
+            {/* Search Input with Suggestions */}
+            <SearchAutocomplete
               value={searchQuery}
-              onChange={e => onSearchChange(e.target.value)}
-              onKeyDown={e => e.key === 'Enter' && onSearch()}
-              placeholder='Job title or skill'
-              autoComplete='off'
-              size='small'
-              sx={{
-                maxWidth: { xs: '100%', sm: 200 },
-                '& .MuiOutlinedInput-root': {
-                  borderRadius: '20px',
-                  bgcolor: '#ffffff',
-                  '&:hover fieldset': { borderColor: '#0a66c2' },
-                  '&.Mui-focused fieldset': { borderColor: '#0a66c2' },
-                },
-              }}
-              slotProps={{
-                input: {
-                  startAdornment: (
-                    <InputAdornment position='start'>
-                      <SearchIcon sx={{ color: '#666' }} />
-                    </InputAdornment>
-                  ),
-                },
-              }}
+              onChange={onSearchChange}
+              onSubmit={onSearch}
+              suggestions={searchSuggestions}
+              isLoading={isLoadingSuggestions}
+              onSelectSuggestion={
+                onSelectSuggestion ??
+                (suggestion => onSearchChange(suggestion.label))
+              }
             />
 
             {/* Search Button */}
@@ -141,22 +201,245 @@ export default function Header({
                 '&:hover': { bgcolor: '#004182' },
               }}
             >
-              Search
+              {t('common.search')}
             </Button>
+
+            {/* Saved Searches Menu */}
+            {savedSearches && (
+              <Box sx={{ ml: { sm: 'auto' } }}>
+                <SavedSearchesMenu {...savedSearches} />
+              </Box>
+            )}
+
+            {/* Saved Jobs Link */}
+            <Button
+              component={RouterLink}
+              to='/jobs/saved'
+              startIcon={
+                <Badge
+                  badgeContent={savedJobsCount}
+                  color='primary'
+                  max={99}
+                  sx={{ '& .MuiBadge-badge': { bgcolor: '#0a66c2' } }}
+                >
+                  <BookmarkBorderIcon />
+                </Badge>
+              }
+              sx={{
+                ml: { sm: savedSearches ? 0 : 'auto' },
+                color: '#0a66c2',
+                borderRadius: '20px',
+                px: 2,
+                textTransform: 'none',
+                fontWeight: 'bold',
+                fontSize: 'body1.fontSize',
+              }}
+            >
+              {t('header.saved')}
+            </Button>
+
+            {/* Applications Link */}
+            <Button
+              component={RouterLink}
+              to='/jobs/applications'
+              startIcon={<AssignmentTurnedInOutlinedIcon />}
+              sx={{
+                color: '#0a66c2',
+                borderRadius: '20px',
+                px: 2,
+                textTransform: 'none',
+                fontWeight: 'bold',
+                fontSize: 'body1.fontSize',
+              }}
+            >
+              {t('header.applications')}
+            </Button>
+
+            {/* Companies Link */}
+            <Button
+              component={RouterLink}
+              to='/companies'
+              startIcon={<BusinessOutlinedIcon />}
+              sx={{
+                color: '#0a66c2',
+                borderRadius: '20px',
+                px: 2,
+                textTransform: 'none',
+                fontWeight: 'bold',
+                fontSize: 'body1.fontSize',
+              }}
+            >
+              {t('header.companies')}
+            </Button>
+
+            {/* Notifications Inbox */}
+            {jobAlerts && <JobAlertsMenu {...jobAlerts} />}
+
+            {/* Hidden Items Button */}
+            {onOpenHiddenItems && (
+              <Tooltip title={t('header.hiddenItems')}>
+                <IconButton
+                  onClick={onOpenHiddenItems}
+                  aria-label={t('header.hiddenItems')}
+                  sx={{ color: '#0a66c2', alignSelf: 'center' }}
+                >
+                  <Badge
+                    badgeContent={hiddenItemsCount}
+                    max={99}
+                    sx={{
+                      '& .MuiBadge-badge': { bgcolor: '#666', color: 'white' },
+                    }}
+                  >
+                    <VisibilityOffOutlinedIcon />
+                  </Badge>
+                </IconButton>
+              </Tooltip>
+            )}
+
+            {/* Language Switcher */}
+            <LanguageSwitcher />
           </Stack>
 
-          {/* Filter Chips Row */}
-          <Stack direction='row' spacing={1} flexWrap='wrap' sx={{ gap: 1 }}>
-            {FILTER_CONFIG.map(config => (
-              <FilterChip
-                key={config.key}
-                filterKey={config.key}
-                isOpen={Boolean(anchorEls[config.key])}
-                activeCount={getActiveFilterCount(config.key)}
-                onClick={onFilterClick}
+          {/* Parsed Query Tokens */}
+          {onRemoveQueryToken && (
+            <Box sx={{ mb: 2, '&:empty': { display: 'none' } }}>
+              <QueryTokens
+                query={searchQuery}
+                onRemoveToken={onRemoveQueryToken}
               />
-            ))}
-          </Stack>
+            </Box>
+          )}
+
+          {isMobile ? (
+            <>
+              {/* Filter Drawer Button */}
+              <Button
+                variant='outlined'
+                onClick={() => setIsFilterDrawerOpen(true)}
+                startIcon={
+                  <Badge
+                    badgeContent={activeFilterCount}
+                    max={99}
+                    sx={{
+                      '& .MuiBadge-badge': {
+                        bgcolor: '#0a66c2',
+                        color: 'white',
+                      },
+                    }}
+                  >
+                    <TuneIcon />
+                  </Badge>
+                }
+                sx={{
+                  color: '#0a66c2',
+                  borderColor: '#0a66c2',
+                  borderRadius: '20px',
+                  px: 2,
+                  textTransform: 'none',
+                  fontWeight: 'bold',
+                }}
+              >
+                {t('header.filters')}
+              </Button>
+
+              {/* Filter Drawer (filter menus open above it) */}
+              <Drawer
+                anchor='bottom'
+                open={isFilterDrawerOpen}
+                onClose={() => setIsFilterDrawerOpen(false)}
+                slotProps={{
+                  paper: {
+                    sx: {
+                      borderTopLeftRadius: 16,
+                      borderTopRightRadius: 16,
+                      maxHeight: '80vh',
+                      px: 2,
+                      pt: 1,
+                      pb: 3,
+                    },
+                  },
+                }}
+              >
+                {/* Sheet handle */}
+                <Box
+                  sx={{
+                    width: 40,
+                    height: 4,
+                    borderRadius: 2,
+                    bgcolor: '#e0e0e0',
+                    mx: 'auto',
+                    mb: 2,
+                  }}
+                />
+                <Box
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    mb: 2,
+                  }}
+                >
+                  <Typography variant='h6' sx={{ fontWeight: 600 }}>
+                    {t('header.filters')}
+                  </Typography>
+                  <Button
+                    onClick={() => setIsFilterDrawerOpen(false)}
+                    sx={{
+                      color: '#0a66c2',
+                      textTransform: 'none',
+                      fontWeight: 'bold',
+                    }}
+                  >
+                    {t('header.filtersDone')}
+                  </Button>
+                </Box>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {filterChips}
+                </Box>
+                {onOpenAllFilters && (
+                  <Button
+                    fullWidth
+                    variant='outlined'
+                    startIcon={<TuneIcon />}
+                    onClick={() => {
+                      setIsFilterDrawerOpen(false)
+                      onOpenAllFilters()
+                    }}
+                    sx={{
+                      mt: 3,
+                      color: '#0a66c2',
+                      borderColor: '#0a66c2',
+                      borderRadius: '20px',
+                      textTransform: 'none',
+                      fontWeight: 'bold',
+                    }}
+                  >
+                    {t('filters.allFilters.open')}
+                  </Button>
+                )}
+              </Drawer>
+            </>
+          ) : (
+            /* Filter Chips Row */
+            <Stack direction='row' spacing={1} flexWrap='wrap' sx={{ gap: 1 }}>
+              {filterChips}
+              {onOpenAllFilters && (
+                <Button
+                  startIcon={<TuneIcon />}
+                  onClick={onOpenAllFilters}
+                  sx={{
+                    color: '#0a66c2',
+                    borderRadius: '20px',
+                    px: 2,
+                    textTransform: 'none',
+                    fontWeight: 'bold',
+                  }}
+                >
+                  {t('filters.allFilters.open')}
+                </Button>
+              )}
+            </Stack>
+          )}
         </Box>
       </Container>
     </AppBar>
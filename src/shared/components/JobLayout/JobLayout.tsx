@@ -3,22 +3,54 @@
  *
  * Main layout component for the job search page.
  * Integrates header, filters, job list, and job details.
+ * Below the `md` breakpoint only the list is shown; a job opens in a
+ * full-screen view backed by the URL so the browser back button closes it.
  */
 
-import { JobDetails, JobFilters, JobList } from '@jobs/components'
+import { removeQueryToken } from '@jobs/api'
+import {
+  AllFiltersDrawer,
+  HiddenItemsDialog,
+  JobDetails,
+  JobFilters,
+  JobList,
+} from '@jobs/components'
 import { PAGINATION } from '@jobs/constants'
+import type { JobListMode } from '@jobs/hooks'
 import {
+  paginationToURLParams,
+  savedSearchToFilters,
+  urlParamsToPage,
+  useApplications,
   useCompanyOptions,
+  useHiddenItems,
+  useInfiniteJobSearch,
+  useJobAlerts,
+  useJobCount,
   useJobFilters,
   useJobPagination,
   useJobSearch,
+  useListMode,
+  useMobileJobView,
+  useSavedJobs,
+  useSavedSearches,
+  useSearchFacets,
+  useSearchSuggestions,
+  useSimilarJobs,
+  useTechnologyOptions,
 } from '@jobs/hooks'
-import type { Job } from '@jobs/types/models'
-import { Box } from '@mui/material'
+import type { JobSearchFilters } from '@jobs/types/filters'
+import { DEFAULT_SORT, hasActiveFilters } from '@jobs/types/filters'
+import type { Job, SearchSuggestion } from '@jobs/types/models'
+import { Box, Dialog, useMediaQuery } from '@mui/material'
+import type { Theme } from '@mui/material/styles'
 import type { MouseEvent, ReactElement } from 'react'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import { useTranslation } from '@/services/i18n'
 
 import Header from '../Header'
+import PageHeader from '../PageHeader'
 
 // =============================================================================
 // Helpers
@@ -49,6 +81,12 @@ const resetToPageOne = (
 // =============================================================================
 
 export default function JobLayout(): ReactElement {
+  const { t } = useTranslation()
+
+  // Narrow screens drill down from the list into a full-screen job view
+  const isMobile = useMediaQuery((theme: Theme) => theme.breakpoints.down('md'))
+  const { openJobId, openJob, closeJob } = useMobileJobView()
+
   // Search query state
   const [searchQuery, setSearchQuery] = useState<string>('')
   const [appliedSearchQuery, setAppliedSearchQuery] = useState<string>('')
@@ -57,27 +95,120 @@ export default function JobLayout(): ReactElement {
   const {
     jobs: apiJobs,
     pagination: apiPagination,
-    isFetching,
+    activeFilters,
+    isFetching: isFetchingPage,
     search,
   } = useJobSearch()
 
+  // List mode hook (numbered pages or infinite scroll)
+  const { listMode, setListMode } = useListMode()
+  const isInfinite = listMode === 'infinite'
+
+  // Page the infinite list starts at (restored from the URL on first load)
+  const [infiniteStartPage, setInfiniteStartPage] = useState<number>(
+    PAGINATION.DEFAULT_PAGE
+  )
+
+  // Infinite scroll results (only loaded in infinite mode)
+  const infinite = useInfiniteJobSearch(
+    isInfinite ? activeFilters : null,
+    infiniteStartPage
+  )
+  const listJobs = isInfinite ? infinite.jobs : apiJobs
+  const isFetching = isInfinite ? infinite.isFetching : isFetchingPage
+
   // Job filters hook
   const {
     filters,
     anchorEls,
     toggleFilter,
     setFilter,
+    setSort,
+    setTechnologyRequiredOnly,
+    setDateRange,
+    setSalaryRange,
     openDropdown,
     closeDropdown,
     getActiveCount,
+    replaceFilters,
   } = useJobFilters()
 
-  // Company options hook
+  // Staged filters of the all filters drawer (applied in one go)
+  const [isAllFiltersOpen, setIsAllFiltersOpen] = useState(false)
+  const {
+    filters: draftFilters,
+    toggleFilter: toggleDraftFilter,
+    setFilter: setDraftFilter,
+    setTechnologyRequiredOnly: setDraftTechnologyRequiredOnly,
+    setDateRange: setDraftDateRange,
+    setSalaryRange: setDraftSalaryRange,
+    clearAllFilters: clearDraftFilters,
+    replaceFilters: replaceDraftFilters,
+  } = useJobFilters(false)
+
+  // Result count preview for the staged filters
+  const draftSearchFilters = useMemo(
+    () =>
+      isAllFiltersOpen ? { ...draftFilters, query: appliedSearchQuery } : null,
+    [isAllFiltersOpen, draftFilters, appliedSearchQuery]
+  )
+  const { count: draftResultCount, isLoading: isCountingDraft } =
+    useJobCount(draftSearchFilters)
+
+  // Job counts next to the filter options (menus follow the applied
+  // filters, the drawer follows the staged ones)
+  const appliedSearchFilters = useMemo(
+    () => ({ ...filters, query: appliedSearchQuery }),
+    [filters, appliedSearchQuery]
+  )
+  const { facets } = useSearchFacets(appliedSearchFilters)
+  const { facets: draftFacets } = useSearchFacets(draftSearchFilters)
+
+  // Company options hook (loaded by the first-load search instead of on mount)
   const {
     companies,
     isLoading: isLoadingCompanies,
     refreshForSearch,
-  } = useCompanyOptions()
+  } = useCompanyOptions(false)
+
+  // Technology options hook (loaded by the first-load search instead of on mount)
+  const {
+    technologyTree,
+    isLoading: isLoadingTechnologies,
+    refreshForSearch: refreshTechnologiesForSearch,
+  } = useTechnologyOptions(false)
+
+  // Saved jobs hook
+  const { savedCount, isSaved, toggleSaved } = useSavedJobs()
+
+  // Application tracking hook
+  const { getApplication, recordApplied, updateApplication } = useApplications()
+
+  // Saved searches hook
+  const { savedSearches, newJobCounts, saveSearch, deleteSearch, markOpened } =
+    useSavedSearches()
+
+  // Job alerts and their notifications inbox (checked app-wide, see App)
+  const jobAlerts = useJobAlerts()
+
+  // Hidden jobs/companies hook
+  const {
+    hiddenJobs,
+    hiddenCompanies,
+    hiddenCount,
+    hideJob,
+    unhideJob,
+    hideCompany,
+    unhideCompany,
+    clearHidden,
+  } = useHiddenItems()
+  const [isHiddenItemsOpen, setIsHiddenItemsOpen] = useState(false)
+
+  // Search-as-you-type suggestions
+  const { suggestions, isLoading: isLoadingSuggestions } = useSearchSuggestions(
+    searchQuery,
+    filters.language
+  )
 
   // Build complete filters with query
   const buildFilters = useCallback(() => {
@@ -98,46 +229,144 @@ export default function JobLayout(): ReactElement {
     setSelectedJobId,
     handlePageChange,
     setSearchParams,
-  } = useJobPagination(apiJobs, apiPagination, search, buildFilters())
+  } = useJobPagination(listJobs, apiPagination, search, buildFilters())
+
+  // Full-screen job view (mobile only)
+  const isJobViewOpen =
+    isMobile && openJobId !== null && selectedJob?.id === openJobId
+
+  // Related postings for the details panel
+  const { similarJobs, isLoading: isLoadingSimilarJobs } = useSimilarJobs(
+    selectedJob?.id
+  )
 
   // ==========================================================================
   // Handlers
   // ==========================================================================
 
+  /**
+   * Run a search with the given filters and refresh filter options
+   *
+   * Searches start at page 1 unless a page is given (e.g. an infinite
+   * list restored from the URL).
+   */
+  const runSearch = useCallback(
+    async (
+      searchFilters: JobSearchFilters,
+      page: number = PAGINATION.DEFAULT_PAGE
+    ): Promise<void> => {
+      if (page === PAGINATION.DEFAULT_PAGE) {
+        resetToPageOne(setSearchParams)
+      }
+      setInfiniteStartPage(page)
+
+      try {
+        await search(searchFilters, {
+          page,
+          pageSize: PAGINATION.PAGE_SIZE,
+        })
+
+        // Clear selection and update applied query
+        setSelectedJobId(null)
+        setAppliedSearchQuery(searchFilters.query)
+
+        // Refresh company and technology options based on new search
+        await Promise.all([
+          refreshForSearch(searchFilters),
+          refreshTechnologiesForSearch(searchFilters),
+        ])
+      } catch (error) {
+        console.error('Search failed:', error)
+      }
+    },
+    [
+      search,
+      setSearchParams,
+      setSelectedJobId,
+      refreshForSearch,
+      refreshTechnologiesForSearch,
+    ]
+  )
+
   /**
    * Handle search button click
    */
   const handleSearch = useCallback(async (): Promise<void> => {
-    if (!searchQuery.trim()) return
+    // An empty query browses all jobs matching the filters
+    await runSearch(buildFilters())
+  }, [buildFilters, runSearch])
+
+  /**
+   * Apply a picked suggestion: titles fill the query and search,
+   * companies and technologies apply the matching filter
+   */
+  const handleSelectSuggestion = useCallback(
+    async (suggestion: SearchSuggestion): Promise<void> => {
+      if (suggestion.type === 'title') {
+        setSearchQuery(suggestion.label)
+        await runSearch({ ...filters, query: suggestion.label })
+        return
+      }
+
+      const filterKey = suggestion.type === 'company' ? 'company' : 'technology'
+      if (!filters[filterKey]?.includes(suggestion.label)) {
+        toggleFilter(filterKey, suggestion.label)
+      }
+
+      // The typed text was only used to find the filter value
+      setSearchQuery(appliedSearchQuery)
+    },
+    [filters, appliedSearchQuery, runSearch, toggleFilter]
+  )
 
-    // Reset to page 1
-    resetToPageOne(setSearchParams)
+  /**
+   * Remove a parsed query token and re-run the search
+   */
+  const handleRemoveQueryToken = useCallback(
+    async (index: number): Promise<void> => {
+      const query = removeQueryToken(searchQuery, index)
+      setSearchQuery(query)
 
-    try {
-      const searchFilters = buildFilters()
+      await runSearch({ ...filters, query })
+    },
+    [searchQuery, filters, runSearch]
+  )
 
-      await search(searchFilters, {
-        page: PAGINATION.DEFAULT_PAGE,
-        pageSize: PAGINATION.PAGE_SIZE,
-      })
+  /**
+   * Open a saved search: restore its filters and run it
+   */
+  const handleRunSavedSearch = useCallback(
+    async (id: string): Promise<void> => {
+      const savedSearch = savedSearches.find(item => item.id === id)
+      if (!savedSearch) return
 
-      // Clear selection and update applied query
-      setSelectedJobId(null)
-      setAppliedSearchQuery(searchQuery)
+      markOpened(id)
 
-      // Refresh company options based on new search
-      await refreshForSearch(searchFilters)
-    } catch (error) {
-      console.error('Search failed:', error)
-    }
-  }, [
-    searchQuery,
-    buildFilters,
-    search,
-    setSearchParams,
-    setSelectedJobId,
-    refreshForSearch,
-  ])
+      const savedFilters = savedSearchToFilters(savedSearch)
+      const query = savedFilters.query ?? ''
+
+      replaceFilters(savedFilters)
+      setSearchQuery(query)
+      await runSearch({ ...savedFilters, query })
+    },
+    [savedSearches, markOpened, replaceFilters, runSearch]
+  )
+
+  /**
+   * Open the all filters drawer, staging a copy of the current filters
+   */
+  const handleOpenAllFilters = useCallback((): void => {
+    replaceDraftFilters(filters)
+    setIsAllFiltersOpen(true)
+  }, [filters, replaceDraftFilters])
+
+  /**
+   * Apply the staged filters (the filter effect runs a single search)
+   */
+  const handleApplyAllFilters = useCallback((): void => {
+    replaceFilters(draftFilters)
+    setIsAllFiltersOpen(false)
+  }, [draftFilters, replaceFilters])
 
   /**
    * Handle job selection
@@ -145,8 +374,44 @@ export default function JobLayout(): ReactElement {
   const handleJobSelect = useCallback(
     (job: Job): void => {
       setSelectedJobId(job.id)
+      if (isMobile) openJob(job.id)
+    },
+    [setSelectedJobId, isMobile, openJob]
+  )
+
+  /**
+   * Switch list modes, continuing from the page currently in view
+   */
+  const handleListModeChange = useCallback(
+    (mode: JobListMode): void => {
+      if (mode === 'infinite') {
+        setInfiniteStartPage(currentPage)
+      } else {
+        void handlePageChange(currentPage)
+      }
+      setListMode(mode)
+    },
+    [currentPage, handlePageChange, setListMode]
+  )
+
+  /**
+   * Write the page in view to the URL while scrolling the infinite list,
+   * so back navigation returns to it
+   */
+  const handleFirstVisibleIndexChange = useCallback(
+    (index: number): void => {
+      const page = infinite.items[index]?.page
+      if (page === undefined || page === currentPage) return
+
+      setSearchParams(
+        paginationToURLParams(
+          page,
+          new URLSearchParams(window.location.search)
+        ),
+        { replace: true }
+      )
     },
-    [setSelectedJobId]
+    [infinite.items, currentPage, setSearchParams]
   )
 
   /**
@@ -162,16 +427,33 @@ export default function JobLayout(): ReactElement {
     [openDropdown]
   )
 
-  // Track previous filters to detect changes
-  const prevFiltersJsonRef = useRef<string>('')
-
-  // Re-search when filters change (after initial search has been performed)
+  // Select the job open in the URL (e.g. after going forward in history)
   useEffect(() => {
-    // Skip if no search has been performed yet
-    if (!appliedSearchQuery) {
-      return
+    if (!isMobile || !openJobId || openJobId === selectedJobId) return
+
+    if (currentPageJobs.some(job => job.id === openJobId)) {
+      setSelectedJobId(openJobId)
     }
+  }, [isMobile, openJobId, selectedJobId, currentPageJobs, setSelectedJobId])
+
+  // Show the latest jobs (browse mode) on first load; an infinite list
+  // resumes at the page in the URL so back navigation returns to it
+  useEffect(() => {
+    runSearch(
+      buildFilters(),
+      isInfinite
+        ? urlParamsToPage(new URLSearchParams(window.location.search))
+        : PAGINATION.DEFAULT_PAGE
+    )
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []) // only on mount
+
+  // Track previous filters to detect changes (initial filters are
+  // covered by the first-load search)
+  const prevFiltersJsonRef = useRef<string>(JSON.stringify(filters))
 
+  // Re-search when filters change
+  useEffect(() => {
     // Compare filters by JSON to detect actual changes
     const currentFiltersJson = JSON.stringify(filters)
     if (prevFiltersJsonRef.current === currentFiltersJson) {
@@ -186,6 +468,7 @@ export default function JobLayout(): ReactElement {
       query: appliedSearchQuery,
     }
 
+    setInfiniteStartPage(PAGINATION.DEFAULT_PAGE)
     search(searchFilters, {
       page: PAGINATION.DEFAULT_PAGE,
       pageSize: PAGINATION.PAGE_SIZE,
@@ -197,6 +480,25 @@ export default function JobLayout(): ReactElement {
   // Render
   // ==========================================================================
 
+  // Shown in the split view on desktop and the full-screen view on mobile
+  const jobDetails = (
+    <JobDetails
+      job={selectedJob}
+      isFetching={isFetching}
+      isSaved={selectedJob ? isSaved(selectedJob.id) : false}
+      onToggleSave={selectedJob ? () => toggleSaved(selectedJob) : undefined}
+      application={selectedJob ? getApplication(selectedJob.id) : null}
+      onApply={selectedJob ? () => recordApplied(selectedJob) : undefined}
+      onApplicationChange={
+        selectedJob
+          ? changes => updateApplication(selectedJob.id, changes)
+          : undefined
+      }
+      similarJobs={similarJobs}
+      isLoadingSimilarJobs={isLoadingSimilarJobs}
+    />
+  )
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
       {/* Header with search and filter chips */}
@@ -204,9 +506,62 @@ export default function JobLayout(): ReactElement {
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
         onSearch={handleSearch}
+        searchSuggestions={suggestions}
+        isLoadingSuggestions={isLoadingSuggestions}
+        onSelectSuggestion={handleSelectSuggestion}
+        onRemoveQueryToken={handleRemoveQueryToken}
         anchorEls={anchorEls}
         onFilterClick={handleFilterClick}
         getActiveFilterCount={getActiveCount}
+        savedJobsCount={savedCount}
+        savedSearches={{
+          savedSearches: savedSearches.map(savedSearch => ({
+            id: savedSearch.id,
+            name: savedSearch.name,
+            newJobCount: newJobCounts[savedSearch.id],
+          })),
+          canSave: !!appliedSearchQuery || hasActiveFilters(filters),
+          defaultName: appliedSearchQuery,
+          onSave: name =>
+            saveSearch(name, { ...filters, query: appliedSearchQuery }),
+          onRun: handleRunSavedSearch,
+          onDelete: deleteSearch,
+        }}
+        jobAlerts={{
+          notifications: jobAlerts.notifications,
+          unreadCount: jobAlerts.unreadCount,
+          alerts: jobAlerts.alerts,
+          canCreate: !!appliedSearchQuery || hasActiveFilters(filters),
+          defaultName: appliedSearchQuery,
+          onCreate: name =>
+            jobAlerts.createAlert(name, {
+              ...filters,
+              query: appliedSearchQuery,
+            }),
+          onDelete: jobAlerts.deleteAlert,
+          onOpenNotification: jobAlerts.markRead,
+          onMarkAllRead: jobAlerts.markAllRead,
+          onClearNotifications: jobAlerts.clearNotifications,
+          checkIntervalMinutes: jobAlerts.checkIntervalMinutes,
+          onChangeCheckInterval: jobAlerts.setCheckInterval,
+          browserNotifications: jobAlerts.browserNotifications,
+          onToggleBrowserNotifications: enabled =>
+            void jobAlerts.setBrowserNotifications(enabled),
+        }}
+        hiddenItemsCount={hiddenCount}
+        onOpenHiddenItems={() => setIsHiddenItemsOpen(true)}
+        onOpenAllFilters={handleOpenAllFilters}
+      />
+
+      {/* Hidden jobs and companies panel */}
+      <HiddenItemsDialog
+        open={isHiddenItemsOpen}
+        onClose={() => setIsHiddenItemsOpen(false)}
+        hiddenJobs={hiddenJobs}
+        hiddenCompanies={hiddenCompanies}
+        onUnhideJob={unhideJob}
+        onUnhideCompany={unhideCompany}
+        onClearAll={clearHidden}
       />
 
       {/* Filter dropdown menus */}
@@ -216,11 +571,77 @@ export default function JobLayout(): ReactElement {
         onCloseDropdown={closeDropdown}
         onToggleFilter={toggleFilter}
         onSetDatePreset={(_, value) => setFilter('datePreset', value)}
-        onSetLanguage={value => setFilter('language', value)}
+        onSetDateRange={setDateRange}
+        onSetTechnologyRequiredOnly={setTechnologyRequiredOnly}
+        onSetSalaryRange={setSalaryRange}
+        companyOptions={companies}
+        isLoadingCompanies={isLoadingCompanies}
+        technologyOptions={technologyTree}
+        isLoadingTechnologies={isLoadingTechnologies}
+        facets={facets}
+      />
+
+      {/* All filters drawer (staged until applied) */}
+      <AllFiltersDrawer
+        open={isAllFiltersOpen}
+        onClose={() => setIsAllFiltersOpen(false)}
+        filters={draftFilters}
+        onToggleFilter={toggleDraftFilter}
+        onSetDatePreset={setDraftFilter}
+        onSetDateRange={setDraftDateRange}
+        onSetTechnologyRequiredOnly={setDraftTechnologyRequiredOnly}
+        onSetSalaryRange={setDraftSalaryRange}
+        onClearAll={clearDraftFilters}
+        onApply={handleApplyAllFilters}
+        resultCount={draftResultCount}
+        isCountLoading={isCountingDraft}
         companyOptions={companies}
         isLoadingCompanies={isLoadingCompanies}
+        technologyOptions={technologyTree}
+        isLoadingTechnologies={isLoadingTechnologies}
+        facets={draftFacets}
       />
 
+      {/* Full-screen job view (mobile) */}
+      {isMobile && (
+        <Dialog
+          fullScreen
+          open={isJobViewOpen}
+          onClose={closeJob}
+          aria-label={selectedJob?.title}
+        >
+          <PageHeader
+            onBack={closeJob}
+            backLabel={t('jobList.backToResults')}
+          />
+          <Box
+            sx={{
+              flex: 1,
+              display: 'flex',
+              flexDirection: 'column',
+              minHeight: 0,
+              bgcolor: '#f5f5f5',
+              p: 2,
+            }}
+          >
+            {/* JobDetails draws no left border of its own (split view) */}
+            <Box
+              sx={{
+                flex: 1,
+                display: 'flex',
+                flexDirection: 'column',
+                minHeight: 0,
+                bgcolor: 'white',
+                borderLeft: '1px solid #e0e0e0',
+                borderRadius: 2,
+              }}
+            >
+              {jobDetails}
+            </Box>
+          </Box>
+        </Dialog>
+      )}
+
       {/* Main Content Container */}
       <Box
         sx={{
@@ -235,7 +656,7 @@ export default function JobLayout(): ReactElement {
         {/* Job List */}
         <Box
           sx={{
-            width: '45%',
+            width: { xs: '100%', md: '45%' },
             display: 'flex',
             flexDirection: 'column',
             minHeight: 0,
@@ -247,24 +668,43 @@ export default function JobLayout(): ReactElement {
             onJobSelect={handleJobSelect}
             resultsCount={totalJobs}
             searchQuery={appliedSearchQuery}
+            sort={filters.sort ?? DEFAULT_SORT}
+            onSortChange={setSort}
+            isJobSaved={isSaved}
+            onToggleSave={toggleSaved}
+            getApplicationStatus={jobId => getApplication(jobId)?.status}
+            onHideJob={hideJob}
+            onHideCompany={hideCompany}
             currentPage={currentPage}
             totalPages={totalPages}
             onPageChange={handlePageChange}
             isFetching={isFetching}
+            listMode={listMode}
+            onListModeChange={handleListModeChange}
+            hasMore={infinite.hasNextPage}
+            onLoadMore={infinite.fetchNextPage}
+            isLoadingMore={infinite.isFetchingNextPage}
+            hasPrevious={infinite.hasPreviousPage}
+            onLoadPrevious={infinite.fetchPreviousPage}
+            isLoadingPrevious={infinite.isFetchingPreviousPage}
+            loadMoreFailed={infinite.error !== null}
+            onFirstVisibleIndexChange={handleFirstVisibleIndexChange}
           />
         </Box>
 
         {/* Job Details */}
-        <Box
-          sx={{
-            width: '55%',
-            display: 'flex',
-            flexDirection: 'column',
-            minHeight: 0,
-          }}
-        >
-          <JobDetails job={selectedJob} isFetching={isFetching} />
-        </Box>
+        {!isMobile && (
+          <Box
+            sx={{
+              width: '55%',
+              display: 'flex',
+              flexDirection: 'column',
+              minHeight: 0,
+            }}
+          >
+            {jobDetails}
+          </Box>
+        )}
       </Box>
     </Box>
   )
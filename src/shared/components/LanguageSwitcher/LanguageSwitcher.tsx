@@ -0,0 +1,68 @@
+/**
+ * LanguageSwitcher Component
+ *
+ * Compact EN / ES toggle for the UI language. The choice is persisted,
+ * so it survives reloads and is shared across tabs.
+ */
+
+import { ToggleButton, ToggleButtonGroup } from '@mui/material'
+import type { MouseEvent } from 'react'
+
+import type { Locale } from '@/services/i18n'
+import { LOCALE_LABELS, LOCALES, useTranslation } from '@/services/i18n'
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * UI language toggle
+ *
+ * @example
+ * ```tsx
+ * <LanguageSwitcher />
+ * ```
+ */
+export default function LanguageSwitcher() {
+  const { t, locale, setLocale } = useTranslation()
+
+  const handleChange = (_event: MouseEvent<HTMLElement>, value: unknown) => {
+    // Ignore clicks on the already selected locale (value is null)
+    if (LOCALES.includes(value as Locale)) {
+      setLocale(value as Locale)
+    }
+  }
+
+  return (
+    <ToggleButtonGroup
+      value={locale}
+      exclusive
+      onChange={handleChange}
+      size='small'
+      aria-label={t('header.language')}
+      sx={{ alignSelf: 'center' }}
+    >
+      {LOCALES.map(option => (
+        <ToggleButton
+          key={option}
+          value={option}
+          lang={option}
+          aria-label={LOCALE_LABELS[option]}
+          sx={{
+            px: 1.25,
+            py: 0.25,
+            fontWeight: 'bold',
+            color: '#666',
+            borderColor: '#e0e0e0',
+            '&.Mui-selected': {
+              color: '#0a66c2',
+              bgcolor: '#f0f7ff',
+            },
+          }}
+        >
+          {option.toUpperCase()}
+        </ToggleButton>
+      ))}
+    </ToggleButtonGroup>
+  )
+}
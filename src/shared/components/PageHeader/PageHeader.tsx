@@ -0,0 +1,79 @@
+/**
+ * PageHeader Component
+ *
+ * Simple top bar for standalone pages (job detail, saved jobs) with a
+ * back button and the JobHub brand.
+ */
+
+import { ArrowBack } from '@mui/icons-material'
+import { AppBar, Button, Container, Typography } from '@mui/material'
+
+import { useTranslation } from '@/services/i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PageHeaderProps {
+  /** Back button handler */
+  onBack: () => void
+  /** Back button label */
+  backLabel?: string
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Top bar for pages outside the main search layout
+ *
+ * @example
+ * ```tsx
+ * <PageHeader onBack={() => navigate('/jobs/search')} />
+ * ```
+ */
+export default function PageHeader({ onBack, backLabel }: PageHeaderProps) {
+  const { t } = useTranslation()
+  return (
+    <AppBar
+      position='sticky'
+      sx={{
+        bgcolor: '#ffffff',
+        color: '#000000',
+        boxShadow: '0 4px 8px rgba(0, 0, 0, 0.15)',
+        borderBottom: '1px solid #e0e0e0',
+      }}
+    >
+      <Container
+        maxWidth={false}
+        sx={{
+          px: { xs: 2, sm: 4, md: 8, lg: 18, xl: 36 },
+          py: 2,
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1.5,
+        }}
+      >
+        <Button
+          startIcon={<ArrowBack />}
+          onClick={onBack}
+          sx={{
+            color: '#0a66c2',
+            textTransform: 'none',
+            fontWeight: 'bold',
+            fontSize: 'body1.fontSize',
+          }}
+        >
+          {backLabel ?? t('common.back')}
+        </Button>
+        <Typography
+          variant='body1'
+          sx={{ fontWeight: 'bold', color: '#0a66c2', ml: 'auto' }}
+        >
+          {t('common.appName')}
+        </Typography>
+      </Container>
+    </AppBar>
+  )
+}
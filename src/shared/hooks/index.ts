@@ -0,0 +1,8 @@
+/**
+ * Shared Hooks Module
+ *
+ * Generic React hooks reusable across features:
+ * - useDebounce: Delay a changing value until it settles
+ */
+
+export { useDebounce } from './useDebounce'
@@ -0,0 +1,35 @@
+/**
+ * useDebounce Hook
+ *
+ * Returns a value that only updates after it has stopped changing
+ * for a given delay. Useful for search-as-you-type requests.
+ */
+
+import { useEffect, useState } from 'react'
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Debounce a changing value
+ *
+ * @param value - Value to debounce
+ * @param delay - Delay in milliseconds
+ * @returns The latest value once it has been stable for `delay` ms
+ *
+ * @example
+ * ```typescript
+ * const debouncedQuery = useDebounce(query, 250)
+ * ```
+ */
+export function useDebounce<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => setDebouncedValue(value), delay)
+    return () => window.clearTimeout(timeoutId)
+  }, [value, delay])
+
+  return debouncedValue
+}
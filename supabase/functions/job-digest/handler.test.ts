@@ -0,0 +1,277 @@
+import { assertEquals } from '@std/assert'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { createDigestHandler } from './handler.ts'
+import type { AlertSubscription, DigestJob } from './subscriptions.ts'
+
+// =============================================================================
+// Fake Supabase Client
+// =============================================================================
+
+type Row = Record<string, unknown>
+
+/**
+ * In-memory stand-in for the query builder calls the function makes
+ */
+class FakeQuery implements PromiseLike<{ data: unknown; error: null }> {
+  private filters: ((row: Row) => boolean)[] = []
+  private values: Row | null = null
+  private returning = false
+
+  constructor(private rows: Row[]) {}
+
+  select(): this {
+    if (this.values) this.returning = true
+    return this
+  }
+
+  update(values: Row): this {
+    this.values = values
+    return this
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  is(column: string, value: null): this {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  order(): this {
+    return this
+  }
+
+  then<TResult1, TResult2 = never>(
+    onfulfilled?:
+      | ((value: {
+          data: unknown
+          error: null
+        }) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    const matched = this.rows.filter(row =>
+      this.filters.every(filter => filter(row))
+    )
+
+    let data: unknown = matched.map(row => ({ ...row }))
+    if (this.values) {
+      for (const row of matched) Object.assign(row, this.values)
+      data = this.returning ? matched.map(row => ({ id: row.id })) : null
+    }
+
+    return Promise.resolve({ data, error: null }).then(onfulfilled, onrejected)
+  }
+}
+
+/**
+ * Fake client over one alert_subscriptions table and a fixed job list
+ */
+function createFakeClient(
+  subscriptions: AlertSubscription[],
+  jobs: DigestJob[]
+): SupabaseClient {
+  const rows = subscriptions as unknown as Row[]
+  return {
+    from: () => new FakeQuery(rows),
+    rpc: (_name: string, args: { p_limit: number }) =>
+      Promise.resolve({
+        data: jobs
+          .slice(0, args.p_limit)
+          .map(job => ({ ...job, total_count: jobs.length })),
+        error: null,
+      }),
+  } as unknown as SupabaseClient
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const SERVICE_ROLE_KEY = 'service-role-key'
+
+function createSubscription(
+  overrides: Partial<AlertSubscription> = {}
+): AlertSubscription {
+  return {
+    id: 1,
+    email: 'ana@example.com',
+    name: 'React remote',
+    search_params: { search_query: 'react' },
+    frequency: 'daily',
+    locale: 'en',
+    is_active: true,
+    last_digest_at: '2025-01-01T08:00:00',
+    created_at: '2024-12-01T08:00:00',
+    updated_at: '2024-12-01T08:00:00',
+    ...overrides,
+  }
+}
+
+const jobs: DigestJob[] = [
+  {
+    id: 42,
+    title: 'Frontend Developer',
+    company_name: 'Acme',
+    city: 'San José',
+    province: 'San José',
+    work_mode: 'remote',
+    created_at: '2025-01-01T12:00:00',
+  },
+]
+
+function createRequest(
+  body: unknown = {},
+  authorization = `Bearer ${SERVICE_ROLE_KEY}`
+): Request {
+  return new Request('http://localhost/job-digest', {
+    method: 'POST',
+    headers: { Authorization: authorization },
+    body: JSON.stringify(body),
+  })
+}
+
+/**
+ * Handler that writes digests to `outputDir` with the file transport
+ */
+function createHandler(supabase: SupabaseClient, outputDir: string) {
+  const env: Record<string, string> = {
+    SUPABASE_URL: 'http://localhost:54321',
+    SUPABASE_SERVICE_ROLE_KEY: SERVICE_ROLE_KEY,
+    APP_URL: 'https://jobhub.example/',
+    MAIL_TRANSPORT: 'file',
+    MAIL_OUTPUT_DIR: outputDir,
+  }
+  return createDigestHandler({
+    env: name => env[name],
+    createSupabaseClient: () => supabase,
+  })
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const names: string[] = []
+  for await (const entry of Deno.readDir(dir)) names.push(entry.name)
+  return names.sort()
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+Deno.test('handler rejects requests without the service_role key', async () => {
+  const outputDir = await Deno.makeTempDir()
+  const handler = createHandler(createFakeClient([], []), outputDir)
+
+  const wrongKey = await handler(createRequest({}, 'Bearer anon-key'))
+  const missingKey = await handler(
+    new Request('http://localhost/job-digest', { method: 'POST' })
+  )
+  const get = await handler(
+    new Request('http://localhost/job-digest', { method: 'GET' })
+  )
+
+  assertEquals(wrongKey.status, 401)
+  assertEquals(missingKey.status, 401)
+  assertEquals(get.status, 405)
+})
+
+Deno.test('handler rejects an unknown frequency', async () => {
+  const outputDir = await Deno.makeTempDir()
+  const handler = createHandler(createFakeClient([], []), outputDir)
+
+  const response = await handler(createRequest({ frequency: 'hourly' }))
+
+  assertEquals(response.status, 400)
+})
+
+Deno.test('handler sends due digests and closes their window', async () => {
+  const outputDir = await Deno.makeTempDir()
+  const subscriptions = [
+    createSubscription(),
+    createSubscription({
+      id: 2,
+      email: 'luis@example.com',
+      frequency: 'weekly',
+    }),
+  ]
+  const handler = createHandler(
+    createFakeClient(subscriptions, jobs),
+    outputDir
+  )
+
+  const response = await handler(createRequest({ frequency: 'daily' }))
+  const body = await response.json()
+
+  assertEquals(response.status, 200)
+  assertEquals(body.transport, 'file')
+  assertEquals(body.results, [{ id: 1, status: 'sent', newJobs: 1 }])
+  assertEquals(subscriptions[0]?.last_digest_at, body.runAt)
+  assertEquals(subscriptions[1]?.last_digest_at, '2025-01-01T08:00:00')
+
+  const files = await listFiles(outputDir)
+  assertEquals(files.length, 2)
+  const html = await Deno.readTextFile(`${outputDir}/${files[0]}`)
+  assertEquals(html.includes('https://jobhub.example/jobs/42'), true)
+})
+
+Deno.test(
+  'handler closes the window without an email when nothing is new',
+  async () => {
+    const outputDir = await Deno.makeTempDir()
+    const subscriptions = [createSubscription()]
+    const handler = createHandler(
+      createFakeClient(subscriptions, []),
+      outputDir
+    )
+
+    const body = await (await handler(createRequest())).json()
+
+    assertEquals(body.results, [{ id: 1, status: 'empty', newJobs: 0 }])
+    assertEquals(subscriptions[0]?.last_digest_at, body.runAt)
+    assertEquals(await listFiles(outputDir), [])
+  }
+)
+
+Deno.test('handler skips a window claimed by an overlapping run', async () => {
+  const outputDir = await Deno.makeTempDir()
+  const subscriptions = [createSubscription()]
+  const supabase = createFakeClient(subscriptions, jobs)
+  const handler = createHandler(supabase, outputDir)
+
+  // Another run claims the window after this one loaded the subscription
+  const from = supabase.from.bind(supabase)
+  supabase.from = ((table: string) => {
+    const query = from(table)
+    const update = query.update.bind(query)
+    query.update = ((values: Row) => {
+      subscriptions[0]!.last_digest_at = '2025-01-02T08:00:00'
+      return update(values)
+    }) as typeof query.update
+    return query
+  }) as typeof supabase.from
+
+  const body = await (await handler(createRequest())).json()
+
+  assertEquals(body.results, [{ id: 1, status: 'skipped', newJobs: 0 }])
+  assertEquals(subscriptions[0]?.last_digest_at, '2025-01-02T08:00:00')
+  assertEquals(await listFiles(outputDir), [])
+})
+
+Deno.test('handler releases the window when sending fails', async () => {
+  // A file where the output directory should be makes every send fail
+  const outputFile = await Deno.makeTempFile()
+  const subscriptions = [createSubscription()]
+  const handler = createHandler(
+    createFakeClient(subscriptions, jobs),
+    outputFile
+  )
+
+  const body = await (await handler(createRequest())).json()
+
+  assertEquals(body.failed, 1)
+  assertEquals(body.results[0].status, 'failed')
+  assertEquals(subscriptions[0]?.last_digest_at, '2025-01-01T08:00:00')
+})
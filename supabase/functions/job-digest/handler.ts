@@ -0,0 +1,255 @@
+/**
+ * Job Digest Handler
+ *
+ * Request handling for the job-digest Edge Function, kept apart from
+ * `Deno.serve` so it can be tested with a stubbed environment and client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@supabase/supabase-js'
+import { timingSafeEqual } from '@std/crypto/timing-safe-equal'
+
+import { renderDigest } from './render.ts'
+import type { AlertSubscription, DigestFrequency } from './subscriptions.ts'
+import {
+  claimDigest,
+  getDueSubscriptions,
+  getNewJobs,
+  releaseDigestClaim,
+} from './subscriptions.ts'
+import type { EnvReader, MailTransport } from './transport.ts'
+import { createMailTransport } from './transport.ts'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Outcome for one subscription
+ * - sent: Digest delivered
+ * - empty: No new jobs; window closed without an email
+ * - skipped: Window already claimed by an overlapping run
+ * - failed: Search or delivery failed; window kept for the next run
+ */
+export interface SubscriptionResult {
+  id: number
+  status: 'sent' | 'empty' | 'skipped' | 'failed'
+  newJobs: number
+  error?: string
+}
+
+/**
+ * Dependencies of the handler (defaults are used in production)
+ */
+export interface DigestHandlerOptions {
+  /** Environment reader (defaults to `Deno.env.get`) */
+  env?: EnvReader
+  /** Creates the Supabase client (defaults to supabase-js createClient) */
+  createSupabaseClient?: (url: string, key: string) => SupabaseClient
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Most jobs listed in one digest (the rest are linked) */
+const MAX_DIGEST_JOBS = 20
+
+const FREQUENCIES: DigestFrequency[] = ['daily', 'weekly']
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * JSON response helper
+ */
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Whether the request carries the service_role key
+ *
+ * Both values are hashed and then compared in constant time, so response
+ * timing reveals neither how much of a guessed key is right nor its length.
+ */
+async function isAuthorized(
+  request: Request,
+  serviceRoleKey: string
+): Promise<boolean> {
+  const encoder = new TextEncoder()
+  const hash = (value: string) =>
+    crypto.subtle.digest('SHA-256', encoder.encode(value))
+
+  const received = await hash(request.headers.get('Authorization') ?? '')
+  const expected = await hash(`Bearer ${serviceRoleKey}`)
+  return timingSafeEqual(received, expected)
+}
+
+// =============================================================================
+// Digest Run
+// =============================================================================
+
+/**
+ * Build and deliver the digest of one subscription
+ *
+ * The window is claimed before anything is sent, so a run that overlaps or
+ * retries this one skips the subscription instead of sending it twice. When
+ * the search or the delivery fails, the claim is released for the next run.
+ */
+async function processSubscription(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  subscription: AlertSubscription,
+  runAt: Date,
+  appUrl: string
+): Promise<SubscriptionResult> {
+  try {
+    if (!(await claimDigest(supabase, subscription, runAt))) {
+      return { id: subscription.id, status: 'skipped', newJobs: 0 }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`Digest failed for subscription ${subscription.id}`, message)
+    return { id: subscription.id, status: 'failed', newJobs: 0, error: message }
+  }
+
+  try {
+    const newJobs = await getNewJobs(
+      supabase,
+      subscription,
+      runAt,
+      MAX_DIGEST_JOBS
+    )
+
+    if (newJobs.totalCount > 0) {
+      const digest = renderDigest(subscription, newJobs, appUrl)
+      await transport.send({ to: subscription.email, ...digest })
+    }
+
+    return {
+      id: subscription.id,
+      status: newJobs.totalCount > 0 ? 'sent' : 'empty',
+      newJobs: newJobs.totalCount,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`Digest failed for subscription ${subscription.id}`, message)
+
+    try {
+      await releaseDigestClaim(supabase, subscription, runAt)
+    } catch (releaseError) {
+      // The window stays closed; its jobs are left out of the next digest
+      console.error(
+        `Could not release subscription ${subscription.id}`,
+        releaseError instanceof Error ? releaseError.message : releaseError
+      )
+    }
+
+    return { id: subscription.id, status: 'failed', newJobs: 0, error: message }
+  }
+}
+
+// =============================================================================
+// Handler
+// =============================================================================
+
+/**
+ * Create the request handler of the job-digest function
+ *
+ * @param options - Dependencies to replace (for tests)
+ * @returns Handler for `Deno.serve`
+ *
+ * @example
+ * ```typescript
+ * Deno.serve(createDigestHandler())
+ * ```
+ */
+export function createDigestHandler(
+  options: DigestHandlerOptions = {}
+): (request: Request) => Promise<Response> {
+  const env = options.env ?? ((name: string) => Deno.env.get(name))
+  const createSupabaseClient =
+    options.createSupabaseClient ??
+    ((url: string, key: string) =>
+      createClient(url, key, { auth: { persistSession: false } }))
+
+  return async request => {
+    if (request.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, 405)
+    }
+
+    const supabaseUrl = env('SUPABASE_URL')
+    const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return json({ error: 'Supabase environment is not configured' }, 500)
+    }
+
+    // Subscriptions hold email addresses; only server-side callers may run this
+    if (!(await isAuthorized(request, serviceRoleKey))) {
+      return json({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = (await request.json().catch(() => ({}))) as {
+      frequency?: unknown
+    }
+    if (
+      body.frequency !== undefined &&
+      !FREQUENCIES.includes(body.frequency as DigestFrequency)
+    ) {
+      return json(
+        { error: `Invalid frequency "${String(body.frequency)}"` },
+        400
+      )
+    }
+    const frequency = body.frequency as DigestFrequency | undefined
+
+    let transport: MailTransport
+    try {
+      transport = createMailTransport(env)
+    } catch (error) {
+      return json({ error: (error as Error).message }, 500)
+    }
+
+    const appUrl = (env('APP_URL') ?? 'http://localhost:3000').replace(
+      /\/+$/,
+      ''
+    )
+    const supabase = createSupabaseClient(supabaseUrl, serviceRoleKey)
+    const runAt = new Date()
+
+    let subscriptions: AlertSubscription[]
+    try {
+      subscriptions = await getDueSubscriptions(supabase, runAt, frequency)
+    } catch (error) {
+      return json({ error: (error as Error).message }, 500)
+    }
+
+    // One at a time to keep the load on search_jobs and the mail provider low
+    const results: SubscriptionResult[] = []
+    for (const subscription of subscriptions) {
+      results.push(
+        await processSubscription(
+          supabase,
+          transport,
+          subscription,
+          runAt,
+          appUrl
+        )
+      )
+    }
+
+    return json({
+      transport: transport.name,
+      runAt: runAt.toISOString(),
+      processed: results.length,
+      sent: results.filter(result => result.status === 'sent').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      results,
+    })
+  }
+}
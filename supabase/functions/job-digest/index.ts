@@ -0,0 +1,20 @@
+/**
+ * Job Digest Edge Function
+ *
+ * Emails each due alert subscription a digest of the jobs posted since its
+ * previous digest. Meant to be called on a schedule (see supabase/README.md)
+ * with the service_role key:
+ *
+ *   POST /functions/v1/job-digest
+ *   Authorization: Bearer <service_role key>
+ *   { "frequency": "daily" }   (optional; both frequencies when omitted)
+ *
+ * Environment:
+ * - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY: Provided by Supabase
+ * - APP_URL: Site origin used for links (e.g. https://jobhub.cr)
+ * - MAIL_TRANSPORT and transport settings: See transport.ts
+ */
+
+import { createDigestHandler } from './handler.ts'
+
+Deno.serve(createDigestHandler())
@@ -0,0 +1,129 @@
+import { assert, assertEquals, assertStringIncludes } from '@std/assert'
+
+import { renderDigest } from './render.ts'
+import type { AlertSubscription, DigestJob } from './subscriptions.ts'
+
+const APP_URL = 'https://jobhub.example'
+
+const subscription: AlertSubscription = {
+  id: 1,
+  email: 'ana@example.com',
+  name: 'React <remote>',
+  search_params: { search_query: ' react ', p_work_mode: ['remote'] },
+  frequency: 'daily',
+  locale: 'en',
+  is_active: true,
+  last_digest_at: '2025-01-01T08:00:00',
+  created_at: '2024-12-01T08:00:00',
+  updated_at: '2024-12-01T08:00:00',
+}
+
+const job: DigestJob = {
+  id: 42,
+  title: 'Frontend "Lead" & Mentor',
+  company_name: 'Acme',
+  city: 'San José',
+  province: 'San José',
+  work_mode: 'remote',
+  created_at: '2025-01-01T12:00:00',
+}
+
+const dateFrom = new Date('2025-01-01T08:00:00Z')
+
+Deno.test('renderDigest uses the singular subject for one job', () => {
+  const digest = renderDigest(
+    subscription,
+    { jobs: [job], totalCount: 1, dateFrom },
+    APP_URL
+  )
+
+  assertEquals(digest.subject, '1 new job for “React <remote>”')
+  assertStringIncludes(digest.text, 'Frontend "Lead" & Mentor — Acme')
+  assertStringIncludes(digest.text, 'San José · Remote · Jan 1')
+  assertStringIncludes(digest.text, `${APP_URL}/jobs/42`)
+  assert(!digest.text.includes('See all'))
+})
+
+Deno.test('renderDigest escapes subscription and job fields in HTML', () => {
+  const { html } = renderDigest(
+    subscription,
+    { jobs: [job], totalCount: 1, dateFrom },
+    APP_URL
+  )
+
+  assertStringIncludes(html, 'New jobs for “React &lt;remote&gt;”')
+  assertStringIncludes(html, 'Frontend &quot;Lead&quot; &amp; Mentor')
+  assert(!html.includes('<remote>'))
+})
+
+Deno.test('renderDigest links to the search when jobs were left out', () => {
+  const digest = renderDigest(
+    subscription,
+    { jobs: [job], totalCount: 35, dateFrom },
+    APP_URL
+  )
+  const search = 'q=react&mode=remote&date=custom&from=2025-01-01&sort=newest'
+
+  assertEquals(digest.subject, '35 new jobs for “React <remote>”')
+  assertStringIncludes(
+    digest.text,
+    `See all 35 new jobs on JobHub: ${APP_URL}/jobs/search?${search}`
+  )
+  assertStringIncludes(
+    digest.html,
+    `href="${APP_URL}/jobs/search?${search.replaceAll('&', '&amp;')}"`
+  )
+})
+
+Deno.test('renderDigest keeps every site filter in the search link', () => {
+  const { text } = renderDigest(
+    {
+      ...subscription,
+      search_params: {
+        p_experience_level: ['senior', 'manager'],
+        p_employment_type: ['full-time'],
+        p_province: ['san-jose'],
+        p_job_function: ['technology-engineering'],
+        p_company: ['Acme'],
+        p_technology: ['React', 'C#'],
+        p_technology_required_only: true,
+        p_language: ['english'],
+        p_salary_min: 3000,
+        p_salary_max: 5000,
+        p_exclude_job_ids: [7],
+      },
+    },
+    { jobs: [job], totalCount: 35, dateFrom },
+    APP_URL
+  )
+
+  const url = new URL(text.match(/https:\/\/\S+\/jobs\/search\S+/)![0])
+  assertEquals(Object.fromEntries(url.searchParams), {
+    exp: 'senior,manager',
+    type: 'full-time',
+    prov: 'san-jose',
+    func: 'technology-engineering',
+    company: 'Acme',
+    tech: 'React,C#',
+    techreq: '1',
+    lang: 'english',
+    salmin: '3000',
+    salmax: '5000',
+    date: 'custom',
+    from: '2025-01-01',
+    sort: 'newest',
+  })
+})
+
+Deno.test('renderDigest follows the subscription locale', () => {
+  const digest = renderDigest(
+    { ...subscription, locale: 'es', frequency: 'weekly' },
+    { jobs: [job], totalCount: 2, dateFrom },
+    APP_URL
+  )
+
+  assertEquals(digest.subject, '2 empleos nuevos para “React <remote>”')
+  assertStringIncludes(digest.text, 'semana pasada')
+  assertStringIncludes(digest.text, 'San José · Remoto')
+  assertStringIncludes(digest.html, '<html lang="es">')
+})
@@ -0,0 +1,271 @@
+/**
+ * Digest Rendering
+ *
+ * Renders the HTML and plain-text versions of a digest email. Styles are
+ * inline (email clients ignore stylesheets) and use the site's colors.
+ */
+
+import type {
+  AlertSubscription,
+  DigestJob,
+  DigestLocale,
+  NewJobsResult,
+} from './subscriptions.ts'
+import { parseDbTimestamp } from './subscriptions.ts'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A rendered digest, ready for a mail transport
+ */
+export interface RenderedDigest {
+  subject: string
+  html: string
+  text: string
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+const MESSAGES = {
+  en: {
+    subject: '{count} new jobs for “{name}”',
+    subjectOne: '1 new job for “{name}”',
+    heading: 'New jobs for “{name}”',
+    intro: {
+      daily: 'Jobs posted since yesterday’s digest.',
+      weekly: 'Jobs posted since last week’s digest.',
+    },
+    viewAll: 'See all {count} new jobs on JobHub',
+    footer: 'You receive this email because you subscribed to “{name}”.',
+    workMode: { remote: 'Remote', hybrid: 'Hybrid', onsite: 'On-site' },
+  },
+  es: {
+    subject: '{count} empleos nuevos para “{name}”',
+    subjectOne: '1 empleo nuevo para “{name}”',
+    heading: 'Empleos nuevos para “{name}”',
+    intro: {
+      daily: 'Empleos publicados desde el resumen de ayer.',
+      weekly: 'Empleos publicados desde el resumen de la semana pasada.',
+    },
+    viewAll: 'Ver los {count} empleos nuevos en JobHub',
+    footer: 'Recibes este correo porque te suscribiste a “{name}”.',
+    workMode: { remote: 'Remoto', hybrid: 'Híbrido', onsite: 'Presencial' },
+  },
+} satisfies Record<DigestLocale, unknown>
+
+const INTL_LOCALES: Record<DigestLocale, string> = {
+  en: 'en-US',
+  es: 'es-CR',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Replace `{name}` placeholders
+ */
+function format(
+  template: string,
+  params: Record<string, string | number>
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in params ? String(params[key]) : match
+  )
+}
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Site URL param for each search_jobs argument a subscription may set (the
+ * keys the frontend reads in urlParamsToFilters)
+ */
+const SEARCH_URL_PARAMS: Record<string, string> = {
+  p_experience_level: 'exp',
+  p_employment_type: 'type',
+  p_work_mode: 'mode',
+  p_province: 'prov',
+  p_job_function: 'func',
+  p_company: 'company',
+  p_technology: 'tech',
+  p_technology_required_only: 'techreq',
+  p_language: 'lang',
+  p_salary_min: 'salmin',
+  p_salary_max: 'salmax',
+}
+
+/**
+ * Site link for "see all", opening the subscription's search from the day
+ * the digest window starts (the site filters dates by whole days)
+ */
+function getSearchUrl(
+  subscription: AlertSubscription,
+  dateFrom: Date,
+  appUrl: string
+): string {
+  const searchParams = subscription.search_params
+  const params = new URLSearchParams()
+
+  const query = searchParams.search_query
+  if (typeof query === 'string' && query.trim()) {
+    params.set('q', query.trim())
+  }
+
+  for (const [arg, key] of Object.entries(SEARCH_URL_PARAMS)) {
+    const value = searchParams[arg]
+    if (Array.isArray(value) && value.length > 0) {
+      params.set(key, value.join(','))
+    } else if (typeof value === 'number') {
+      params.set(key, String(value))
+    } else if (value === true) {
+      params.set(key, '1')
+    }
+  }
+
+  params.set('date', 'custom')
+  params.set('from', dateFrom.toISOString().slice(0, 10))
+  params.set('sort', 'newest')
+
+  return `${appUrl}/jobs/search?${params.toString()}`
+}
+
+/**
+ * Location, work mode and posting date of a job
+ */
+function getJobDetails(job: DigestJob, locale: DigestLocale): string {
+  const workModes: Record<string, string> = MESSAGES[locale].workMode
+  const postedAt = parseDbTimestamp(job.created_at).toLocaleDateString(
+    INTL_LOCALES[locale],
+    { day: 'numeric', month: 'short' }
+  )
+
+  return [job.city, workModes[job.work_mode] ?? job.work_mode, postedAt]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render a digest email
+ *
+ * @param subscription - The subscription the digest is for
+ * @param newJobs - Jobs posted in the digest window
+ * @param appUrl - Site origin used for links (no trailing slash)
+ * @returns Subject, HTML and plain-text bodies
+ *
+ * @example
+ * ```typescript
+ * const digest = renderDigest(subscription, newJobs, 'https://jobhub.cr')
+ * await transport.send({ to: subscription.email, ...digest })
+ * ```
+ */
+export function renderDigest(
+  subscription: AlertSubscription,
+  newJobs: NewJobsResult,
+  appUrl: string
+): RenderedDigest {
+  const locale = subscription.locale
+  const messages = MESSAGES[locale]
+  const { jobs, totalCount, dateFrom } = newJobs
+  const name = subscription.name
+
+  const subject =
+    totalCount === 1
+      ? format(messages.subjectOne, { name })
+      : format(messages.subject, { count: totalCount, name })
+  const heading = format(messages.heading, { name })
+  const intro = messages.intro[subscription.frequency]
+  const footer = format(messages.footer, { name })
+  const searchUrl = getSearchUrl(subscription, dateFrom, appUrl)
+  const viewAll =
+    totalCount > jobs.length
+      ? format(messages.viewAll, { count: totalCount })
+      : null
+
+  // Plain text
+  const textLines = [heading, intro, '']
+  for (const job of jobs) {
+    textLines.push(
+      `${job.title} — ${job.company_name}`,
+      getJobDetails(job, locale),
+      `${appUrl}/jobs/${job.id}`,
+      ''
+    )
+  }
+  if (viewAll) {
+    textLines.push(`${viewAll}: ${searchUrl}`, '')
+  }
+  textLines.push('--', footer)
+
+  // HTML
+  const jobItems = jobs
+    .map(
+      job => `
+        <tr>
+          <td style="padding: 16px 0; border-bottom: 1px solid #e0e0e0;">
+            <a href="${escapeHtml(`${appUrl}/jobs/${job.id}`)}" style="color: #0a66c2; font-size: 16px; font-weight: 600; text-decoration: none;">${escapeHtml(job.title)}</a>
+            <div style="color: #333; font-size: 14px; margin-top: 4px;">${escapeHtml(job.company_name)}</div>
+            <div style="color: #666; font-size: 13px; margin-top: 4px;">${escapeHtml(getJobDetails(job, locale))}</div>
+          </td>
+        </tr>`
+    )
+    .join('')
+
+  const viewAllHtml = viewAll
+    ? `
+        <tr>
+          <td style="padding: 24px 0 0;">
+            <a href="${escapeHtml(searchUrl)}" style="display: inline-block; background: #0a66c2; color: #ffffff; border-radius: 20px; padding: 10px 24px; font-size: 14px; font-weight: 600; text-decoration: none;">${escapeHtml(viewAll)}</a>
+          </td>
+        </tr>`
+    : ''
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(subject)}</title>
+  </head>
+  <body style="margin: 0; padding: 0; background: #f5f5f5; font-family: Roboto, Helvetica, Arial, sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background: #f5f5f5;">
+      <tr>
+        <td align="center" style="padding: 24px 12px;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background: #ffffff; border: 1px solid #e0e0e0; border-radius: 8px;">
+            <tr>
+              <td style="padding: 24px;">
+                <div style="display: inline-block; background: #0a66c2; color: #ffffff; border-radius: 4px; padding: 4px 12px; font-weight: 700;">JobHub</div>
+                <h1 style="color: #333; font-size: 20px; margin: 20px 0 4px;">${escapeHtml(heading)}</h1>
+                <p style="color: #666; font-size: 14px; margin: 0;">${escapeHtml(intro)}</p>
+                <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${jobItems}${viewAllHtml}
+                </table>
+                <p style="color: #666; font-size: 12px; margin: 24px 0 0;">${escapeHtml(footer)}</p>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`
+
+  return { subject, html, text: textLines.join('\n') }
+}
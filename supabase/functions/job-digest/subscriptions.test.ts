@@ -0,0 +1,128 @@
+import { assertEquals } from '@std/assert'
+
+import type { AlertSubscription } from './subscriptions.ts'
+import {
+  getDigestWindowStart,
+  isDigestDue,
+  parseDbTimestamp,
+  toSearchJobsArgs,
+} from './subscriptions.ts'
+
+const subscription: AlertSubscription = {
+  id: 1,
+  email: 'ana@example.com',
+  name: 'React remote',
+  search_params: {},
+  frequency: 'daily',
+  locale: 'en',
+  is_active: true,
+  last_digest_at: '2025-01-01T08:00:00',
+  created_at: '2024-12-01T08:00:00',
+  updated_at: '2024-12-01T08:00:00',
+}
+
+Deno.test('parseDbTimestamp reads timestamps without offset as UTC', () => {
+  assertEquals(
+    parseDbTimestamp('2025-01-01T08:00:00').toISOString(),
+    '2025-01-01T08:00:00.000Z'
+  )
+  assertEquals(
+    parseDbTimestamp('2025-01-01T08:00:00+02:00').toISOString(),
+    '2025-01-01T06:00:00.000Z'
+  )
+})
+
+Deno.test('getDigestWindowStart falls back to created_at', () => {
+  assertEquals(
+    getDigestWindowStart({ ...subscription, last_digest_at: null }),
+    new Date('2024-12-01T08:00:00Z')
+  )
+})
+
+Deno.test('isDigestDue honors the frequency and its tolerance', () => {
+  const at = (iso: string) => new Date(iso)
+
+  assertEquals(isDigestDue(subscription, at('2025-01-02T07:30:00Z')), true)
+  assertEquals(isDigestDue(subscription, at('2025-01-02T06:30:00Z')), false)
+  assertEquals(
+    isDigestDue(
+      { ...subscription, frequency: 'weekly' },
+      at('2025-01-02T08:00:00Z')
+    ),
+    false
+  )
+  assertEquals(
+    isDigestDue({ ...subscription, last_digest_at: null }, at('2025-01-01')),
+    true
+  )
+  assertEquals(
+    isDigestDue(
+      { ...subscription, is_active: false },
+      at('2025-01-09T08:00:00Z')
+    ),
+    false
+  )
+})
+
+Deno.test('toSearchJobsArgs only keeps known search_jobs arguments', () => {
+  const args = toSearchJobsArgs(
+    {
+      ...subscription,
+      search_params: {
+        search_query: 'react',
+        p_work_mode: ['remote'],
+        p_salary_min: null,
+        p_limit: 500,
+        p_sort: 'oldest',
+        p_unknown: true,
+      },
+    },
+    new Date('2025-01-02T08:00:00Z'),
+    20
+  )
+
+  assertEquals(args, {
+    search_query: 'react',
+    p_work_mode: ['remote'],
+    p_date_from: '2025-01-01T08:00:00.000Z',
+    p_date_to: '2025-01-02T08:00:00.000Z',
+    p_sort: 'newest',
+    p_limit: 20,
+    p_offset: 0,
+  })
+})
+
+Deno.test(
+  'toSearchJobsArgs keeps a stored date range inside the window',
+  () => {
+    const windowEnd = new Date('2025-01-02T08:00:00Z')
+    const narrower = toSearchJobsArgs(
+      {
+        ...subscription,
+        search_params: {
+          p_date_from: '2025-01-01T12:00:00Z',
+          p_date_to: '2025-01-02T00:00:00Z',
+        },
+      },
+      windowEnd,
+      20
+    )
+    const wider = toSearchJobsArgs(
+      {
+        ...subscription,
+        search_params: {
+          p_date_from: '2024-06-01T00:00:00Z',
+          p_date_to: '2025-06-01T00:00:00Z',
+        },
+      },
+      windowEnd,
+      20
+    )
+
+    assertEquals(narrower.search_query, '')
+    assertEquals(narrower.p_date_from, '2025-01-01T12:00:00.000Z')
+    assertEquals(narrower.p_date_to, '2025-01-02T00:00:00.000Z')
+    assertEquals(wider.p_date_from, '2025-01-01T08:00:00.000Z')
+    assertEquals(wider.p_date_to, '2025-01-02T08:00:00.000Z')
+  }
+)
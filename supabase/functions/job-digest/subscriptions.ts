@@ -0,0 +1,335 @@
+/**
+ * Alert Subscriptions
+ *
+ * Loading due subscriptions and finding the jobs posted in their digest
+ * window. New jobs come from the search_jobs RPC itself, called with the
+ * subscription's stored arguments, so a digest matches what the same search
+ * shows on the site.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How often a subscription receives its digest
+ */
+export type DigestFrequency = 'daily' | 'weekly'
+
+/**
+ * Digest language
+ */
+export type DigestLocale = 'en' | 'es'
+
+/**
+ * Row of the alert_subscriptions table
+ */
+export interface AlertSubscription {
+  id: number
+  email: string
+  name: string
+  search_params: Record<string, unknown>
+  frequency: DigestFrequency
+  locale: DigestLocale
+  is_active: boolean
+  last_digest_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A job in a digest (subset of a search_jobs row)
+ */
+export interface DigestJob {
+  id: number
+  title: string
+  company_name: string
+  city: string
+  province: string
+  work_mode: string
+  created_at: string
+}
+
+/**
+ * New jobs found for a subscription
+ */
+export interface NewJobsResult {
+  /** Newest jobs first, at most `limit` */
+  jobs: DigestJob[]
+  /** Total number of new jobs (may exceed `jobs.length`) */
+  totalCount: number
+  /** Start of the searched date range (the window start or a later stored bound) */
+  dateFrom: Date
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Digest period per frequency (ms) */
+const FREQUENCY_PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Slack when deciding whether a digest is due (ms), so a schedule that runs
+ * at the same time every day does not skip a day because the previous run
+ * finished a few seconds later
+ */
+const DUE_TOLERANCE_MS = 60 * 60 * 1000
+
+/**
+ * search_jobs arguments a subscription may set; paging, sorting and the
+ * start of the date range are controlled by the digest
+ */
+const SUBSCRIPTION_SEARCH_ARGS = [
+  'search_query',
+  'p_experience_level',
+  'p_employment_type',
+  'p_work_mode',
+  'p_province',
+  'p_job_function',
+  'p_company',
+  'p_date_from',
+  'p_date_to',
+  'p_language',
+  'p_technology',
+  'p_technology_required_only',
+  'p_exclude_job_ids',
+  'p_exclude_company',
+  'p_salary_min',
+  'p_salary_max',
+  'p_usd_to_crc_rate',
+] as const
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse a database timestamp
+ *
+ * Columns are `TIMESTAMP` (UTC, without time zone), so values arrive
+ * without an offset and would otherwise be read as local time.
+ */
+export function parseDbTimestamp(value: string): Date {
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`)
+}
+
+/**
+ * Start of a subscription's current digest window
+ */
+export function getDigestWindowStart(subscription: AlertSubscription): Date {
+  return parseDbTimestamp(
+    subscription.last_digest_at ?? subscription.created_at
+  )
+}
+
+/**
+ * Whether a subscription should receive a digest now
+ *
+ * @param subscription - The subscription
+ * @param now - Time of the digest run
+ */
+export function isDigestDue(
+  subscription: AlertSubscription,
+  now: Date
+): boolean {
+  if (!subscription.is_active) return false
+  if (!subscription.last_digest_at) return true
+
+  const elapsed =
+    now.getTime() - parseDbTimestamp(subscription.last_digest_at).getTime()
+  return (
+    elapsed >= FREQUENCY_PERIOD_MS[subscription.frequency] - DUE_TOLERANCE_MS
+  )
+}
+
+/**
+ * Build search_jobs arguments for a digest window
+ *
+ * Only known arguments are taken from the subscription. The window start
+ * replaces `p_date_from` unless the stored bound is later, and the window
+ * end caps `p_date_to`, so jobs posted during a run land in the next digest.
+ *
+ * @param subscription - The subscription
+ * @param windowEnd - End of the digest window (the run time)
+ * @param limit - Most jobs to return
+ */
+export function toSearchJobsArgs(
+  subscription: AlertSubscription,
+  windowEnd: Date,
+  limit: number
+): Record<string, unknown> {
+  const args: Record<string, unknown> = { search_query: '' }
+  for (const key of SUBSCRIPTION_SEARCH_ARGS) {
+    const value = subscription.search_params[key]
+    if (value !== undefined && value !== null) {
+      args[key] = value
+    }
+  }
+
+  const windowStart = getDigestWindowStart(subscription)
+  const storedFrom =
+    typeof args.p_date_from === 'string'
+      ? parseDbTimestamp(args.p_date_from)
+      : null
+  const storedTo =
+    typeof args.p_date_to === 'string' ? parseDbTimestamp(args.p_date_to) : null
+
+  args.p_date_from = (
+    storedFrom && storedFrom > windowStart ? storedFrom : windowStart
+  ).toISOString()
+  args.p_date_to = (
+    storedTo && storedTo < windowEnd ? storedTo : windowEnd
+  ).toISOString()
+  args.p_sort = 'newest'
+  args.p_limit = limit
+  args.p_offset = 0
+
+  return args
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Load the subscriptions due for a digest
+ *
+ * @param supabase - Client with the service_role key (the table has no
+ *   public policies)
+ * @param now - Time of the digest run
+ * @param frequency - Only load subscriptions of this frequency
+ */
+export async function getDueSubscriptions(
+  supabase: SupabaseClient,
+  now: Date,
+  frequency?: DigestFrequency
+): Promise<AlertSubscription[]> {
+  let query = supabase
+    .from('alert_subscriptions')
+    .select('*')
+    .eq('is_active', true)
+    .order('id')
+
+  if (frequency) {
+    query = query.eq('frequency', frequency)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load alert subscriptions: ${error.message}`)
+  }
+
+  return (data as AlertSubscription[]).filter(subscription =>
+    isDigestDue(subscription, now)
+  )
+}
+
+/**
+ * Find the jobs posted in a subscription's digest window
+ *
+ * @param supabase - Supabase client
+ * @param subscription - The subscription
+ * @param windowEnd - End of the digest window (the run time)
+ * @param limit - Most jobs to return
+ */
+export async function getNewJobs(
+  supabase: SupabaseClient,
+  subscription: AlertSubscription,
+  windowEnd: Date,
+  limit: number
+): Promise<NewJobsResult> {
+  const args = toSearchJobsArgs(subscription, windowEnd, limit)
+  const { data, error } = await supabase.rpc('search_jobs', args)
+
+  if (error) {
+    throw new Error(`search_jobs failed: ${error.message}`)
+  }
+
+  const rows = (data ?? []) as (DigestJob & { total_count: number })[]
+  return {
+    jobs: rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      company_name: row.company_name,
+      city: row.city,
+      province: row.province,
+      work_mode: row.work_mode,
+      created_at: row.created_at,
+    })),
+    totalCount: rows[0]?.total_count ?? 0,
+    dateFrom: new Date(args.p_date_from as string),
+  }
+}
+
+/**
+ * Claim a subscription's digest window
+ *
+ * Moves `last_digest_at` to the window end only if it still holds the value
+ * the run loaded, so two overlapping runs cannot both send the same digest.
+ * The claim is taken before sending; see releaseDigestClaim for failures.
+ *
+ * @param supabase - Client with the service_role key
+ * @param subscription - The subscription, as loaded by the run
+ * @param windowEnd - End of the digest window being processed
+ * @returns Whether this run claimed the window (false when another run did)
+ */
+export async function claimDigest(
+  supabase: SupabaseClient,
+  subscription: AlertSubscription,
+  windowEnd: Date
+): Promise<boolean> {
+  let query = supabase
+    .from('alert_subscriptions')
+    .update({
+      last_digest_at: windowEnd.toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', subscription.id)
+
+  query =
+    subscription.last_digest_at === null
+      ? query.is('last_digest_at', null)
+      : query.eq('last_digest_at', subscription.last_digest_at)
+
+  const { data, error } = await query.select('id')
+  if (error) {
+    throw new Error(`Failed to claim alert subscription: ${error.message}`)
+  }
+
+  return (data ?? []).length > 0
+}
+
+/**
+ * Give back a claimed digest window after the digest could not be sent
+ *
+ * Restores the previous `last_digest_at` (unless another run has moved it
+ * since), so the same jobs are included in the next run.
+ *
+ * @param supabase - Client with the service_role key
+ * @param subscription - The subscription, as loaded by the run
+ * @param windowEnd - End of the claimed digest window
+ */
+export async function releaseDigestClaim(
+  supabase: SupabaseClient,
+  subscription: AlertSubscription,
+  windowEnd: Date
+): Promise<void> {
+  const { error } = await supabase
+    .from('alert_subscriptions')
+    .update({
+      last_digest_at: subscription.last_digest_at,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', subscription.id)
+    .eq('last_digest_at', windowEnd.toISOString())
+
+  if (error) {
+    throw new Error(`Failed to release alert subscription: ${error.message}`)
+  }
+}
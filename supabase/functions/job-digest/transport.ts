@@ -0,0 +1,191 @@
+/**
+ * Mail Transports
+ *
+ * Pluggable delivery for digest emails. The transport is picked with the
+ * MAIL_TRANSPORT environment variable:
+ * - console (default): Logs each message, for local development
+ * - file: Writes each message as .html and .txt files to MAIL_OUTPUT_DIR
+ * - resend: Sends through the Resend HTTP API (RESEND_API_KEY, MAIL_FROM)
+ *
+ * Adding a provider means adding a factory to MAIL_TRANSPORTS.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A rendered email
+ */
+export interface MailMessage {
+  /** Recipient address */
+  to: string
+  /** Subject line */
+  subject: string
+  /** HTML body */
+  html: string
+  /** Plain-text body */
+  text: string
+}
+
+/**
+ * Delivers rendered emails
+ */
+export interface MailTransport {
+  /** Transport name (for logs and the function response) */
+  name: string
+  /** Deliver a message; rejects when delivery failed */
+  send: (message: MailMessage) => Promise<void>
+}
+
+/**
+ * Reads an environment variable (undefined when unset)
+ */
+export type EnvReader = (name: string) => string | undefined
+
+// =============================================================================
+// Transports
+// =============================================================================
+
+/**
+ * Transport that logs messages instead of sending them
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    send: message => {
+      console.log(
+        [
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          '',
+          message.text,
+        ].join('\n')
+      )
+      return Promise.resolve()
+    },
+  }
+}
+
+/**
+ * Transport that writes each message to a directory
+ *
+ * Files are named after the send time and recipient, e.g.
+ * `2025-01-01T08-00-00-000Z_ana@example.com.html` (plus a `.txt` twin), so
+ * digests can be opened in a browser while developing the templates.
+ *
+ * @param outputDir - Directory to write to (created when missing)
+ */
+export function createFileTransport(outputDir: string): MailTransport {
+  return {
+    name: 'file',
+    send: async message => {
+      await Deno.mkdir(outputDir, { recursive: true })
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const recipient = message.to.replace(/[^\w.@-]/g, '_')
+      const basePath = `${outputDir}/${timestamp}_${recipient}`
+
+      await Deno.writeTextFile(`${basePath}.html`, message.html)
+      await Deno.writeTextFile(
+        `${basePath}.txt`,
+        `Subject: ${message.subject}\n\n${message.text}`
+      )
+    },
+  }
+}
+
+/**
+ * Transport that sends through the Resend HTTP API
+ *
+ * @param apiKey - Resend API key
+ * @param from - Sender, e.g. `JobHub <digest@example.com>`
+ */
+export function createResendTransport(
+  apiKey: string,
+  from: string
+): MailTransport {
+  return {
+    name: 'resend',
+    send: async message => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(
+          `Resend responded with ${response.status}: ${await response.text()}`
+        )
+      }
+    },
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Read a required environment variable
+ */
+function requireEnv(env: EnvReader, name: string): string {
+  const value = env(name)
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`)
+  }
+  return value
+}
+
+/**
+ * Transport factories by MAIL_TRANSPORT value
+ */
+const MAIL_TRANSPORTS: Record<string, (env: EnvReader) => MailTransport> = {
+  console: () => createConsoleTransport(),
+  file: env => createFileTransport(env('MAIL_OUTPUT_DIR') ?? '/tmp/job-digest'),
+  resend: env =>
+    createResendTransport(
+      requireEnv(env, 'RESEND_API_KEY'),
+      requireEnv(env, 'MAIL_FROM')
+    ),
+}
+
+/**
+ * Create the transport configured in the environment
+ *
+ * @param env - Environment reader (defaults to `Deno.env.get`)
+ * @returns The configured transport
+ * @throws When MAIL_TRANSPORT is unknown or its settings are missing
+ *
+ * @example
+ * ```typescript
+ * const transport = createMailTransport()
+ * await transport.send({ to, subject, html, text })
+ * ```
+ */
+export function createMailTransport(
+  env: EnvReader = name => Deno.env.get(name)
+): MailTransport {
+  const name = env('MAIL_TRANSPORT') ?? 'console'
+  const factory = MAIL_TRANSPORTS[name]
+
+  if (!factory) {
+    throw new Error(
+      `Unknown MAIL_TRANSPORT "${name}" (expected one of: ${Object.keys(
+        MAIL_TRANSPORTS
+      ).join(', ')})`
+    )
+  }
+
+  return factory(env)
+}
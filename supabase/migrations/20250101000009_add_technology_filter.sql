@@ -0,0 +1,321 @@
+-- Migration: Add Technology Filter
+-- Description: Adds technology filtering to search_jobs and get_companies_for_search
+--              (with alias resolution and an optional "required only" flag), and
+--              a get_technologies_for_search function for the technology filter options
+
+-- =============================================================================
+-- Function: Resolve Technology IDs
+-- Description: Maps technology names or aliases (case-insensitive) to
+--              canonical technology IDs, so "JS" and "javascript" resolve to
+--              the same technology
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS resolve_technology_ids;
+
+CREATE OR REPLACE FUNCTION resolve_technology_ids(
+  p_technology TEXT[]
+)
+RETURNS INT[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH requested AS (
+    SELECT LOWER(value) AS name FROM unnest(p_technology) AS value
+  )
+  SELECT COALESCE(array_agg(DISTINCT t.id), '{}')
+  FROM technologies t
+  WHERE LOWER(t.name) IN (SELECT name FROM requested)
+     OR EXISTS (
+       SELECT 1
+       FROM technology_aliases ta
+       WHERE ta.technology_id = t.id
+         AND LOWER(ta.alias) IN (SELECT name FROM requested)
+     );
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION resolve_technology_ids IS 'Resolves technology names or aliases (case-insensitive) to canonical technology IDs';
+
+-- =============================================================================
+-- Function: Search Jobs
+-- Description: Adds p_technology and p_technology_required_only arguments
+-- =============================================================================
+
+-- Drop existing function (parameter list changes)
+DROP FUNCTION IF EXISTS search_jobs;
+
+CREATE OR REPLACE FUNCTION search_jobs(
+  search_query TEXT,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Array for multi-select
+  p_employment_type employment_type_enum[] DEFAULT NULL,    -- Array for multi-select
+  p_work_mode work_mode_enum[] DEFAULT NULL,                -- Array for multi-select
+  p_province province_enum[] DEFAULT NULL,                  -- Array for multi-select
+  p_job_function job_function_enum[] DEFAULT NULL,          -- Array for multi-select
+  p_company TEXT[] DEFAULT NULL,                            -- Array for multi-select
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',               -- Single value (radio button)
+  p_sort TEXT DEFAULT 'relevance',                          -- 'relevance' | 'newest' | 'oldest'
+  p_technology TEXT[] DEFAULT NULL,                         -- Technology names or aliases (multi-select)
+  p_technology_required_only BOOLEAN DEFAULT FALSE          -- Only match required technologies
+)
+RETURNS TABLE (
+  id INT,
+  company_id INT,
+  title VARCHAR,
+  description TEXT,
+  responsibilities TEXT[],
+  skill_must_have TEXT[],
+  skill_nice_have TEXT[],
+  main_technologies TEXT[],
+  benefits TEXT[],
+  experience_level experience_level_enum,
+  employment_type employment_type_enum,
+  location location_enum,
+  city VARCHAR,
+  province province_enum,
+  work_mode work_mode_enum,
+  job_function job_function_enum,
+  language language_enum,
+  application_url VARCHAR,
+  is_active BOOLEAN,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP,
+  company_name VARCHAR,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+BEGIN
+  -- Resolve technology names/aliases once (NULL means no technology filter)
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  RETURN QUERY
+  WITH search_query_cte AS (
+    SELECT plainto_tsquery(p_language::text::regconfig, search_query) AS query
+  )
+  SELECT 
+    j.id,
+    j.company_id,
+    j.title,
+    j.description,
+    j.responsibilities,
+    j.skill_must_have,
+    j.skill_nice_have,
+    j.main_technologies,
+    j.benefits,
+    j.experience_level,
+    j.employment_type,
+    j.location,
+    j.city,
+    j.province,
+    j.work_mode,
+    j.job_function,
+    j.language,
+    j.application_url,
+    j.is_active,
+    j.created_at,
+    j.updated_at,
+    c.name AS company_name,
+    COUNT(*) OVER() AS total_count
+  FROM jobs j
+  JOIN companies c ON j.company_id = c.id
+  CROSS JOIN search_query_cte sq
+  WHERE 
+    j.is_active = true 
+    AND j.search_vector @@ sq.query
+    AND j.language = p_language
+    -- Array filters: NULL or empty array means no filter, otherwise use ANY()
+    AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+    AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+    AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+    AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+    AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+    AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+    -- Technology filter: job must be tagged with any of the resolved technologies
+    AND (v_technology_ids IS NULL OR EXISTS (
+      SELECT 1
+      FROM job_technologies jt
+      WHERE jt.job_id = j.id
+        AND jt.technology_id = ANY(v_technology_ids)
+        AND (NOT p_technology_required_only OR jt.is_required = true)
+    ))
+    -- Date filters
+    AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+  ORDER BY
+    -- Relevance: cover-density rank of the search vector against the query
+    CASE WHEN p_sort = 'relevance' THEN ts_rank_cd(j.search_vector, sq.query) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'oldest' THEN j.created_at END ASC,
+    -- Newest first (default, and tie-breaker for relevance)
+    j.created_at DESC,
+    j.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION search_jobs IS 'Full-text search for jobs with multi-select filtering (including technologies), sorting (relevance, newest, oldest) and pagination support';
+
+-- =============================================================================
+-- Function: Get Companies for Search
+-- Description: Adds the technology filter so company options reflect it
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_companies_for_search;
+
+CREATE OR REPLACE FUNCTION get_companies_for_search(
+  search_query TEXT,
+  p_limit INT DEFAULT 100,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Same filters as search_jobs
+  p_employment_type employment_type_enum[] DEFAULT NULL,
+  p_work_mode work_mode_enum[] DEFAULT NULL,
+  p_province province_enum[] DEFAULT NULL,
+  p_job_function job_function_enum[] DEFAULT NULL,
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',
+  p_technology TEXT[] DEFAULT NULL,
+  p_technology_required_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  company_name VARCHAR,
+  job_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+BEGIN
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  RETURN QUERY
+  WITH search_query_cte AS (
+    SELECT plainto_tsquery(p_language::text::regconfig, search_query) AS query
+  )
+  SELECT 
+    c.name AS company_name,
+    COUNT(j.id) AS job_count
+  FROM jobs j
+  JOIN companies c ON j.company_id = c.id
+  CROSS JOIN search_query_cte sq
+  WHERE 
+    j.is_active = true 
+    AND c.is_active = true
+    AND j.search_vector @@ sq.query
+    AND j.language = p_language
+    -- Apply same filters as search_jobs (except p_company)
+    AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+    AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+    AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+    AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+    AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+    AND (v_technology_ids IS NULL OR EXISTS (
+      SELECT 1
+      FROM job_technologies jt
+      WHERE jt.job_id = j.id
+        AND jt.technology_id = ANY(v_technology_ids)
+        AND (NOT p_technology_required_only OR jt.is_required = true)
+    ))
+    AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+  GROUP BY c.name
+  ORDER BY job_count DESC, c.name ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_companies_for_search IS 'Returns distinct company names with job counts for a given search query and applied filters';
+
+-- =============================================================================
+-- Function: Get Technologies for Search
+-- Description: Returns technologies (with their aliases) that are tagged on jobs
+--              matching a search query and all currently applied filters
+--              (except the technology filter itself)
+-- Used to populate the technology filter dropdown after a search is performed
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_technologies_for_search;
+
+CREATE OR REPLACE FUNCTION get_technologies_for_search(
+  search_query TEXT,
+  p_limit INT DEFAULT 100,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Same filters as search_jobs
+  p_employment_type employment_type_enum[] DEFAULT NULL,
+  p_work_mode work_mode_enum[] DEFAULT NULL,
+  p_province province_enum[] DEFAULT NULL,
+  p_job_function job_function_enum[] DEFAULT NULL,
+  p_company TEXT[] DEFAULT NULL,
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',
+  p_technology_required_only BOOLEAN DEFAULT FALSE          -- Only count required technologies
+)
+RETURNS TABLE (
+  technology_id INT,
+  technology_name VARCHAR,
+  aliases TEXT[],
+  job_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH search_query_cte AS (
+    SELECT plainto_tsquery(p_language::text::regconfig, search_query) AS query
+  ),
+  technology_counts AS (
+    SELECT 
+      jt.technology_id,
+      COUNT(DISTINCT j.id) AS job_count
+    FROM jobs j
+    JOIN companies c ON j.company_id = c.id
+    JOIN job_technologies jt ON jt.job_id = j.id
+    CROSS JOIN search_query_cte sq
+    WHERE 
+      j.is_active = true 
+      AND j.search_vector @@ sq.query
+      AND j.language = p_language
+      AND (NOT p_technology_required_only OR jt.is_required = true)
+      -- Apply same filters as search_jobs (except p_technology)
+      AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+      AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+      AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+      AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+      AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+      AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+      AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+    GROUP BY jt.technology_id
+  )
+  SELECT 
+    t.id AS technology_id,
+    t.name AS technology_name,
+    COALESCE(
+      (SELECT array_agg(ta.alias::TEXT ORDER BY ta.alias) FROM technology_aliases ta WHERE ta.technology_id = t.id),
+      '{}'
+    ) AS aliases,
+    tc.job_count
+  FROM technology_counts tc
+  JOIN technologies t ON t.id = tc.technology_id
+  ORDER BY tc.job_count DESC, t.name ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_technologies_for_search IS 'Returns technologies with aliases and job counts for a given search query and applied filters';
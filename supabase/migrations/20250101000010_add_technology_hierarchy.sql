@@ -0,0 +1,158 @@
+-- Migration: Add Technology Hierarchy
+-- Description: Uses technologies.parent_id so that filtering by a parent
+--              technology (e.g. JavaScript) also matches jobs tagged with any
+--              descendant (e.g. React), and returns the technology options as a
+--              tree with rolled-up job counts
+
+-- =============================================================================
+-- Function: Resolve Technology IDs
+-- Description: Maps technology names or aliases (case-insensitive) to
+--              canonical technology IDs, expanded with all descendants
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS resolve_technology_ids;
+
+CREATE OR REPLACE FUNCTION resolve_technology_ids(
+  p_technology TEXT[]
+)
+RETURNS INT[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE requested AS (
+    SELECT LOWER(value) AS name FROM unnest(p_technology) AS value
+  ),
+  matched AS (
+    SELECT t.id
+    FROM technologies t
+    WHERE LOWER(t.name) IN (SELECT name FROM requested)
+       OR EXISTS (
+         SELECT 1
+         FROM technology_aliases ta
+         WHERE ta.technology_id = t.id
+           AND LOWER(ta.alias) IN (SELECT name FROM requested)
+       )
+  ),
+  -- Walk down parent_id links; depth guard protects against cycles
+  descendants AS (
+    SELECT m.id, 0 AS depth FROM matched m
+    UNION ALL
+    SELECT child.id, d.depth + 1
+    FROM descendants d
+    JOIN technologies child ON child.parent_id = d.id
+    WHERE d.depth < 10
+  )
+  SELECT COALESCE(array_agg(DISTINCT d.id), '{}')
+  FROM descendants d;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION resolve_technology_ids IS 'Resolves technology names or aliases (case-insensitive) to canonical technology IDs, including all descendant technologies';
+
+-- =============================================================================
+-- Function: Get Technologies for Search
+-- Description: Returns technologies (with aliases and parent_id) tagged on jobs
+--              matching a search query and all currently applied filters
+--              (except the technology filter itself). Job counts are rolled up
+--              so each technology counts jobs tagged with it or any descendant.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_technologies_for_search;
+
+CREATE OR REPLACE FUNCTION get_technologies_for_search(
+  search_query TEXT,
+  p_limit INT DEFAULT 100,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Same filters as search_jobs
+  p_employment_type employment_type_enum[] DEFAULT NULL,
+  p_work_mode work_mode_enum[] DEFAULT NULL,
+  p_province province_enum[] DEFAULT NULL,
+  p_job_function job_function_enum[] DEFAULT NULL,
+  p_company TEXT[] DEFAULT NULL,
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',
+  p_technology_required_only BOOLEAN DEFAULT FALSE          -- Only count required technologies
+)
+RETURNS TABLE (
+  technology_id INT,
+  technology_name VARCHAR,
+  parent_id INT,
+  aliases TEXT[],
+  job_count BIGINT,
+  rollup_job_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH RECURSIVE search_query_cte AS (
+    SELECT plainto_tsquery(p_language::text::regconfig, search_query) AS query
+  ),
+  -- Ancestor/descendant closure (each technology is its own descendant)
+  technology_tree AS (
+    SELECT t.id AS ancestor_id, t.id AS descendant_id, 0 AS depth
+    FROM technologies t
+    UNION ALL
+    SELECT tt.ancestor_id, child.id, tt.depth + 1
+    FROM technology_tree tt
+    JOIN technologies child ON child.parent_id = tt.descendant_id
+    WHERE tt.depth < 10
+  ),
+  matching_jobs AS (
+    SELECT j.id
+    FROM jobs j
+    JOIN companies c ON j.company_id = c.id
+    CROSS JOIN search_query_cte sq
+    WHERE 
+      j.is_active = true 
+      AND j.search_vector @@ sq.query
+      AND j.language = p_language
+      -- Apply same filters as search_jobs (except p_technology)
+      AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+      AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+      AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+      AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+      AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+      AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+      AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+  ),
+  job_tags AS (
+    SELECT DISTINCT jt.job_id, jt.technology_id
+    FROM job_technologies jt
+    JOIN matching_jobs mj ON mj.id = jt.job_id
+    WHERE (NOT p_technology_required_only OR jt.is_required = true)
+  ),
+  direct_counts AS (
+    SELECT jtg.technology_id, COUNT(*) AS job_count
+    FROM job_tags jtg
+    GROUP BY jtg.technology_id
+  ),
+  rollup_counts AS (
+    SELECT tt.ancestor_id AS technology_id, COUNT(DISTINCT jtg.job_id) AS rollup_job_count
+    FROM job_tags jtg
+    JOIN technology_tree tt ON tt.descendant_id = jtg.technology_id
+    GROUP BY tt.ancestor_id
+  )
+  SELECT 
+    t.id AS technology_id,
+    t.name AS technology_name,
+    t.parent_id,
+    COALESCE(
+      (SELECT array_agg(ta.alias::TEXT ORDER BY ta.alias) FROM technology_aliases ta WHERE ta.technology_id = t.id),
+      '{}'
+    ) AS aliases,
+    COALESCE(dc.job_count, 0) AS job_count,
+    rc.rollup_job_count
+  FROM rollup_counts rc
+  JOIN technologies t ON t.id = rc.technology_id
+  LEFT JOIN direct_counts dc ON dc.technology_id = t.id
+  ORDER BY rc.rollup_job_count DESC, t.name ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_technologies_for_search IS 'Returns technologies with parent, aliases, direct and rolled-up (descendant-inclusive) job counts for a given search query and applied filters';
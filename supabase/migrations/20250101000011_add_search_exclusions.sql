@@ -0,0 +1,137 @@
+-- Migration: Add Search Exclusions
+-- Description: Lets search_jobs exclude jobs and companies the user has hidden,
+--              so total_count and pagination reflect what is actually shown
+
+-- =============================================================================
+-- Function: Search Jobs
+-- Description: Adds p_exclude_job_ids and p_exclude_company arguments
+-- =============================================================================
+
+-- Drop existing function (parameter list changes)
+DROP FUNCTION IF EXISTS search_jobs;
+
+CREATE OR REPLACE FUNCTION search_jobs(
+  search_query TEXT,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Array for multi-select
+  p_employment_type employment_type_enum[] DEFAULT NULL,    -- Array for multi-select
+  p_work_mode work_mode_enum[] DEFAULT NULL,                -- Array for multi-select
+  p_province province_enum[] DEFAULT NULL,                  -- Array for multi-select
+  p_job_function job_function_enum[] DEFAULT NULL,          -- Array for multi-select
+  p_company TEXT[] DEFAULT NULL,                            -- Array for multi-select
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',               -- Single value (radio button)
+  p_sort TEXT DEFAULT 'relevance',                          -- 'relevance' | 'newest' | 'oldest'
+  p_technology TEXT[] DEFAULT NULL,                         -- Technology names or aliases (multi-select)
+  p_technology_required_only BOOLEAN DEFAULT FALSE,         -- Only match required technologies
+  p_exclude_job_ids INT[] DEFAULT NULL,                     -- Jobs hidden by the user
+  p_exclude_company TEXT[] DEFAULT NULL                     -- Companies hidden by the user
+)
+RETURNS TABLE (
+  id INT,
+  company_id INT,
+  title VARCHAR,
+  description TEXT,
+  responsibilities TEXT[],
+  skill_must_have TEXT[],
+  skill_nice_have TEXT[],
+  main_technologies TEXT[],
+  benefits TEXT[],
+  experience_level experience_level_enum,
+  employment_type employment_type_enum,
+  location location_enum,
+  city VARCHAR,
+  province province_enum,
+  work_mode work_mode_enum,
+  job_function job_function_enum,
+  language language_enum,
+  application_url VARCHAR,
+  is_active BOOLEAN,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP,
+  company_name VARCHAR,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+BEGIN
+  -- Resolve technology names/aliases once (NULL means no technology filter)
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  RETURN QUERY
+  WITH search_query_cte AS (
+    SELECT plainto_tsquery(p_language::text::regconfig, search_query) AS query
+  )
+  SELECT 
+    j.id,
+    j.company_id,
+    j.title,
+    j.description,
+    j.responsibilities,
+    j.skill_must_have,
+    j.skill_nice_have,
+    j.main_technologies,
+    j.benefits,
+    j.experience_level,
+    j.employment_type,
+    j.location,
+    j.city,
+    j.province,
+    j.work_mode,
+    j.job_function,
+    j.language,
+    j.application_url,
+    j.is_active,
+    j.created_at,
+    j.updated_at,
+    c.name AS company_name,
+    COUNT(*) OVER() AS total_count
+  FROM jobs j
+  JOIN companies c ON j.company_id = c.id
+  CROSS JOIN search_query_cte sq
+  WHERE 
+    j.is_active = true 
+    AND j.search_vector @@ sq.query
+    AND j.language = p_language
+    -- Array filters: NULL or empty array means no filter, otherwise use ANY()
+    AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+    AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+    AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+    AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+    AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+    AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+    -- Technology filter: job must be tagged with any of the resolved technologies
+    AND (v_technology_ids IS NULL OR EXISTS (
+      SELECT 1
+      FROM job_technologies jt
+      WHERE jt.job_id = j.id
+        AND jt.technology_id = ANY(v_technology_ids)
+        AND (NOT p_technology_required_only OR jt.is_required = true)
+    ))
+    -- Date filters
+    AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+    -- Exclusions: hidden jobs and companies never count towards total_count
+    AND (p_exclude_job_ids IS NULL OR array_length(p_exclude_job_ids, 1) IS NULL OR j.id <> ALL(p_exclude_job_ids))
+    AND (p_exclude_company IS NULL OR array_length(p_exclude_company, 1) IS NULL OR c.name <> ALL(p_exclude_company))
+  ORDER BY
+    -- Relevance: cover-density rank of the search vector against the query
+    CASE WHEN p_sort = 'relevance' THEN ts_rank_cd(j.search_vector, sq.query) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'oldest' THEN j.created_at END ASC,
+    -- Newest first (default, and tie-breaker for relevance)
+    j.created_at DESC,
+    j.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION search_jobs IS 'Full-text search for jobs with multi-select filtering (including technologies), exclusion of hidden jobs/companies, sorting (relevance, newest, oldest) and pagination support';
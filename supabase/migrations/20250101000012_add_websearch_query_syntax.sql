@@ -0,0 +1,322 @@
+-- Migration: Add Web Search Query Syntax
+-- Description: Switches full-text matching from plainto_tsquery to
+--              websearch_to_tsquery so quoted phrases, -exclusions and OR
+--              typed into the search box are honoured instead of flattened.
+--              Plain queries (e.g. "react developer") match exactly as before.
+
+-- =============================================================================
+-- Function: Search Jobs
+-- Description: Parses search_query with websearch_to_tsquery
+-- =============================================================================
+
+-- Drop existing function
+DROP FUNCTION IF EXISTS search_jobs;
+
+CREATE OR REPLACE FUNCTION search_jobs(
+  search_query TEXT,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Array for multi-select
+  p_employment_type employment_type_enum[] DEFAULT NULL,    -- Array for multi-select
+  p_work_mode work_mode_enum[] DEFAULT NULL,                -- Array for multi-select
+  p_province province_enum[] DEFAULT NULL,                  -- Array for multi-select
+  p_job_function job_function_enum[] DEFAULT NULL,          -- Array for multi-select
+  p_company TEXT[] DEFAULT NULL,                            -- Array for multi-select
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',               -- Single value (radio button)
+  p_sort TEXT DEFAULT 'relevance',                          -- 'relevance' | 'newest' | 'oldest'
+  p_technology TEXT[] DEFAULT NULL,                         -- Technology names or aliases (multi-select)
+  p_technology_required_only BOOLEAN DEFAULT FALSE,         -- Only match required technologies
+  p_exclude_job_ids INT[] DEFAULT NULL,                     -- Jobs hidden by the user
+  p_exclude_company TEXT[] DEFAULT NULL                     -- Companies hidden by the user
+)
+RETURNS TABLE (
+  id INT,
+  company_id INT,
+  title VARCHAR,
+  description TEXT,
+  responsibilities TEXT[],
+  skill_must_have TEXT[],
+  skill_nice_have TEXT[],
+  main_technologies TEXT[],
+  benefits TEXT[],
+  experience_level experience_level_enum,
+  employment_type employment_type_enum,
+  location location_enum,
+  city VARCHAR,
+  province province_enum,
+  work_mode work_mode_enum,
+  job_function job_function_enum,
+  language language_enum,
+  application_url VARCHAR,
+  is_active BOOLEAN,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP,
+  company_name VARCHAR,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+BEGIN
+  -- Resolve technology names/aliases once (NULL means no technology filter)
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  RETURN QUERY
+  WITH search_query_cte AS (
+    -- Web-search syntax: "exact phrase", -exclusion, a OR b
+    SELECT websearch_to_tsquery(p_language::text::regconfig, search_query) AS query
+  )
+  SELECT 
+    j.id,
+    j.company_id,
+    j.title,
+    j.description,
+    j.responsibilities,
+    j.skill_must_have,
+    j.skill_nice_have,
+    j.main_technologies,
+    j.benefits,
+    j.experience_level,
+    j.employment_type,
+    j.location,
+    j.city,
+    j.province,
+    j.work_mode,
+    j.job_function,
+    j.language,
+    j.application_url,
+    j.is_active,
+    j.created_at,
+    j.updated_at,
+    c.name AS company_name,
+    COUNT(*) OVER() AS total_count
+  FROM jobs j
+  JOIN companies c ON j.company_id = c.id
+  CROSS JOIN search_query_cte sq
+  WHERE 
+    j.is_active = true 
+    AND j.search_vector @@ sq.query
+    AND j.language = p_language
+    -- Array filters: NULL or empty array means no filter, otherwise use ANY()
+    AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+    AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+    AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+    AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+    AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+    AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+    -- Technology filter: job must be tagged with any of the resolved technologies
+    AND (v_technology_ids IS NULL OR EXISTS (
+      SELECT 1
+      FROM job_technologies jt
+      WHERE jt.job_id = j.id
+        AND jt.technology_id = ANY(v_technology_ids)
+        AND (NOT p_technology_required_only OR jt.is_required = true)
+    ))
+    -- Date filters
+    AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+    -- Exclusions: hidden jobs and companies never count towards total_count
+    AND (p_exclude_job_ids IS NULL OR array_length(p_exclude_job_ids, 1) IS NULL OR j.id <> ALL(p_exclude_job_ids))
+    AND (p_exclude_company IS NULL OR array_length(p_exclude_company, 1) IS NULL OR c.name <> ALL(p_exclude_company))
+  ORDER BY
+    -- Relevance: cover-density rank of the search vector against the query
+    CASE WHEN p_sort = 'relevance' THEN ts_rank_cd(j.search_vector, sq.query) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'oldest' THEN j.created_at END ASC,
+    -- Newest first (default, and tie-breaker for relevance)
+    j.created_at DESC,
+    j.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION search_jobs IS 'Full-text search (web-search syntax) for jobs with multi-select filtering (including technologies), exclusion of hidden jobs/companies, sorting (relevance, newest, oldest) and pagination support';
+
+-- =============================================================================
+-- Function: Get Companies for Search
+-- Description: Parses search_query with websearch_to_tsquery so company
+--              options match the results list
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_companies_for_search;
+
+CREATE OR REPLACE FUNCTION get_companies_for_search(
+  search_query TEXT,
+  p_limit INT DEFAULT 100,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Same filters as search_jobs
+  p_employment_type employment_type_enum[] DEFAULT NULL,
+  p_work_mode work_mode_enum[] DEFAULT NULL,
+  p_province province_enum[] DEFAULT NULL,
+  p_job_function job_function_enum[] DEFAULT NULL,
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',
+  p_technology TEXT[] DEFAULT NULL,
+  p_technology_required_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  company_name VARCHAR,
+  job_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+BEGIN
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  RETURN QUERY
+  WITH search_query_cte AS (
+    -- Web-search syntax: "exact phrase", -exclusion, a OR b
+    SELECT websearch_to_tsquery(p_language::text::regconfig, search_query) AS query
+  )
+  SELECT 
+    c.name AS company_name,
+    COUNT(j.id) AS job_count
+  FROM jobs j
+  JOIN companies c ON j.company_id = c.id
+  CROSS JOIN search_query_cte sq
+  WHERE 
+    j.is_active = true 
+    AND c.is_active = true
+    AND j.search_vector @@ sq.query
+    AND j.language = p_language
+    -- Apply same filters as search_jobs (except p_company)
+    AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+    AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+    AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+    AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+    AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+    AND (v_technology_ids IS NULL OR EXISTS (
+      SELECT 1
+      FROM job_technologies jt
+      WHERE jt.job_id = j.id
+        AND jt.technology_id = ANY(v_technology_ids)
+        AND (NOT p_technology_required_only OR jt.is_required = true)
+    ))
+    AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+  GROUP BY c.name
+  ORDER BY job_count DESC, c.name ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_companies_for_search IS 'Returns distinct company names with job counts for a given search query (web-search syntax) and applied filters';
+
+-- =============================================================================
+-- Function: Get Technologies for Search
+-- Description: Parses search_query with websearch_to_tsquery so technology
+--              options match the results list
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_technologies_for_search;
+
+CREATE OR REPLACE FUNCTION get_technologies_for_search(
+  search_query TEXT,
+  p_limit INT DEFAULT 100,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Same filters as search_jobs
+  p_employment_type employment_type_enum[] DEFAULT NULL,
+  p_work_mode work_mode_enum[] DEFAULT NULL,
+  p_province province_enum[] DEFAULT NULL,
+  p_job_function job_function_enum[] DEFAULT NULL,
+  p_company TEXT[] DEFAULT NULL,
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum DEFAULT 'english',
+  p_technology_required_only BOOLEAN DEFAULT FALSE          -- Only count required technologies
+)
+RETURNS TABLE (
+  technology_id INT,
+  technology_name VARCHAR,
+  parent_id INT,
+  aliases TEXT[],
+  job_count BIGINT,
+  rollup_job_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH RECURSIVE search_query_cte AS (
+    -- Web-search syntax: "exact phrase", -exclusion, a OR b
+    SELECT websearch_to_tsquery(p_language::text::regconfig, search_query) AS query
+  ),
+  -- Ancestor/descendant closure (each technology is its own descendant)
+  technology_tree AS (
+    SELECT t.id AS ancestor_id, t.id AS descendant_id, 0 AS depth
+    FROM technologies t
+    UNION ALL
+    SELECT tt.ancestor_id, child.id, tt.depth + 1
+    FROM technology_tree tt
+    JOIN technologies child ON child.parent_id = tt.descendant_id
+    WHERE tt.depth < 10
+  ),
+  matching_jobs AS (
+    SELECT j.id
+    FROM jobs j
+    JOIN companies c ON j.company_id = c.id
+    CROSS JOIN search_query_cte sq
+    WHERE 
+      j.is_active = true 
+      AND j.search_vector @@ sq.query
+      AND j.language = p_language
+      -- Apply same filters as search_jobs (except p_technology)
+      AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+      AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+      AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+      AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+      AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+      AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+      AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+  ),
+  job_tags AS (
+    SELECT DISTINCT jt.job_id, jt.technology_id
+    FROM job_technologies jt
+    JOIN matching_jobs mj ON mj.id = jt.job_id
+    WHERE (NOT p_technology_required_only OR jt.is_required = true)
+  ),
+  direct_counts AS (
+    SELECT jtg.technology_id, COUNT(*) AS job_count
+    FROM job_tags jtg
+    GROUP BY jtg.technology_id
+  ),
+  rollup_counts AS (
+    SELECT tt.ancestor_id AS technology_id, COUNT(DISTINCT jtg.job_id) AS rollup_job_count
+    FROM job_tags jtg
+    JOIN technology_tree tt ON tt.descendant_id = jtg.technology_id
+    GROUP BY tt.ancestor_id
+  )
+  SELECT 
+    t.id AS technology_id,
+    t.name AS technology_name,
+    t.parent_id,
+    COALESCE(
+      (SELECT array_agg(ta.alias::TEXT ORDER BY ta.alias) FROM technology_aliases ta WHERE ta.technology_id = t.id),
+      '{}'
+    ) AS aliases,
+    COALESCE(dc.job_count, 0) AS job_count,
+    rc.rollup_job_count
+  FROM rollup_counts rc
+  JOIN technologies t ON t.id = rc.technology_id
+  LEFT JOIN direct_counts dc ON dc.technology_id = t.id
+  ORDER BY rc.rollup_job_count DESC, t.name ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_technologies_for_search IS 'Returns technologies with parent, aliases, direct and rolled-up (descendant-inclusive) job counts for a given search query (web-search syntax) and applied filters';
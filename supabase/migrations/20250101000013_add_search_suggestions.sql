@@ -0,0 +1,152 @@
+-- Migration: Add Search Suggestions
+-- Description: Adds trigram indexes and the suggest_search_terms function used
+--              for search-as-you-type suggestions (job titles, companies and
+--              technologies/aliases)
+
+-- =============================================================================
+-- Extension: pg_trgm
+-- =============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =============================================================================
+-- Trigram Indexes
+-- Description: Speed up ILIKE '%term%' and word-similarity matching
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_jobs_title_trgm ON jobs USING GIN (title gin_trgm_ops) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_companies_name_trgm ON companies USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_technologies_name_trgm ON technologies USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_technology_aliases_alias_trgm ON technology_aliases USING GIN (alias gin_trgm_ops);
+
+-- =============================================================================
+-- Function: Suggest Search Terms
+-- Description: Returns job titles, company names and technologies matching a
+--              partially typed query. Prefix matches rank first, then
+--              trigram word similarity (tolerates typos), then job count.
+--              Only terms with active jobs in the given language are returned.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS suggest_search_terms;
+
+CREATE OR REPLACE FUNCTION suggest_search_terms(
+  p_query TEXT,
+  p_limit INT DEFAULT 5,                                    -- Per suggestion type
+  p_language language_enum DEFAULT 'english'
+)
+RETURNS TABLE (
+  suggestion_type TEXT,                                     -- 'title' | 'company' | 'technology'
+  label TEXT,                                               -- Title, company or canonical technology name
+  matched_alias TEXT,                                       -- Alias that matched (technologies only)
+  job_count BIGINT,
+  score REAL
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT := lower(trim(p_query));
+  v_pattern TEXT;
+BEGIN
+  -- Too short to give useful suggestions
+  IF v_query IS NULL OR length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  -- Escape LIKE wildcards typed by the user
+  v_pattern := replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_');
+
+  RETURN QUERY
+  (
+    -- Job titles
+    SELECT
+      'title'::TEXT AS suggestion_type,
+      j.title::TEXT AS label,
+      NULL::TEXT AS matched_alias,
+      COUNT(*) AS job_count,
+      MAX(CASE
+        WHEN lower(j.title) LIKE v_pattern || '%' THEN 1.0
+        ELSE word_similarity(v_query, lower(j.title))
+      END)::REAL AS score
+    FROM jobs j
+    WHERE
+      j.is_active = true
+      AND j.language = p_language
+      AND (j.title ILIKE '%' || v_pattern || '%' OR v_query <% j.title)
+    GROUP BY j.title
+    ORDER BY score DESC, job_count DESC, label ASC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    -- Companies (with active jobs)
+    SELECT
+      'company'::TEXT,
+      c.name::TEXT,
+      NULL::TEXT,
+      COUNT(j.id),
+      (CASE
+        WHEN lower(c.name) LIKE v_pattern || '%' THEN 1.0
+        ELSE word_similarity(v_query, lower(c.name))
+      END)::REAL AS score
+    FROM companies c
+    JOIN jobs j ON j.company_id = c.id AND j.is_active = true AND j.language = p_language
+    WHERE
+      c.is_active = true
+      AND (c.name ILIKE '%' || v_pattern || '%' OR v_query <% c.name)
+    GROUP BY c.id, c.name
+    ORDER BY score DESC, COUNT(j.id) DESC, c.name ASC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    -- Technologies, matched by canonical name or alias
+    WITH technology_matches AS (
+      SELECT
+        t.id AS technology_id,
+        NULL::TEXT AS matched_alias,
+        (CASE
+          WHEN lower(t.name) LIKE v_pattern || '%' THEN 1.0
+          ELSE word_similarity(v_query, lower(t.name))
+        END)::REAL AS score
+      FROM technologies t
+      WHERE t.name ILIKE '%' || v_pattern || '%' OR v_query <% t.name
+      UNION ALL
+      SELECT
+        ta.technology_id,
+        ta.alias::TEXT,
+        (CASE
+          WHEN lower(ta.alias) LIKE v_pattern || '%' THEN 1.0
+          ELSE word_similarity(v_query, lower(ta.alias))
+        END)::REAL
+      FROM technology_aliases ta
+      WHERE ta.alias ILIKE '%' || v_pattern || '%' OR v_query <% ta.alias
+    ),
+    -- Best match per technology (canonical name wins ties over aliases)
+    best_matches AS (
+      SELECT DISTINCT ON (tm.technology_id)
+        tm.technology_id,
+        tm.matched_alias,
+        tm.score
+      FROM technology_matches tm
+      ORDER BY tm.technology_id, tm.score DESC, tm.matched_alias NULLS FIRST
+    )
+    SELECT
+      'technology'::TEXT,
+      t.name::TEXT,
+      bm.matched_alias,
+      COUNT(DISTINCT j.id),
+      bm.score
+    FROM best_matches bm
+    JOIN technologies t ON t.id = bm.technology_id
+    JOIN job_technologies jt ON jt.technology_id = t.id
+    JOIN jobs j ON j.id = jt.job_id AND j.is_active = true AND j.language = p_language
+    GROUP BY t.id, t.name, bm.matched_alias, bm.score
+    ORDER BY bm.score DESC, COUNT(DISTINCT j.id) DESC, t.name ASC
+    LIMIT p_limit
+  );
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION suggest_search_terms IS 'Returns job title, company and technology (name or alias) suggestions for a partially typed search query, ranked by prefix match, trigram similarity and job count';
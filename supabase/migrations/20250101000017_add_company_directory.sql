@@ -0,0 +1,77 @@
+-- Migration: Add Company Directory
+-- Description: Adds the get_company_directory function backing the /companies
+--              page: a server-side paginated, searchable list of every active
+--              company with its active job count, sortable by name or job
+--              count and filterable by the job functions it is hiring for.
+
+-- =============================================================================
+-- Function: Get Company Directory
+-- Description: Company names match by substring (trigram index). Without a
+--              job function filter, companies with no active jobs are listed
+--              with a count of 0; with one, only companies hiring in those
+--              functions are listed and only those jobs are counted.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_company_directory;
+
+CREATE OR REPLACE FUNCTION get_company_directory(
+  p_search TEXT DEFAULT NULL,                               -- Company name substring (NULL = all)
+  p_job_function job_function_enum[] DEFAULT NULL,          -- Array for multi-select (NULL = all)
+  p_sort TEXT DEFAULT 'name',                               -- 'name' | 'job_count'
+  p_limit INT DEFAULT 24,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  company_id INT,
+  company_name VARCHAR,
+  job_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_search TEXT := NULLIF(trim(p_search), '');
+  v_pattern TEXT;
+  v_has_function_filter BOOLEAN :=
+    p_job_function IS NOT NULL AND array_length(p_job_function, 1) IS NOT NULL;
+BEGIN
+  -- Escape LIKE wildcards typed by the user
+  IF v_search IS NOT NULL THEN
+    v_pattern := replace(replace(replace(v_search, '\', '\\'), '%', '\%'), '_', '\_');
+  END IF;
+
+  RETURN QUERY
+  WITH company_counts AS (
+    SELECT
+      c.id,
+      c.name,
+      COUNT(j.id) AS job_count
+    FROM companies c
+    LEFT JOIN jobs j
+      ON j.company_id = c.id
+      AND j.is_active = true
+      AND (NOT v_has_function_filter OR j.job_function = ANY(p_job_function))
+    WHERE
+      c.is_active = true
+      AND (v_pattern IS NULL OR c.name ILIKE '%' || v_pattern || '%')
+    GROUP BY c.id, c.name
+  )
+  SELECT
+    cc.id AS company_id,
+    cc.name AS company_name,
+    cc.job_count,
+    COUNT(*) OVER() AS total_count
+  FROM company_counts cc
+  WHERE NOT v_has_function_filter OR cc.job_count > 0
+  ORDER BY
+    CASE WHEN p_sort = 'job_count' THEN cc.job_count END DESC NULLS LAST,
+    lower(cc.name) ASC,
+    cc.id ASC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_company_directory IS 'Returns a page of active companies with their active job counts, optionally filtered by name substring and hiring job functions, sorted by name or job count';
@@ -0,0 +1,252 @@
+-- Migration: Add Company Logo and Details
+-- Description: Adds logo URL, website and description to companies. The logo
+--              is returned with every search result (search_jobs) and
+--              directory entry (get_company_directory), so the frontend no
+--              longer guesses logo paths from company names.
+
+-- =============================================================================
+-- Companies Table: Logo and Details Columns
+-- =============================================================================
+
+ALTER TABLE companies
+    ADD COLUMN logo_url TEXT,
+    ADD COLUMN website TEXT,
+    ADD COLUMN description TEXT;
+
+COMMENT ON COLUMN companies.logo_url IS 'Absolute URL of the company logo (NULL shows a monogram)';
+COMMENT ON COLUMN companies.website IS 'Company website URL';
+COMMENT ON COLUMN companies.description IS 'Short description shown on the company profile';
+
+-- =============================================================================
+-- Function: Search Jobs
+-- Description: Also returns the company logo URL
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS search_jobs;
+
+CREATE OR REPLACE FUNCTION search_jobs(
+  search_query TEXT,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Array for multi-select
+  p_employment_type employment_type_enum[] DEFAULT NULL,    -- Array for multi-select
+  p_work_mode work_mode_enum[] DEFAULT NULL,                -- Array for multi-select
+  p_province province_enum[] DEFAULT NULL,                  -- Array for multi-select
+  p_job_function job_function_enum[] DEFAULT NULL,          -- Array for multi-select
+  p_company TEXT[] DEFAULT NULL,                            -- Array for multi-select
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum[] DEFAULT NULL,                  -- Array for multi-select (NULL = all)
+  p_sort TEXT DEFAULT 'relevance',                          -- 'relevance' | 'newest' | 'oldest'
+  p_technology TEXT[] DEFAULT NULL,                         -- Technology names or aliases (multi-select)
+  p_technology_required_only BOOLEAN DEFAULT FALSE,         -- Only match required technologies
+  p_exclude_job_ids INT[] DEFAULT NULL,                     -- Jobs hidden by the user
+  p_exclude_company TEXT[] DEFAULT NULL,                    -- Companies hidden by the user
+  p_salary_min NUMERIC DEFAULT NULL,                        -- Monthly USD lower bound
+  p_salary_max NUMERIC DEFAULT NULL,                        -- Monthly USD upper bound
+  p_usd_to_crc_rate NUMERIC DEFAULT 510                     -- CRC per USD, for normalization
+)
+RETURNS TABLE (
+  id INT,
+  company_id INT,
+  title VARCHAR,
+  description TEXT,
+  responsibilities TEXT[],
+  skill_must_have TEXT[],
+  skill_nice_have TEXT[],
+  main_technologies TEXT[],
+  benefits TEXT[],
+  experience_level experience_level_enum,
+  employment_type employment_type_enum,
+  location location_enum,
+  city VARCHAR,
+  province province_enum,
+  work_mode work_mode_enum,
+  job_function job_function_enum,
+  language language_enum,
+  application_url VARCHAR,
+  is_active BOOLEAN,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP,
+  salary_min NUMERIC,
+  salary_max NUMERIC,
+  salary_currency salary_currency_enum,
+  salary_period salary_period_enum,
+  company_name VARCHAR,
+  company_logo_url TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+BEGIN
+  -- Resolve technology names/aliases once (NULL means no technology filter)
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  RETURN QUERY
+  WITH search_query_cte AS (
+    -- Web-search syntax: "exact phrase", -exclusion, a OR b
+    -- One tsquery per language config, so each job is matched (and ranked)
+    -- with the stemming rules of its own language
+    -- An empty query is NULL (browse mode: no full-text predicate)
+    SELECT
+      l.lang,
+      CASE
+        WHEN trim(COALESCE(search_query, '')) = '' THEN NULL
+        ELSE websearch_to_tsquery(l.lang::text::regconfig, search_query)
+      END AS query
+    FROM unnest(enum_range(NULL::language_enum)) AS l(lang)
+  )
+  SELECT 
+    j.id,
+    j.company_id,
+    j.title,
+    j.description,
+    j.responsibilities,
+    j.skill_must_have,
+    j.skill_nice_have,
+    j.main_technologies,
+    j.benefits,
+    j.experience_level,
+    j.employment_type,
+    j.location,
+    j.city,
+    j.province,
+    j.work_mode,
+    j.job_function,
+    j.language,
+    j.application_url,
+    j.is_active,
+    j.created_at,
+    j.updated_at,
+    j.salary_min,
+    j.salary_max,
+    j.salary_currency,
+    j.salary_period,
+    c.name AS company_name,
+    c.logo_url AS company_logo_url,
+    COUNT(*) OVER() AS total_count
+  FROM jobs j
+  JOIN companies c ON j.company_id = c.id
+  JOIN search_query_cte sq ON sq.lang = j.language
+  WHERE 
+    j.is_active = true 
+    AND (sq.query IS NULL OR j.search_vector @@ sq.query)
+    -- Language filter: NULL or empty array means all languages
+    AND (p_language IS NULL OR array_length(p_language, 1) IS NULL OR j.language = ANY(p_language))
+    -- Array filters: NULL or empty array means no filter, otherwise use ANY()
+    AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+    AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+    AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+    AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+    AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+    AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+    -- Technology filter: job must be tagged with any of the resolved technologies
+    AND (v_technology_ids IS NULL OR EXISTS (
+      SELECT 1
+      FROM job_technologies jt
+      WHERE jt.job_id = j.id
+        AND jt.technology_id = ANY(v_technology_ids)
+        AND (NOT p_technology_required_only OR jt.is_required = true)
+    ))
+    -- Date filters
+    AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+    -- Exclusions: hidden jobs and companies never count towards total_count
+    AND (p_exclude_job_ids IS NULL OR array_length(p_exclude_job_ids, 1) IS NULL OR j.id <> ALL(p_exclude_job_ids))
+    AND (p_exclude_company IS NULL OR array_length(p_exclude_company, 1) IS NULL OR c.name <> ALL(p_exclude_company))
+    -- Salary filter: normalized (monthly USD) salary range must overlap the
+    -- requested range; jobs without salary data are excluded while it is set
+    AND (p_salary_min IS NULL OR salary_to_monthly_usd(COALESCE(j.salary_max, j.salary_min), j.salary_currency, j.salary_period, p_usd_to_crc_rate) >= p_salary_min)
+    AND (p_salary_max IS NULL OR salary_to_monthly_usd(COALESCE(j.salary_min, j.salary_max), j.salary_currency, j.salary_period, p_usd_to_crc_rate) <= p_salary_max)
+  ORDER BY
+    -- Relevance: cover-density rank of the search vector against the query
+    -- (NULL when browsing, so browse results fall through to newest first)
+    CASE WHEN p_sort = 'relevance' THEN ts_rank_cd(j.search_vector, sq.query) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'oldest' THEN j.created_at END ASC,
+    -- Newest first (default, and tie-breaker for relevance)
+    j.created_at DESC,
+    j.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION search_jobs IS 'Full-text search (web-search syntax; empty query browses all jobs) across all posting languages (each matched with its own language config) with multi-select filtering (including technologies and languages), exclusion of hidden jobs/companies, salary range (normalized to monthly USD), sorting (relevance, newest, oldest) and pagination support; rows include the company name and logo URL';
+
+-- =============================================================================
+-- Function: Get Company Directory
+-- Description: Also returns the company logo URL
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_company_directory;
+
+CREATE OR REPLACE FUNCTION get_company_directory(
+  p_search TEXT DEFAULT NULL,                               -- Company name substring (NULL = all)
+  p_job_function job_function_enum[] DEFAULT NULL,          -- Array for multi-select (NULL = all)
+  p_sort TEXT DEFAULT 'name',                               -- 'name' | 'job_count'
+  p_limit INT DEFAULT 24,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  company_id INT,
+  company_name VARCHAR,
+  company_logo_url TEXT,
+  job_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_search TEXT := NULLIF(trim(p_search), '');
+  v_pattern TEXT;
+  v_has_function_filter BOOLEAN :=
+    p_job_function IS NOT NULL AND array_length(p_job_function, 1) IS NOT NULL;
+BEGIN
+  -- Escape LIKE wildcards typed by the user
+  IF v_search IS NOT NULL THEN
+    v_pattern := replace(replace(replace(v_search, '\', '\\'), '%', '\%'), '_', '\_');
+  END IF;
+
+  RETURN QUERY
+  WITH company_counts AS (
+    SELECT
+      c.id,
+      c.name,
+      c.logo_url,
+      COUNT(j.id) AS job_count
+    FROM companies c
+    LEFT JOIN jobs j
+      ON j.company_id = c.id
+      AND j.is_active = true
+      AND (NOT v_has_function_filter OR j.job_function = ANY(p_job_function))
+    WHERE
+      c.is_active = true
+      AND (v_pattern IS NULL OR c.name ILIKE '%' || v_pattern || '%')
+    GROUP BY c.id, c.name, c.logo_url
+  )
+  SELECT
+    cc.id AS company_id,
+    cc.name AS company_name,
+    cc.logo_url AS company_logo_url,
+    cc.job_count,
+    COUNT(*) OVER() AS total_count
+  FROM company_counts cc
+  WHERE NOT v_has_function_filter OR cc.job_count > 0
+  ORDER BY
+    CASE WHEN p_sort = 'job_count' THEN cc.job_count END DESC NULLS LAST,
+    lower(cc.name) ASC,
+    cc.id ASC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_company_directory IS 'Returns a page of active companies with their active job counts, optionally filtered by name substring and hiring job functions, sorted by name or job count; rows include the company logo URL';
@@ -0,0 +1,153 @@
+-- Migration: Add Similar Jobs
+-- Description: Adds the get_similar_jobs function behind the "Similar jobs"
+--              section of the job details. Other active jobs are scored by
+--              shared technologies (tagged and main), same job function and
+--              experience level, and trigram similarity of the title. Rows
+--              have the same shape as search_jobs.
+
+-- =============================================================================
+-- Function: Get Similar Jobs
+-- Description: A candidate needs a shared technology, a similar title, or the
+--              same job function and experience level; the remaining signals
+--              only affect ranking. Shared technology counts are capped so a
+--              long technology list cannot outweigh everything else.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_similar_jobs;
+
+CREATE OR REPLACE FUNCTION get_similar_jobs(
+  p_job_id INT,
+  p_limit INT DEFAULT 5
+)
+RETURNS TABLE (
+  id INT,
+  company_id INT,
+  title VARCHAR,
+  description TEXT,
+  responsibilities TEXT[],
+  skill_must_have TEXT[],
+  skill_nice_have TEXT[],
+  main_technologies TEXT[],
+  benefits TEXT[],
+  experience_level experience_level_enum,
+  employment_type employment_type_enum,
+  location location_enum,
+  city VARCHAR,
+  province province_enum,
+  work_mode work_mode_enum,
+  job_function job_function_enum,
+  language language_enum,
+  application_url VARCHAR,
+  is_active BOOLEAN,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP,
+  salary_min NUMERIC,
+  salary_max NUMERIC,
+  salary_currency salary_currency_enum,
+  salary_period salary_period_enum,
+  company_name VARCHAR,
+  company_logo_url TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH source_job AS (
+    SELECT
+      s.id AS job_id,
+      lower(s.title) AS title,
+      s.job_function,
+      s.experience_level,
+      COALESCE(
+        (SELECT array_agg(lower(mt)) FROM unnest(s.main_technologies) AS mt),
+        '{}'
+      ) AS technologies
+    FROM jobs s
+    WHERE s.id = p_job_id
+  ),
+  candidates AS (
+    SELECT
+      j.id AS job_id,
+      -- Technologies tagged on both jobs
+      (
+        SELECT COUNT(*)
+        FROM job_technologies jt
+        JOIN job_technologies sjt
+          ON sjt.technology_id = jt.technology_id
+          AND sjt.job_id = sj.job_id
+        WHERE jt.job_id = j.id
+      ) AS shared_tags,
+      -- Main technologies listed on both jobs (case-insensitive)
+      (
+        SELECT COUNT(*)
+        FROM unnest(j.main_technologies) AS mt
+        WHERE lower(mt) = ANY(sj.technologies)
+      ) AS shared_main,
+      j.job_function = sj.job_function AS same_function,
+      j.experience_level = sj.experience_level AS same_level,
+      similarity(lower(j.title), sj.title) AS title_similarity
+    FROM jobs j
+    CROSS JOIN source_job sj
+    WHERE
+      j.is_active = true
+      AND j.id <> sj.job_id
+  ),
+  scored AS (
+    SELECT
+      cand.job_id,
+      LEAST(cand.shared_tags, 5) * 2.0
+        + LEAST(cand.shared_main, 5) * 1.0
+        + CASE WHEN cand.same_function THEN 2.0 ELSE 0 END
+        + CASE WHEN cand.same_level THEN 1.0 ELSE 0 END
+        + cand.title_similarity * 4.0 AS score
+    FROM candidates cand
+    WHERE
+      cand.shared_tags > 0
+      OR cand.shared_main > 0
+      OR cand.title_similarity >= 0.3
+      OR (cand.same_function AND cand.same_level)
+  )
+  SELECT
+    j.id,
+    j.company_id,
+    j.title,
+    j.description,
+    j.responsibilities,
+    j.skill_must_have,
+    j.skill_nice_have,
+    j.main_technologies,
+    j.benefits,
+    j.experience_level,
+    j.employment_type,
+    j.location,
+    j.city,
+    j.province,
+    j.work_mode,
+    j.job_function,
+    j.language,
+    j.application_url,
+    j.is_active,
+    j.created_at,
+    j.updated_at,
+    j.salary_min,
+    j.salary_max,
+    j.salary_currency,
+    j.salary_period,
+    c.name AS company_name,
+    c.logo_url AS company_logo_url,
+    COUNT(*) OVER() AS total_count
+  FROM scored sc
+  JOIN jobs j ON j.id = sc.job_id
+  JOIN companies c ON j.company_id = c.id
+  ORDER BY
+    sc.score DESC,
+    j.created_at DESC,
+    j.id DESC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_similar_jobs IS 'Returns active jobs similar to a given job, ranked by shared technologies, same job function and experience level, and title trigram similarity; rows have the same shape as search_jobs';
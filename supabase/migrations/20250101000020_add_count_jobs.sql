@@ -0,0 +1,99 @@
+-- Migration: Add Count Jobs
+-- Description: Adds the count_jobs function used to preview the number of
+--              results while filters are staged in the "All filters" drawer
+--              and for "new since last opened" badges on saved searches.
+--              It applies exactly the same predicates as search_jobs but
+--              skips ranking, sorting and row transfer.
+
+-- =============================================================================
+-- Function: Count Jobs
+-- Description: Mirrors the WHERE clause of search_jobs; keep both in sync
+--              when filters are added.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS count_jobs;
+
+CREATE OR REPLACE FUNCTION count_jobs(
+  search_query TEXT,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Array for multi-select
+  p_employment_type employment_type_enum[] DEFAULT NULL,    -- Array for multi-select
+  p_work_mode work_mode_enum[] DEFAULT NULL,                -- Array for multi-select
+  p_province province_enum[] DEFAULT NULL,                  -- Array for multi-select
+  p_job_function job_function_enum[] DEFAULT NULL,          -- Array for multi-select
+  p_company TEXT[] DEFAULT NULL,                            -- Array for multi-select
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum[] DEFAULT NULL,                  -- Array for multi-select (NULL = all)
+  p_technology TEXT[] DEFAULT NULL,                         -- Technology names or aliases (multi-select)
+  p_technology_required_only BOOLEAN DEFAULT FALSE,         -- Only match required technologies
+  p_exclude_job_ids INT[] DEFAULT NULL,                     -- Jobs hidden by the user
+  p_exclude_company TEXT[] DEFAULT NULL,                    -- Companies hidden by the user
+  p_salary_min NUMERIC DEFAULT NULL,                        -- Monthly USD lower bound
+  p_salary_max NUMERIC DEFAULT NULL,                        -- Monthly USD upper bound
+  p_usd_to_crc_rate NUMERIC DEFAULT 510                     -- CRC per USD, for normalization
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+  v_count BIGINT;
+BEGIN
+  -- Resolve technology names/aliases once (NULL means no technology filter)
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  WITH search_query_cte AS (
+    -- Same per-language tsqueries as search_jobs (NULL in browse mode)
+    SELECT
+      l.lang,
+      CASE
+        WHEN trim(COALESCE(search_query, '')) = '' THEN NULL
+        ELSE websearch_to_tsquery(l.lang::text::regconfig, search_query)
+      END AS query
+    FROM unnest(enum_range(NULL::language_enum)) AS l(lang)
+  )
+  SELECT COUNT(*)
+  INTO v_count
+  FROM jobs j
+  JOIN companies c ON j.company_id = c.id
+  JOIN search_query_cte sq ON sq.lang = j.language
+  WHERE
+    j.is_active = true
+    AND (sq.query IS NULL OR j.search_vector @@ sq.query)
+    -- Language filter: NULL or empty array means all languages
+    AND (p_language IS NULL OR array_length(p_language, 1) IS NULL OR j.language = ANY(p_language))
+    -- Array filters: NULL or empty array means no filter, otherwise use ANY()
+    AND (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level))
+    AND (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type))
+    AND (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode))
+    AND (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province))
+    AND (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function))
+    AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+    -- Technology filter: job must be tagged with any of the resolved technologies
+    AND (v_technology_ids IS NULL OR EXISTS (
+      SELECT 1
+      FROM job_technologies jt
+      WHERE jt.job_id = j.id
+        AND jt.technology_id = ANY(v_technology_ids)
+        AND (NOT p_technology_required_only OR jt.is_required = true)
+    ))
+    -- Date filters
+    AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+    -- Exclusions: hidden jobs and companies
+    AND (p_exclude_job_ids IS NULL OR array_length(p_exclude_job_ids, 1) IS NULL OR j.id <> ALL(p_exclude_job_ids))
+    AND (p_exclude_company IS NULL OR array_length(p_exclude_company, 1) IS NULL OR c.name <> ALL(p_exclude_company))
+    -- Salary filter: normalized (monthly USD) salary range must overlap the
+    -- requested range; jobs without salary data are excluded while it is set
+    AND (p_salary_min IS NULL OR salary_to_monthly_usd(COALESCE(j.salary_max, j.salary_min), j.salary_currency, j.salary_period, p_usd_to_crc_rate) >= p_salary_min)
+    AND (p_salary_max IS NULL OR salary_to_monthly_usd(COALESCE(j.salary_min, j.salary_max), j.salary_currency, j.salary_period, p_usd_to_crc_rate) <= p_salary_max);
+
+  RETURN v_count;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION count_jobs IS 'Counts active jobs matching the same search and filters as search_jobs (without sorting or pagination); used for result count previews';
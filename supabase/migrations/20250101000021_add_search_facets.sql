@@ -0,0 +1,135 @@
+-- Migration: Add Search Facets
+-- Description: Adds the get_search_facets function that returns per-value
+--              job counts for the enum filters (experience level,
+--              employment type, work mode, province, job function and
+--              language), shown next to every option in the filter menus.
+--              Company and technology counts keep coming from
+--              get_companies_for_search and get_technologies_for_search.
+
+-- =============================================================================
+-- Function: Get Search Facets
+-- Description: Counts follow the usual faceting rule: each facet is counted
+--              under the query and all other filters, but not its own
+--              selection, so selecting a province still shows how many jobs
+--              the other provinces would add. Values without matching jobs
+--              are omitted (the frontend treats them as zero).
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_search_facets;
+
+CREATE OR REPLACE FUNCTION get_search_facets(
+  search_query TEXT,
+  p_experience_level experience_level_enum[] DEFAULT NULL,  -- Same filters as search_jobs
+  p_employment_type employment_type_enum[] DEFAULT NULL,
+  p_work_mode work_mode_enum[] DEFAULT NULL,
+  p_province province_enum[] DEFAULT NULL,
+  p_job_function job_function_enum[] DEFAULT NULL,
+  p_company TEXT[] DEFAULT NULL,
+  p_date_from TIMESTAMP DEFAULT NULL,
+  p_date_to TIMESTAMP DEFAULT NULL,
+  p_language language_enum[] DEFAULT NULL,                  -- NULL = all languages
+  p_technology TEXT[] DEFAULT NULL,
+  p_technology_required_only BOOLEAN DEFAULT FALSE,
+  p_exclude_job_ids INT[] DEFAULT NULL,                     -- Jobs hidden by the user
+  p_exclude_company TEXT[] DEFAULT NULL,                    -- Companies hidden by the user
+  p_salary_min NUMERIC DEFAULT NULL,                        -- Monthly USD lower bound
+  p_salary_max NUMERIC DEFAULT NULL,                        -- Monthly USD upper bound
+  p_usd_to_crc_rate NUMERIC DEFAULT 510                     -- CRC per USD, for normalization
+)
+RETURNS TABLE (
+  facet TEXT,                                               -- Column name, e.g. 'work_mode'
+  value TEXT,                                               -- Enum value, e.g. 'remote'
+  job_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_technology_ids INT[];
+BEGIN
+  IF p_technology IS NOT NULL AND array_length(p_technology, 1) IS NOT NULL THEN
+    v_technology_ids := resolve_technology_ids(p_technology);
+  END IF;
+
+  RETURN QUERY
+  WITH search_query_cte AS (
+    -- Same per-language tsqueries as search_jobs (NULL in browse mode)
+    SELECT
+      l.lang,
+      CASE
+        WHEN trim(COALESCE(search_query, '')) = '' THEN NULL
+        ELSE websearch_to_tsquery(l.lang::text::regconfig, search_query)
+      END AS query
+    FROM unnest(enum_range(NULL::language_enum)) AS l(lang)
+  ),
+  candidates AS (
+    -- Jobs matching the query and every non-facet filter, flagged with
+    -- whether they match each facet's own selection
+    SELECT
+      j.experience_level,
+      j.employment_type,
+      j.work_mode,
+      j.province,
+      j.job_function,
+      j.language,
+      (p_experience_level IS NULL OR array_length(p_experience_level, 1) IS NULL OR j.experience_level = ANY(p_experience_level)) AS m_experience_level,
+      (p_employment_type IS NULL OR array_length(p_employment_type, 1) IS NULL OR j.employment_type = ANY(p_employment_type)) AS m_employment_type,
+      (p_work_mode IS NULL OR array_length(p_work_mode, 1) IS NULL OR j.work_mode = ANY(p_work_mode)) AS m_work_mode,
+      (p_province IS NULL OR array_length(p_province, 1) IS NULL OR j.province = ANY(p_province)) AS m_province,
+      (p_job_function IS NULL OR array_length(p_job_function, 1) IS NULL OR j.job_function = ANY(p_job_function)) AS m_job_function,
+      (p_language IS NULL OR array_length(p_language, 1) IS NULL OR j.language = ANY(p_language)) AS m_language
+    FROM jobs j
+    JOIN companies c ON j.company_id = c.id
+    JOIN search_query_cte sq ON sq.lang = j.language
+    WHERE
+      j.is_active = true
+      AND (sq.query IS NULL OR j.search_vector @@ sq.query)
+      AND (p_company IS NULL OR array_length(p_company, 1) IS NULL OR c.name = ANY(p_company))
+      AND (v_technology_ids IS NULL OR EXISTS (
+        SELECT 1
+        FROM job_technologies jt
+        WHERE jt.job_id = j.id
+          AND jt.technology_id = ANY(v_technology_ids)
+          AND (NOT p_technology_required_only OR jt.is_required = true)
+      ))
+      AND (p_date_from IS NULL OR j.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR j.created_at <= p_date_to)
+      AND (p_exclude_job_ids IS NULL OR array_length(p_exclude_job_ids, 1) IS NULL OR j.id <> ALL(p_exclude_job_ids))
+      AND (p_exclude_company IS NULL OR array_length(p_exclude_company, 1) IS NULL OR c.name <> ALL(p_exclude_company))
+      AND (p_salary_min IS NULL OR salary_to_monthly_usd(COALESCE(j.salary_max, j.salary_min), j.salary_currency, j.salary_period, p_usd_to_crc_rate) >= p_salary_min)
+      AND (p_salary_max IS NULL OR salary_to_monthly_usd(COALESCE(j.salary_min, j.salary_max), j.salary_currency, j.salary_period, p_usd_to_crc_rate) <= p_salary_max)
+  )
+  SELECT 'experience_level', cd.experience_level::TEXT, COUNT(*)
+  FROM candidates cd
+  WHERE cd.m_employment_type AND cd.m_work_mode AND cd.m_province AND cd.m_job_function AND cd.m_language
+  GROUP BY cd.experience_level
+  UNION ALL
+  SELECT 'employment_type', cd.employment_type::TEXT, COUNT(*)
+  FROM candidates cd
+  WHERE cd.m_experience_level AND cd.m_work_mode AND cd.m_province AND cd.m_job_function AND cd.m_language
+  GROUP BY cd.employment_type
+  UNION ALL
+  SELECT 'work_mode', cd.work_mode::TEXT, COUNT(*)
+  FROM candidates cd
+  WHERE cd.m_experience_level AND cd.m_employment_type AND cd.m_province AND cd.m_job_function AND cd.m_language
+  GROUP BY cd.work_mode
+  UNION ALL
+  SELECT 'province', cd.province::TEXT, COUNT(*)
+  FROM candidates cd
+  WHERE cd.m_experience_level AND cd.m_employment_type AND cd.m_work_mode AND cd.m_job_function AND cd.m_language
+  GROUP BY cd.province
+  UNION ALL
+  SELECT 'job_function', cd.job_function::TEXT, COUNT(*)
+  FROM candidates cd
+  WHERE cd.m_experience_level AND cd.m_employment_type AND cd.m_work_mode AND cd.m_province AND cd.m_language
+  GROUP BY cd.job_function
+  UNION ALL
+  SELECT 'language', cd.language::TEXT, COUNT(*)
+  FROM candidates cd
+  WHERE cd.m_experience_level AND cd.m_employment_type AND cd.m_work_mode AND cd.m_province AND cd.m_job_function
+  GROUP BY cd.language;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_search_facets IS 'Returns per-value job counts for the experience level, employment type, work mode, province, job function and language filters under the current search and all other filters (each facet ignores its own selection); values without jobs are omitted';
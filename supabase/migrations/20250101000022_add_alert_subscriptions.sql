@@ -0,0 +1,50 @@
+-- Migration: Add Alert Subscriptions
+-- Description: Adds the alert_subscriptions table behind the job-digest Edge
+--              Function, which emails a daily or weekly digest of the jobs
+--              posted since the previous digest for each subscription.
+--              Filters are stored as search_jobs arguments, so the digest
+--              runs exactly the same search as the frontend.
+
+-- =============================================================================
+-- Enum: Digest Frequency
+-- =============================================================================
+
+-- How often a subscription receives its digest
+CREATE TYPE digest_frequency_enum AS ENUM (
+    'daily',
+    'weekly'
+);
+
+-- =============================================================================
+-- Table: Alert Subscriptions
+-- =============================================================================
+
+CREATE TABLE alert_subscriptions (
+    id SERIAL PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    search_params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    frequency digest_frequency_enum NOT NULL DEFAULT 'daily',
+    locale VARCHAR(2) NOT NULL DEFAULT 'es' CHECK (locale IN ('en', 'es')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_digest_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Digest runs only look at active subscriptions of one frequency
+CREATE INDEX idx_alert_subscriptions_frequency ON alert_subscriptions(frequency) WHERE is_active = TRUE;
+
+-- Add comments to table and columns
+COMMENT ON TABLE alert_subscriptions IS 'Saved searches that receive an email digest of new job postings';
+COMMENT ON COLUMN alert_subscriptions.search_params IS 'search_jobs arguments (e.g. {"search_query": "react", "p_work_mode": ["remote"]}); paging, sorting and p_date_from are set by the digest';
+COMMENT ON COLUMN alert_subscriptions.locale IS 'Language of the digest email (en or es)';
+COMMENT ON COLUMN alert_subscriptions.last_digest_at IS 'End of the last digest window, set even when there were no new jobs (NULL until the first run; the window then starts at created_at)';
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+-- No policies: subscriptions contain email addresses and are only read and
+-- written server-side with the service_role key (see enable_rls migration)
+ALTER TABLE alert_subscriptions ENABLE ROW LEVEL SECURITY;
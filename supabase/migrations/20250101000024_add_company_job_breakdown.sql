@@ -0,0 +1,52 @@
+-- Migration: Add Company Job Breakdown
+-- Description: Adds the get_company_job_breakdown function behind the
+--              company profile header: the number of active jobs of a
+--              company per job function, work mode and experience level.
+--              Counting in the database keeps the profile correct for
+--              companies with more jobs than the API's max rows.
+
+-- =============================================================================
+-- Function: Get Company Job Breakdown
+-- Description: One row per value of each classification column. The three
+--              columns are NOT NULL, so the counts of any one facet add up
+--              to the company's active job count. Companies without active
+--              jobs return no rows.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_company_job_breakdown;
+
+CREATE OR REPLACE FUNCTION get_company_job_breakdown(
+  p_company_id INT
+)
+RETURNS TABLE (
+  facet TEXT,                                               -- Column name, e.g. 'work_mode'
+  value TEXT,                                               -- Enum value, e.g. 'remote'
+  job_count BIGINT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH company_jobs AS (
+    SELECT j.job_function, j.work_mode, j.experience_level
+    FROM jobs j
+    WHERE j.company_id = p_company_id
+      AND j.is_active = true
+  )
+  SELECT 'job_function', cj.job_function::TEXT, COUNT(*)
+  FROM company_jobs cj
+  GROUP BY cj.job_function
+  UNION ALL
+  SELECT 'work_mode', cj.work_mode::TEXT, COUNT(*)
+  FROM company_jobs cj
+  GROUP BY cj.work_mode
+  UNION ALL
+  SELECT 'experience_level', cj.experience_level::TEXT, COUNT(*)
+  FROM company_jobs cj
+  GROUP BY cj.experience_level;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION get_company_job_breakdown IS 'Returns the number of active jobs of a company per job function, work mode and experience level; each facet sums to the active job count';
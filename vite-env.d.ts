@@ -7,6 +7,7 @@ interface ImportMetaEnv {
   readonly VITE_LOG_API_KEY: string
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_PUBLISHABLE_KEY: string
+  readonly VITE_USD_TO_CRC_RATE?: string
 }
 
 interface ImportMeta {